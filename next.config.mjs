@@ -1,4 +1,7 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  // Native modules used by the local NSFW image classifier (src/lib/nsfw-local-provider.ts)
+  serverExternalPackages: ["onnxruntime-node", "sharp"],
+};
 
 export default nextConfig;
@@ -0,0 +1,91 @@
+/**
+ * Corpus check for the keyword scanner and its text normalization
+ *
+ * Every evasion pattern must still be caught, and ordinary messages must not be flagged.
+ *
+ * Usage:
+ *   npm run check:keywords
+ */
+
+import { scanMessage, type KeywordCategory } from "../src/lib/keyword-scanner";
+
+type EvasionCase = { pattern: string; text: string; category: KeywordCategory };
+
+/** Obfuscated messages that must be flagged with the given category */
+const EVASION_CASES: EvasionCase[] = [
+  { pattern: "plain", text: "jeg vil dræbe dig", category: "violence" },
+  { pattern: "inflection", text: "han dræbte katten", category: "violence" },
+  { pattern: "inflection", text: "det er vores hemmelighed", category: "pressure_secrets" },
+  { pattern: "punctuation", text: "vil du have s.e.x", category: "sexual" },
+  { pattern: "punctuation", text: "vil du have s-e-x?", category: "sexual" },
+  { pattern: "punctuation", text: "du er dum,ingen kan lide dig", category: "bullying" },
+  { pattern: "punctuation", text: "jeg hader dig!du er dum", category: "bullying" },
+  { pattern: "spacing", text: "vil du have s e x", category: "sexual" },
+  { pattern: "spacing", text: "send et billede hvor du er n ø g e n", category: "sexual" },
+  { pattern: "leetspeak", text: "send et billede hvor du er n0gen", category: "sexual" },
+  { pattern: "leetspeak", text: "jeg vil dr@ebe dig", category: "violence" },
+  { pattern: "leetspeak", text: "5ex", category: "sexual" },
+  { pattern: "leetspeak", text: "$ex nu", category: "sexual" },
+  { pattern: "zero-width", text: "s\u200Be\u200Bx", category: "sexual" },
+  { pattern: "zero-width", text: "nø\u200Dgen", category: "sexual" },
+  { pattern: "repetition", text: "jeg haaader dig", category: "bullying" },
+  { pattern: "repetition", text: "du er duuuuum", category: "bullying" },
+  { pattern: "repetition", text: "det er vores hemmmmmelighed", category: "pressure_secrets" },
+  { pattern: "digraph", text: "jeg vil slaa dig", category: "violence" },
+  { pattern: "digraph", text: "du er vaerdiloes", category: "bullying" },
+  { pattern: "digraph", text: "moed mig alene", category: "sexual" },
+  { pattern: "diacritic", text: "jeg vil dö", category: "selfworth" },
+  { pattern: "homoglyph", text: "\u0455\u0435\u0445", category: "sexual" },
+  { pattern: "homoglyph", text: "jeg h\u0430der dig", category: "bullying" },
+  { pattern: "case", text: "JEG VIL DØ", category: "selfworth" },
+];
+
+/** Ordinary messages that must not be flagged */
+const BENIGN_CASES: string[] = [
+  "er der nogen hjemme?",
+  "ses vi kl 14 i morgen?",
+  "hej!!! hvordan går det",
+  "vi var til slåskamp-træning",
+  "de har slået op",
+  "jeg står i banken",
+  "hvad skal vi spise i aften",
+  "i år skal vi til Aalborg",
+  "haha det er så sjovt",
+  "kan du hjælpe med matematik opgave 3",
+  "jeg har 10 kroner",
+  "ok, vi ses i skolen",
+  "jeg kommer kl. 15.30",
+  "min bror er 7 år",
+];
+
+let failures = 0;
+
+console.log("🔍 Evasion patterns (must be flagged)\n");
+for (const testCase of EVASION_CASES) {
+  const result = scanMessage(testCase.text);
+  const caught = result.categories.includes(testCase.category);
+  if (!caught) failures++;
+  console.log(
+    `${caught ? "✅" : "❌"} [${testCase.pattern}] ${JSON.stringify(testCase.text)} -> ${
+      result.matches.map((m) => `${m.keyword} (${m.category})`).join(", ") || "no match"
+    }`
+  );
+}
+
+console.log("\n🔍 Ordinary messages (must not be flagged)\n");
+for (const text of BENIGN_CASES) {
+  const result = scanMessage(text);
+  const clean = result.matches.length === 0;
+  if (!clean) failures++;
+  console.log(
+    `${clean ? "✅" : "❌"} ${JSON.stringify(text)}${
+      clean ? "" : ` -> ${result.matches.map((m) => `${m.keyword} (${m.category})`).join(", ")}`
+    }`
+  );
+}
+
+if (failures > 0) {
+  console.error(`\n❌ ${failures} case(s) failed`);
+  process.exit(1);
+}
+console.log("\n✅ All cases passed");
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { getClientId } from "@/lib/child-login-throttle";
+import { redeemChildLoginCode } from "@/lib/child-login";
+
+/**
+ * POST /api/auth/child-login/code
+ * Body: { token: string }
+ * Signs the child in on a new device with a login code from POST /api/parent/child-login-code
+ * (scanned as a QR code). A code works once, within 10 minutes: 401 invalid, 410 used or expired.
+ * 403 with mustChangePin: true while a parent requires a new PIN (the code is not used up).
+ */
+export async function POST(request: NextRequest) {
+  let body: { token?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const token = typeof body.token === "string" ? body.token.trim() : "";
+  if (!token) {
+    return NextResponse.json({ error: "token is required" }, { status: 400 });
+  }
+
+  const result = await redeemChildLoginCode(createServiceRoleClient(), { token, client: getClientId(request) });
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error, mustChangePin: result.mustChangePin }, { status: result.status });
+  }
+
+  return NextResponse.json({ session: result.session, child: result.child });
+}
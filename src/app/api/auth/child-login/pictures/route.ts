@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { getClientId } from "@/lib/child-login-throttle";
+import { signInChildWithPictures } from "@/lib/child-login";
+import { isValidPictureSequence } from "@/lib/picture-password";
+
+/**
+ * POST /api/auth/child-login/pictures
+ * Body: { username: string, pictures: string[] } (picture ids, see picture-password.ts)
+ * Signs the child in with the picture password their parent chose. Answers like
+ * POST /api/auth/child-login, and wrong attempts count towards the same throttle.
+ * 403 with mustChangePin: true while a parent requires a new PIN; the child signs in with the PIN first.
+ */
+export async function POST(request: NextRequest) {
+  let body: { username?: unknown; pictures?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const username = typeof body.username === "string" ? body.username.trim().toLowerCase() : "";
+  if (!username || !isValidPictureSequence(body.pictures)) {
+    return NextResponse.json({ error: "username and a complete picture sequence are required" }, { status: 400 });
+  }
+
+  const result = await signInChildWithPictures(createServiceRoleClient(), {
+    username,
+    pictures: body.pictures,
+    client: getClientId(request),
+  });
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error, locked: result.locked, retryAfter: result.retryAfter, mustChangePin: result.mustChangePin },
+      {
+        status: result.status,
+        headers: result.retryAfter != null ? { "Retry-After": String(result.retryAfter) } : undefined,
+      }
+    );
+  }
+
+  return NextResponse.json({ session: result.session, child: result.child });
+}
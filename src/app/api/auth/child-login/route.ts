@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { getClientId } from "@/lib/child-login-throttle";
+import { signInChild } from "@/lib/child-login";
+
+/**
+ * POST /api/auth/child-login
+ * Body: { username: string, pin: string, newPin?: string }
+ * Signs the child in on the server and returns the session tokens
+ * ({ session: { access_token, refresh_token, ... }, child: { username, firstName } }) for supabase.auth.setSession.
+ * The child's synthetic email is never returned. Wrong attempts are throttled (child-login-throttle.ts):
+ * 401 for a wrong name or PIN, 429 while the next attempt must wait, 423 while locked.
+ * 403 with mustChangePin: true when a parent requires a new PIN; send it again with newPin.
+ */
+export async function POST(request: NextRequest) {
+  let body: { username?: unknown; pin?: unknown; newPin?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const username = typeof body.username === "string" ? body.username.trim().toLowerCase() : "";
+  const pin = typeof body.pin === "string" ? body.pin.trim() : "";
+  const newPin = typeof body.newPin === "string" ? body.newPin : undefined;
+  if (!username || !pin) {
+    return NextResponse.json({ error: "username and pin are required" }, { status: 400 });
+  }
+
+  const result = await signInChild(createServiceRoleClient(), {
+    username,
+    pin,
+    newPin,
+    client: getClientId(request),
+  });
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error, locked: result.locked, retryAfter: result.retryAfter, mustChangePin: result.mustChangePin },
+      {
+        status: result.status,
+        headers: result.retryAfter != null ? { "Retry-After": String(result.retryAfter) } : undefined,
+      }
+    );
+  }
+
+  return NextResponse.json({ session: result.session, child: result.child });
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { getDisplayName, isChildUser } from "@/lib/message-moderation";
+import { PROFILE_COLUMNS, profileFromRow, type ProfileRow } from "@/lib/surveillance-profile";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+/**
+ * GET /api/child/surveillance
+ * For the logged-in child: each linked parent's surveillance level, what it lets the parent see
+ * and when it last changed. Quiet hours are left out - they only concern the parent.
+ */
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const admin = createServiceRoleClient();
+  if (!(await isChildUser(admin, user.id))) {
+    return NextResponse.json({ error: "Only children can view this page" }, { status: 403 });
+  }
+
+  const { data: links, error: linksErr } = await admin
+    .from("parent_child_links")
+    .select(`parent_id, surveillance_changed_at, ${PROFILE_COLUMNS}`)
+    .eq("child_id", user.id)
+    .overrideTypes<(ProfileRow & { parent_id: string; surveillance_changed_at: string | null })[], { merge: false }>();
+  if (linksErr) {
+    if (/surveillance_changed_at|alert_categories|does not exist|schema cache/i.test(linksErr.message)) {
+      return NextResponse.json(
+        { error: "Surveillance columns are missing. Run migrations 039 and 041 in Supabase SQL Editor." },
+        { status: 503 }
+      );
+    }
+    console.error("Error loading surveillance for child:", linksErr);
+    return NextResponse.json({ error: "Error loading surveillance" }, { status: 500 });
+  }
+
+  const parents = await Promise.all(
+    (links ?? []).map(async (row) => {
+      const { quietHours: _quietHours, ...profile } = profileFromRow(row);
+      return {
+        parentName: await getDisplayName(admin, row.parent_id, "Din forælder"),
+        surveillanceLevel: row.surveillance_level ?? "medium",
+        profile,
+        changedAt: row.surveillance_changed_at,
+      };
+    })
+  );
+
+  return NextResponse.json({ parents });
+}
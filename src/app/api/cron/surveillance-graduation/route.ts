@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { runGraduations } from "@/lib/surveillance-graduation";
+
+/**
+ * GET /api/cron/surveillance-graduation
+ * Runs the age-based surveillance schedules (src/lib/surveillance-graduation.ts).
+ * Called daily by Vercel Cron (vercel.json), which sends Authorization: Bearer <CRON_SECRET>.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "Server missing CRON_SECRET" }, { status: 503 });
+  }
+  const token = request.headers.get("authorization")?.replace("Bearer ", "").trim();
+  if (token !== secret) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await runGraduations(createServiceRoleClient());
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  console.log("✅ [Graduation] Daily run:", result);
+  return NextResponse.json({ ok: true, ...result });
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { createServiceRoleClient } from "@/lib/supabase-server";
+import { recordAuditEvents } from "@/lib/surveillance-audit";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
@@ -9,6 +10,7 @@ const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
  * POST /api/invitation/approve-bidirectional
  * Creates bidirectional approvals for both children when either parent accepts.
  * Body: { inviting_child_id: string, invited_child_id: string, accepting_parent_id: string }
+ * New approvals are recorded in the surveillance audit log of each child.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -107,6 +109,21 @@ export async function POST(request: NextRequest) {
       console.log("Approved Child A → Child B");
     }
 
+    await recordAuditEvents(admin, [
+      ...(errB ? [] : [{
+        childId: invitedChildId,
+        actorId: caller.id,
+        action: "contact_approved" as const,
+        details: { contactId: invitingChildId, via: "invitation" },
+      }]),
+      ...(errA ? [] : [{
+        childId: invitingChildId,
+        actorId: caller.id,
+        action: "contact_approved" as const,
+        details: { contactId: invitedChildId, via: "invitation" },
+      }]),
+    ]);
+
     console.log(`Bidirectional approval created: Child A (${invitingChildId}) ↔ Child B (${invitedChildId})`);
 
     return NextResponse.json({ ok: true });
@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServiceRoleClient } from "@/lib/supabase-server";
-import { verifyInviteToken } from "@/lib/invite-token";
+import { checkChildInvite, claimChildInvite, finishChildInvite, releaseChildInvite } from "@/lib/child-invites";
+import { getClientId } from "@/lib/child-login-throttle";
+import { signInChild } from "@/lib/child-login";
 
 /**
  * GET /api/invite/child/[token]
- * Validates the invite token and returns the child's first name and email (synthetic)
- * so the client can show "Welcome {first_name}" and sign in with email + PIN.
+ * Validates the invite token and returns the child's first name,
+ * so the client can show "Welcome {first_name}" before the child enters their PIN.
+ * 404 for an invalid or expired link, 410 for one that was used or cancelled.
  */
 export async function GET(
   _request: NextRequest,
@@ -16,16 +19,16 @@ export async function GET(
     return NextResponse.json({ error: "Missing token" }, { status: 400 });
   }
 
-  const payload = verifyInviteToken(token);
-  if (!payload) {
-    return NextResponse.json({ error: "Invalid or expired invitation link" }, { status: 404 });
+  const supabase = createServiceRoleClient();
+  const invite = await checkChildInvite(supabase, token);
+  if ("error" in invite) {
+    return NextResponse.json({ error: invite.error }, { status: invite.status });
   }
 
-  const supabase = createServiceRoleClient();
   const { data: user, error } = await supabase
     .from("users")
-    .select("id, email, first_name, username")
-    .eq("id", payload.child_id)
+    .select("id, first_name, username")
+    .eq("id", invite.childId)
     .maybeSingle();
 
   if (error) {
@@ -44,6 +47,77 @@ export async function GET(
   const first_name = (user as { first_name?: string }).first_name ?? (user as { username?: string }).username ?? "your child";
   return NextResponse.json({
     first_name: String(first_name).trim() || "your child",
-    email: user.email,
   });
 }
+
+/**
+ * POST /api/invite/child/[token]
+ * Body: { pin: string, newPin?: string }
+ * Signs in the invited child with their PIN and returns the session tokens, like POST /api/auth/child-login.
+ * The first successful sign-in uses up the link and records the device (IP address and user agent).
+ * The link is claimed before signing in, so a revoked link or a parallel attempt never gets a session
+ * (410); a failed sign-in gives it back.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  if (!token) {
+    return NextResponse.json({ error: "Missing token" }, { status: 400 });
+  }
+
+  let body: { pin?: unknown; newPin?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const pin = typeof body.pin === "string" ? body.pin.trim() : "";
+  const newPin = typeof body.newPin === "string" ? body.newPin : undefined;
+  if (!pin) {
+    return NextResponse.json({ error: "pin is required" }, { status: 400 });
+  }
+
+  const supabase = createServiceRoleClient();
+  const invite = await checkChildInvite(supabase, token);
+  if ("error" in invite) {
+    return NextResponse.json({ error: invite.error }, { status: invite.status });
+  }
+
+  const { data: user } = await supabase
+    .from("users")
+    .select("username")
+    .eq("id", invite.childId)
+    .maybeSingle();
+  if (!user?.username) {
+    return NextResponse.json({ error: "Child account not found" }, { status: 404 });
+  }
+
+  // Only one attempt holds the link while it signs in; it is given back if the sign-in fails
+  const client = getClientId(request);
+  const claim = await claimChildInvite(supabase, invite.inviteId, {
+    client,
+    userAgent: request.headers.get("user-agent"),
+  });
+  if ("error" in claim) {
+    return NextResponse.json({ error: claim.error }, { status: claim.status });
+  }
+
+  const result = await signInChild(supabase, {
+    username: user.username,
+    pin,
+    newPin,
+    client,
+  });
+  if ("error" in result) {
+    await releaseChildInvite(supabase, claim);
+    return NextResponse.json(
+      { error: result.error, locked: result.locked, retryAfter: result.retryAfter, mustChangePin: result.mustChangePin },
+      { status: result.status }
+    );
+  }
+
+  await finishChildInvite(supabase, claim);
+  return NextResponse.json({ session: result.session, child: result.child });
+}
@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { decideMessageHold, formatHoldReason } from "@/lib/message-hold";
+import { detectNSFW, type NSFWDetectionResult } from "@/lib/nsfw-detector";
+import { getImageReviewers } from "@/lib/image-review";
+import { sendNotificationToMany } from "@/lib/sikker-chat";
+import { renderMessageHeld } from "@/lib/notification-templates";
+import { isContactBlocked } from "@/lib/sikker-alerts";
+import { escalateSelfHarm, type SelfHarmEscalation } from "@/lib/self-harm";
+import {
+  getDisplayName,
+  getMessageAudience,
+  isChatMember,
+  isChildUser,
+  moderateImageMessage,
+  moderateTextMessage,
+  type ImageModerationResult,
+  type StoredMessage,
+  type TextModerationResult,
+} from "@/lib/message-moderation";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+/** Storage bucket for chat attachments (uploaded by the client before sending) */
+const BUCKET = "chat-media";
+
+const MESSAGE_COLUMNS = "id, chat_id, sender_id, content, created_at, attachment_url, attachment_type, attachment_review_status, delivery_status";
+
+/** Attachments must be files uploaded to this chat's folder in the chat-media bucket */
+function isChatAttachmentUrl(url: string, chatId: string): boolean {
+  if (!supabaseUrl) return false;
+  const prefix = `${supabaseUrl.replace(/\/$/, "")}/storage/v1/object/public/${BUCKET}/${chatId}/`;
+  return url.startsWith(prefix) && !url.slice(prefix.length).includes("..");
+}
+
+/**
+ * POST /api/messages/send
+ * Sends a message (text and/or an uploaded attachment) on behalf of the signed-in user.
+ * This is the only way clients send chat messages: it checks chat membership (and blocked contacts, also among the
+ * other children of a group), stores the message and runs moderation before returning:
+ * - risky text to or from children whose parents hold risky messages is held until a parent releases it (message-hold.ts);
+ *   in a group, one child whose parent holds risky messages holds the message for the whole group
+ * - text from children is scanned for keywords and grooming patterns, images for NSFW content (message-moderation.ts)
+ * - self-harm statements from children are escalated to their own parents (self-harm.ts)
+ * - parents are notified through Sikker chat
+ *
+ * Headers: Authorization: Bearer <token>
+ * Body: { chatId: string, content?: string, attachmentUrl?: string, attachmentType?: string }
+ */
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { chatId?: string; content?: string; attachmentUrl?: string; attachmentType?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const chatId = typeof body.chatId === "string" ? body.chatId : "";
+  const content = typeof body.content === "string" ? body.content.trim() : "";
+  const attachmentUrl = typeof body.attachmentUrl === "string" && body.attachmentUrl ? body.attachmentUrl : null;
+  const attachmentType = attachmentUrl && typeof body.attachmentType === "string" ? body.attachmentType : null;
+
+  if (!chatId || (!content && !attachmentUrl)) {
+    return NextResponse.json({ error: "chatId and content or attachmentUrl are required" }, { status: 400 });
+  }
+  if (attachmentUrl && !isChatAttachmentUrl(attachmentUrl, chatId)) {
+    return NextResponse.json({ error: "Invalid attachment URL" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+
+  if (!(await isChatMember(admin, chatId, user.id))) {
+    return NextResponse.json({ error: "Chat not found or access denied" }, { status: 403 });
+  }
+
+  // The other participant of a 1:1 chat, or the other children of a group
+  const audience = await getMessageAudience(admin, chatId, user.id);
+  const recipientId = audience.groupId ? null : audience.recipientChildIds[0] ?? null;
+  const blocked = await Promise.all(audience.recipientChildIds.map((id) => isContactBlocked(admin, user.id, id)));
+  if (blocked.some(Boolean)) {
+    return NextResponse.json(
+      { error: audience.groupId ? "En kontakt i gruppen er blokeret af en forælder" : "Kontakten er blokeret af en forælder" },
+      { status: 403 }
+    );
+  }
+  const senderIsChild = await isChildUser(admin, user.id);
+  const isImage = !!attachmentUrl && (attachmentType?.startsWith("image/") ?? false);
+
+  // Pre-delivery checks, so the message is stored in its final visible state
+  const hold = await decideMessageHold(admin, { senderId: user.id, recipientIds: audience.recipientChildIds, content });
+
+  let detection: NSFWDetectionResult | undefined;
+  let hideAttachment = false;
+  if (senderIsChild && isImage && attachmentUrl) {
+    detection = await detectNSFW(attachmentUrl);
+    hideAttachment = (await getImageReviewers(admin, audience.recipientChildIds, !!detection.scanFailed)).size > 0;
+  }
+
+  const { data: inserted, error: insertErr } = await admin
+    .from("messages")
+    .insert({
+      chat_id: chatId,
+      sender_id: user.id,
+      content,
+      attachment_url: hideAttachment ? null : attachmentUrl,
+      attachment_type: attachmentType,
+      attachment_review_status: hideAttachment ? "pending_review" : null,
+      delivery_status: hold.held ? "held" : "delivered",
+      hold_reason: hold.held && hold.match ? formatHoldReason(hold.match) : null,
+    })
+    .select(MESSAGE_COLUMNS)
+    .single();
+
+  if (insertErr || !inserted) {
+    console.error("Error inserting message:", insertErr);
+    return NextResponse.json({ error: insertErr?.message ?? "Failed to send message" }, { status: 500 });
+  }
+
+  const stored: StoredMessage = { ...inserted, attachment_url: inserted.attachment_url ?? null };
+
+  if (hold.held && hold.match) {
+    console.log(`⚠️ [Message Hold] Message ${inserted.id} from ${user.id} held for parent review: ${formatHoldReason(hold.match)}`);
+
+    try {
+      const senderName = await getDisplayName(admin, user.id, "Et barn");
+      const recipientName = recipientId
+        ? await getDisplayName(admin, recipientId, "et andet barn")
+        : audience.groupName ? `gruppen "${audience.groupName}"` : "gruppen";
+      await sendNotificationToMany(
+        admin,
+        hold.reviewerParentIds,
+        renderMessageHeld({ senderName, recipientName, match: hold.match }),
+        {
+          dedupKey: `hold:${inserted.id}`,
+          alert: {
+            childId: user.id,
+            counterpartId: recipientId,
+            category: hold.match.category,
+            messageId: inserted.id,
+            chatId,
+          },
+          logPrefix: "[Message Hold]",
+        }
+      );
+    } catch (notifyError) {
+      // The message is held either way - a failed notification must not fail the send
+      console.error("⚠️ [Message Hold] Error notifying parents:", notifyError);
+    }
+  }
+
+  // Moderation: scan ALL messages from children, regardless of the sender's parent surveillance level,
+  // because the RECIPIENT's parents might be alerted about it
+  let textModeration: TextModerationResult | null = null;
+  let imageModeration: ImageModerationResult | null = null;
+  let selfHarm: SelfHarmEscalation | null = null;
+  if (senderIsChild) {
+    if (content) {
+      // Escalated on its own path, so a failure in normal moderation can't stop it
+      try {
+        selfHarm = await escalateSelfHarm(admin, stored);
+      } catch (selfHarmError) {
+        console.error("⚠️ [Self-harm] Error escalating message:", selfHarmError);
+      }
+    }
+    try {
+      if (content) {
+        textModeration = await moderateTextMessage(admin, stored);
+      }
+      if (isImage && attachmentUrl) {
+        imageModeration = await moderateImageMessage(admin, stored, {
+          detection,
+          attachment: { url: attachmentUrl, type: attachmentType },
+        });
+      }
+    } catch (moderationError) {
+      // The message is stored - report the moderation failure but don't fail the send
+      console.error("⚠️ [Moderation] Error moderating sent message:", moderationError);
+    }
+  }
+
+  // Return the message as stored now (moderation may have hidden the image)
+  const { data: message } = await admin
+    .from("messages")
+    .select(MESSAGE_COLUMNS)
+    .eq("id", inserted.id)
+    .maybeSingle();
+
+  return NextResponse.json({
+    ok: true,
+    held: hold.held,
+    message: message ?? inserted,
+    moderation: { text: textModeration, image: imageModeration },
+    support: selfHarm?.escalated ? { helplineMessage: selfHarm.helplineMessage } : null,
+  });
+}
@@ -1,73 +1,118 @@
 import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
 import { createServiceRoleClient } from "@/lib/supabase-server";
+import { getMessageAudience, isChatMember, loadStoredMessage } from "@/lib/message-moderation";
+import { recordModerationEvents, REPORT_SEVERITY, REPORTED_CATEGORY } from "@/lib/moderation-events";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+/** Chat members can report messages, and so can parents of a child in the chat */
+async function canReport(
+  admin: ReturnType<typeof createServiceRoleClient>,
+  userId: string,
+  message: { chat_id: string; sender_id: string }
+): Promise<boolean> {
+  if (await isChatMember(admin, message.chat_id, userId)) return true;
+
+  const audience = await getMessageAudience(admin, message.chat_id, message.sender_id);
+  const memberIds = [message.sender_id, ...audience.recipientChildIds];
+  const { data: links } = await admin
+    .from("parent_child_links")
+    .select("child_id")
+    .eq("parent_id", userId)
+    .in("child_id", memberIds)
+    .limit(1);
+  return !!links && links.length > 0;
+}
 
 /**
- * API for moderation/notification when a message is flagged.
- * Called after a flag is inserted (e.g. from the frontend or system).
- * Supports both user-generated flags and system-generated flags (from image/text scanning).
- * 
+ * API for reporting a message (the Flag button in the chat).
+ * Records a user_report moderation event (migration 036) for the signed-in user.
+ * Scanner events (keywords, images, grooming patterns) are recorded by src/lib/message-moderation.ts.
+ *
  * POST /api/moderation/flag
- * Body: { message_id: string, flagged_by: string, reason?: string | null }
+ * Headers: Authorization: Bearer <token> (a member of the message's chat, or a parent of one)
+ * Body: { message_id: string, reason?: string | null }
  */
 export async function POST(request: NextRequest) {
-  let body: { message_id?: string; flagged_by?: string; reason?: string | null };
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { message_id?: unknown; reason?: unknown };
   try {
     body = await request.json();
   } catch {
     return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
   }
 
-  const { message_id, flagged_by, reason } = body;
+  const message_id = typeof body.message_id === "string" ? body.message_id : "";
+  const reason = typeof body.reason === "string" ? body.reason.trim() || null : null;
 
   // Validate required fields
-  if (!message_id || !flagged_by) {
+  if (!message_id) {
     return NextResponse.json(
-      { error: "Missing required fields: message_id and flagged_by" },
+      { error: "Missing required field: message_id" },
       { status: 400 }
     );
   }
 
   const admin = createServiceRoleClient();
 
-  // Insert flag into database (if not already exists)
-  // Check if flag already exists for this message from this user
-  const { data: existingFlag } = await admin
-    .from("flags")
-    .select("id")
-    .eq("message_id", message_id)
-    .eq("flagged_by", flagged_by)
-    .maybeSingle();
+  const message = await loadStoredMessage(admin, message_id);
+  if (!message) {
+    return NextResponse.json({ error: "Message not found" }, { status: 404 });
+  }
+  if (!(await canReport(admin, user.id, message))) {
+    return NextResponse.json({ error: "Access denied" }, { status: 403 });
+  }
+
+  const { groupId } = await getMessageAudience(admin, message.chat_id, message.sender_id);
 
-  if (!existingFlag) {
-    // Insert new flag
-    const { error: insertError } = await admin.from("flags").insert({
+  // One report per user and message (dedup_key is the reporter)
+  const recorded = await recordModerationEvents(admin, [
+    {
       message_id,
-      flagged_by,
-      reason: reason || null,
-    });
+      chat_id: message.chat_id,
+      group_id: groupId,
+      source: "user_report",
+      sender_id: message.sender_id,
+      reported_by: user.id,
+      category: REPORTED_CATEGORY,
+      reason,
+      dedup_key: user.id,
+      severity: REPORT_SEVERITY,
+    },
+  ]);
 
-    if (insertError) {
-      console.error("[moderation/flag] Failed to insert flag:", insertError);
-      return NextResponse.json(
-        { error: "Failed to create flag", details: insertError.message },
-        { status: 500 }
-      );
-    }
+  if ("error" in recorded) {
+    console.error("[moderation/flag] Failed to record report:", recorded.error);
+    return NextResponse.json(
+      { error: "Failed to create flag", details: recorded.error },
+      { status: 500 }
+    );
   }
 
   // Log the flag
   if (process.env.NODE_ENV !== "test") {
     console.log("[moderation/flag]", {
       message_id,
-      flagged_by,
+      reported_by: user.id,
       reason: reason ?? "(no reason)",
       at: new Date().toISOString(),
-      isSystemFlag: flagged_by === "13afd8bf-90a6-49b9-b38e-49c8274ac157", // Sikker Chat user ID
     });
   }
 
-  // Note: Parent notifications are handled by the scanning APIs (scan-and-flag, scan-image)
-  // This endpoint is primarily for logging and ensuring flags are created
+  // Note: Parent notifications are handled by the scanning paths (message-moderation.ts)
+  // This endpoint only records the report
 
   return NextResponse.json({ ok: true, flagged: true });
 }
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import {
+  blockContactFromAlert,
+  isContactBlocked,
+  markAlertReviewed,
+  type SikkerAlertRow,
+} from "@/lib/sikker-alerts";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+/** Resolve the parent from the Authorization header (null if missing or invalid) */
+async function getParentUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) return null;
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) return null;
+  return user;
+}
+
+/**
+ * GET /api/parent/alerts
+ * Lists the parent's Sikker chat alerts, newest first, with what the alert card needs:
+ * child_name, counterpart_name, view_path (where "Se samtalen" leads; null for group chats,
+ * which parents can't open) and contact_blocked.
+ * Query: ?status=open|reviewed (optional), ?messageIds=<id>,<id> (alerts carried by these chat messages)
+ */
+export async function GET(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const status = request.nextUrl.searchParams.get("status");
+  const messageIds = (request.nextUrl.searchParams.get("messageIds") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  const admin = createServiceRoleClient();
+  let query = admin
+    .from("sikker_alerts")
+    .select("*")
+    .eq("recipient_id", user.id)
+    .order("created_at", { ascending: false });
+  if (status === "open" || status === "reviewed") query = query.eq("status", status);
+  if (messageIds.length > 0) query = query.in("message_id", messageIds);
+
+  const { data: alerts, error } = await query;
+  if (error) {
+    console.error("Error loading alerts:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const rows = (alerts ?? []) as SikkerAlertRow[];
+  const userIds = new Set<string>();
+  const chatIds = new Set<string>();
+  for (const a of rows) {
+    if (a.child_id) userIds.add(a.child_id);
+    if (a.counterpart_id) userIds.add(a.counterpart_id);
+    if (a.flagged_chat_id) chatIds.add(a.flagged_chat_id);
+  }
+
+  const [{ data: users }, { data: chats }] = await Promise.all([
+    userIds.size > 0
+      ? admin.from("users").select("id, first_name, surname, username").in("id", Array.from(userIds))
+      : Promise.resolve({ data: [] as { id: string; first_name: string | null; surname: string | null; username: string | null }[] }),
+    chatIds.size > 0
+      ? admin.from("chats").select("id, group_id").in("id", Array.from(chatIds))
+      : Promise.resolve({ data: [] as { id: string; group_id: string | null }[] }),
+  ]);
+  const namesById = new Map(
+    (users ?? []).map((u) => [
+      u.id,
+      u.first_name && u.surname ? `${u.first_name} ${u.surname}` : u.username || "Ukendt",
+    ])
+  );
+  const groupChatIds = new Set((chats ?? []).filter((c) => c.group_id).map((c) => c.id));
+
+  const enriched = await Promise.all(
+    rows.map(async (a) => ({
+      ...a,
+      child_name: a.child_id ? namesById.get(a.child_id) ?? "Ukendt" : null,
+      counterpart_name: a.counterpart_id ? namesById.get(a.counterpart_id) ?? "Ukendt" : null,
+      view_path:
+        a.kind === "message_held"
+          ? "/parent/held-messages"
+          : a.kind === "moderation_escalated"
+            ? "/parent/moderation"
+            : a.flagged_chat_id && !groupChatIds.has(a.flagged_chat_id)
+              ? `/chats/${a.flagged_chat_id}`
+              : null,
+      contact_blocked:
+        a.child_id && a.counterpart_id ? await isContactBlocked(admin, a.child_id, a.counterpart_id) : false,
+    }))
+  );
+
+  return NextResponse.json({ alerts: enriched });
+}
+
+/**
+ * POST /api/parent/alerts
+ * Acts on an alert: marks it reviewed, or blocks the contact for the parent's child (and marks it reviewed).
+ * Body: { alertId: string, action: "review" | "block_contact" }
+ */
+export async function POST(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { alertId?: string; action?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { alertId, action } = body;
+  if (!alertId || (action !== "review" && action !== "block_contact")) {
+    return NextResponse.json({ error: "alertId and action ('review' or 'block_contact') are required" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+
+  const { data: alert } = await admin
+    .from("sikker_alerts")
+    .select("*")
+    .eq("id", alertId)
+    .maybeSingle();
+  if (!alert || alert.recipient_id !== user.id) {
+    return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+  }
+
+  if (action === "review") {
+    const result = await markAlertReviewed(admin, alert as SikkerAlertRow);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+    return NextResponse.json({ ok: true, status: "reviewed" });
+  }
+
+  const result = await blockContactFromAlert(admin, user.id, alert as SikkerAlertRow);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 403 });
+  }
+
+  console.log(`✅ [Alerts] Parent ${user.id} blocked ${result.blockedUserId} for child ${result.childId} (alert ${alertId})`);
+
+  return NextResponse.json({ ok: true, status: "reviewed", blocked: true });
+}
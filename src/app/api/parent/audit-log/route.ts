@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { listAuditEvents } from "@/lib/surveillance-audit";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+/** Resolve the parent from the Authorization header (null if missing or invalid) */
+async function getParentUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) return null;
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) return null;
+  return user;
+}
+
+/**
+ * GET /api/parent/audit-log?childId=...&before=...
+ * The surveillance audit log of the parent's children (both co-parents see the same entries),
+ * newest first, with names for the children, actors and contacts in the entries.
+ * Entries are only written by the server, where the actions happen - there is no way to add one here.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const admin = createServiceRoleClient();
+  const result = await listAuditEvents(admin, user.id, {
+    childId: searchParams.get("childId") ?? undefined,
+    before: searchParams.get("before") ?? undefined,
+  });
+  if ("error" in result) {
+    if (/surveillance_audit_log|does not exist|schema cache/i.test(result.error)) {
+      return NextResponse.json(
+        { error: "The audit log is missing. Run supabase/migrations/042_surveillance_audit_log.sql in Supabase SQL Editor." },
+        { status: 503 }
+      );
+    }
+    console.error("Error loading audit log:", result.error);
+    return NextResponse.json({ error: "Error loading audit log" }, { status: 500 });
+  }
+
+  const userIds = new Set<string>();
+  for (const entry of result.entries) {
+    userIds.add(entry.child_id);
+    if (entry.actor_id) userIds.add(entry.actor_id);
+    for (const key of ["contactId", "otherUserId"]) {
+      if (typeof entry.details[key] === "string") userIds.add(entry.details[key] as string);
+    }
+  }
+  const names: Record<string, string> = {};
+  if (userIds.size > 0) {
+    const { data: users } = await admin
+      .from("users")
+      .select("id, first_name, surname, username, email")
+      .in("id", Array.from(userIds));
+    for (const u of users ?? []) {
+      names[u.id] = u.first_name && u.surname ? `${u.first_name} ${u.surname}` : u.username || u.email || "Ukendt";
+    }
+  }
+
+  return NextResponse.json({ entries: result.entries, names });
+}
@@ -1,15 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
 import { createServiceRoleClient } from "@/lib/supabase-server";
+import { getContextWindowSize, loadRedactedTranscript } from "@/lib/context-window";
+import { recordAuditEvent } from "@/lib/surveillance-audit";
+import { READ_ACCESS_SCOPES, type ReadAccess } from "@/lib/surveillance-profile";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
 
 /**
  * GET /api/parent/check-flagged-messages
- * Check if there are any flagged messages in a chat for a parent with medium surveillance level
+ * Check if there are any flagged messages in a chat for a parent with flagged-only read access
  * Uses service role to bypass RLS and check directly
- * Query params: chatId, parentId
+ * Query params: chatId, transcript=1 (optional)
+ *
+ * With transcript=1 a parent with flagged-only read access (the medium preset, see
+ * surveillance-profile.ts) also gets the redacted transcript of the chat: the messages within the
+ * context window around each flagged message, and counts for the messages left out
+ * (see src/lib/context-window.ts). Parents with full access read the chat directly;
+ * parents without read access get no transcript. Serving a transcript is recorded in the surveillance audit log.
  */
 export async function GET(request: NextRequest) {
   const authHeader = request.headers.get("authorization");
@@ -26,73 +35,63 @@ export async function GET(request: NextRequest) {
 
   const { searchParams } = new URL(request.url);
   const chatId = searchParams.get("chatId");
-  const parentId = searchParams.get("parentId");
+  const wantsTranscript = searchParams.get("transcript") === "1";
 
-  if (!chatId || !parentId) {
-    return NextResponse.json({ error: "Missing chatId or parentId" }, { status: 400 });
+  if (!chatId) {
+    return NextResponse.json({ error: "Missing chatId" }, { status: 400 });
   }
 
   // Use service role to bypass RLS
   const admin = createServiceRoleClient();
 
   try {
-    // Get all messages in the chat
-    const { data: messages, error: messagesErr } = await admin
-      .from("messages")
-      .select("id")
-      .eq("chat_id", chatId)
-      .limit(100);
-
-    if (messagesErr) {
-      console.error("Error fetching messages:", messagesErr);
-      return NextResponse.json({ error: "Error fetching messages" }, { status: 500 });
-    }
+    // Get chat participants
+    const { data: chat, error: chatErr } = await admin
+      .from("chats")
+      .select("user1_id, user2_id")
+      .eq("id", chatId)
+      .maybeSingle();
 
-    if (!messages || messages.length === 0) {
-      return NextResponse.json({ hasFlaggedMessages: false, messageCount: 0 });
+    if (chatErr || !chat) {
+      console.error("Error fetching chat:", chatErr);
+      return NextResponse.json({ error: "Error fetching chat" }, { status: 500 });
     }
 
-    const messageIds = messages.map(m => m.id);
-
-    // Get parent's child ID
-    const { data: parentLink, error: linkErr } = await admin
+    // The signed-in parent's links to the children in this chat (both, if the parent has both): the most
+    // permissive read access decides, like public.parent_can_read_chat (migration 039)
+    const { data: parentLinks, error: linkErr } = await admin
       .from("parent_child_links")
-      .select("child_id")
-      .eq("parent_id", parentId)
-      .limit(1)
-      .maybeSingle();
+      .select("child_id, surveillance_level, read_access")
+      .eq("parent_id", user.id)
+      .in("child_id", [chat.user1_id, chat.user2_id]);
 
     if (linkErr) {
       console.error("Error fetching parent link:", linkErr);
       return NextResponse.json({ error: "Error fetching parent link" }, { status: 500 });
     }
 
+    const accessRank = (access: string) => {
+      const rank = READ_ACCESS_SCOPES.indexOf(access as ReadAccess);
+      return rank === -1 ? READ_ACCESS_SCOPES.length : rank;
+    };
+    const [parentLink] = (parentLinks ?? []).sort(
+      (a, b) => accessRank(a.read_access) - accessRank(b.read_access) || a.child_id.localeCompare(b.child_id)
+    );
+
     if (!parentLink) {
       return NextResponse.json({ hasFlaggedMessages: false, reason: "No parent link found" });
     }
 
     const childId = parentLink.child_id;
-
-    // Get chat participants
-    const { data: chat, error: chatErr } = await admin
-      .from("chats")
-      .select("user1_id, user2_id")
-      .eq("id", chatId)
-      .maybeSingle();
-
-    if (chatErr || !chat) {
-      console.error("Error fetching chat:", chatErr);
-      return NextResponse.json({ error: "Error fetching chat" }, { status: 500 });
-    }
-
     const otherChildId = chat.user1_id === childId ? chat.user2_id : chat.user1_id;
 
-    // Check for flagged messages - check both children
+    // Check for moderation events in the chat that weren't dismissed as false positives -
+    // the same rule as public.parent_can_read_chat (migration 037)
     const { data: flaggedMessages, error: flaggedErr } = await admin
-      .from("flagged_messages")
-      .select("id, message_id, child_id, matched_keyword")
-      .in("message_id", messageIds)
-      .in("child_id", [childId, otherChildId])
+      .from("moderation_events")
+      .select("id, message_id, sender_id, matched_keyword")
+      .eq("chat_id", chatId)
+      .neq("status", "dismissed")
       .limit(10);
 
     if (flaggedErr) {
@@ -104,18 +103,41 @@ export async function GET(request: NextRequest) {
 
     console.log("🔍 [API] Check flagged messages result:", {
       chatId,
-      parentId,
+      parentId: user.id,
       childId,
       otherChildId,
-      messageCount: messageIds.length,
       flaggedCount: flaggedMessages?.length || 0,
       hasFlaggedMessages
     });
 
+    if (!wantsTranscript || parentLink.read_access !== "flagged" || !hasFlaggedMessages) {
+      return NextResponse.json({
+        hasFlaggedMessages,
+        flaggedCount: flaggedMessages?.length || 0,
+        surveillanceLevel: parentLink.surveillance_level,
+        readAccess: parentLink.read_access,
+      });
+    }
+
+    const transcript = await loadRedactedTranscript(admin, chatId, getContextWindowSize());
+    if ("error" in transcript) {
+      return NextResponse.json({ error: "Error loading transcript" }, { status: 500 });
+    }
+
+    await recordAuditEvent(admin, {
+      childId,
+      actorId: user.id,
+      action: "transcript_read",
+      details: { chatId, otherUserId: otherChildId },
+    });
+
     return NextResponse.json({
       hasFlaggedMessages,
       flaggedCount: flaggedMessages?.length || 0,
-      messageCount: messageIds.length
+      messageCount: transcript.totalMessages,
+      surveillanceLevel: parentLink.surveillance_level,
+      readAccess: parentLink.read_access,
+      transcript,
     });
 
   } catch (error) {
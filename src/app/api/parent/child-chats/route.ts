@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { recordChatRead } from "@/lib/surveillance-audit";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+const MESSAGE_COLUMNS =
+  "id, chat_id, sender_id, content, created_at, attachment_url, attachment_type, attachment_review_status, delivery_status, message_type";
+
+/** Resolve the parent from the Authorization header (null if missing or invalid) */
+async function getParentUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) return null;
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) return null;
+  return user;
+}
+
+/**
+ * GET /api/parent/child-chats
+ * Messages of a linked child's chats, for a parent with full read access. RLS doesn't let parents read
+ * their children's messages (migration 047), so every read goes through here and is recorded in the
+ * surveillance audit log.
+ * Query params: childId, chatId (optional), after (optional ISO timestamp)
+ * - with chatId: the chat's messages, oldest first (only those newer than after, when polling)
+ * - without: the last message of each of the child's chats, without its content (for the chat list)
+ */
+export async function GET(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const childId = searchParams.get("childId");
+  const chatId = searchParams.get("chatId");
+  const after = searchParams.get("after");
+  if (!childId) {
+    return NextResponse.json({ error: "Missing childId" }, { status: 400 });
+  }
+  if (after && Number.isNaN(Date.parse(after))) {
+    return NextResponse.json({ error: "after must be a date" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+  const { data: link } = await admin
+    .from("parent_child_links")
+    .select("read_access")
+    .eq("parent_id", user.id)
+    .eq("child_id", childId)
+    .maybeSingle();
+  if (!link || link.read_access !== "full") {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  if (!chatId) {
+    const { data: chats, error: chatsErr } = await admin
+      .from("chats")
+      .select("id")
+      .is("group_id", null)
+      .or(`user1_id.eq.${childId},user2_id.eq.${childId}`);
+    if (chatsErr) {
+      console.error("Error loading child chats:", chatsErr);
+      return NextResponse.json({ error: "Error loading chats" }, { status: 500 });
+    }
+    const chatIds = (chats ?? []).map((c) => c.id as string);
+    if (chatIds.length === 0) {
+      return NextResponse.json({ lastMessages: [] });
+    }
+
+    const { data: messages, error: messagesErr } = await admin
+      .from("messages")
+      .select("chat_id, sender_id, created_at")
+      .in("chat_id", chatIds)
+      .order("created_at", { ascending: false });
+    if (messagesErr) {
+      console.error("Error loading last messages:", messagesErr);
+      return NextResponse.json({ error: "Error loading messages" }, { status: 500 });
+    }
+    const lastByChat = new Map<string, { chat_id: string; sender_id: string; created_at: string }>();
+    for (const m of messages ?? []) {
+      if (!lastByChat.has(m.chat_id)) lastByChat.set(m.chat_id, m);
+    }
+    return NextResponse.json({ lastMessages: Array.from(lastByChat.values()) });
+  }
+
+  const { data: chat } = await admin
+    .from("chats")
+    .select("user1_id, user2_id, group_id")
+    .eq("id", chatId)
+    .maybeSingle();
+  if (!chat || chat.group_id || (chat.user1_id !== childId && chat.user2_id !== childId)) {
+    return NextResponse.json({ error: "This chat does not belong to this child" }, { status: 404 });
+  }
+
+  let query = admin
+    .from("messages")
+    .select(MESSAGE_COLUMNS)
+    .eq("chat_id", chatId)
+    .order("created_at", { ascending: true });
+  if (after) query = query.gt("created_at", after);
+  const { data: messages, error: messagesErr } = await query;
+  if (messagesErr) {
+    console.error("Error loading chat messages:", messagesErr);
+    return NextResponse.json({ error: "Error loading messages" }, { status: 500 });
+  }
+
+  await recordChatRead(admin, {
+    childId,
+    actorId: user.id,
+    chatId,
+    otherUserId: chat.user1_id === childId ? chat.user2_id : chat.user1_id,
+  });
+  return NextResponse.json({ messages: messages ?? [] });
+}
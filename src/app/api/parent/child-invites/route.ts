@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import {
+  MAX_INVITE_DAYS,
+  MIN_INVITE_DAYS,
+  createChildInvite,
+  inviteStatus,
+  listChildInvites,
+  revokeChildInvite,
+  type ChildInvite,
+} from "@/lib/child-invites";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000";
+
+/** Resolve the parent from the Authorization header (null if missing or invalid) */
+async function getParentUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) return null;
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) return null;
+  return user;
+}
+
+/** Check that the parent is linked to the child */
+async function isLinkedChild(admin: ReturnType<typeof createServiceRoleClient>, parentId: string, childId: string) {
+  const { data: link } = await admin
+    .from("parent_child_links")
+    .select("id")
+    .eq("parent_id", parentId)
+    .eq("child_id", childId)
+    .maybeSingle();
+  return !!link;
+}
+
+function toResponse(invite: ChildInvite) {
+  return {
+    id: invite.id,
+    status: inviteStatus(invite),
+    createdBy: invite.created_by,
+    createdAt: invite.created_at,
+    expiresAt: invite.expires_at,
+    revokedAt: invite.revoked_at,
+    redeemedAt: invite.redeemed_at,
+    redeemedByClient: invite.redeemed_by_client,
+    redeemedUserAgent: invite.redeemed_user_agent,
+  };
+}
+
+/**
+ * GET /api/parent/child-invites
+ * The child's invitation links (newest first) with their status and the device that used them.
+ * Query params: childId
+ */
+export async function GET(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const childId = new URL(request.url).searchParams.get("childId");
+  if (!childId) {
+    return NextResponse.json({ error: "Missing childId" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+  if (!(await isLinkedChild(admin, user.id, childId))) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  const result = await listChildInvites(admin, childId);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json({ invites: result.invites.map(toResponse) });
+}
+
+/**
+ * POST /api/parent/child-invites
+ * Creates a new invitation link for the child. The link works once.
+ * Body: { childId: string, expiresInDays?: number } (1-30, default 7)
+ * Returns: { invitationLink, invite }
+ */
+export async function POST(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { childId?: unknown; expiresInDays?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const childId = typeof body.childId === "string" ? body.childId : "";
+  if (!childId) {
+    return NextResponse.json({ error: "childId is required" }, { status: 400 });
+  }
+  const expiresInDays = body.expiresInDays;
+  if (
+    expiresInDays !== undefined &&
+    (typeof expiresInDays !== "number" || !Number.isInteger(expiresInDays) ||
+      expiresInDays < MIN_INVITE_DAYS || expiresInDays > MAX_INVITE_DAYS)
+  ) {
+    return NextResponse.json(
+      { error: `expiresInDays must be a whole number from ${MIN_INVITE_DAYS} to ${MAX_INVITE_DAYS}` },
+      { status: 400 }
+    );
+  }
+
+  const admin = createServiceRoleClient();
+  if (!(await isLinkedChild(admin, user.id, childId))) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  const result = await createChildInvite(admin, childId, user.id, { expiresInDays });
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  console.log("Created child invitation:", { parentId: user.id, childId, expiresAt: result.invite.expires_at });
+  return NextResponse.json({
+    invitationLink: `${appUrl}/invite/child/${result.token}`,
+    invite: toResponse(result.invite),
+  });
+}
+
+/**
+ * DELETE /api/parent/child-invites
+ * Cancels an unused invitation link of one of the parent's children.
+ * Query params: id
+ */
+export async function DELETE(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const inviteId = new URL(request.url).searchParams.get("id");
+  if (!inviteId) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  const result = await revokeChildInvite(createServiceRoleClient(), user.id, inviteId);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  console.log("Revoked child invitation:", { parentId: user.id, inviteId });
+  return NextResponse.json({ ok: true });
+}
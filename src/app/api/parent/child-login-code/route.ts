@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import QRCode from "qrcode";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { createChildLoginCode } from "@/lib/child-login";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000";
+
+/**
+ * POST /api/parent/child-login-code
+ * Creates a login code for the child's new device: a link the child opens by scanning the QR code.
+ * The code works once and expires after 10 minutes.
+ * Body: { childId: string }
+ * Returns: { url, qrCode (PNG data URL), expiresAt }
+ */
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) {
+    return NextResponse.json({ error: "Invalid session" }, { status: 401 });
+  }
+
+  let body: { childId?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const childId = typeof body.childId === "string" ? body.childId : "";
+  if (!childId) {
+    return NextResponse.json({ error: "childId is required" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+  const { data: link } = await admin
+    .from("parent_child_links")
+    .select("id")
+    .eq("parent_id", user.id)
+    .eq("child_id", childId)
+    .maybeSingle();
+  if (!link) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  const code = await createChildLoginCode(admin, childId, user.id);
+  if ("error" in code) {
+    if (/child_login_codes|does not exist|schema cache/i.test(code.error)) {
+      return NextResponse.json(
+        { error: "The child_login_codes table is missing. Run supabase/migrations/045_child_login_methods.sql in Supabase SQL Editor." },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json({ error: code.error }, { status: 500 });
+  }
+
+  const url = `${appUrl}/child-login/code/${code.token}`;
+  const qrCode = await QRCode.toDataURL(url, { errorCorrectionLevel: "M", margin: 2, width: 320 });
+
+  console.log("Created child login code:", { parentId: user.id, childId, expiresAt: code.expiresAt });
+  return NextResponse.json({ url, qrCode, expiresAt: code.expiresAt });
+}
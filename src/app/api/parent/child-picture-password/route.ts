@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { getChildPicturePassword, setChildPicturePassword } from "@/lib/child-login";
+import { isValidPictureSequence } from "@/lib/picture-password";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+/** Resolve the parent from the Authorization header (null if missing or invalid) */
+async function getParentUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) return null;
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) return null;
+  return user;
+}
+
+/** Check that the parent is linked to the child */
+async function isLinkedChild(admin: ReturnType<typeof createServiceRoleClient>, parentId: string, childId: string) {
+  const { data: link } = await admin
+    .from("parent_child_links")
+    .select("id")
+    .eq("parent_id", parentId)
+    .eq("child_id", childId)
+    .maybeSingle();
+  return !!link;
+}
+
+/**
+ * GET /api/parent/child-picture-password
+ * Whether the child has a picture password (the sequence itself is never returned).
+ * Query params: childId
+ */
+export async function GET(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const childId = new URL(request.url).searchParams.get("childId");
+  if (!childId) {
+    return NextResponse.json({ error: "Missing childId" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+  if (!(await isLinkedChild(admin, user.id, childId))) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  const picturePassword = await getChildPicturePassword(admin, childId);
+  return NextResponse.json({ isSet: !!picturePassword, setAt: picturePassword?.setAt ?? null });
+}
+
+/**
+ * POST /api/parent/child-picture-password
+ * Sets the child's picture password (see picture-password.ts) and unlocks the account.
+ * Body: { childId: string, pictures: string[] }
+ */
+export async function POST(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { childId?: unknown; pictures?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const childId = typeof body.childId === "string" ? body.childId : "";
+  if (!childId) {
+    return NextResponse.json({ error: "childId is required" }, { status: 400 });
+  }
+  if (!isValidPictureSequence(body.pictures)) {
+    return NextResponse.json({ error: "pictures must be a complete picture sequence" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+  if (!(await isLinkedChild(admin, user.id, childId))) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  const result = await setChildPicturePassword(admin, childId, body.pictures, user.id);
+  if ("error" in result) {
+    if (/child_picture_passwords|does not exist|schema cache/i.test(result.error)) {
+      return NextResponse.json(
+        { error: "The child_picture_passwords table is missing. Run supabase/migrations/045_child_login_methods.sql in Supabase SQL Editor." },
+        { status: 503 }
+      );
+    }
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  console.log("Set child picture password:", { parentId: user.id, childId });
+  return NextResponse.json({ ok: true });
+}
+
+/**
+ * DELETE /api/parent/child-picture-password
+ * Removes the child's picture password; the child then signs in with their PIN.
+ * Query params: childId
+ */
+export async function DELETE(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const childId = new URL(request.url).searchParams.get("childId");
+  if (!childId) {
+    return NextResponse.json({ error: "Missing childId" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+  if (!(await isLinkedChild(admin, user.id, childId))) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  const result = await setChildPicturePassword(admin, childId, null, user.id);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  console.log("Removed child picture password:", { parentId: user.id, childId });
+  return NextResponse.json({ ok: true });
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
-import { signInviteToken } from "@/lib/invite-token";
+import { createChildInvite } from "@/lib/child-invites";
+import { childAccountPassword } from "@/lib/child-login";
+import { SURVEILLANCE_PRESETS, isSurveillancePreset, profileToRow, type SurveillancePreset } from "@/lib/surveillance-profile";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -77,7 +79,7 @@ export async function POST(request: NextRequest) {
   let first_name = "";
   let surname = "";
   let pin = "";
-  let surveillance_level = "medium"; // Default to medium
+  let surveillance_level: SurveillancePreset = "medium"; // Default to medium
   let photoFile: File | null = null;
   const contentType = request.headers.get("content-type") ?? "";
 
@@ -87,7 +89,7 @@ export async function POST(request: NextRequest) {
     surname = (formData.get("surname") as string | null)?.trim() ?? "";
     pin = (formData.get("pin") as string | null)?.trim() ?? "";
     const levelInput = (formData.get("surveillance_level") as string | null)?.trim() ?? "";
-    if (levelInput && ["strict", "medium", "mild"].includes(levelInput)) {
+    if (isSurveillancePreset(levelInput)) {
       surveillance_level = levelInput;
     }
     const photo = formData.get("photo");
@@ -101,7 +103,7 @@ export async function POST(request: NextRequest) {
       surname = typeof body.surname === "string" ? body.surname.trim() : "";
       pin = typeof body.pin === "string" ? body.pin.trim() : "";
       const levelInput = typeof body.surveillance_level === "string" ? body.surveillance_level.trim() : "";
-      if (levelInput && ["strict", "medium", "mild"].includes(levelInput)) {
+      if (isSurveillancePreset(levelInput)) {
         surveillance_level = levelInput;
       }
     } catch {
@@ -170,11 +172,17 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  // The PIN only works through the server's child login, never directly with Supabase
+  const password = childAccountPassword(pin);
+  if (!password) {
+    return NextResponse.json({ error: "Child PINs are not configured (CHILD_PIN_PEPPER)" }, { status: 503 });
+  }
+
   const syntheticEmail = `child-${crypto.randomUUID()}@family.local`;
 
   const { data: newAuthUser, error: createErr } = await admin.auth.admin.createUser({
     email: syntheticEmail,
-    password: pin,
+    password,
     email_confirm: true,
   });
 
@@ -229,7 +237,7 @@ export async function POST(request: NextRequest) {
   const { error: linkErr } = await admin.from("parent_child_links").insert({
     parent_id: parentUser.id,
     child_id: childId,
-    surveillance_level: surveillance_level,
+    ...profileToRow(SURVEILLANCE_PRESETS[surveillance_level]),
   });
 
   if (linkErr) {
@@ -322,11 +330,12 @@ export async function POST(request: NextRequest) {
   }
 
   let invitationLink = "";
-  try {
-    const inviteToken = signInviteToken(childId);
-    invitationLink = `${appUrl}/invite/child/${inviteToken}`;
-  } catch {
-    // INVITE_SECRET not set; skip link
+  const invite = await createChildInvite(admin, childId, parentUser.id);
+  if ("token" in invite) {
+    invitationLink = `${appUrl}/invite/child/${invite.token}`;
+  } else {
+    // INVITE_SECRETS not set or migration 046 missing; skip link
+    console.error("[create-child] Could not create invitation link:", invite.error);
   }
 
   const displayName = toDisplayName(first_name, surname);
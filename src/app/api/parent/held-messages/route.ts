@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { canReviewHeldMessage, reviewHeldMessage, type HeldMessageAction } from "@/lib/message-hold";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+/** Resolve the parent from the Authorization header (null if missing or invalid) */
+async function getParentUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) return null;
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) return null;
+  return user;
+}
+
+/**
+ * GET /api/parent/held-messages
+ * Lists messages held before delivery that involve the parent's children whose profile holds risky messages
+ * (sent by or to the child, or in a group the child is a member of), with sender and recipient names.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const admin = createServiceRoleClient();
+
+  const { data: links } = await admin
+    .from("parent_child_links")
+    .select("child_id")
+    .eq("parent_id", user.id)
+    .eq("hold_risky_messages", true);
+
+  const childIds = (links ?? []).map((l) => l.child_id as string);
+  if (childIds.length === 0) {
+    return NextResponse.json({ messages: [] });
+  }
+
+  const childList = childIds.join(",");
+  const { data: memberships } = await admin
+    .from("group_members")
+    .select("group_id")
+    .in("user_id", childIds);
+  const groupIds = Array.from(new Set((memberships ?? []).map((m) => m.group_id as string)));
+  const { data: chats } = await admin
+    .from("chats")
+    .select("id, user1_id, user2_id, group_id")
+    .or(
+      `user1_id.in.(${childList}),user2_id.in.(${childList})` +
+        (groupIds.length > 0 ? `,group_id.in.(${groupIds.join(",")})` : "")
+    );
+
+  const chatList = chats ?? [];
+  if (chatList.length === 0) {
+    return NextResponse.json({ messages: [] });
+  }
+
+  const { data: held, error } = await admin
+    .from("messages")
+    .select("id, chat_id, sender_id, content, created_at, hold_reason")
+    .in("chat_id", chatList.map((c) => c.id))
+    .eq("delivery_status", "held")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error loading held messages:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const chatsById = new Map(chatList.map((c) => [c.id, c]));
+  const userIds = new Set<string>();
+  for (const c of chatList) {
+    if (c.user1_id) userIds.add(c.user1_id);
+    if (c.user2_id) userIds.add(c.user2_id);
+  }
+  for (const m of held ?? []) userIds.add(m.sender_id);
+  const { data: users } = await admin
+    .from("users")
+    .select("id, first_name, surname, username")
+    .in("id", Array.from(userIds));
+  const namesById = new Map(
+    (users ?? []).map((u) => [
+      u.id,
+      u.first_name && u.surname ? `${u.first_name} ${u.surname}` : u.username || "Ukendt",
+    ])
+  );
+
+  const { data: groups } = groupIds.length > 0
+    ? await admin.from("groups").select("id, name").in("id", groupIds)
+    : { data: [] };
+  const groupNamesById = new Map((groups ?? []).map((g) => [g.id as string, g.name as string]));
+
+  const messages = (held ?? []).map((m) => {
+    const chat = chatsById.get(m.chat_id);
+    if (chat?.group_id) {
+      const groupName = groupNamesById.get(chat.group_id);
+      return {
+        ...m,
+        recipient_id: null,
+        sender_name: namesById.get(m.sender_id) ?? "Ukendt",
+        recipient_name: groupName ? `Gruppen "${groupName}"` : "Gruppen",
+      };
+    }
+    const recipientId = chat ? (chat.user1_id === m.sender_id ? chat.user2_id : chat.user1_id) : null;
+    return {
+      ...m,
+      recipient_id: recipientId,
+      sender_name: namesById.get(m.sender_id) ?? "Ukendt",
+      recipient_name: recipientId ? namesById.get(recipientId) ?? "Ukendt" : "Ukendt",
+    };
+  });
+
+  return NextResponse.json({ messages });
+}
+
+/**
+ * POST /api/parent/held-messages
+ * Releases (delivers to the recipient) or rejects a held message.
+ * Body: { messageId: string, action: "release" | "reject" }
+ */
+export async function POST(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { messageId?: string; action?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { messageId, action } = body;
+  if (!messageId || (action !== "release" && action !== "reject")) {
+    return NextResponse.json({ error: "messageId and action ('release' or 'reject') are required" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+
+  const { data: message } = await admin
+    .from("messages")
+    .select("id, chat_id, sender_id, delivery_status")
+    .eq("id", messageId)
+    .maybeSingle();
+  if (!message) {
+    return NextResponse.json({ error: "Message not found" }, { status: 404 });
+  }
+
+  if (!(await canReviewHeldMessage(admin, user.id, message))) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  const result = await reviewHeldMessage(admin, messageId, user.id, action as HeldMessageAction);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 409 });
+  }
+
+  console.log(`✅ [Message Hold] Parent ${user.id} ${action === "release" ? "released" : "rejected"} message ${messageId}`);
+
+  return NextResponse.json({ ok: true });
+}
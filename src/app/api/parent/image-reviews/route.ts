@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { resolveImageReview, type ImageReviewAction } from "@/lib/image-review";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+/** Resolve the parent from the Authorization header (null if missing or invalid) */
+async function getParentUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) return null;
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) return null;
+  return user;
+}
+
+/**
+ * GET /api/parent/image-reviews
+ * Lists images held for review (scan failed) for the parent's children.
+ * Query params: chatId (optional), status (optional, default "pending")
+ */
+export async function GET(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const chatId = searchParams.get("chatId");
+  const status = searchParams.get("status") || "pending";
+
+  const admin = createServiceRoleClient();
+
+  const { data: links } = await admin
+    .from("parent_child_links")
+    .select("child_id")
+    .eq("parent_id", user.id);
+
+  const childIds = (links ?? []).map((l) => l.child_id as string);
+  if (childIds.length === 0) {
+    return NextResponse.json({ reviews: [] });
+  }
+
+  let query = admin
+    .from("image_review_queue")
+    .select("*")
+    .in("child_id", childIds)
+    .eq("status", status)
+    .order("created_at", { ascending: false });
+  if (chatId) {
+    query = query.eq("chat_id", chatId);
+  }
+
+  const { data: reviews, error } = await query;
+  if (error) {
+    console.error("Error loading image reviews:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ reviews: reviews ?? [] });
+}
+
+/**
+ * POST /api/parent/image-reviews
+ * Approves or rejects (image stays hidden) a held image. An approved image becomes visible once every
+ * child it was held back from has been approved for (visible in the response; see image-review.ts).
+ * Body: { reviewId: string, action: "approve" | "reject" }
+ */
+export async function POST(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { reviewId?: string; action?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { reviewId, action } = body;
+  if (!reviewId || (action !== "approve" && action !== "reject")) {
+    return NextResponse.json({ error: "reviewId and action ('approve' or 'reject') are required" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+
+  const { data: review } = await admin
+    .from("image_review_queue")
+    .select("*")
+    .eq("id", reviewId)
+    .maybeSingle();
+  if (!review) {
+    return NextResponse.json({ error: "Review not found" }, { status: 404 });
+  }
+
+  // Only a parent of the child the image was held back from can review it; the review covers all
+  // of the parent's children the image was held back from (in a group chat there can be several)
+  const { data: links } = await admin
+    .from("parent_child_links")
+    .select("child_id")
+    .eq("parent_id", user.id);
+  const childIds = (links ?? []).map((l) => l.child_id as string);
+  if (!childIds.includes(review.child_id)) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  const result = await resolveImageReview(admin, review.message_id, childIds, user.id, action as ImageReviewAction);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 409 });
+  }
+
+  console.log(`✅ [Image Review] Parent ${user.id} ${action === "approve" ? "approved" : "rejected"} image ${review.message_id}`);
+
+  return NextResponse.json({ ok: true, review: result.reviews[0], visible: result.visible });
+}
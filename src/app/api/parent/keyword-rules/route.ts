@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { KEYWORD_CATEGORIES, type KeywordCategory } from "@/lib/keyword-scanner";
+import { getEffectiveKeywords, type KeywordRuleAction } from "@/lib/keyword-rules";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+const MAX_KEYWORD_LENGTH = 100;
+
+/** Resolve the parent from the Authorization header (null if missing or invalid) */
+async function getParentUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) return null;
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) return null;
+  return user;
+}
+
+/** Check that the parent is linked to the child */
+async function isLinkedChild(admin: ReturnType<typeof createServiceRoleClient>, parentId: string, childId: string) {
+  const { data: link } = await admin
+    .from("parent_child_links")
+    .select("id")
+    .eq("parent_id", parentId)
+    .eq("child_id", childId)
+    .maybeSingle();
+  return !!link;
+}
+
+/** Check that the user is a parent (linked to at least one child) */
+async function hasLinkedChildren(admin: ReturnType<typeof createServiceRoleClient>, parentId: string) {
+  const { data: links } = await admin
+    .from("parent_child_links")
+    .select("id")
+    .eq("parent_id", parentId)
+    .limit(1);
+  return !!links && links.length > 0;
+}
+
+/**
+ * GET /api/parent/keyword-rules
+ * Lists the parent's own keyword rules (add/mute overrides).
+ * Query params: childId (optional) - also returns that child's effective keyword list
+ */
+export async function GET(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const childId = searchParams.get("childId");
+
+  const admin = createServiceRoleClient();
+
+  if (childId && !(await isLinkedChild(admin, user.id, childId))) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  const { data: rules, error } = await admin
+    .from("keyword_rules")
+    .select("id, keyword, category, parent_id, child_id, action, created_at")
+    .eq("parent_id", user.id)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    if (/keyword_rules|does not exist|schema cache/i.test(error.message)) {
+      return NextResponse.json(
+        { error: "The keyword_rules table is missing. Run supabase/migrations/026_keyword_rules.sql in Supabase SQL Editor." },
+        { status: 503 }
+      );
+    }
+    console.error("Error loading keyword rules:", error);
+    return NextResponse.json({ error: "Error loading keyword rules" }, { status: 500 });
+  }
+
+  const effectiveKeywords = childId ? await getEffectiveKeywords(admin, childId) : undefined;
+
+  return NextResponse.json({ rules: rules ?? [], effectiveKeywords });
+}
+
+/**
+ * POST /api/parent/keyword-rules
+ * Adds a watch word or mutes a keyword, for all the parent's children or for one child.
+ * Body: { keyword: string, category?: KeywordCategory, action?: "add" | "mute", childId?: string }
+ * category is required for "add"; a "mute" without category mutes the keyword in every category.
+ * Only parents can create rules. A child has one keyword list, so the rules apply for every parent of
+ * the child: a word muted by one parent isn't flagged for the co-parents either (see keyword-rules.ts).
+ */
+export async function POST(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { keyword?: string; category?: string; action?: string; childId?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const keyword = typeof body.keyword === "string" ? body.keyword.trim().toLowerCase() : "";
+  const action: KeywordRuleAction = body.action === "mute" ? "mute" : "add";
+  const category = typeof body.category === "string" && body.category ? body.category : null;
+  const childId = typeof body.childId === "string" && body.childId ? body.childId : null;
+
+  if (!keyword) {
+    return NextResponse.json({ error: "keyword is required" }, { status: 400 });
+  }
+  if (keyword.length > MAX_KEYWORD_LENGTH) {
+    return NextResponse.json({ error: `keyword must be ${MAX_KEYWORD_LENGTH} characters or less` }, { status: 400 });
+  }
+  if (body.action && !["add", "mute"].includes(body.action)) {
+    return NextResponse.json({ error: "action must be 'add' or 'mute'" }, { status: 400 });
+  }
+  if (category && !KEYWORD_CATEGORIES.includes(category as KeywordCategory)) {
+    return NextResponse.json({ error: `category must be one of: ${KEYWORD_CATEGORIES.join(", ")}` }, { status: 400 });
+  }
+  if (action === "add" && !category) {
+    return NextResponse.json({ error: "category is required when adding a keyword" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+
+  // Only parents have rules: a rule for one child needs a link to it, one for all children any link
+  const linked = childId ? await isLinkedChild(admin, user.id, childId) : await hasLinkedChildren(admin, user.id);
+  if (!linked) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  const { data: rule, error: insertErr } = await admin
+    .from("keyword_rules")
+    .insert({
+      keyword,
+      category,
+      action,
+      parent_id: user.id,
+      child_id: childId,
+    })
+    .select("id, keyword, category, parent_id, child_id, action, created_at")
+    .single();
+
+  if (insertErr) {
+    if (insertErr.code === "23505") {
+      return NextResponse.json({ error: "This rule already exists" }, { status: 409 });
+    }
+    console.error("Error creating keyword rule:", insertErr);
+    return NextResponse.json({ error: insertErr.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true, rule });
+}
+
+/**
+ * DELETE /api/parent/keyword-rules
+ * Removes one of the parent's own keyword rules.
+ * Query params: id
+ */
+export async function DELETE(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const ruleId = searchParams.get("id");
+  if (!ruleId) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+
+  // Only the parent's own rules can be deleted (global defaults have no parent_id)
+  const { data: deleted, error: deleteErr } = await admin
+    .from("keyword_rules")
+    .delete()
+    .eq("id", ruleId)
+    .eq("parent_id", user.id)
+    .select("id");
+
+  if (deleteErr) {
+    console.error("Error deleting keyword rule:", deleteErr);
+    return NextResponse.json({ error: deleteErr.message }, { status: 500 });
+  }
+  if (!deleted || deleted.length === 0) {
+    return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
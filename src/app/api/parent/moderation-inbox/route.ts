@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import {
+  getInboxChildren,
+  INBOX_ACTIONS,
+  loadInboxItems,
+  loadMessageContext,
+  reviewInboxItem,
+  type InboxAction,
+  type InboxStatus,
+} from "@/lib/moderation-inbox";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+const STATUSES: InboxStatus[] = ["open", "reviewed", "dismissed", "escalated"];
+
+/** Resolve the parent from the Authorization header (null if missing or invalid) */
+async function getParentUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) return null;
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) return null;
+  return user;
+}
+
+/**
+ * GET /api/parent/moderation-inbox
+ * Lists flags for the parent's children (keyword, grooming, reported and image flags), newest first,
+ * together with the parent's children for the child filter.
+ * Query: ?childId, ?category, ?status=open|reviewed|dismissed|escalated, ?from, ?to (ISO dates)
+ * With ?contextFor=<itemId> it returns the messages around that item's flagged message instead, as far as
+ * the parent's read access allows (only the flagged message without read access), and records the
+ * read in the surveillance audit log.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const admin = createServiceRoleClient();
+
+  const contextFor = params.get("contextFor");
+  if (contextFor) {
+    const result = await loadMessageContext(admin, user.id, contextFor);
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ messages: result.messages });
+  }
+
+  const status = params.get("status");
+  if (status && !STATUSES.includes(status as InboxStatus)) {
+    return NextResponse.json({ error: `status must be one of: ${STATUSES.join(", ")}` }, { status: 400 });
+  }
+  for (const key of ["from", "to"]) {
+    const value = params.get(key);
+    if (value && Number.isNaN(Date.parse(value))) {
+      return NextResponse.json({ error: `${key} must be a date` }, { status: 400 });
+    }
+  }
+
+  const [result, children] = await Promise.all([
+    loadInboxItems(admin, user.id, {
+      childId: params.get("childId"),
+      category: params.get("category"),
+      status: status as InboxStatus | null,
+      from: params.get("from"),
+      to: params.get("to"),
+    }),
+    getInboxChildren(admin, user.id),
+  ]);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  return NextResponse.json({ items: result.items, children });
+}
+
+/**
+ * POST /api/parent/moderation-inbox
+ * Marks an inbox item reviewed, dismissed as a false positive, or escalated (alerts the child's other parents).
+ * Body: { itemId: string, action: "reviewed" | "dismissed" | "escalated" }
+ */
+export async function POST(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { itemId?: string; action?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const { itemId, action } = body;
+  if (!itemId || !INBOX_ACTIONS.includes(action as InboxAction)) {
+    return NextResponse.json(
+      { error: `itemId and action (${INBOX_ACTIONS.map((a) => `'${a}'`).join(", ")}) are required` },
+      { status: 400 }
+    );
+  }
+
+  const admin = createServiceRoleClient();
+  const result = await reviewInboxItem(admin, user.id, itemId, action as InboxAction);
+  if ("error" in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  console.log(`✅ [Inbox] Parent ${user.id} marked ${itemId} as ${action}${result.parentsNotified ? ` (${result.parentsNotified} parent(s) alerted)` : ""}`);
+
+  return NextResponse.json({ ok: true, status: result.status, parentsNotified: result.parentsNotified });
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { recordAuditEvent } from "@/lib/surveillance-audit";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+/**
+ * POST /api/parent/remove-child
+ * Removes the signed-in parent's link to a child (the child's account stays).
+ * Body: { childId: string }
+ * The removal is recorded in the surveillance audit log, where co-parents see it.
+ */
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) {
+    return NextResponse.json({ error: "Invalid session" }, { status: 401 });
+  }
+
+  let body: { childId?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const childId = typeof body.childId === "string" ? body.childId : "";
+  if (!childId) {
+    return NextResponse.json({ error: "childId is required" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+  const { data: removed, error: deleteErr } = await admin
+    .from("parent_child_links")
+    .delete()
+    .eq("parent_id", user.id)
+    .eq("child_id", childId)
+    .select("id, surveillance_level");
+  if (deleteErr) {
+    console.error("Error removing child link:", deleteErr);
+    return NextResponse.json({ error: deleteErr.message }, { status: 500 });
+  }
+  if (!removed || removed.length === 0) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 404 });
+  }
+
+  await recordAuditEvent(admin, {
+    childId,
+    actorId: user.id,
+    action: "child_removed",
+    details: { surveillanceLevel: removed[0].surveillance_level },
+  });
+
+  console.log("Removed child link:", { parentId: user.id, childId });
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { isValidPin, setChildPin } from "@/lib/child-login";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+/**
+ * POST /api/parent/reset-child-pin
+ * Sets a new PIN for a child (see childAccountPassword in child-login.ts), unlocks the account and
+ * signs the child out on all devices. With mustChangePin the child has to choose their own PIN at
+ * the next login (child_credentials, migration 044).
+ * Body: { childId: string, pin: string, mustChangePin?: boolean }
+ */
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) {
+    return NextResponse.json({ error: "Invalid session" }, { status: 401 });
+  }
+
+  let body: { childId?: unknown; pin?: unknown; mustChangePin?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const childId = typeof body.childId === "string" ? body.childId : "";
+  const pin = typeof body.pin === "string" ? body.pin.trim() : "";
+  const mustChangePin = body.mustChangePin === true;
+  if (!childId) {
+    return NextResponse.json({ error: "childId is required" }, { status: 400 });
+  }
+  if (!isValidPin(pin)) {
+    return NextResponse.json({ error: "PIN must be 4–12 characters" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+  const { data: link } = await admin
+    .from("parent_child_links")
+    .select("id")
+    .eq("parent_id", user.id)
+    .eq("child_id", childId)
+    .maybeSingle();
+  if (!link) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  const result = await setChildPin(admin, childId, pin, {
+    setBy: user.id,
+    mustChange: mustChangePin,
+    revokeSessions: true,
+  });
+  if ("error" in result) {
+    console.error("Error resetting child PIN:", result.error);
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  console.log("Reset child PIN:", { parentId: user.id, childId, mustChangePin });
+  return NextResponse.json({ ok: true });
+}
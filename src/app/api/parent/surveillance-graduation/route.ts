@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import {
+  DEFAULT_GRADUATION_SCHEDULE,
+  GRADUATION_MODES,
+  ageOn,
+  parseGraduationSchedule,
+  resolveGraduationProposal,
+  runGraduations,
+  type GraduationMode,
+  type GraduationStep,
+} from "@/lib/surveillance-graduation";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+const BIRTHDATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Resolve the parent from the Authorization header (null if missing or invalid) */
+async function getParentUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) return null;
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) return null;
+  return user;
+}
+
+/** A valid "YYYY-MM-DD" birthdate that isn't in the future */
+function isValidBirthdate(value: string): boolean {
+  if (!BIRTHDATE.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value) && date.getTime() <= Date.now();
+}
+
+/**
+ * GET /api/parent/surveillance-graduation?childId=...
+ * The child's birthdate and age, the parent's schedule and mode (only this parent can read them,
+ * migration 053), and open proposals.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const childId = new URL(request.url).searchParams.get("childId");
+  if (!childId) {
+    return NextResponse.json({ error: "childId is required" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+  const { data: link } = await admin
+    .from("parent_child_links")
+    .select("id")
+    .eq("parent_id", user.id)
+    .eq("child_id", childId)
+    .maybeSingle();
+  if (!link) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  const { data: scheduleRow, error: scheduleErr } = await admin
+    .from("surveillance_graduation_schedules")
+    .select("schedule, mode")
+    .eq("link_id", link.id)
+    .maybeSingle();
+  if (scheduleErr) {
+    if (/surveillance_graduation_schedules|does not exist|schema cache/i.test(scheduleErr.message)) {
+      return NextResponse.json(
+        { error: "Graduation schedules are missing. Run supabase/migrations/053_graduation_schedules_table.sql in Supabase SQL Editor." },
+        { status: 503 }
+      );
+    }
+    console.error("Error loading graduation schedule:", scheduleErr);
+    return NextResponse.json({ error: "Error loading graduation schedule" }, { status: 500 });
+  }
+
+  const [{ data: birthdateRow }, { data: proposals }] = await Promise.all([
+    admin.from("child_birthdates").select("birthdate").eq("child_id", childId).maybeSingle(),
+    admin
+      .from("surveillance_graduations")
+      .select("id, age, from_level, to_level, created_at")
+      .eq("link_id", link.id)
+      .eq("status", "proposed")
+      .order("created_at", { ascending: false }),
+  ]);
+
+  const birthdate = (birthdateRow?.birthdate as string | undefined) ?? null;
+  return NextResponse.json({
+    birthdate,
+    age: birthdate ? ageOn(birthdate, new Date()) : null,
+    schedule: (scheduleRow?.schedule as GraduationStep[] | null) ?? null,
+    mode: (scheduleRow?.mode as GraduationMode | null) ?? "propose",
+    defaultSchedule: DEFAULT_GRADUATION_SCHEDULE,
+    proposals: proposals ?? [],
+  });
+}
+
+/**
+ * POST /api/parent/surveillance-graduation
+ * Body: { action: "save", childId, birthdate?: string | null, schedule?: GraduationStep[] | null, mode?: "propose" | "apply" }
+ *   Saves the birthdate and the parent's schedule (null opts out), then checks the schedule right away.
+ * Body: { action: "accept" | "dismiss", graduationId }
+ *   Answers a proposal; accepting applies the preset.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: {
+    action?: unknown;
+    childId?: unknown;
+    birthdate?: unknown;
+    schedule?: unknown;
+    mode?: unknown;
+    graduationId?: unknown;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+
+  if (body.action === "accept" || body.action === "dismiss") {
+    if (typeof body.graduationId !== "string" || !body.graduationId) {
+      return NextResponse.json({ error: "graduationId is required" }, { status: 400 });
+    }
+    const resolved = await resolveGraduationProposal(admin, user.id, body.graduationId, body.action);
+    if ("error" in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+    return NextResponse.json({ ok: true, graduation: resolved.graduation });
+  }
+
+  if (body.action !== "save") {
+    return NextResponse.json({ error: "action must be 'save', 'accept' or 'dismiss'" }, { status: 400 });
+  }
+
+  const childId = typeof body.childId === "string" ? body.childId : "";
+  if (!childId) {
+    return NextResponse.json({ error: "childId is required" }, { status: 400 });
+  }
+
+  const { data: link } = await admin
+    .from("parent_child_links")
+    .select("id")
+    .eq("parent_id", user.id)
+    .eq("child_id", childId)
+    .maybeSingle();
+  if (!link) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  if (body.birthdate !== undefined) {
+    if (body.birthdate === null) {
+      await admin.from("child_birthdates").delete().eq("child_id", childId);
+    } else if (typeof body.birthdate !== "string" || !isValidBirthdate(body.birthdate)) {
+      return NextResponse.json({ error: "birthdate must be a date (YYYY-MM-DD) that isn't in the future" }, { status: 400 });
+    } else {
+      const { error: birthdateErr } = await admin
+        .from("child_birthdates")
+        .upsert(
+          { child_id: childId, birthdate: body.birthdate, set_by: user.id, updated_at: new Date().toISOString() },
+          { onConflict: "child_id" }
+        );
+      if (birthdateErr) {
+        console.error("Error saving birthdate:", birthdateErr);
+        return NextResponse.json({ error: birthdateErr.message }, { status: 500 });
+      }
+    }
+  }
+
+  const update: { schedule?: GraduationStep[] | null; mode?: GraduationMode } = {};
+  if (body.schedule !== undefined) {
+    if (body.schedule === null) {
+      update.schedule = null;
+    } else {
+      const schedule = parseGraduationSchedule(body.schedule);
+      if ("error" in schedule) {
+        return NextResponse.json({ error: schedule.error }, { status: 400 });
+      }
+      update.schedule = schedule;
+    }
+  }
+  if (body.mode !== undefined) {
+    if (!GRADUATION_MODES.includes(body.mode as GraduationMode)) {
+      return NextResponse.json({ error: "mode must be 'propose' or 'apply'" }, { status: 400 });
+    }
+    update.mode = body.mode as GraduationMode;
+  }
+  if (Object.keys(update).length > 0) {
+    const { error: updateErr } = await admin
+      .from("surveillance_graduation_schedules")
+      .upsert(
+        { link_id: link.id, parent_id: user.id, child_id: childId, ...update, updated_at: new Date().toISOString() },
+        { onConflict: "link_id" }
+      );
+    if (updateErr) {
+      console.error("Error saving graduation schedule:", updateErr);
+      return NextResponse.json({ error: updateErr.message }, { status: 500 });
+    }
+  }
+
+  // Check the schedule now, so a child who is already past a step doesn't wait for the daily run
+  const result = await runGraduations(admin, { linkIds: [link.id] });
+  return NextResponse.json({ ok: true, ...("error" in result ? {} : result) });
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import {
+  ALERT_CATEGORIES,
+  PROFILE_COLUMNS,
+  SURVEILLANCE_PRESETS,
+  isSurveillancePreset,
+  parseSurveillanceProfile,
+  profileFromRow,
+  profileToRow,
+  sameProfile,
+  type ProfileRow,
+  type SurveillanceProfile,
+} from "@/lib/surveillance-profile";
+import { recordAuditEvent } from "@/lib/surveillance-audit";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+
+/** Resolve the parent from the Authorization header (null if missing or invalid) */
+async function getParentUser(request: NextRequest) {
+  const authHeader = request.headers.get("authorization");
+  const token = authHeader?.replace("Bearer ", "").trim();
+  if (!token || !supabaseUrl) return null;
+
+  const client = createClient(supabaseUrl, anonKey);
+  const { data: { user }, error: authErr } = await client.auth.getUser(token);
+  if (authErr || !user) return null;
+  return user;
+}
+
+/** The parent's link to the child, with the profile columns */
+async function getLink(admin: ReturnType<typeof createServiceRoleClient>, parentId: string, childId: string) {
+  return admin
+    .from("parent_child_links")
+    .select(`id, ${PROFILE_COLUMNS}`)
+    .eq("parent_id", parentId)
+    .eq("child_id", childId)
+    .maybeSingle()
+    .overrideTypes<ProfileRow & { id: string }, { merge: false }>();
+}
+
+function missingColumns(message: string) {
+  return /alert_categories|read_access|does not exist|schema cache/i.test(message);
+}
+
+const MIGRATION_HINT =
+  "The surveillance profile columns are missing. Run supabase/migrations/039_surveillance_profiles.sql in Supabase SQL Editor.";
+
+/**
+ * GET /api/parent/surveillance-profile?childId=...
+ * The parent's surveillance profile for one child, with the presets and alert categories to choose from.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const childId = new URL(request.url).searchParams.get("childId");
+  if (!childId) {
+    return NextResponse.json({ error: "childId is required" }, { status: 400 });
+  }
+
+  const admin = createServiceRoleClient();
+  const { data: link, error } = await getLink(admin, user.id, childId);
+  if (error) {
+    if (missingColumns(error.message)) {
+      return NextResponse.json({ error: MIGRATION_HINT }, { status: 503 });
+    }
+    console.error("Error loading surveillance profile:", error);
+    return NextResponse.json({ error: "Error loading surveillance profile" }, { status: 500 });
+  }
+  if (!link) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  return NextResponse.json({
+    surveillanceLevel: link.surveillance_level ?? "medium",
+    profile: profileFromRow(link),
+    presets: SURVEILLANCE_PRESETS,
+    alertCategories: ALERT_CATEGORIES,
+  });
+}
+
+/**
+ * POST /api/parent/surveillance-profile
+ * Applies a preset, or saves a custom profile, for one child.
+ * Body: { childId: string, preset: "strict" | "medium" | "mild" } or { childId: string, profile: SurveillanceProfile }
+ * A profile identical to a preset is saved as that preset; anything else as 'custom'.
+ * Changes are recorded in the surveillance audit log.
+ */
+export async function POST(request: NextRequest) {
+  const user = await getParentUser(request);
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: { childId?: unknown; preset?: unknown; profile?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const childId = typeof body.childId === "string" ? body.childId : "";
+  if (!childId) {
+    return NextResponse.json({ error: "childId is required" }, { status: 400 });
+  }
+
+  let profile: SurveillanceProfile;
+  if (body.preset !== undefined) {
+    if (!isSurveillancePreset(body.preset)) {
+      return NextResponse.json({ error: "preset must be 'strict', 'medium', or 'mild'" }, { status: 400 });
+    }
+    profile = SURVEILLANCE_PRESETS[body.preset];
+  } else {
+    const parsed = parseSurveillanceProfile(body.profile);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    profile = parsed;
+  }
+
+  const admin = createServiceRoleClient();
+  const { data: link, error: linkErr } = await getLink(admin, user.id, childId);
+  if (linkErr) {
+    if (missingColumns(linkErr.message)) {
+      return NextResponse.json({ error: MIGRATION_HINT }, { status: 503 });
+    }
+    console.error("Error loading surveillance profile:", linkErr);
+    return NextResponse.json({ error: "Error loading surveillance profile" }, { status: 500 });
+  }
+  if (!link) {
+    return NextResponse.json({ error: "Child link not found or access denied" }, { status: 403 });
+  }
+
+  const row = profileToRow(profile);
+  const { error: updateErr } = await admin.from("parent_child_links").update(row).eq("id", link.id);
+  if (updateErr) {
+    console.error("Error updating surveillance profile:", updateErr);
+    return NextResponse.json({ error: updateErr.message }, { status: 500 });
+  }
+
+  console.log("Updated surveillance profile:", { linkId: link.id, surveillanceLevel: row.surveillance_level });
+  if (link.surveillance_level !== row.surveillance_level || !sameProfile(profileFromRow(link), profile)) {
+    await recordAuditEvent(admin, {
+      childId,
+      actorId: user.id,
+      action: "surveillance_changed",
+      details: { from: link.surveillance_level ?? "medium", to: row.surveillance_level, via: "profile" },
+    });
+  }
+  return NextResponse.json({ ok: true, surveillanceLevel: row.surveillance_level, profile });
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { createServiceRoleClient } from "@/lib/supabase-server";
+import { SURVEILLANCE_PRESETS, isSurveillancePreset, profileToRow } from "@/lib/surveillance-profile";
+import { recordAuditEvent } from "@/lib/surveillance-audit";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -7,6 +10,9 @@ const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 /**
  * POST /api/parent/update-surveillance-level
  * Updates the surveillance level for a parent-child link
+ * The level is a preset: its whole surveillance profile is applied (see surveillance-profile.ts;
+ * custom profiles are saved with POST /api/parent/surveillance-profile).
+ * The change is recorded in the surveillance audit log.
  */
 export async function POST(request: NextRequest) {
   if (!supabaseUrl || !anonKey) {
@@ -43,14 +49,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "childId is required" }, { status: 400 });
     }
 
-    if (!surveillanceLevel || !["strict", "medium", "mild"].includes(surveillanceLevel)) {
+    if (!isSurveillancePreset(surveillanceLevel)) {
       return NextResponse.json({ error: "surveillanceLevel must be 'strict', 'medium', or 'mild'" }, { status: 400 });
     }
 
     // Verify the parent owns this child link
     const { data: link, error: linkErr } = await supabase
       .from("parent_child_links")
-      .select("id, parent_id")
+      .select("id, parent_id, surveillance_level")
       .eq("parent_id", user.id)
       .eq("child_id", childId)
       .maybeSingle();
@@ -77,10 +83,11 @@ export async function POST(request: NextRequest) {
       }, { status: 403 });
     }
 
-    // Update surveillance level
-    const { error: updateErr } = await supabase
+    // Apply the preset's profile (parents can't update their links directly, migration 052)
+    const admin = createServiceRoleClient();
+    const { error: updateErr } = await admin
       .from("parent_child_links")
-      .update({ surveillance_level: surveillanceLevel })
+      .update(profileToRow(SURVEILLANCE_PRESETS[surveillanceLevel]))
       .eq("id", link.id);
 
     if (updateErr) {
@@ -92,6 +99,14 @@ export async function POST(request: NextRequest) {
     }
 
     console.log("Successfully updated surveillance level:", { linkId: link.id, surveillanceLevel });
+    if (link.surveillance_level !== surveillanceLevel) {
+      await recordAuditEvent(admin, {
+        childId,
+        actorId: user.id,
+        action: "surveillance_changed",
+        details: { from: link.surveillance_level, to: surveillanceLevel, via: "level" },
+      });
+    }
     return NextResponse.json({ ok: true, surveillance_level: surveillanceLevel });
   } catch (error: any) {
     console.error("Error in update-surveillance-level:", error);
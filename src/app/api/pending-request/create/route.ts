@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@supabase/supabase-js";
+import { getContactApproval } from "@/lib/surveillance-profile";
+import { recordAuditEvents, type NewAuditEntry } from "@/lib/surveillance-audit";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -7,9 +9,13 @@ const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 /**
  * API endpoint to create a pending contact request
  * Uses service role to bypass RLS
+ * If no parent of either child requires approval of new contacts (surveillance profile),
+ * the contact is approved in both directions right away and no request is created
+ * (recorded in the surveillance audit log as an automatic approval).
  * 
  * POST /api/pending-request/create
  * Body: { child_id: string, contact_user_id: string, chat_id: string }
+ * Returns: { ok: true, autoApproved: boolean, data? }
  */
 export async function POST(request: NextRequest) {
   if (!supabaseUrl || !serviceRoleKey) {
@@ -60,6 +66,32 @@ export async function POST(request: NextRequest) {
   // Use service role to bypass RLS
   const admin = createClient(supabaseUrl, serviceRoleKey);
 
+  // Every parent of both children is checked: one requiring approval is enough to hold the contact
+  const contactApproval = await getContactApproval(admin, [child_id, contact_user_id]);
+  if (!contactApproval.required) {
+    const approved: NewAuditEntry[] = [];
+    for (const [childId, contactId] of [[child_id, contact_user_id], [contact_user_id, child_id]]) {
+      // One approval row per child and contact, credited to one of the child's parents
+      const [parentId] = contactApproval.parentsByChild.get(childId) ?? [];
+      if (!parentId) continue;
+      const { error: approveErr } = await admin
+        .from("parent_approved_contacts")
+        .insert({ child_id: childId, contact_user_id: contactId, parent_id: parentId });
+      // 23505 = unique constraint violation (already approved)
+      if (approveErr && approveErr.code !== "23505") {
+        console.error("Error auto-approving contact:", approveErr);
+        return NextResponse.json({ error: approveErr.message }, { status: 500 });
+      }
+      if (!approveErr) {
+        approved.push({ childId, actorId: null, action: "contact_approved", details: { contactId, via: "automatic" } });
+      }
+    }
+    await recordAuditEvents(admin, approved);
+
+    console.log(`Contact auto-approved (no approval required by profile): ${contact_user_id} ↔ ${child_id}`);
+    return NextResponse.json({ ok: true, autoApproved: true });
+  }
+
   // Upsert the pending contact request
   const { data, error } = await admin
     .from("pending_contact_requests")
@@ -78,5 +110,5 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  return NextResponse.json({ ok: true, data });
+  return NextResponse.json({ ok: true, autoApproved: false, data });
 }
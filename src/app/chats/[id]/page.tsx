@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useRef, useCallback, useMemo } from "react";
+import { Fragment, useEffect, useState, useRef, useCallback, useMemo } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
@@ -29,17 +29,68 @@ type Message = {
   created_at: string;
   attachment_url?: string | null;
   attachment_type?: string | null;
+  /** Set when an image is held for parent review because the safety scan failed (migration 028) */
+  attachment_review_status?: "pending_review" | "approved" | "rejected" | null;
+  /** held/rejected: stopped before delivery for a parent to review (migration 029) */
+  delivery_status?: "delivered" | "held" | "released" | "rejected";
+  /** alert: Sikker chat alert rendered as an action card (migration 034) */
+  message_type?: "text" | "alert";
 };
 
-/** Flag row from flags table (Phase 6: moderation) */
+/** Open user report or image flag from moderation_events (Phase 6: moderation, migration 036) */
 type FlagRow = {
-  id: number;
+  id: string;
   message_id: string;
-  flagged_by: string;
+  source: "user_report" | "image";
+  reported_by: string | null;
   reason: string | null;
   created_at: string;
 };
 
+/** Messages left out of the transcript of a parent with flagged-only access (GET /api/parent/check-flagged-messages) */
+type RedactedGap = {
+  before_message_id: string | null;
+  count: number;
+};
+
+/** Moderation summary returned by POST /api/messages/send */
+type SendModeration = {
+  text: { flagged: boolean; category?: string; keyword?: string } | null;
+  image: { flagged: boolean; pendingReview?: boolean; category?: string; confidence?: number; reason?: string } | null;
+};
+
+/** Image held for parent review (image_review_queue) */
+type ImageReviewRow = {
+  id: string;
+  message_id: string;
+  attachment_url: string;
+  reason: string | null;
+  status: "pending" | "approved" | "rejected";
+};
+
+/** Sikker chat alert (sikker_alerts), as returned by GET /api/parent/alerts */
+type SikkerAlertRow = {
+  id: string;
+  message_id: string;
+  kind: string;
+  category: string | null;
+  status: "open" | "reviewed";
+  child_name: string | null;
+  counterpart_name: string | null;
+  view_path: string | null;
+  contact_blocked: boolean;
+};
+
+const ALERT_TITLES: Record<string, string> = {
+  keyword_alert: "Dårligt sprog",
+  grooming_alert: "Mulig grooming",
+  image_flagged: "Usikkert billede",
+  image_review: "Billede venter på godkendelse",
+  message_held: "Besked tilbageholdt",
+  self_harm_parent: "Dit barn har det svært",
+  moderation_escalated: "Eskaleret af en forælder",
+};
+
 /** Parent invitation chat: child A invited child B; this chat is between Parent A and Parent B */
 type ParentInvitationRow = {
   id: number;
@@ -60,8 +111,8 @@ const BUCKET = "chat-media";
 function renderMessageWithLinks(content: string) {
   if (!content) return null;
   
-  // Pattern to match URLs and paths like /chats/[uuid]
-  const linkPattern = /(https?:\/\/[^\s]+|\/chats\/[a-f0-9-]+)/gi;
+  // Pattern to match URLs and paths like /chats/[uuid] and /parent/held-messages
+  const linkPattern = /(https?:\/\/[^\s]+|\/chats\/[a-f0-9-]+|\/parent\/[a-z-]+)/gi;
   const parts: (string | JSX.Element)[] = [];
   let lastIndex = 0;
   let match;
@@ -104,6 +155,86 @@ function renderMessageWithLinks(content: string) {
   return <>{parts}</>;
 }
 
+/** Marks messages left out of the transcript of a parent with flagged-only access */
+function RedactedGapNotice({ count }: { count: number }) {
+  return (
+    <p className="text-center text-xs text-gray-400 py-1" role="note">
+      ⋯ {count} {count === 1 ? "besked" : "beskeder"} skjult - du ser kun beskederne omkring de markerede beskeder ⋯
+    </p>
+  );
+}
+
+/**
+ * Sikker chat alert as an action card: what happened, with buttons to view the conversation,
+ * mark the alert reviewed or block the contact
+ */
+function AlertCard({
+  alert,
+  content,
+  busy,
+  onAction,
+}: {
+  alert: SikkerAlertRow;
+  content: string;
+  busy: boolean;
+  onAction: (alert: SikkerAlertRow, action: "review" | "block_contact") => void;
+}) {
+  // The text ends with a "Klik her: /chats/..." link for clients without cards - the button replaces it
+  const text = content.replace(/(\n\n[^\n]*|[^.!?\n]*)\/(chats|parent)\/[\w-]+\s*$/, "").trim();
+
+  return (
+    <div className="mt-1 rounded-xl border border-amber-300 bg-white text-gray-900 p-3" role="group" aria-label="Sikkerhedsadvarsel">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-semibold">⚠️ {ALERT_TITLES[alert.kind] ?? "Sikkerhedsadvarsel"}</p>
+        {alert.status === "reviewed" && (
+          <span className="text-xs text-green-700 flex-shrink-0">✓ Gennemgået</span>
+        )}
+      </div>
+      {(alert.child_name || alert.category) && (
+        <p className="text-xs text-gray-500 mt-0.5">
+          {[alert.child_name, alert.counterpart_name && `med ${alert.counterpart_name}`, alert.category && `kategori: ${alert.category}`]
+            .filter(Boolean)
+            .join(" · ")}
+        </p>
+      )}
+      <p className="text-sm whitespace-pre-wrap break-words mt-2">{text}</p>
+      <div className="flex flex-wrap gap-2 mt-3">
+        {alert.view_path && (
+          <Link
+            href={alert.view_path}
+            className="text-xs px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+          >
+            Se samtalen
+          </Link>
+        )}
+        {alert.status === "open" && (
+          <button
+            type="button"
+            onClick={() => onAction(alert, "review")}
+            disabled={busy}
+            className="text-xs px-3 py-1.5 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            Markér som gennemgået
+          </button>
+        )}
+        {alert.counterpart_name && !alert.contact_blocked && (
+          <button
+            type="button"
+            onClick={() => onAction(alert, "block_contact")}
+            disabled={busy}
+            className="text-xs px-3 py-1.5 rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+          >
+            Bloker kontakt
+          </button>
+        )}
+        {alert.contact_blocked && (
+          <span className="text-xs text-red-700 self-center">🚫 Kontakten er blokeret</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export default function ChatDetailPage() {
   const router = useRouter();
   const params = useParams();
@@ -112,19 +243,26 @@ export default function ChatDetailPage() {
   const [chat, setChat] = useState<Chat | null>(null);
   const [otherUser, setOtherUser] = useState<UserRow | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [redactedGaps, setRedactedGaps] = useState<RedactedGap[] | null>(null);
   const [content, setContent] = useState("");
   const [sending, setSending] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [otherTyping, setOtherTyping] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Supportive helpline message shown after the child writes a self-harm statement (see self-harm.ts)
+  const [supportMessage, setSupportMessage] = useState<string | null>(null);
   const [flagsByMessageId, setFlagsByMessageId] = useState<Record<string, FlagRow[]>>({});
   const [flaggingMessageId, setFlaggingMessageId] = useState<string | null>(null);
   const [parentInvitation, setParentInvitation] = useState<ParentInvitationRow | null>(null);
   const [isInvitedParent, setIsInvitedParent] = useState(false);
   const [invitationActionId, setInvitationActionId] = useState<number | null>(null);
   const [showImagePicker, setShowImagePicker] = useState(false);
-  const [parentLinks, setParentLinks] = useState<{ child_id: string; surveillance_level: string } | null>(null);
+  const [parentLinks, setParentLinks] = useState<{ child_id: string; surveillance_level: string; read_access: string } | null>(null);
+  const [imageReviewsByMessageId, setImageReviewsByMessageId] = useState<Record<string, ImageReviewRow>>({});
+  const [reviewingMessageId, setReviewingMessageId] = useState<string | null>(null);
+  const [alertsByMessageId, setAlertsByMessageId] = useState<Record<string, SikkerAlertRow>>({});
+  const [alertActionId, setAlertActionId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
@@ -140,8 +278,10 @@ export default function ChatDetailPage() {
       return;
     }
     const { data: flagsData, error: flagsError } = await supabase
-      .from("flags")
-      .select("id, message_id, flagged_by, reason, created_at")
+      .from("moderation_events")
+      .select("id, message_id, source, reported_by, reason, created_at")
+      .in("source", ["user_report", "image"])
+      .eq("status", "open")
       .in("message_id", messageIds);
     
     if (flagsError) {
@@ -169,6 +309,73 @@ export default function ChatDetailPage() {
     setFlagsByMessageId(byMsg);
   }, [chatId, user, messages]);
 
+  // Parents viewing their child's chat: load images held for review (scan failed) so they can approve/reject them
+  const pendingReviewCount = messages.filter((m) => m.attachment_review_status === "pending_review").length;
+  useEffect(() => {
+    if (!chatId || !user || !parentLinks || pendingReviewCount === 0) return;
+    let cancelled = false;
+    (async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token || cancelled) return;
+      const res = await fetch(`/api/parent/image-reviews?chatId=${encodeURIComponent(chatId)}`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      if (!res.ok || cancelled) return;
+      const data = await res.json().catch(() => null);
+      const byMsg: Record<string, ImageReviewRow> = {};
+      for (const review of (data?.reviews ?? []) as ImageReviewRow[]) {
+        byMsg[review.message_id] = review;
+      }
+      setImageReviewsByMessageId(byMsg);
+    })().catch((err) => console.error("Error loading image reviews:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [chatId, user, parentLinks, pendingReviewCount]);
+
+  // Sikker chat alerts: load the structured alert behind each alert message so it can be shown as a card
+  const missingAlertIds = messages
+    .filter((m) => m.message_type === "alert" && !alertsByMessageId[m.id])
+    .map((m) => m.id)
+    .join(",");
+  useEffect(() => {
+    if (!user || !missingAlertIds) return;
+    let cancelled = false;
+    const loadAlerts = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token || cancelled) return 0;
+      const res = await fetch(`/api/parent/alerts?messageIds=${encodeURIComponent(missingAlertIds)}`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      if (!res.ok || cancelled) return 0;
+      const data = await res.json().catch(() => null);
+      const alerts = (data?.alerts ?? []) as SikkerAlertRow[];
+      if (alerts.length > 0) {
+        setAlertsByMessageId((prev) => {
+          const next = { ...prev };
+          for (const alert of alerts) next[alert.message_id] = alert;
+          return next;
+        });
+      }
+      return alerts.length;
+    };
+    // A realtime alert message can arrive just before its alert row is stored - retry once
+    let retry: ReturnType<typeof setTimeout> | null = null;
+    loadAlerts()
+      .then((found) => {
+        if (!cancelled && found < missingAlertIds.split(",").length) {
+          retry = setTimeout(() => {
+            loadAlerts().catch((err) => console.error("Error loading alerts:", err));
+          }, 1500);
+        }
+      })
+      .catch((err) => console.error("Error loading alerts:", err));
+    return () => {
+      cancelled = true;
+      if (retry) clearTimeout(retry);
+    };
+  }, [user, missingAlertIds]);
+
   // Mark chat as read when opening
   useEffect(() => {
     if (!chatId || !user) return;
@@ -228,16 +435,18 @@ export default function ChatDetailPage() {
       // Check if user is a direct participant
       const isDirectParticipant = c.user1_id === uid || c.user2_id === uid;
       
-      // Check if user is a parent of either participant (for surveillance level check)
-      let parentSurveillanceLevel: "strict" | "medium" | "mild" | null = null;
+      // Check if user is a parent of either participant (for the read access in their surveillance profile)
+      let parentReadAccess: "full" | "flagged" | "none" | null = null;
       let shouldAllowAccess = false;
       
-      let linksData: { child_id: string; surveillance_level: string } | null = null;
+      let linksData: { child_id: string; surveillance_level: string; read_access: string } | null = null;
+      // Parents with flagged-only access get a redacted transcript instead of reading the messages (migration 038)
+      let transcript: { messages: Message[]; gaps: RedactedGap[] } | null = null;
       try {
         if (!cancelled) {
           const { data } = await supabase
             .from("parent_child_links")
-            .select("child_id, surveillance_level")
+            .select("child_id, surveillance_level, read_access")
             .eq("parent_id", uid)
             .in("child_id", [c.user1_id, c.user2_id])
             .limit(1)
@@ -265,12 +474,13 @@ export default function ChatDetailPage() {
         shouldAllowAccess = true;
       } else if (linksData) {
         // Not a direct participant, but is a parent of one of the children
-        parentSurveillanceLevel = linksData.surveillance_level as "strict" | "medium" | "mild" | null;
+        parentReadAccess = linksData.read_access as "full" | "flagged" | "none" | null;
         
-        if (linksData.surveillance_level === "strict") {
+        if (linksData.read_access === "full") {
           shouldAllowAccess = true;
-        } else if (linksData.surveillance_level === "medium") {
-            // Must check for flagged messages - default deny
+        } else if (linksData.read_access === "flagged") {
+            // RLS only lets these parents read chats with flagged messages (migration 039);
+            // this check explains why access is denied - default deny
             shouldAllowAccess = false;
             
             try {
@@ -279,17 +489,17 @@ export default function ChatDetailPage() {
               if (cancelled) return;
               
               if (!session?.access_token) {
-                console.warn("Medium level parent: No session token - denying access");
+                console.warn("Flagged-only parent: No session token - denying access");
                 shouldAllowAccess = false;
               } else {
-                console.log("🔍 Medium level parent: Checking flagged messages via API", {
+                console.log("🔍 Flagged-only parent: Checking flagged messages via API", {
                   chatId,
                   parentId: uid,
                   childId: linksData.child_id
                 });
 
                 const apiResponse = await fetch(
-                  `/api/parent/check-flagged-messages?chatId=${encodeURIComponent(chatId || "")}&parentId=${encodeURIComponent(uid)}`,
+                  `/api/parent/check-flagged-messages?chatId=${encodeURIComponent(chatId || "")}&transcript=1`,
                   {
                     headers: {
                       Authorization: `Bearer ${session.access_token}`,
@@ -303,7 +513,7 @@ export default function ChatDetailPage() {
                   const data = await apiResponse.json();
                   const hasFlaggedMessages = data.hasFlaggedMessages === true;
 
-                  console.log("🔍 Medium level parent: API check result", {
+                  console.log("🔍 Flagged-only parent: API check result", {
                     chatId,
                     parentId: uid,
                     hasFlaggedMessages,
@@ -311,16 +521,17 @@ export default function ChatDetailPage() {
                     messageCount: data.messageCount || 0
                   });
 
-                  if (hasFlaggedMessages) {
-                    console.log("✅ Medium level parent: Allowing access - flagged messages found via API");
+                  if (hasFlaggedMessages && data.transcript) {
+                    console.log("✅ Flagged-only parent: Allowing access - flagged messages found via API");
                     shouldAllowAccess = true;
+                    transcript = data.transcript;
                   } else {
-                    console.log("❌ Medium level parent: Denying access - no flagged messages found via API");
+                    console.log("❌ Flagged-only parent: Denying access - no flagged messages found via API");
                     shouldAllowAccess = false;
                   }
                 } else {
                   const errorText = await apiResponse.text().catch(() => apiResponse.statusText);
-                  console.error("❌ Medium level parent: API check failed", {
+                  console.error("❌ Flagged-only parent: API check failed", {
                     status: apiResponse.status,
                     error: errorText
                   });
@@ -343,7 +554,7 @@ export default function ChatDetailPage() {
               shouldAllowAccess = false;
             }
         } else {
-          // Mild level - no access
+          // No read access
           shouldAllowAccess = false;
         }
       } else {
@@ -354,10 +565,10 @@ export default function ChatDetailPage() {
       if (cancelled) return;
       
       if (!shouldAllowAccess) {
-        if (parentSurveillanceLevel === "mild") {
-          setError("You have 'Mild' surveillance level. You can only see chats when your child flags a message.");
-        } else if (parentSurveillanceLevel === "medium") {
-          setError("You have 'Medium' surveillance level. You can only access chats after receiving a keyword notification. This chat has no flagged messages.");
+        if (parentReadAccess === "none") {
+          setError("Your surveillance profile doesn't include reading chats. You see reports and flagged images in the inbox.");
+        } else if (parentReadAccess === "flagged") {
+          setError("Your surveillance profile only gives access to chats with flagged messages. This chat has no flagged messages.");
         } else {
           setError("You don't have access to this chat");
         }
@@ -448,11 +659,30 @@ export default function ChatDetailPage() {
 
       if (cancelled) return;
       
-      const { data: messagesData, error: messagesErr } = await supabase
-        .from("messages")
-        .select("id, chat_id, sender_id, content, created_at, attachment_url, attachment_type")
-        .eq("chat_id", chatId)
-        .order("created_at", { ascending: true });
+      // Parents with full read access get the messages from the API, which records the read in the
+      // surveillance audit log - RLS doesn't let them read their children's messages (migration 047)
+      let parentMessages: { data: Message[] | null; error: { message: string } | null } | null = null;
+      if (!transcript && !isDirectParticipant && linksData) {
+        const { data: { session } } = await supabase.auth.getSession();
+        const res = await fetch(
+          `/api/parent/child-chats?childId=${encodeURIComponent(linksData.child_id)}&chatId=${encodeURIComponent(chatId || "")}`,
+          { headers: { Authorization: `Bearer ${session?.access_token ?? ""}` } }
+        );
+        const data = await res.json().catch(() => ({}));
+        parentMessages = res.ok
+          ? { data: (data.messages ?? []) as Message[], error: null }
+          : { data: null, error: { message: data.error || "Failed to load messages" } };
+        if (cancelled) return;
+      }
+
+      const { data: messagesData, error: messagesErr } = transcript
+        ? { data: transcript.messages, error: null }
+        : parentMessages ?? await supabase
+            .from("messages")
+            .select("id, chat_id, sender_id, content, created_at, attachment_url, attachment_type, attachment_review_status, delivery_status, message_type")
+            .eq("chat_id", chatId)
+            .order("created_at", { ascending: true });
+      setRedactedGaps(transcript ? transcript.gaps : null);
 
       if (cancelled) return;
       
@@ -479,8 +709,10 @@ export default function ChatDetailPage() {
         const messageIds = safeMessagesData.map((m) => m.id).filter((id): id is string => !!id);
         if (messageIds.length > 0) {
           const { data: flagsData, error: flagsError } = await supabase
-            .from("flags")
-            .select("id, message_id, flagged_by, reason, created_at")
+            .from("moderation_events")
+            .select("id, message_id, source, reported_by, reason, created_at")
+            .in("source", ["user_report", "image"])
+            .eq("status", "open")
             .in("message_id", messageIds);
           
           if (cancelled) return;
@@ -618,6 +850,28 @@ export default function ChatDetailPage() {
           });
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "messages",
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          // e.g. an image hidden for parent review, or a held message released by a parent
+          const updatedRow = payload.new as Message;
+          setMessages((prev) => {
+            if (prev.some((m) => m.id === updatedRow.id)) {
+              return prev.map((m) => (m.id === updatedRow.id ? { ...m, ...updatedRow } : m));
+            }
+            // Released messages were never delivered to the recipient - add them in order
+            return [...prev, updatedRow].sort(
+              (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+            );
+          });
+        }
+      )
       .on("presence", { event: "sync" }, () => {
         const state = channel.presenceState();
         const others = Object.keys(state).filter((key) => key !== user.id);
@@ -659,6 +913,39 @@ export default function ChatDetailPage() {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  /**
+   * Send a message through the server (POST /api/messages/send), which checks membership,
+   * holds risky messages for parents who require it and runs text/image moderation before returning
+   */
+  async function sendMessage(payload: {
+    content?: string;
+    attachmentUrl?: string;
+    attachmentType?: string;
+  }): Promise<{ message: Message | null; moderation: SendModeration | null; error: string | null }> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        return { message: null, moderation: null, error: "Ikke logget ind" };
+      }
+      const res = await fetch("/api/messages/send", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ chatId, ...payload }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.message) {
+        return { message: null, moderation: null, error: data.error || "Failed to send message" };
+      }
+      if (data.support?.helplineMessage) setSupportMessage(data.support.helplineMessage);
+      return { message: data.message as Message, moderation: (data.moderation ?? null) as SendModeration | null, error: null };
+    } catch (sendErr) {
+      return { message: null, moderation: null, error: sendErr instanceof Error ? sendErr.message : "Failed to send message" };
+    }
+  }
+
   async function handleSend(e: React.FormEvent) {
     e.preventDefault();
     if (!user || !chatId || sending) return;
@@ -675,24 +962,11 @@ export default function ChatDetailPage() {
       created_at: new Date().toISOString(),
     };
     setMessages((prev) => [...prev, optimistic]);
-    const { data: inserted, error: insertErr } = await supabase
-      .from("messages")
-      .insert({ chat_id: chatId, sender_id: user.id, content: text })
-      .select("id, chat_id, sender_id, content, created_at, attachment_url, attachment_type")
-      .maybeSingle();
+    const { message: inserted, moderation, error: insertErr } = await sendMessage({ content: text });
     setSending(false);
     if (insertErr || !inserted) {
-      // Safe error logging
-      try {
-        if (insertErr && typeof insertErr === "object" && Object.keys(insertErr).length > 0) {
-          console.error("Error inserting message:", insertErr);
-        } else {
-          console.error("Unknown error occurred:", insertErr);
-        }
-      } catch (logErr) {
-        console.error("Error occurred but could not be logged:", String(insertErr || "Unknown"));
-      }
-      setError(insertErr?.message || "Failed to send message");
+      console.error("Error sending message:", insertErr);
+      setError(insertErr || "Failed to send message");
       setMessages((prev) => prev.filter((m) => m.id !== optimistic.id));
       return;
     }
@@ -704,74 +978,13 @@ export default function ChatDetailPage() {
         return prev.filter((m) => m.id !== optimistic.id);
       } else {
         // Replace optimistic with real message
-        return prev.map((m) => (m.id === optimistic.id ? (inserted as Message) : m));
+        return prev.map((m) => (m.id === optimistic.id ? inserted : m));
       }
     });
 
-    // Scan message for safety keywords (non-blocking, only for children)
-    if (inserted?.id) {
-      // Check if sender is a child (has username)
-      const { data: senderUser, error: senderUserError } = await supabase
-        .from("users")
-        .select("username")
-        .eq("id", user.id)
-        .maybeSingle();
-      
-      if (senderUserError) {
-        // Safe error logging
-        try {
-          if (senderUserError && typeof senderUserError === "object" && Object.keys(senderUserError).length > 0) {
-            console.error("Error checking if sender is child:", senderUserError);
-          } else {
-            console.error("Unknown error occurred:", senderUserError);
-          }
-        } catch (logErr) {
-          console.error("Error occurred but could not be logged:", String(senderUserError || "Unknown"));
-        }
-        // Continue anyway - don't block message sending
-      }
-      
-      const isChild = !!(senderUser?.username != null && String(senderUser.username).trim() !== "");
-      
-      if (isChild) {
-        // IMPORTANT: Scan ALL messages from children, regardless of sender's parent surveillance level
-        // This is because the RECIPIENT's parent might have medium/strict surveillance
-        // and needs to see flagged messages even if sender's parent doesn't monitor
-        // Fire and forget - don't block on this
-        console.log("🔍 [Keyword Scanner] Scanning message from child:", user.id, "in chat:", chatId, "message:", inserted.id);
-        fetch("/api/messages/scan-and-flag", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            messageId: inserted.id,
-            childId: user.id,
-            messageText: text,
-            chatId: chatId,
-          }),
-        })
-        .then(async (res) => {
-          if (!res.ok) {
-            const errorText = await res.text().catch(() => res.statusText);
-            console.error("⚠️ [Keyword Scanner] API returned error:", res.status, errorText);
-          } else {
-            try {
-              const data = await res.json();
-              if (data.flagged) {
-                console.log(`✅ [Keyword Scanner] Message flagged: ${data.category} - "${data.keyword}"`);
-                console.log(`✅ [Keyword Scanner] Flagged message should be in database: messageId=${inserted.id}, childId=${user.id}`);
-              } else {
-                console.log("✅ [Keyword Scanner] Message is clean, no keywords found");
-              }
-            } catch (err) {
-              console.error("⚠️ [Keyword Scanner] Failed to parse response:", err);
-            }
-          }
-        })
-        .catch((err) => {
-          // Silently fail - scanning should never block message sending
-          console.error("⚠️ [Keyword Scanner] Failed to scan message for keywords:", err);
-        });
-      }
+    // Moderation ran on the server before the send returned
+    if (moderation?.text?.flagged) {
+      console.log(`✅ [Keyword Scanner] Message flagged: ${moderation.text.category} - "${moderation.text.keyword}"`);
     }
   }
 
@@ -789,105 +1002,25 @@ export default function ChatDetailPage() {
       return;
     }
     const { data: urlData } = supabase.storage.from(BUCKET).getPublicUrl(path);
-    const attachmentUrl = urlData.publicUrl;
-    const { data: inserted, error: insertErr } = await supabase
-      .from("messages")
-      .insert({
-        chat_id: chatId,
-        sender_id: user.id,
-        content: "",
-        attachment_url: attachmentUrl,
-        attachment_type: file.type,
-      })
-      .select("id, chat_id, sender_id, content, created_at, attachment_url, attachment_type")
-      .maybeSingle();
+    const { message: inserted, moderation, error: insertErr } = await sendMessage({
+      attachmentUrl: urlData.publicUrl,
+      attachmentType: file.type,
+    });
     setUploading(false);
     if (insertErr || !inserted) {
-      // Safe error logging
-      try {
-        if (insertErr && typeof insertErr === "object" && Object.keys(insertErr).length > 0) {
-          console.error("Error inserting image message:", insertErr);
-        } else {
-          console.error("Unknown error occurred:", insertErr);
-        }
-      } catch (logErr) {
-        console.error("Error occurred but could not be logged:", String(insertErr || "Unknown"));
-      }
-      setError(insertErr?.message || "Failed to upload image");
+      console.error("Error sending image message:", insertErr);
+      setError(insertErr || "Failed to upload image");
       return;
     }
-    if (inserted) {
-      setMessages((prev) => [...prev, inserted as Message]);
-      
-      // Scan image for NSFW content (non-blocking, fire and forget)
-      // Only scan if user is a child
-      const { data: userData } = await supabase
-        .from("users")
-        .select("is_child")
-        .eq("id", user.id)
-        .maybeSingle();
-      
-      const isChild = userData?.is_child ?? false;
-      
-      if (isChild) {
-        // Fire and forget - don't block on this
-        fetch("/api/moderation/scan-image", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            messageId: inserted.id,
-            imageUrl: attachmentUrl,
-            childId: user.id,
-            chatId: chatId,
-          }),
-        })
-        .then(async (res) => {
-          if (!res.ok) {
-            const errorText = await res.text().catch(() => res.statusText);
-            console.error("⚠️ [Image Scanner] API returned error:", res.status, errorText);
-          } else {
-              try {
-                const data = await res.json();
-                if (data && data.flagged) {
-                  console.log(`⚠️ [Image Scanner] Image flagged: ${data.reason || data.category} (confidence: ${data.confidence})`);
-                  // Refresh flags to show the new flag (only if loadFlags is available)
-                  // Use setTimeout to avoid calling during render
-                  setTimeout(() => {
-                    if (typeof loadFlags === "function") {
-                      loadFlags().catch((flagErr) => {
-                        // Safe error logging
-                        try {
-                          if (flagErr && typeof flagErr === "object" && Object.keys(flagErr).length > 0) {
-                            console.error("Error reloading flags:", flagErr);
-                          } else {
-                            console.error("Unknown error occurred:", flagErr);
-                          }
-                        } catch (logErr) {
-                          console.error("Error occurred but could not be logged:", String(flagErr || "Unknown"));
-                        }
-                      });
-                    }
-                  }, 100);
-                }
-              } catch (err) {
-                // Safe error logging
-                try {
-                  if (err && typeof err === "object" && Object.keys(err).length > 0) {
-                    console.error("⚠️ [Image Scanner] Failed to parse response:", err);
-                  } else {
-                    console.error("⚠️ [Image Scanner] Unknown error occurred:", err);
-                  }
-                } catch (logErr) {
-                  console.error("⚠️ [Image Scanner] Error occurred but could not be logged:", String(err || "Unknown"));
-                }
-              }
-          }
-        })
-        .catch((err) => {
-          // Silently fail - scanning should never block image sending
-          console.error("⚠️ [Image Scanner] Failed to scan image:", err);
-        });
-      }
+    setMessages((prev) => (prev.some((m) => m.id === inserted.id) ? prev : [...prev, inserted]));
+
+    // The image was scanned on the server before the send returned
+    if (moderation?.image?.pendingReview) {
+      console.log(`⚠️ [Image Scanner] Image held for parent review: ${moderation.image.reason}`);
+    } else if (moderation?.image?.flagged) {
+      console.log(`⚠️ [Image Scanner] Image flagged: ${moderation.image.reason || moderation.image.category} (confidence: ${moderation.image.confidence})`);
+      // Refresh flags to show the new flag
+      loadFlags().catch((flagErr) => console.error("Error reloading flags:", flagErr));
     }
   }
 
@@ -1041,48 +1174,153 @@ export default function ChatDetailPage() {
     else setParentInvitation((prev) => (prev ? { ...prev, status: "rejected" } : null));
   }
 
-  /** Phase 6: insert flag and call moderation API placeholder */
+  /** Parent acts on a Sikker chat alert card */
+  async function handleAlertAction(alert: SikkerAlertRow, action: "review" | "block_contact") {
+    if (alertActionId) return;
+    if (action === "block_contact" && !confirm(`Bloker ${alert.counterpart_name ?? "kontakten"} for ${alert.child_name ?? "dit barn"}? De kan ikke længere skrive sammen.`)) {
+      return;
+    }
+    setAlertActionId(alert.id);
+    setError(null);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        setError("Ikke logget ind");
+        return;
+      }
+      const res = await fetch("/api/parent/alerts", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ alertId: alert.id, action }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || "Kunne ikke gemme dit valg");
+        return;
+      }
+      setAlertsByMessageId((prev) => ({
+        ...prev,
+        [alert.message_id]: {
+          ...alert,
+          status: "reviewed",
+          contact_blocked: alert.contact_blocked || action === "block_contact",
+        },
+      }));
+    } finally {
+      setAlertActionId(null);
+    }
+  }
+
+  /** Parent approves or rejects an image held for review */
+  async function handleImageReview(messageId: string, action: "approve" | "reject") {
+    const review = imageReviewsByMessageId[messageId];
+    if (!review || reviewingMessageId) return;
+    setReviewingMessageId(messageId);
+    setError(null);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        setError("Ikke logget ind");
+        return;
+      }
+      const res = await fetch("/api/parent/image-reviews", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ reviewId: review.id, action }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || "Kunne ikke gemme gennemgangen");
+        return;
+      }
+      // In a group the image stays hidden until it is approved for every child it was held back from
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.id === messageId
+            ? action === "approve"
+              ? data.visible
+                ? { ...m, attachment_url: review.attachment_url, attachment_review_status: "approved" }
+                : m
+              : { ...m, attachment_review_status: "rejected" }
+            : m
+        )
+      );
+      setImageReviewsByMessageId((prev) => {
+        const next = { ...prev };
+        delete next[messageId];
+        return next;
+      });
+    } catch (err) {
+      console.error("Error reviewing image:", err);
+      setError("Kunne ikke gemme gennemgangen");
+    } finally {
+      setReviewingMessageId(null);
+    }
+  }
+
+  /** Phase 6: report a message through the moderation API (records a user_report event) */
   async function handleFlag(messageId: string) {
     if (!user) return;
     const reason = window.prompt("Grund til flagning (valgfrit):");
     if (reason === null) return;
     setFlaggingMessageId(messageId);
     setError(null);
-    const { error: insertErr } = await supabase.from("flags").insert({
-      message_id: messageId,
-      flagged_by: user.id,
-      reason: reason.trim() || null,
-    });
-    setFlaggingMessageId(null);
-    if (insertErr) {
-      setError(insertErr.message);
-      return;
-    }
-    setFlagsByMessageId((prev) => ({
-      ...prev,
-      [messageId]: [
-        ...(prev[messageId] ?? []),
-        {
-          id: 0,
-          message_id: messageId,
-          flagged_by: user.id,
-          reason: reason.trim() || null,
-          created_at: new Date().toISOString(),
-        },
-      ],
-    }));
     try {
-      await fetch("/api/moderation/flag", {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        setError("Ikke logget ind");
+        return;
+      }
+      const res = await fetch("/api/moderation/flag", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          message_id: messageId,
-          flagged_by: user.id,
-          reason: reason.trim() || null,
-        }),
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ message_id: messageId, reason: reason.trim() || null }),
       });
-    } catch {
-      // Placeholder API; ignore if not deployed
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || "Kunne ikke flagge beskeden");
+        return;
+      }
+      await loadFlags();
+    } finally {
+      setFlaggingMessageId(null);
+    }
+  }
+
+  /** Parent override: mark the message's reports and image flags as reviewed in the moderation inbox */
+  async function handleClearFlags(messageId: string, flags: FlagRow[]) {
+    const sources = Array.from(new Set(flags.map((f) => f.source)));
+    if (sources.length === 0) return;
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) return;
+      for (const source of sources) {
+        const res = await fetch("/api/parent/moderation-inbox", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({ itemId: `${source}:${messageId}`, action: "reviewed" }),
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          setError(data.error || "Kunne ikke fjerne flaget");
+          return;
+        }
+      }
+      await loadFlags();
+    } catch (err) {
+      console.error("Error clearing flag:", err);
     }
   }
 
@@ -1199,9 +1437,12 @@ export default function ChatDetailPage() {
               parentInvitation.status === "pending" && 
               isInvitedParent;
             
+            const gapBefore = redactedGaps?.find((g) => g.before_message_id === msg.id);
+
             return (
+              <Fragment key={msg.id}>
+              {gapBefore && <RedactedGapNotice count={gapBefore.count} />}
               <div
-                key={msg.id}
                 className={`flex ${isMe ? "justify-end" : "justify-start"} ${showInvitationButtons ? "flex-col" : ""}`}
               >
                 <div
@@ -1213,7 +1454,38 @@ export default function ChatDetailPage() {
                         : "bg-gray-200 text-gray-900 rounded-bl-md"
                   } ${isFlagged && isMe ? "!bg-amber-100" : ""}`}
                 >
-                  {isImage && msg.attachment_url ? (
+                  {msg.attachment_review_status === "pending_review" ? (
+                    <div className="rounded-lg border border-dashed border-gray-400 bg-gray-50 px-3 py-4 text-center text-gray-700" role="status">
+                      <p className="text-sm font-medium">🕒 Billede afventer godkendelse</p>
+                      <p className="text-xs mt-1">
+                        Billedet kunne ikke kontrolleres automatisk og vises, når en forælder har godkendt det.
+                      </p>
+                      {imageReviewsByMessageId[msg.id] && (
+                        <div className="flex justify-center gap-2 mt-2">
+                          <button
+                            type="button"
+                            onClick={() => handleImageReview(msg.id, "approve")}
+                            disabled={reviewingMessageId === msg.id}
+                            className="text-xs px-3 py-1 rounded bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                          >
+                            Godkend
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleImageReview(msg.id, "reject")}
+                            disabled={reviewingMessageId === msg.id}
+                            className="text-xs px-3 py-1 rounded bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                          >
+                            Afvis
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ) : msg.attachment_review_status === "rejected" ? (
+                    <p className="text-sm italic text-gray-600" role="status">
+                      🚫 Billedet blev afvist af en forælder
+                    </p>
+                  ) : isImage && msg.attachment_url ? (
                     <div className={isFlagged ? "ring-2 ring-amber-500 rounded-lg overflow-hidden" : ""}>
                       <a
                         href={msg.attachment_url}
@@ -1247,11 +1519,28 @@ export default function ChatDetailPage() {
                       Vedhæftet fil
                     </a>
                   ) : null}
-                  {(msg.content ?? "").trim() ? (
+                  {alertsByMessageId[msg.id] ? (
+                    <AlertCard
+                      alert={alertsByMessageId[msg.id]}
+                      content={msg.content ?? ""}
+                      busy={alertActionId === alertsByMessageId[msg.id].id}
+                      onAction={handleAlertAction}
+                    />
+                  ) : (msg.content ?? "").trim() ? (
                     <p className="text-sm whitespace-pre-wrap break-words mt-1">
                       {renderMessageWithLinks(msg.content ?? "")}
                     </p>
                   ) : null}
+                  {msg.delivery_status === "held" && (
+                    <p className={`text-xs mt-1 ${isMe ? "text-blue-100" : "text-gray-600"}`} role="status">
+                      🕒 Afventer godkendelse fra en forælder
+                    </p>
+                  )}
+                  {msg.delivery_status === "rejected" && (
+                    <p className={`text-xs mt-1 ${isMe ? "text-blue-100" : "text-gray-600"}`} role="status">
+                      🚫 Beskeden blev ikke leveret
+                    </p>
+                  )}
                   <div className="flex items-center justify-between gap-2 mt-1">
                     <p
                       className={`text-xs ${
@@ -1280,62 +1569,7 @@ export default function ChatDetailPage() {
                       {user && parentLinks && (
                         <button
                           type="button"
-                          onClick={() => {
-                            // Remove flags for this message (parent override)
-                            (async () => {
-                              try {
-                                const flagIds = flags.map(f => f.id).filter((id): id is number => typeof id === "number");
-                                if (flagIds.length === 0) return;
-                                
-                                const { error: deleteError } = await supabase
-                                  .from("flags")
-                                  .delete()
-                                  .in("id", flagIds);
-                                
-                                if (deleteError) {
-                                  // Safe error logging
-                                  try {
-                                    if (deleteError && typeof deleteError === "object" && Object.keys(deleteError).length > 0) {
-                                      console.error("Error clearing flag:", deleteError);
-                                    } else {
-                                      console.error("Unknown error occurred:", deleteError);
-                                    }
-                                  } catch (logErr) {
-                                    console.error("Error occurred but could not be logged:", String(deleteError || "Unknown"));
-                                  }
-                                } else {
-                                  // Reload flags (only if function exists)
-                                  if (typeof loadFlags === "function") {
-                                    try {
-                                      await loadFlags();
-                                    } catch (flagErr) {
-                                      // Safe error logging
-                                      try {
-                                        if (flagErr && typeof flagErr === "object" && Object.keys(flagErr).length > 0) {
-                                          console.error("Error reloading flags:", flagErr);
-                                        } else {
-                                          console.error("Unknown error occurred:", flagErr);
-                                        }
-                                      } catch (logErr) {
-                                        console.error("Error occurred but could not be logged:", String(flagErr || "Unknown"));
-                                      }
-                                    }
-                                  }
-                                }
-                              } catch (err) {
-                                // Safe error logging
-                                try {
-                                  if (err && typeof err === "object" && Object.keys(err).length > 0) {
-                                    console.error("Error clearing flag:", err);
-                                  } else {
-                                    console.error("Unknown error occurred:", err);
-                                  }
-                                } catch (logErr) {
-                                  console.error("Error occurred but could not be logged:", String(err || "Unknown"));
-                                }
-                              }
-                            })();
-                          }}
+                          onClick={() => handleClearFlags(msg.id, flags)}
                           className="mt-1 text-xs px-2 py-1 rounded border border-amber-300 bg-white hover:bg-amber-50 text-amber-800"
                           aria-label="Clear flag (reviewed)"
                         >
@@ -1366,11 +1600,28 @@ export default function ChatDetailPage() {
                   </div>
                 )}
               </div>
+              </Fragment>
             );
           })}
+          {redactedGaps
+            ?.filter((g) => g.before_message_id === null)
+            .map((g) => <RedactedGapNotice key="end" count={g.count} />)}
           <div ref={messagesEndRef} />
         </div>
 
+        {supportMessage && (
+          <div className="flex-shrink-0 mx-3 mb-2 rounded-xl border border-amber-200 bg-amber-50 p-3" role="status">
+            <p className="text-sm text-gray-800 whitespace-pre-wrap">{supportMessage}</p>
+            <button
+              type="button"
+              onClick={() => setSupportMessage(null)}
+              className="mt-2 text-xs font-medium text-amber-800 hover:underline"
+            >
+              Luk
+            </button>
+          </div>
+        )}
+
         <form
           onSubmit={handleSend}
           className="flex-shrink-0 flex gap-2 p-3 sm:p-4 border-t border-gray-200 bg-gray-50 safe-area-inset-bottom"
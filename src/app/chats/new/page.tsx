@@ -239,6 +239,8 @@ export default function NewChatPage() {
           // Insert pending contact request (or update if it already exists)
           // This notifies the parent that someone wants to chat with their child
           // Use API route to bypass RLS issues with direct client-side upsert
+          // (approved right away if no parent requires approval of new contacts)
+          let autoApproved = false;
           try {
             const res = await fetch("/api/pending-request/create", {
               method: "POST",
@@ -261,7 +263,9 @@ export default function NewChatPage() {
                 details: errorData
               });
             } else {
-              console.log("Successfully created pending contact request via API");
+              const data = await res.json().catch(() => ({}));
+              autoApproved = data.autoApproved === true;
+              console.log(autoApproved ? "Contact approved without parent review" : "Successfully created pending contact request via API");
             }
           } catch (apiErr) {
             // Safe error logging
@@ -277,38 +281,40 @@ export default function NewChatPage() {
             // Don't block navigation - the chat is created, just the notification might fail
           }
           
-          // Also create parent-to-parent chat invitation
+          // Also create parent-to-parent chat invitation (unless the contact was approved already)
           // This creates a chat between the two parents so they can discuss the friend request
-          fetch("/api/invitation/create-parent-chat", {
-            method: "POST",
-            headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` },
-            body: JSON.stringify({ invited_child_id: otherUserId }),
-          })
-          .then(async (res) => {
-            if (!res.ok) {
-              const errorData = await res.json().catch(() => ({}));
-              console.error("Error creating parent chat invitation:", {
-                status: res.status,
-                error: errorData.error || res.statusText,
-                details: errorData
-              });
-            } else {
-              const data = await res.json().catch(() => ({}));
-              console.log("Successfully created parent chat invitation:", data);
-            }
-          })
-          .catch((err) => {
-            // Safe error logging
-            try {
-              if (err && typeof err === "object" && Object.keys(err).length > 0) {
-                console.error("Exception creating parent chat invitation:", err);
+          if (!autoApproved) {
+            fetch("/api/invitation/create-parent-chat", {
+              method: "POST",
+              headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.access_token}` },
+              body: JSON.stringify({ invited_child_id: otherUserId }),
+            })
+            .then(async (res) => {
+              if (!res.ok) {
+                const errorData = await res.json().catch(() => ({}));
+                console.error("Error creating parent chat invitation:", {
+                  status: res.status,
+                  error: errorData.error || res.statusText,
+                  details: errorData
+                });
               } else {
-                console.error("Unknown error occurred:", err);
+                const data = await res.json().catch(() => ({}));
+                console.log("Successfully created parent chat invitation:", data);
               }
-            } catch (logErr) {
-              console.error("Error occurred but could not be logged:", String(err || "Unknown"));
-            }
-          });
+            })
+            .catch((err) => {
+              // Safe error logging
+              try {
+                if (err && typeof err === "object" && Object.keys(err).length > 0) {
+                  console.error("Exception creating parent chat invitation:", err);
+                } else {
+                  console.error("Unknown error occurred:", err);
+                }
+              } catch (logErr) {
+                console.error("Error occurred but could not be logged:", String(err || "Unknown"));
+              }
+            });
+          }
         } else {
           console.warn("No session token available - cannot create pending contact request or parent chat invitation");
         }
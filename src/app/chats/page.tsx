@@ -733,6 +733,15 @@ export default function ChatsPage() {
                 Grupper
               </Link>
             )}
+            {isChild && (
+              <Link
+                href="/settings"
+                className="text-sm font-medium text-gray-600 hover:text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded-lg px-2 py-1 min-h-[44px] min-w-[44px] inline-flex items-center justify-center"
+                aria-label="Indstillinger"
+              >
+                Indstillinger
+              </Link>
+            )}
             <button
               type="button"
               onClick={handleLogout}
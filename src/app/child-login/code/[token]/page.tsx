@@ -0,0 +1,82 @@
+"use client";
+
+/**
+ * Child login with a QR code: the parent creates a login code in Parent view and the child scans it
+ * on a new device, which opens this page. The code signs the child in once, within 10 minutes.
+ */
+import { useEffect, useRef, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+import { rememberChild } from "@/lib/picture-password";
+
+export default function ChildLoginCodePage() {
+  const params = useParams();
+  const router = useRouter();
+  const token = params?.token as string | undefined;
+  const [error, setError] = useState<string | null>(null);
+  const [mustChangePin, setMustChangePin] = useState(false);
+  const redeemed = useRef(false);
+
+  useEffect(() => {
+    // A code works only once, so never send it twice (React may run effects twice in development)
+    if (!token || redeemed.current) return;
+    redeemed.current = true;
+
+    async function redeem() {
+      const res = await fetch("/api/auth/child-login/code", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.session) {
+        // A parent gave the child a new PIN: the code still works once the child has chosen their own
+        if (data.mustChangePin) setMustChangePin(true);
+        setError(data.error ?? "Koden virker ikke. Bed en forælder om en ny.");
+        return;
+      }
+      const { error: sessionErr } = await supabase.auth.setSession(data.session);
+      if (sessionErr) {
+        setError(sessionErr.message);
+        return;
+      }
+      rememberChild(data.child);
+      router.replace("/chats");
+      router.refresh();
+    }
+
+    redeem().catch(() => setError("Kunne ikke logge ind. Prøv igen."));
+  }, [token, router]);
+
+  if (!token) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-6">
+        <p className="text-red-600">Ugyldigt link</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-6">
+      <div className="w-full max-w-sm space-y-4 text-center">
+        <h1 className="text-2xl font-semibold">Sniksnak Chat</h1>
+        {error ? (
+          <>
+            <p className="text-red-600" role="alert">{error}</p>
+            {!mustChangePin && (
+              <p className="text-sm text-gray-500">
+                En QR-kode virker kun én gang og kun i 10 minutter. Din forælder kan lave en ny i Forældrevisning.
+              </p>
+            )}
+            <Link href="/child-login" className="text-sm text-blue-600 hover:underline">
+              Log ind med PIN eller billeder
+            </Link>
+          </>
+        ) : (
+          <p className="text-gray-500">Logger ind…</p>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,13 +1,27 @@
 "use client";
 
 /**
- * Child login: username + PIN (no email).
+ * Child login: username + PIN (no email), or username + picture password for young children.
  * Child can only use the app if a parent created their account via Parent view.
+ * The sign-in happens on the server (/api/auth/child-login), which limits wrong attempts.
+ * If a parent has reset the PIN and wants the child to choose their own, the child picks a new PIN here.
+ * The device remembers the last child, so the picture login only needs the pictures next time.
+ * On a new device the child can also scan a QR code from their parent (/child-login/code/[token]).
  */
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
+import {
+  PICTURES,
+  PICTURE_PASSWORD_LENGTH,
+  forgetChild,
+  getRememberedChild,
+  rememberChild,
+  type RememberedChild,
+} from "@/lib/picture-password";
+
+type LoginMethod = "pin" | "pictures";
 
 /** Build login username from first name + surname (same as API) */
 function toUsername(firstName: string, surname: string): string {
@@ -18,12 +32,37 @@ function toUsername(firstName: string, surname: string): string {
 
 export default function ChildLoginPage() {
   const router = useRouter();
+  const [method, setMethod] = useState<LoginMethod>("pin");
+  const [remembered, setRemembered] = useState<RememberedChild | null>(null);
   const [firstName, setFirstName] = useState("");
   const [surname, setSurname] = useState("");
   const [pin, setPin] = useState("");
+  const [pictures, setPictures] = useState<string[]>([]);
+  const [mustChangePin, setMustChangePin] = useState(false);
+  const [newPin, setNewPin] = useState("");
+  const [newPinRepeat, setNewPinRepeat] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  useEffect(() => {
+    const child = getRememberedChild();
+    setRemembered(child);
+    if (child) setMethod("pictures");
+  }, []);
+
+  /** Start the session from the API response and remember the child on this device */
+  async function finishLogin(data: { session: Parameters<typeof supabase.auth.setSession>[0]; child?: RememberedChild }) {
+    const { error: sessionErr } = await supabase.auth.setSession(data.session);
+    setLoading(false);
+    if (sessionErr) {
+      setError(sessionErr.message);
+      return;
+    }
+    rememberChild(data.child);
+    router.push("/chats");
+    router.refresh();
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setError(null);
@@ -34,115 +73,324 @@ export default function ChildLoginPage() {
       setError("Indtast dit fornavn, efternavn og PIN.");
       return;
     }
+    if (mustChangePin && newPin.trim() !== newPinRepeat.trim()) {
+      setError("De to nye PIN-koder er ikke ens.");
+      return;
+    }
     setLoading(true);
     const username = toUsername(fn, sn);
 
-    const res = await fetch("/api/auth/child-email", {
+    const res = await fetch("/api/auth/child-login", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ username }),
+      body: JSON.stringify({ username, pin: p, newPin: mustChangePin ? newPin.trim() : undefined }),
     });
     const data = await res.json().catch(() => ({}));
 
     if (!res.ok) {
       setLoading(false);
+      if (data.mustChangePin) setMustChangePin(true);
       setError(data.error ?? "Kunne ikke finde din konto. En forælder skal oprette den først.");
       return;
     }
 
-    const email = data.email as string;
-    const { error: signInErr } = await supabase.auth.signInWithPassword({
-      email,
-      password: p,
+    await finishLogin(data);
+  }
+
+  /** Tap a picture; the last picture of the sequence signs in right away */
+  async function handlePictureTap(pictureId: string) {
+    if (loading) return;
+    setError(null);
+    const sequence = [...pictures, pictureId];
+    if (sequence.length < PICTURE_PASSWORD_LENGTH) {
+      setPictures(sequence);
+      return;
+    }
+
+    const username = remembered?.username ?? (firstName.trim() && surname.trim() ? toUsername(firstName, surname) : "");
+    if (!username) {
+      setPictures([]);
+      setError("Skriv dit fornavn og efternavn først.");
+      return;
+    }
+
+    setPictures(sequence);
+    setLoading(true);
+    const res = await fetch("/api/auth/child-login/pictures", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, pictures: sequence }),
     });
+    const data = await res.json().catch(() => ({}));
 
-    setLoading(false);
-    if (signInErr) {
-      setError(signInErr.message === "Invalid login credentials" ? "Forkert PIN." : signInErr.message);
+    if (!res.ok) {
+      setLoading(false);
+      setPictures([]);
+      if (data.mustChangePin) {
+        // A parent gave the child a new PIN: the child has to sign in with it and choose their own
+        setMethod("pin");
+        setMustChangePin(true);
+      }
+      setError(data.error ?? "Det var ikke de rigtige billeder. Prøv igen.");
       return;
     }
 
-    router.push("/chats");
-    router.refresh();
+    await finishLogin(data);
+  }
+
+  function switchMethod(next: LoginMethod) {
+    setMethod(next);
+    setPictures([]);
+    setError(null);
   }
 
   return (
     <main className="min-h-screen flex flex-col items-center justify-center p-6">
       <div className="w-full max-w-sm space-y-6">
         <h1 className="text-2xl font-semibold text-center">Sniksnak Chat</h1>
-        <p className="text-sm text-gray-500 text-center">
-          Log ind med det fornavn og efternavn din forælder har sat for dig, og din PIN.
-        </p>
 
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="grid grid-cols-2 gap-3">
-            <div>
-              <label htmlFor="child-firstname" className="block text-sm font-medium text-gray-700 mb-1">
-                Fornavn
-              </label>
-              <input
-                id="child-firstname"
-                type="text"
-                value={firstName}
-                onChange={(e) => setFirstName(e.target.value)}
-                required
-                autoComplete="given-name"
-                placeholder="Fornavn"
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
+        <div className="flex gap-2 border-b border-gray-200">
+          <button
+            type="button"
+            onClick={() => switchMethod("pin")}
+            className={`flex-1 py-2 text-sm font-medium transition-colors ${
+              method === "pin" ? "border-b-2 border-blue-600 text-blue-600" : "text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            PIN
+          </button>
+          <button
+            type="button"
+            onClick={() => switchMethod("pictures")}
+            className={`flex-1 py-2 text-sm font-medium transition-colors ${
+              method === "pictures" ? "border-b-2 border-blue-600 text-blue-600" : "text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            Billeder
+          </button>
+        </div>
+
+        {method === "pin" ? (
+          <>
+            <p className="text-sm text-gray-500 text-center">
+              Log ind med det fornavn og efternavn din forælder har sat for dig, og din PIN.
+            </p>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="child-firstname" className="block text-sm font-medium text-gray-700 mb-1">
+                    Fornavn
+                  </label>
+                  <input
+                    id="child-firstname"
+                    type="text"
+                    value={firstName}
+                    onChange={(e) => setFirstName(e.target.value)}
+                    required
+                    autoComplete="given-name"
+                    placeholder="Fornavn"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="child-surname" className="block text-sm font-medium text-gray-700 mb-1">
+                    Efternavn
+                  </label>
+                  <input
+                    id="child-surname"
+                    type="text"
+                    value={surname}
+                    onChange={(e) => setSurname(e.target.value)}
+                    required
+                    autoComplete="family-name"
+                    placeholder="Efternavn"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="child-pin" className="block text-sm font-medium text-gray-700 mb-1">
+                  PIN
+                </label>
+                <input
+                  id="child-pin"
+                  type="password"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value)}
+                  required
+                  minLength={4}
+                  maxLength={12}
+                  autoComplete="off"
+                  placeholder="Din PIN"
+                  inputMode="numeric"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              {mustChangePin && (
+                <div className="space-y-3 rounded-md border border-blue-200 bg-blue-50 p-3">
+                  <p className="text-sm text-blue-900">Din forælder har givet dig en ny PIN. Vælg nu din egen.</p>
+                  <div>
+                    <label htmlFor="child-new-pin" className="block text-sm font-medium text-gray-700 mb-1">
+                      Ny PIN
+                    </label>
+                    <input
+                      id="child-new-pin"
+                      type="password"
+                      value={newPin}
+                      onChange={(e) => setNewPin(e.target.value)}
+                      required
+                      minLength={4}
+                      maxLength={12}
+                      autoComplete="off"
+                      placeholder="4-12 tegn"
+                      inputMode="numeric"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="child-new-pin-repeat" className="block text-sm font-medium text-gray-700 mb-1">
+                      Gentag ny PIN
+                    </label>
+                    <input
+                      id="child-new-pin-repeat"
+                      type="password"
+                      value={newPinRepeat}
+                      onChange={(e) => setNewPinRepeat(e.target.value)}
+                      required
+                      minLength={4}
+                      maxLength={12}
+                      autoComplete="off"
+                      inputMode="numeric"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {error && (
+                <p className="text-sm text-red-600" role="alert">
+                  {error}
+                </p>
+              )}
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full py-2 px-4 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? "Logger ind…" : "Log ind"}
+              </button>
+            </form>
+          </>
+        ) : (
+          <div className="space-y-4">
+            {remembered ? (
+              <div className="text-center">
+                <p className="text-lg font-medium text-gray-800">Hej {remembered.firstName ?? remembered.username}!</p>
+                <button
+                  type="button"
+                  onClick={() => {
+                    forgetChild();
+                    setRemembered(null);
+                    setPictures([]);
+                  }}
+                  className="text-xs text-gray-500 hover:underline"
+                >
+                  Er det ikke dig?
+                </button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="child-pictures-firstname" className="block text-sm font-medium text-gray-700 mb-1">
+                    Fornavn
+                  </label>
+                  <input
+                    id="child-pictures-firstname"
+                    type="text"
+                    value={firstName}
+                    onChange={(e) => setFirstName(e.target.value)}
+                    autoComplete="given-name"
+                    placeholder="Fornavn"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="child-pictures-surname" className="block text-sm font-medium text-gray-700 mb-1">
+                    Efternavn
+                  </label>
+                  <input
+                    id="child-pictures-surname"
+                    type="text"
+                    value={surname}
+                    onChange={(e) => setSurname(e.target.value)}
+                    autoComplete="family-name"
+                    placeholder="Efternavn"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+            )}
+
+            <p className="text-sm text-gray-500 text-center">Tryk på dine billeder i den rigtige rækkefølge.</p>
+
+            <div className="flex justify-center gap-2" aria-live="polite">
+              {Array.from({ length: PICTURE_PASSWORD_LENGTH }, (_, i) => (
+                <span
+                  key={i}
+                  className={`h-4 w-4 rounded-full ${i < pictures.length ? "bg-blue-600" : "bg-gray-200"}`}
+                  aria-hidden="true"
+                />
+              ))}
+              <span className="sr-only">
+                {pictures.length} af {PICTURE_PASSWORD_LENGTH} billeder valgt
+              </span>
             </div>
-            <div>
-              <label htmlFor="child-surname" className="block text-sm font-medium text-gray-700 mb-1">
-                Efternavn
-              </label>
-              <input
-                id="child-surname"
-                type="text"
-                value={surname}
-                onChange={(e) => setSurname(e.target.value)}
-                required
-                autoComplete="family-name"
-                placeholder="Efternavn"
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
+
+            <div className="grid grid-cols-4 gap-2">
+              {PICTURES.map((picture) => (
+                <button
+                  key={picture.id}
+                  type="button"
+                  onClick={() => handlePictureTap(picture.id)}
+                  disabled={loading}
+                  aria-label={picture.label}
+                  className="aspect-square rounded-xl border border-gray-200 bg-white text-4xl hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  {picture.emoji}
+                </button>
+              ))}
             </div>
-          </div>
-          <div>
-            <label htmlFor="child-pin" className="block text-sm font-medium text-gray-700 mb-1">
-              PIN
-            </label>
-            <input
-              id="child-pin"
-              type="password"
-              value={pin}
-              onChange={(e) => setPin(e.target.value)}
-              required
-              minLength={4}
-              maxLength={12}
-              autoComplete="off"
-              placeholder="Din PIN"
-              inputMode="numeric"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
 
-          {error && (
-            <p className="text-sm text-red-600" role="alert">
-              {error}
-            </p>
-          )}
+            <div className="flex justify-between">
+              <button
+                type="button"
+                onClick={() => setPictures((prev) => prev.slice(0, -1))}
+                disabled={loading || pictures.length === 0}
+                className="text-sm text-gray-600 hover:underline disabled:opacity-50"
+              >
+                ← Fortryd
+              </button>
+              {loading && <span className="text-sm text-gray-500">Logger ind…</span>}
+            </div>
 
-          <button
-            type="submit"
-            disabled={loading}
-            className="w-full py-2 px-4 bg-blue-600 text-white font-medium rounded-md hover:bg-blue-700 disabled:opacity-50"
-          >
-            {loading ? "Logger ind…" : "Log ind"}
-          </button>
-        </form>
+            {error && (
+              <p className="text-sm text-red-600" role="alert">
+                {error}
+              </p>
+            )}
+
+            <p className="text-xs text-gray-500 text-center">
+              Har du ingen billeder? Så log ind med PIN, eller bed en forælder om at vælge billeder til dig.
+            </p>
+          </div>
+        )}
 
         <p className="text-center text-sm text-gray-500">
           Ingen konto? En forælder skal oprette en for dig (fornavn + efternavn) i Forældrevisning og dele invitationslinket.
+          På en ny enhed kan du også scanne en QR-kode fra din forælder.
         </p>
 
         <p className="text-center">
@@ -51,6 +51,8 @@ export default function GroupChatPage() {
   const [uploading, setUploading] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Supportive helpline message shown after the child writes a self-harm statement (see self-harm.ts)
+  const [supportMessage, setSupportMessage] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
@@ -319,6 +321,35 @@ export default function GroupChatPage() {
     router.refresh();
   }
 
+  /**
+   * Send a message through the server (POST /api/messages/send), which checks group membership
+   * and runs moderation before returning
+   */
+  async function sendMessage(payload: {
+    content?: string;
+    attachmentUrl?: string;
+    attachmentType?: string;
+  }): Promise<{ message: Message | null; error: string | null }> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      return { message: null, error: "Ikke logget ind" };
+    }
+    const res = await fetch("/api/messages/send", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ chatId, ...payload }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data.message) {
+      return { message: null, error: data.error || "Failed to send message" };
+    }
+    if (data.support?.helplineMessage) setSupportMessage(data.support.helplineMessage);
+    return { message: data.message as Message, error: null };
+  }
+
   async function handleSend(e: React.FormEvent) {
     e.preventDefault();
     if (!chatId || !content.trim() || sending || !user) return;
@@ -346,21 +377,13 @@ export default function GroupChatPage() {
     setError(null);
 
     try {
-      const { data: newMessage, error: insertErr } = await supabase
-        .from("messages")
-        .insert({
-          chat_id: chatId,
-          sender_id: user.id,
-          content: text,
-        })
-        .select("id, chat_id, sender_id, content, created_at, attachment_url, attachment_type")
-        .maybeSingle();
+      const { message: newMessage, error: insertErr } = await sendMessage({ content: text });
 
       setSending(false);
 
       if (insertErr || !newMessage) {
         console.error("Error sending message:", insertErr);
-        setError(insertErr?.message || "Failed to send message");
+        setError(insertErr || "Failed to send message");
         setMessages((prev) => prev.filter((m) => m.id !== optimistic.id));
         return;
       }
@@ -437,16 +460,10 @@ export default function GroupChatPage() {
         .from(BUCKET)
         .getPublicUrl(filePath);
 
-      const { error: insertErr } = await supabase
-        .from("messages")
-        .insert({
-          chat_id: chatId,
-          sender_id: user.id,
-          attachment_url: publicUrl,
-          attachment_type: file.type,
-        })
-        .select("id")
-        .maybeSingle();
+      const { error: insertErr } = await sendMessage({
+        attachmentUrl: publicUrl,
+        attachmentType: file.type,
+      });
 
       if (insertErr) {
         console.error("Error creating message:", insertErr);
@@ -527,6 +544,19 @@ export default function GroupChatPage() {
           </div>
         )}
 
+        {supportMessage && (
+          <div className="flex-shrink-0 px-4 py-3 bg-amber-50 border-b border-amber-200" role="status">
+            <p className="text-sm text-gray-800 whitespace-pre-wrap">{supportMessage}</p>
+            <button
+              type="button"
+              onClick={() => setSupportMessage(null)}
+              className="mt-2 text-xs font-medium text-amber-800 hover:underline"
+            >
+              Luk
+            </button>
+          </div>
+        )}
+
         <div
           className="flex-1 overflow-y-auto p-4 space-y-3 min-h-0"
           role="log"
@@ -7,14 +7,17 @@ import { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
+import { rememberChild } from "@/lib/picture-password";
 
 export default function InviteChildPage() {
   const params = useParams();
   const router = useRouter();
   const token = params?.token as string | undefined;
   const [firstName, setFirstName] = useState<string | null>(null);
-  const [email, setEmail] = useState<string | null>(null);
   const [pin, setPin] = useState("");
+  const [mustChangePin, setMustChangePin] = useState(false);
+  const [newPin, setNewPin] = useState("");
+  const [newPinRepeat, setNewPinRepeat] = useState("");
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -28,9 +31,8 @@ export default function InviteChildPage() {
     fetch(`/api/invite/child/${encodeURIComponent(token)}`)
       .then((res) => res.json())
       .then((data) => {
-        if (data.first_name != null && data.email != null) {
+        if (data.first_name != null) {
           setFirstName(data.first_name);
-          setEmail(data.email);
         } else {
           setError(data.error ?? "Invalid or expired link");
         }
@@ -41,18 +43,32 @@ export default function InviteChildPage() {
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    if (!email || !pin.trim()) return;
+    if (!token || !pin.trim()) return;
     setError(null);
+    if (mustChangePin && newPin.trim() !== newPinRepeat.trim()) {
+      setError("The two new PINs don't match.");
+      return;
+    }
     setSubmitting(true);
-    const { error: signInErr } = await supabase.auth.signInWithPassword({
-      email,
-      password: pin.trim(),
+    const res = await fetch(`/api/invite/child/${encodeURIComponent(token)}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ pin: pin.trim(), newPin: mustChangePin ? newPin.trim() : undefined }),
     });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data.session) {
+      setSubmitting(false);
+      if (data.mustChangePin) setMustChangePin(true);
+      setError(data.error ?? "Could not sign in.");
+      return;
+    }
+    const { error: sessionErr } = await supabase.auth.setSession(data.session);
     setSubmitting(false);
-    if (signInErr) {
-      setError(signInErr.message === "Invalid login credentials" ? "Wrong PIN." : signInErr.message);
+    if (sessionErr) {
+      setError(sessionErr.message);
       return;
     }
+    rememberChild(data.child);
     router.push("/chats");
     router.refresh();
   }
@@ -70,7 +86,8 @@ export default function InviteChildPage() {
       <main className="min-h-screen flex flex-col items-center justify-center p-6">
         <p className="text-red-600 text-center mb-4">{error}</p>
         <p className="text-sm text-gray-500 text-center">
-          The link may have expired (invitations last 7 days). Ask your parent to create a new invitation from Parent view.
+          An invitation link works once, until it expires or your parent cancels it. Ask your parent to create a new
+          invitation from Parent view.
         </p>
         <Link href="/" className="mt-6 text-sm text-blue-600 hover:underline">
           ← Home
@@ -111,6 +128,48 @@ export default function InviteChildPage() {
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </div>
+          {mustChangePin && (
+            <div className="space-y-3 rounded-md border border-blue-200 bg-blue-50 p-3">
+              <p className="text-sm text-blue-900">Your parent gave you a new PIN. Now choose your own.</p>
+              <div>
+                <label htmlFor="invite-new-pin" className="block text-sm font-medium text-gray-700 mb-1">
+                  New PIN
+                </label>
+                <input
+                  id="invite-new-pin"
+                  type="password"
+                  value={newPin}
+                  onChange={(e) => setNewPin(e.target.value)}
+                  required
+                  minLength={4}
+                  maxLength={12}
+                  autoComplete="off"
+                  placeholder="4-12 characters"
+                  inputMode="numeric"
+                  disabled={submitting}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="invite-new-pin-repeat" className="block text-sm font-medium text-gray-700 mb-1">
+                  Repeat new PIN
+                </label>
+                <input
+                  id="invite-new-pin-repeat"
+                  type="password"
+                  value={newPinRepeat}
+                  onChange={(e) => setNewPinRepeat(e.target.value)}
+                  required
+                  minLength={4}
+                  maxLength={12}
+                  autoComplete="off"
+                  inputMode="numeric"
+                  disabled={submitting}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          )}
           {error && (
             <p className="text-sm text-red-600" role="alert">
               {error}
@@ -4,6 +4,7 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
+import { rememberChild } from "@/lib/picture-password";
 
 type LoginMode = "parent" | "child";
 
@@ -27,6 +28,10 @@ export default function LoginPage() {
   const [firstName, setFirstName] = useState("");
   const [surname, setSurname] = useState("");
   const [pin, setPin] = useState("");
+  // Set when a parent reset the PIN and the child must choose their own
+  const [mustChangePin, setMustChangePin] = useState(false);
+  const [newPin, setNewPin] = useState("");
+  const [newPinRepeat, setNewPinRepeat] = useState("");
   
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -80,33 +85,34 @@ export default function LoginPage() {
       setError("Indtast dit fornavn, efternavn og PIN.");
       return;
     }
+    if (mustChangePin && newPin.trim() !== newPinRepeat.trim()) {
+      setError("De to nye PIN-koder er ikke ens.");
+      return;
+    }
     setLoading(true);
     const username = toUsername(fn, sn);
 
     try {
-      const res = await fetch("/api/auth/child-email", {
+      const res = await fetch("/api/auth/child-login", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ username }),
+        body: JSON.stringify({ username, pin: p, newPin: mustChangePin ? newPin.trim() : undefined }),
       });
       const data = await res.json().catch(() => ({}));
 
       if (!res.ok) {
+        if (data.mustChangePin) setMustChangePin(true);
         setError(data.error ?? "Kunne ikke finde din konto. En forælder skal oprette den først.");
         return;
       }
 
-      const childEmail = data.email as string;
-      const { error: signInErr } = await supabase.auth.signInWithPassword({
-        email: childEmail,
-        password: p,
-      });
-
-      if (signInErr) {
-        setError(signInErr.message === "Invalid login credentials" ? "Forkert PIN." : signInErr.message);
+      const { error: sessionErr } = await supabase.auth.setSession(data.session);
+      if (sessionErr) {
+        setError(sessionErr.message);
         return;
       }
 
+      rememberChild(data.child);
       router.push("/chats");
       router.refresh();
     } catch (err: unknown) {
@@ -285,6 +291,47 @@ export default function LoginPage() {
                 />
               </div>
 
+              {mustChangePin && (
+                <div className="space-y-3 rounded-md border border-blue-200 bg-blue-50 p-3">
+                  <p className="text-sm text-blue-900">Din forælder har givet dig en ny PIN. Vælg nu din egen.</p>
+                  <div>
+                    <label htmlFor="child-new-pin" className="block text-sm font-medium text-gray-700 mb-1">
+                      Ny PIN
+                    </label>
+                    <input
+                      id="child-new-pin"
+                      type="password"
+                      value={newPin}
+                      onChange={(e) => setNewPin(e.target.value)}
+                      required
+                      minLength={4}
+                      maxLength={12}
+                      autoComplete="off"
+                      placeholder="4-12 tegn"
+                      inputMode="numeric"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="child-new-pin-repeat" className="block text-sm font-medium text-gray-700 mb-1">
+                      Gentag ny PIN
+                    </label>
+                    <input
+                      id="child-new-pin-repeat"
+                      type="password"
+                      value={newPinRepeat}
+                      onChange={(e) => setNewPinRepeat(e.target.value)}
+                      required
+                      minLength={4}
+                      maxLength={12}
+                      autoComplete="off"
+                      inputMode="numeric"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+              )}
+
               {error && (
                 <p className="text-sm text-red-600" role="alert">
                   {error}
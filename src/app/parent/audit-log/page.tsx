@@ -0,0 +1,215 @@
+"use client";
+
+/**
+ * Parent view: surveillance audit log.
+ * Who read which chats, changed the surveillance level, removed a child or approved contacts -
+ * every parent of a child sees the same entries (src/lib/surveillance-audit.ts).
+ */
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+
+type AuditEntry = {
+  id: number;
+  child_id: string;
+  actor_id: string | null;
+  action:
+    | "chat_read"
+    | "transcript_read"
+    | "surveillance_changed"
+    | "child_removed"
+    | "contact_approved"
+    | "invite_created"
+    | "invite_revoked"
+    | "invite_redeemed";
+  details: Record<string, unknown>;
+  created_at: string;
+};
+
+const LEVEL_NAMES: Record<string, string> = {
+  strict: "Streng",
+  medium: "Medium",
+  mild: "Mild",
+  custom: "Tilpasset",
+};
+
+const PAGE_SIZE = 100;
+
+/** One line describing the entry, e.g. "Anna læste chatten med Bo" */
+function describe(entry: AuditEntry, names: Record<string, string>): string {
+  const actor = entry.actor_id ? names[entry.actor_id] ?? "En forælder" : "Systemet";
+  const name = (key: string) => {
+    const id = entry.details[key];
+    return typeof id === "string" ? names[id] ?? "en ukendt bruger" : "en ukendt bruger";
+  };
+  const level = (key: string) => LEVEL_NAMES[String(entry.details[key])] ?? String(entry.details[key] ?? "?");
+
+  switch (entry.action) {
+    case "chat_read":
+      if (entry.details.via === "inbox") {
+        return typeof entry.details.otherUserId === "string"
+          ? `${actor} så beskederne omkring en flaget besked i chatten med ${name("otherUserId")}`
+          : `${actor} så en flaget besked i en gruppechat`;
+      }
+      return `${actor} læste chatten med ${name("otherUserId")}`;
+    case "transcript_read":
+      return `${actor} så uddraget af en flaget chat med ${name("otherUserId")}`;
+    case "surveillance_changed":
+      return entry.details.via === "graduation"
+        ? `${actor === "Systemet" ? "Aldersplanen" : actor} skiftede overvågning fra ${level("from")} til ${level("to")}`
+        : `${actor} skiftede overvågning fra ${level("from")} til ${level("to")}`;
+    case "child_removed":
+      return `${actor} fjernede barnet fra sin konto`;
+    case "contact_approved":
+      return entry.details.via === "automatic"
+        ? `${name("contactId")} blev godkendt som kontakt automatisk (ingen forælder kræver godkendelse)`
+        : `${actor} godkendte ${name("contactId")} som kontakt`;
+    case "invite_created":
+      return `${actor} lavede et invitationslink til barnet`;
+    case "invite_revoked":
+      return `${actor} annullerede et invitationslink`;
+    case "invite_redeemed":
+      return `Barnet loggede ind med et invitationslink${
+        typeof entry.details.client === "string" ? ` (fra ${entry.details.client})` : ""
+      }`;
+    default:
+      return entry.action;
+  }
+}
+
+export default function AuditLogPage() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [childFilter, setChildFilter] = useState("");
+  // Children named in the entries, for the filter (includes children no longer linked)
+  const [childIds, setChildIds] = useState<string[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(
+    async (before?: string) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        router.replace("/login");
+        return;
+      }
+      const params = new URLSearchParams();
+      if (childFilter) params.set("childId", childFilter);
+      if (before) params.set("before", before);
+      const res = await fetch(`/api/parent/audit-log?${params}`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || "Kunne ikke hente aktivitetsloggen");
+        return;
+      }
+      const page = (data.entries ?? []) as AuditEntry[];
+      setEntries((prev) => (before ? [...prev, ...page] : page));
+      setNames((prev) => ({ ...prev, ...(data.names ?? {}) }));
+      setChildIds((prev) => Array.from(new Set([...prev, ...page.map((e) => e.child_id)])));
+      setHasMore(page.length === PAGE_SIZE);
+      setError(null);
+    },
+    [childFilter, router]
+  );
+
+  useEffect(() => {
+    loadEntries().finally(() => setLoading(false));
+  }, [loadEntries]);
+
+  async function loadMore() {
+    const last = entries[entries.length - 1];
+    if (!last) return;
+    setLoadingMore(true);
+    await loadEntries(last.created_at);
+    setLoadingMore(false);
+  }
+
+  if (loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-6" role="status" aria-label="Loading">
+        <p className="text-gray-500">Indlæser…</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-4 sm:p-6 safe-area-inset">
+      <div className="max-w-2xl mx-auto">
+        <header className="flex items-center justify-between gap-4 mb-6">
+          <h1 className="text-xl sm:text-2xl font-semibold">Aktivitetslog</h1>
+          <Link
+            href="/parent"
+            className="text-sm text-blue-600 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+          >
+            ← Tilbage til forældrevisning
+          </Link>
+        </header>
+
+        <p className="text-gray-500 text-sm mb-4">
+          Her kan du se, hvornår forældre har læst dit barns chats, ændret overvågningen, fjernet barnet eller godkendt
+          nye kontakter. Alle forældre til barnet ser den samme log, og den kan ikke ændres eller slettes.
+        </p>
+
+        {childIds.length > 1 && (
+          <label className="mb-4 flex items-center gap-2 text-sm text-gray-700">
+            Barn
+            <select
+              value={childFilter}
+              onChange={(e) => {
+                setLoading(true);
+                setChildFilter(e.target.value);
+              }}
+              className="rounded-lg border border-gray-300 bg-white px-2 py-1"
+            >
+              <option value="">Alle børn</option>
+              {childIds.map((id) => (
+                <option key={id} value={id}>{names[id] ?? "Ukendt"}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {error && (
+          <p className="mb-4 text-sm text-red-600" role="alert">{error}</p>
+        )}
+
+        {entries.length === 0 ? (
+          <section className="rounded-xl border border-gray-200 bg-white p-8 text-center">
+            <p className="text-gray-500">Der er ingen aktivitet endnu.</p>
+          </section>
+        ) : (
+          <ul className="space-y-2" role="list">
+            {entries.map((entry) => (
+              <li key={entry.id} className="rounded-xl border border-gray-200 bg-white p-3" role="listitem">
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                  <span className="font-medium text-gray-700 truncate">{names[entry.child_id] ?? "Ukendt barn"}</span>
+                  <span className="flex-shrink-0">
+                    {new Date(entry.created_at).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}
+                  </span>
+                </div>
+                <p className="mt-1 text-sm text-gray-900">{describe(entry, names)}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {hasMore && (
+          <button
+            type="button"
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="mt-4 w-full text-sm px-4 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            {loadingMore ? "Henter…" : "Vis ældre"}
+          </button>
+        )}
+      </div>
+    </main>
+  );
+}
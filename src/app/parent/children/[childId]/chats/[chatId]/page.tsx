@@ -2,10 +2,12 @@
 
 /**
  * Parent view: read-only chat detail for a linked child's chat.
- * Shows messages with realtime updates; each message has a Flag button.
+ * Shows messages (polling for new ones); each message has a Flag button.
  * Flagged messages are visually indicated for parents/admins.
+ * Messages come from GET /api/parent/child-chats, which records the read in the surveillance audit log
+ * that co-parents can see.
  */
-import { useEffect, useState, useRef } from "react";
+import { useCallback, useEffect, useState, useRef } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
@@ -33,10 +35,14 @@ type Message = {
   attachment_type?: string | null;
 };
 
+/** How often an open chat checks for new messages */
+const POLL_INTERVAL_MS = 10000;
+
 type FlagRow = {
-  id: number;
+  id: string;
   message_id: string;
-  flagged_by: string;
+  source: "user_report" | "image";
+  reported_by: string | null;
   reason: string | null;
   created_at: string;
 };
@@ -56,6 +62,28 @@ export default function ParentChatDetailPage() {
   const [error, setError] = useState<string | null>(null);
   const [flaggingMessageId, setFlaggingMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesRef = useRef<Message[]>([]);
+  messagesRef.current = messages;
+
+  /** Messages of the chat (newer than after, if given); served and audited by the server */
+  const fetchMessages = useCallback(
+    async (accessToken: string, after?: string): Promise<{ messages: Message[] } | { error: string }> => {
+      const params = new URLSearchParams({ childId: childId ?? "", chatId: chatId ?? "" });
+      if (after) params.set("after", after);
+      try {
+        const res = await fetch(`/api/parent/child-chats?${params}`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) return { error: data.error || "Could not load messages" };
+        return { messages: (data.messages ?? []) as Message[] };
+      } catch (err) {
+        console.error("Error loading messages:", err);
+        return { error: "Could not load messages" };
+      }
+    },
+    [childId, chatId]
+  );
 
   useEffect(() => {
     if (!chatId || !childId) {
@@ -76,7 +104,7 @@ export default function ParentChatDetailPage() {
 
       const { data: linkData, error: linkErr } = await supabase
         .from("parent_child_links")
-        .select("id, surveillance_level")
+        .select("id, read_access")
         .eq("parent_id", uid)
         .eq("child_id", childId)
         .maybeSingle();
@@ -87,16 +115,16 @@ export default function ParentChatDetailPage() {
         return;
       }
 
-      // Check surveillance level - only strict level parents can access
-      const surveillanceLevel = linkData.surveillance_level as "strict" | "medium" | "mild" | null;
-      if (surveillanceLevel !== "strict") {
+      // Check the surveillance profile - only parents with full read access can browse all chats
+      const readAccess = linkData.read_access as "full" | "flagged" | "none" | null;
+      if (readAccess !== "full") {
         if (!cancelled) {
-          if (surveillanceLevel === "medium") {
-            setError("You have 'Medium' surveillance level. You can only access chats after receiving a keyword notification.");
-          } else if (surveillanceLevel === "mild") {
-            setError("You have 'Mild' surveillance level. You can only see chats when your child flags a message.");
+          if (readAccess === "flagged") {
+            setError("Your surveillance profile only gives access to chats with flagged messages. Open them from the alert or the inbox.");
+          } else if (readAccess === "none") {
+            setError("Your surveillance profile doesn't include reading chats. You see reports and flagged images in the inbox.");
           } else {
-            setError("You don't have access to view this child's chats. Only 'Strict' surveillance level allows access.");
+            setError("You don't have access to view this child's chats. Only full read access allows it.");
           }
         }
         setLoading(false);
@@ -128,23 +156,25 @@ export default function ParentChatDetailPage() {
       const [childRes, otherRes, messagesRes] = await Promise.all([
         supabase.from("users").select("id, email").eq("id", childId).single(),
         supabase.from("users").select("id, email").eq("id", otherId).single(),
-        supabase
-          .from("messages")
-          .select("id, chat_id, sender_id, content, created_at, attachment_url, attachment_type")
-          .eq("chat_id", chatId)
-          .order("created_at", { ascending: true }),
+        fetchMessages(session.access_token),
       ]);
 
       if (!cancelled && childRes.data) setChildUser(childRes.data as UserRow);
       if (!cancelled && otherRes.data) setOtherUser(otherRes.data as UserRow);
-      if (!cancelled && messagesRes.data) setMessages((messagesRes.data ?? []) as Message[]);
-
-      if (!cancelled && messagesRes.data) {
-        const messageIds = (messagesRes.data as Message[]).map((m) => m.id);
+      if (!cancelled && "error" in messagesRes) {
+        setError(messagesRes.error);
+        setLoading(false);
+        return;
+      }
+      if (!cancelled && "messages" in messagesRes) {
+        setMessages(messagesRes.messages);
+        const messageIds = messagesRes.messages.map((m) => m.id);
         if (messageIds.length > 0) {
           const { data: flagsData } = await supabase
-            .from("flags")
-            .select("id, message_id, flagged_by, reason, created_at")
+            .from("moderation_events")
+            .select("id, message_id, source, reported_by, reason, created_at")
+            .in("source", ["user_report", "image"])
+            .eq("status", "open")
             .in("message_id", messageIds);
           const byMsg: Record<string, FlagRow[]> = {};
           for (const f of (flagsData ?? []) as FlagRow[]) {
@@ -161,35 +191,24 @@ export default function ParentChatDetailPage() {
     return () => {
       cancelled = true;
     };
-  }, [chatId, childId, router]);
+  }, [chatId, childId, router, fetchMessages]);
 
-  // Realtime: new messages in this chat
+  // Poll for new messages (parents don't get their children's messages through realtime, migration 047)
   useEffect(() => {
-    if (!chatId) return;
-    const channel = supabase
-      .channel(`parent-chat:${chatId}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "messages",
-          filter: `chat_id=eq.${chatId}`,
-        },
-        (payload) => {
-          const newRow = payload.new as Message;
-          setMessages((prev) => {
-            if (prev.some((m) => m.id === newRow.id)) return prev;
-            return [...prev, newRow];
-          });
-        }
-      )
-      .subscribe();
+    if (!chatId || !childId || !chat) return;
+    const pollInterval = setInterval(async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) return;
+      const last = messagesRef.current[messagesRef.current.length - 1];
+      const result = await fetchMessages(session.access_token, last?.created_at);
+      if (!("messages" in result) || result.messages.length === 0) return;
+      setMessages((prev) => [...prev, ...result.messages.filter((m) => !prev.some((p) => p.id === m.id))]);
+    }, POLL_INTERVAL_MS);
 
     return () => {
-      supabase.removeChannel(channel);
+      clearInterval(pollInterval);
     };
-  }, [chatId]);
+  }, [chatId, childId, chat, fetchMessages]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -201,31 +220,44 @@ export default function ParentChatDetailPage() {
     if (reason === null) return;
     setFlaggingMessageId(messageId);
     setError(null);
-    const { error: insertErr } = await supabase.from("flags").insert({
-      message_id: messageId,
-      flagged_by: user.id,
-      reason: reason.trim() || null,
-    });
-    setFlaggingMessageId(null);
-    if (insertErr) {
-      setError(insertErr.message);
-      return;
-    }
-    setFlagsByMessageId((prev) => {
-      const list = prev[messageId] ?? [];
-      return {
-        ...prev,
-        [messageId]: [...list, { id: 0, message_id: messageId, flagged_by: user.id, reason: reason.trim() || null, created_at: new Date().toISOString() }],
-      };
-    });
     try {
-      await fetch("/api/moderation/flag", {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        setError("Not signed in");
+        return;
+      }
+      const res = await fetch("/api/moderation/flag", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ message_id: messageId, flagged_by: user.id, reason: reason.trim() || null }),
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ message_id: messageId, reason: reason.trim() || null }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || "Could not flag the message");
+        return;
+      }
+      setFlagsByMessageId((prev) => {
+        const list = prev[messageId] ?? [];
+        return {
+          ...prev,
+          [messageId]: [
+            ...list,
+            {
+              id: `pending-${messageId}`,
+              message_id: messageId,
+              source: "user_report",
+              reported_by: user.id,
+              reason: reason.trim() || null,
+              created_at: new Date().toISOString(),
+            },
+          ],
+        };
       });
-    } catch {
-      // Placeholder API may not be deployed; ignore
+    } finally {
+      setFlaggingMessageId(null);
     }
   }
 
@@ -0,0 +1,431 @@
+"use client";
+
+/**
+ * Parent view: login options for one child.
+ * Choose a picture password (a sequence of pictures the child taps instead of typing a PIN),
+ * create a QR code the child scans to sign in on a new device (works once, for 10 minutes), and
+ * create or cancel invitation links (each works once; see which device used it).
+ */
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+import { PICTURES, PICTURE_PASSWORD_LENGTH } from "@/lib/picture-password";
+
+type LoginCode = { url: string; qrCode: string; expiresAt: string };
+
+type Invite = {
+  id: string;
+  status: "active" | "redeemed" | "revoked" | "expired";
+  createdAt: string;
+  expiresAt: string;
+  redeemedAt: string | null;
+  redeemedByClient: string | null;
+  redeemedUserAgent: string | null;
+};
+
+const INVITE_DAY_OPTIONS = [1, 3, 7, 14, 30];
+
+function inviteStatusText(invite: Invite): string {
+  switch (invite.status) {
+    case "active":
+      return `Aktivt til ${new Date(invite.expiresAt).toLocaleString()}`;
+    case "redeemed":
+      return `Brugt ${invite.redeemedAt ? new Date(invite.redeemedAt).toLocaleString() : ""}${
+        invite.redeemedByClient ? ` fra ${invite.redeemedByClient}` : ""
+      }`;
+    case "revoked":
+      return "Annulleret";
+    default:
+      return "Udløbet";
+  }
+}
+
+const PICTURE_BY_ID = new Map(PICTURES.map((p) => [p.id, p]));
+
+export default function ChildLoginOptionsPage() {
+  const router = useRouter();
+  const params = useParams();
+  const childId = params?.childId as string;
+  const [childName, setChildName] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [picturePasswordSetAt, setPicturePasswordSetAt] = useState<string | null>(null);
+  const [sequence, setSequence] = useState<string[]>([]);
+  const [savingPictures, setSavingPictures] = useState(false);
+  const [picturesMessage, setPicturesMessage] = useState<string | null>(null);
+  const [loginCode, setLoginCode] = useState<LoginCode | null>(null);
+  const [creatingCode, setCreatingCode] = useState(false);
+  const [codeMessage, setCodeMessage] = useState<string | null>(null);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [inviteDays, setInviteDays] = useState(7);
+  const [newInviteLink, setNewInviteLink] = useState<string | null>(null);
+  const [inviteBusy, setInviteBusy] = useState(false);
+  const [inviteMessage, setInviteMessage] = useState<string | null>(null);
+
+  const getToken = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      router.replace("/login");
+      return null;
+    }
+    return session.access_token;
+  }, [router]);
+
+  useEffect(() => {
+    if (!childId) return;
+    let cancelled = false;
+
+    async function load() {
+      const token = await getToken();
+      if (!token) return;
+      const [res, invitesRes, { data: child }] = await Promise.all([
+        fetch(`/api/parent/child-picture-password?childId=${encodeURIComponent(childId)}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+        fetch(`/api/parent/child-invites?childId=${encodeURIComponent(childId)}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+        supabase.from("users").select("first_name, surname, username").eq("id", childId).maybeSingle(),
+      ]);
+      const data = await res.json().catch(() => ({}));
+      const invitesData = await invitesRes.json().catch(() => ({}));
+      if (cancelled) return;
+      if (invitesRes.ok) {
+        setInvites(invitesData.invites ?? []);
+      } else {
+        setInviteMessage(invitesData.error || "Kunne ikke hente invitationslinks");
+      }
+      if (!res.ok) {
+        setError(data.error || "Kunne ikke hente login-indstillingerne");
+      } else {
+        setPicturePasswordSetAt(data.setAt ?? null);
+      }
+      if (child) {
+        setChildName(child.first_name ?? child.username ?? "");
+      }
+      setLoading(false);
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [childId, getToken]);
+
+  async function savePictures(remove: boolean) {
+    const token = await getToken();
+    if (!token) return;
+    setSavingPictures(true);
+    setPicturesMessage(null);
+    try {
+      const res = remove
+        ? await fetch(`/api/parent/child-picture-password?childId=${encodeURIComponent(childId)}`, {
+            method: "DELETE",
+            headers: { Authorization: `Bearer ${token}` },
+          })
+        : await fetch("/api/parent/child-picture-password", {
+            method: "POST",
+            headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+            body: JSON.stringify({ childId, pictures: sequence }),
+          });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setPicturesMessage(data.error || "Kunne ikke gemme billedkoden");
+        return;
+      }
+      setPicturePasswordSetAt(remove ? null : new Date().toISOString());
+      setSequence([]);
+      setPicturesMessage(
+        remove
+          ? "Billedkoden er fjernet."
+          : "Billedkoden er gemt. Vis den til barnet, og husk den selv – den kan ikke ses igen."
+      );
+    } finally {
+      setSavingPictures(false);
+    }
+  }
+
+  async function createLoginCode() {
+    const token = await getToken();
+    if (!token) return;
+    setCreatingCode(true);
+    setCodeMessage(null);
+    try {
+      const res = await fetch("/api/parent/child-login-code", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ childId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setCodeMessage(data.error || "Kunne ikke lave en QR-kode");
+        return;
+      }
+      setLoginCode(data);
+    } finally {
+      setCreatingCode(false);
+    }
+  }
+
+  async function createInvite() {
+    const token = await getToken();
+    if (!token) return;
+    setInviteBusy(true);
+    setInviteMessage(null);
+    try {
+      const res = await fetch("/api/parent/child-invites", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ childId, expiresInDays: inviteDays }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setInviteMessage(data.error || "Kunne ikke lave et invitationslink");
+        return;
+      }
+      setNewInviteLink(data.invitationLink);
+      setInvites((prev) => [data.invite, ...prev]);
+    } finally {
+      setInviteBusy(false);
+    }
+  }
+
+  async function revokeInvite(inviteId: string) {
+    const token = await getToken();
+    if (!token) return;
+    setInviteBusy(true);
+    setInviteMessage(null);
+    try {
+      const res = await fetch(`/api/parent/child-invites?id=${encodeURIComponent(inviteId)}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setInviteMessage(data.error || "Kunne ikke annullere linket");
+        return;
+      }
+      setInvites((prev) => prev.map((i) => (i.id === inviteId ? { ...i, status: "revoked" } : i)));
+      setNewInviteLink(null);
+      setInviteMessage("Linket er annulleret og virker ikke længere.");
+    } finally {
+      setInviteBusy(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-6" role="status" aria-label="Loading">
+        <p className="text-gray-500">Indlæser…</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-4 sm:p-6 safe-area-inset">
+      <div className="max-w-2xl mx-auto">
+        <header className="flex items-center justify-between gap-4 mb-6">
+          <h1 className="text-xl sm:text-2xl font-semibold">
+            Login{childName ? ` for ${childName}` : ""}
+          </h1>
+          <Link
+            href="/parent"
+            className="text-sm text-blue-600 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+          >
+            ← Tilbage til forældrevisning
+          </Link>
+        </header>
+
+        {error && (
+          <p className="mb-4 text-sm text-red-600" role="alert">{error}</p>
+        )}
+
+        <section className="mb-6 space-y-4 rounded-xl border border-gray-200 bg-white p-4" aria-label="Billedkode">
+          <h2 className="text-base font-semibold text-gray-900">Billedkode</h2>
+          <p className="text-sm text-gray-500">
+            Små børn kan logge ind ved at trykke på {PICTURE_PASSWORD_LENGTH} billeder i en bestemt rækkefølge i stedet
+            for at skrive en PIN. Vælg billederne her, og vis dem til barnet.
+          </p>
+          <p className="text-sm text-gray-700">
+            {picturePasswordSetAt
+              ? `Barnet har en billedkode (sat ${new Date(picturePasswordSetAt).toLocaleDateString()}).`
+              : "Barnet har ingen billedkode endnu."}
+          </p>
+
+          <div className="flex gap-2" aria-live="polite">
+            {Array.from({ length: PICTURE_PASSWORD_LENGTH }, (_, i) => (
+              <span
+                key={i}
+                className="flex h-14 w-14 items-center justify-center rounded-xl border border-dashed border-gray-300 bg-gray-50 text-3xl"
+                aria-label={sequence[i] ? PICTURE_BY_ID.get(sequence[i])?.label : "Tom"}
+              >
+                {sequence[i] ? PICTURE_BY_ID.get(sequence[i])?.emoji : ""}
+              </span>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-6 gap-2">
+            {PICTURES.map((picture) => (
+              <button
+                key={picture.id}
+                type="button"
+                onClick={() => setSequence((prev) => (prev.length < PICTURE_PASSWORD_LENGTH ? [...prev, picture.id] : prev))}
+                disabled={savingPictures || sequence.length >= PICTURE_PASSWORD_LENGTH}
+                aria-label={picture.label}
+                title={picture.label}
+                className="aspect-square rounded-xl border border-gray-200 bg-white text-3xl hover:bg-blue-50 disabled:opacity-50"
+              >
+                {picture.emoji}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => savePictures(false)}
+              disabled={savingPictures || sequence.length < PICTURE_PASSWORD_LENGTH}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {savingPictures ? "Gemmer…" : "Gem billedkode"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setSequence([])}
+              disabled={savingPictures || sequence.length === 0}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Start forfra
+            </button>
+            {picturePasswordSetAt && (
+              <button
+                type="button"
+                onClick={() => savePictures(true)}
+                disabled={savingPictures}
+                className="rounded-lg border border-red-300 px-4 py-2 text-sm text-red-700 hover:bg-red-50 disabled:opacity-50"
+              >
+                Fjern billedkode
+              </button>
+            )}
+          </div>
+          {picturesMessage && (
+            <p className="text-sm text-gray-600" role="status">{picturesMessage}</p>
+          )}
+        </section>
+
+        <section className="space-y-4 rounded-xl border border-gray-200 bg-white p-4" aria-label="Log ind på en ny enhed">
+          <h2 className="text-base font-semibold text-gray-900">Log ind på en ny enhed</h2>
+          <p className="text-sm text-gray-500">
+            Lav en QR-kode, og lad barnet scanne den med kameraet på den nye enhed. Koden virker én gang og kun i 10 minutter.
+          </p>
+
+          {loginCode && (
+            <div className="flex flex-col items-center gap-2">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={loginCode.qrCode} alt={`QR-kode til login for ${childName || "barnet"}`} className="h-64 w-64" />
+              <p className="text-xs text-gray-500">
+                Virker til kl. {new Date(loginCode.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+              </p>
+              <p className="break-all text-center text-xs text-gray-400">{loginCode.url}</p>
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={createLoginCode}
+            disabled={creatingCode}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {creatingCode ? "Laver QR-kode…" : loginCode ? "Lav en ny QR-kode" : "Lav QR-kode"}
+          </button>
+          {codeMessage && (
+            <p className="text-sm text-red-600" role="alert">{codeMessage}</p>
+          )}
+        </section>
+
+        <section className="mt-6 space-y-4 rounded-xl border border-gray-200 bg-white p-4" aria-label="Invitationslinks">
+          <h2 className="text-base font-semibold text-gray-900">Invitationslinks</h2>
+          <p className="text-sm text-gray-500">
+            Barnet åbner linket og logger ind med sin PIN. Et link virker kun én gang, og du kan annullere det, indtil det er brugt.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <label htmlFor="invite-days" className="text-sm text-gray-700">Gyldigt i</label>
+            <select
+              id="invite-days"
+              value={inviteDays}
+              onChange={(e) => setInviteDays(Number(e.target.value))}
+              className="rounded-lg border border-gray-300 px-2 py-1.5 text-sm"
+            >
+              {INVITE_DAY_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {days === 1 ? "1 dag" : `${days} dage`}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={createInvite}
+              disabled={inviteBusy}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Lav nyt link
+            </button>
+          </div>
+
+          {newInviteLink && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={newInviteLink}
+                aria-label="Nyt invitationslink"
+                className="flex-1 rounded border border-gray-300 bg-gray-50 px-2 py-1.5 text-sm text-gray-800"
+              />
+              <button
+                type="button"
+                onClick={() => {
+                  navigator.clipboard.writeText(newInviteLink);
+                  setInviteMessage("Link kopieret til udklipsholder.");
+                }}
+                className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Kopiér
+              </button>
+            </div>
+          )}
+
+          {invites.length > 0 && (
+            <ul className="divide-y divide-gray-100 text-sm">
+              {invites.map((invite) => (
+                <li key={invite.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                  <div>
+                    <p className="text-gray-800">Lavet {new Date(invite.createdAt).toLocaleString()}</p>
+                    <p className="text-xs text-gray-500">{inviteStatusText(invite)}</p>
+                    {invite.status === "redeemed" && invite.redeemedUserAgent && (
+                      <p className="text-xs text-gray-400 break-all">{invite.redeemedUserAgent}</p>
+                    )}
+                  </div>
+                  {invite.status === "active" && (
+                    <button
+                      type="button"
+                      onClick={() => revokeInvite(invite.id)}
+                      disabled={inviteBusy}
+                      className="rounded-lg border border-red-300 px-3 py-1.5 text-xs text-red-700 hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Annullér
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {inviteMessage && (
+            <p className="text-sm text-gray-600" role="status">{inviteMessage}</p>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
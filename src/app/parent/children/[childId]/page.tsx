@@ -3,8 +3,9 @@
 /**
  * Parent view: list of chats for a linked child.
  * Shows chats where the child is a participant; clicking a chat opens read-only chat detail.
+ * The list shows who wrote last, not what: reading messages is recorded in the surveillance audit log.
  */
-import { useEffect, useState, useRef } from "react";
+import { useEffect, useState } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabase";
@@ -23,14 +24,35 @@ type UserRow = {
   username?: string | null;
 };
 
+/** The last message of a chat, without its content (reading it is a chat read) */
 type MessageRow = {
-  id: string;
   chat_id: string;
   sender_id: string;
-  content: string | null;
   created_at: string;
 };
 
+/** How often the list checks for new messages */
+const POLL_INTERVAL_MS = 30000;
+
+/** The last message of each of the child's chats, from GET /api/parent/child-chats */
+async function fetchLastMessages(accessToken: string, childId: string): Promise<Record<string, MessageRow> | null> {
+  try {
+    const res = await fetch(`/api/parent/child-chats?childId=${encodeURIComponent(childId)}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    const byChat: Record<string, MessageRow> = {};
+    for (const m of (data.lastMessages ?? []) as MessageRow[]) {
+      byChat[m.chat_id] = m;
+    }
+    return byChat;
+  } catch (err) {
+    console.error("Error loading last messages:", err);
+    return null;
+  }
+}
+
 export default function ParentChildChatsPage() {
   const router = useRouter();
   const params = useParams();
@@ -42,7 +64,6 @@ export default function ParentChildChatsPage() {
   const [lastMessageByChat, setLastMessageByChat] = useState<Record<string, MessageRow>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const chatIdsRef = useRef<Set<string>>(new Set());
 
   useEffect(() => {
     if (!childId) {
@@ -61,10 +82,10 @@ export default function ParentChildChatsPage() {
       setUser(session.user);
       const uid = session.user.id;
 
-      // Verify current user is a parent of this child with strict surveillance level
+      // Verify current user is a parent of this child with full read access
       const { data: linkData, error: linkErr } = await supabase
         .from("parent_child_links")
-        .select("id, surveillance_level")
+        .select("id, read_access")
         .eq("parent_id", uid)
         .eq("child_id", childId)
         .maybeSingle();
@@ -75,16 +96,16 @@ export default function ParentChildChatsPage() {
         return;
       }
 
-      // Check surveillance level - only strict level parents can access
-      const surveillanceLevel = linkData.surveillance_level as "strict" | "medium" | "mild" | null;
-      if (surveillanceLevel !== "strict") {
+      // Check the surveillance profile - only parents with full read access can browse all chats
+      const readAccess = linkData.read_access as "full" | "flagged" | "none" | null;
+      if (readAccess !== "full") {
         if (!cancelled) {
-          if (surveillanceLevel === "medium") {
-            setError("You have 'Medium' surveillance level. You can only access chats after receiving a keyword notification.");
-          } else if (surveillanceLevel === "mild") {
-            setError("You have 'Mild' surveillance level. You can only see chats when your child flags a message.");
+          if (readAccess === "flagged") {
+            setError("Your surveillance profile only gives access to chats with flagged messages. Open them from the alert or the inbox.");
+          } else if (readAccess === "none") {
+            setError("Your surveillance profile doesn't include reading chats. You see reports and flagged images in the inbox.");
           } else {
-            setError("You don't have access to view this child's chats. Only 'Strict' surveillance level allows access.");
+            setError("You don't have access to view this child's chats. Only full read access allows it.");
           }
         }
         setLoading(false);
@@ -114,32 +135,26 @@ export default function ParentChildChatsPage() {
 
       const list = (chatsData ?? []) as Chat[];
       if (!cancelled) setChats(list);
-      chatIdsRef.current = new Set(list.map((c) => c.id));
 
       if (list.length === 0) {
         if (!cancelled) setLoading(false);
         return;
       }
 
-      const chatIds = list.map((c) => c.id);
       const otherIds = list.map((c) =>
         c.user1_id === childId ? c.user2_id : c.user1_id
       );
       const uniqueIds = [...new Set(otherIds)];
 
       const usersQuery = supabase.from("users").select("id, email, username").in("id", uniqueIds);
-      const [usersRes, messagesRes] = await Promise.all([
+      const [usersRes, lastMessages] = await Promise.all([
         usersQuery.then((r) => {
           if (r.error && /username|schema cache/i.test(r.error.message)) {
             return supabase.from("users").select("id, email").in("id", uniqueIds);
           }
           return r;
         }),
-        supabase
-          .from("messages")
-          .select("id, chat_id, sender_id, content, created_at")
-          .in("chat_id", chatIds)
-          .order("created_at", { ascending: false }),
+        fetchLastMessages(session.access_token, childId!),
       ]);
 
       if (!cancelled && usersRes.data) {
@@ -150,13 +165,7 @@ export default function ParentChildChatsPage() {
         setUsersById(map);
       }
 
-      if (!cancelled && messagesRes.data) {
-        const byChat: Record<string, MessageRow> = {};
-        for (const m of messagesRes.data as MessageRow[]) {
-          if (!byChat[m.chat_id]) byChat[m.chat_id] = m;
-        }
-        setLastMessageByChat(byChat);
-      }
+      if (!cancelled && lastMessages) setLastMessageByChat(lastMessages);
       if (!cancelled) setLoading(false);
     }
 
@@ -166,30 +175,20 @@ export default function ParentChildChatsPage() {
     };
   }, [childId, router]);
 
-  // Realtime: new messages in any of this child's chats
+  // Poll for new messages (parents don't get their children's messages through realtime, migration 047)
   useEffect(() => {
     if (!childId || !user) return;
-    const channel = supabase
-      .channel(`parent-child-chats-${childId}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "INSERT",
-          schema: "public",
-          table: "messages",
-        },
-        (payload) => {
-          const row = payload.new as MessageRow;
-          if (!chatIdsRef.current.has(row.chat_id)) return;
-          setLastMessageByChat((prev) => ({ ...prev, [row.chat_id]: row }));
-        }
-      )
-      .subscribe();
+    const pollInterval = setInterval(async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) return;
+      const lastMessages = await fetchLastMessages(session.access_token, childId);
+      if (lastMessages) setLastMessageByChat(lastMessages);
+    }, POLL_INTERVAL_MS);
 
     return () => {
-      supabase.removeChannel(channel);
+      clearInterval(pollInterval);
     };
-  }, [childId, user?.id]);
+  }, [childId, user]);
 
   if (loading || !childId) {
     return (
@@ -246,7 +245,7 @@ export default function ParentChildChatsPage() {
                   ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
                   : date.toLocaleDateString();
               const preview = lastMsg
-                ? lastMsg.content?.trim() || "Attachment"
+                ? `Last message from ${lastMsg.sender_id === childId ? childUser?.username ?? "your child" : label}`
                 : "No messages yet";
 
               return (
@@ -0,0 +1,546 @@
+"use client";
+
+/**
+ * Parent view: surveillance profile for one child.
+ * Start from a preset (Streng / Medium / Mild) and adjust what alerts the parent, which images and
+ * contacts need approval, which chats the parent can read, and quiet hours for alerts.
+ * With the child's birthdate the parent can also plan presets by age (surveillance-graduation.ts).
+ */
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+
+type Preset = "strict" | "medium" | "mild";
+type ImageApproval = "all" | "unscanned" | "none";
+type ReadAccess = "full" | "flagged" | "none";
+
+type Profile = {
+  alertCategories: string[];
+  imageApproval: ImageApproval;
+  holdRiskyMessages: boolean;
+  newContactApproval: boolean;
+  readAccess: ReadAccess;
+  quietHours: { start: string; end: string } | null;
+};
+
+type GraduationStep = { preset: Preset; until_age: number | null };
+type GraduationMode = "propose" | "apply";
+type Proposal = { id: string; age: number; from_level: string; to_level: Preset; created_at: string };
+
+const PRESET_LABELS: Record<Preset, { title: string; description: string }> = {
+  strict: { title: "Streng", description: "Fuld adgang til chats, risikable beskeder holdes tilbage" },
+  medium: { title: "Medium", description: "Besked ved nøgleord og adgang til flagede chats" },
+  mild: { title: "Mild", description: "Kun anmeldelser og usikre billeder" },
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  violence: "Vold",
+  pressure_secrets: "Pres og hemmeligheder",
+  sexual: "Seksuelt indhold",
+  bullying: "Mobning",
+  selfworth: "Selvværd",
+  grooming: "Mulig grooming",
+  image: "Usikre billeder",
+};
+
+const IMAGE_APPROVAL_LABELS: Record<ImageApproval, string> = {
+  all: "Alle billeder",
+  unscanned: "Kun billeder der ikke kunne tjekkes",
+  none: "Ingen",
+};
+
+const READ_ACCESS_LABELS: Record<ReadAccess, string> = {
+  full: "Alle chats",
+  flagged: "Kun chats med flagede beskeder (uddrag)",
+  none: "Ingen chats",
+};
+
+export default function SurveillanceProfilePage() {
+  const router = useRouter();
+  const params = useParams();
+  const childId = params?.childId as string;
+  const [childName, setChildName] = useState("");
+  const [level, setLevel] = useState<Preset | "custom">("medium");
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [presets, setPresets] = useState<Record<Preset, Profile> | null>(null);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [birthdate, setBirthdate] = useState("");
+  const [age, setAge] = useState<number | null>(null);
+  const [schedule, setSchedule] = useState<GraduationStep[] | null>(null);
+  const [defaultSchedule, setDefaultSchedule] = useState<GraduationStep[]>([]);
+  const [mode, setMode] = useState<GraduationMode>("propose");
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [planSaving, setPlanSaving] = useState(false);
+  const [planMessage, setPlanMessage] = useState<string | null>(null);
+
+  const getToken = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      router.replace("/login");
+      return null;
+    }
+    return session.access_token;
+  }, [router]);
+
+  const loadGraduation = useCallback(async () => {
+    const token = await getToken();
+    if (!token) return;
+    const res = await fetch(`/api/parent/surveillance-graduation?childId=${encodeURIComponent(childId)}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setPlanMessage(data.error || "Kunne ikke hente planen");
+      return;
+    }
+    setBirthdate(data.birthdate ?? "");
+    setAge(data.age);
+    setSchedule(data.schedule);
+    setDefaultSchedule(data.defaultSchedule ?? []);
+    setMode(data.mode);
+    setProposals(data.proposals ?? []);
+  }, [childId, getToken]);
+
+  useEffect(() => {
+    if (!childId) return;
+    let cancelled = false;
+
+    async function load() {
+      const token = await getToken();
+      if (!token) return;
+      const [res, { data: child }] = await Promise.all([
+        fetch(`/api/parent/surveillance-profile?childId=${encodeURIComponent(childId)}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+        supabase.from("users").select("first_name, surname, username").eq("id", childId).maybeSingle(),
+        loadGraduation(),
+      ]);
+      const data = await res.json().catch(() => ({}));
+      if (cancelled) return;
+      if (!res.ok) {
+        setError(data.error || "Kunne ikke hente overvågningsprofilen");
+      } else {
+        setLevel(data.surveillanceLevel);
+        setProfile(data.profile);
+        setPresets(data.presets);
+        setCategories(data.alertCategories ?? []);
+      }
+      if (child) {
+        setChildName(
+          child.first_name && child.surname ? `${child.first_name} ${child.surname}` : child.username ?? ""
+        );
+      }
+      setLoading(false);
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [childId, getToken, loadGraduation]);
+
+  async function save(body: { preset: Preset } | { profile: Profile }) {
+    const token = await getToken();
+    if (!token) return;
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+    try {
+      const res = await fetch("/api/parent/surveillance-profile", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ childId, ...body }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || "Kunne ikke gemme profilen");
+        return;
+      }
+      setLevel(data.surveillanceLevel);
+      setProfile(data.profile);
+      setSaved(true);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function reloadProfile() {
+    const token = await getToken();
+    if (!token) return;
+    const res = await fetch(`/api/parent/surveillance-profile?childId=${encodeURIComponent(childId)}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    const data = await res.json().catch(() => ({}));
+    if (res.ok) {
+      setLevel(data.surveillanceLevel);
+      setProfile(data.profile);
+    }
+  }
+
+  async function postGraduation(body: Record<string, unknown>) {
+    const token = await getToken();
+    if (!token) return;
+    setPlanSaving(true);
+    setPlanMessage(null);
+    try {
+      const res = await fetch("/api/parent/surveillance-graduation", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setPlanMessage(data.error || "Kunne ikke gemme planen");
+        return;
+      }
+      setPlanMessage(
+        data.applied > 0 ? "Gemt - niveauet er skiftet efter planen" :
+        data.proposed > 0 ? "Gemt - se forslaget nedenfor" :
+        "Gemt"
+      );
+      await Promise.all([loadGraduation(), reloadProfile()]);
+    } finally {
+      setPlanSaving(false);
+    }
+  }
+
+  function updateStep(index: number, changes: Partial<GraduationStep>) {
+    setSchedule((prev) => (prev ? prev.map((step, i) => (i === index ? { ...step, ...changes } : step)) : prev));
+  }
+
+  function addStep() {
+    setSchedule((prev) => {
+      if (!prev) return prev;
+      const last = prev[prev.length - 1];
+      const previousAge = prev.length > 1 ? prev[prev.length - 2].until_age ?? 0 : 0;
+      return [...prev.slice(0, -1), { ...last, until_age: previousAge + 2 }, { preset: last.preset, until_age: null }];
+    });
+  }
+
+  function removeStep(index: number) {
+    setSchedule((prev) => {
+      if (!prev || prev.length <= 1) return prev;
+      const next = prev.filter((_, i) => i !== index);
+      next[next.length - 1] = { ...next[next.length - 1], until_age: null };
+      return next;
+    });
+  }
+
+  function update(changes: Partial<Profile>) {
+    setProfile((prev) => (prev ? { ...prev, ...changes } : prev));
+    setSaved(false);
+  }
+
+  function toggleCategory(category: string) {
+    if (!profile) return;
+    update({
+      alertCategories: profile.alertCategories.includes(category)
+        ? profile.alertCategories.filter((c) => c !== category)
+        : [...profile.alertCategories, category],
+    });
+  }
+
+  if (loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-6" role="status" aria-label="Loading">
+        <p className="text-gray-500">Indlæser…</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-4 sm:p-6 safe-area-inset">
+      <div className="max-w-2xl mx-auto">
+        <header className="flex items-center justify-between gap-4 mb-6">
+          <h1 className="text-xl sm:text-2xl font-semibold">
+            Overvågningsprofil{childName ? ` for ${childName}` : ""}
+          </h1>
+          <Link
+            href="/parent"
+            className="text-sm text-blue-600 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+          >
+            ← Tilbage til forældrevisning
+          </Link>
+        </header>
+
+        {error && (
+          <p className="mb-4 text-sm text-red-600" role="alert">{error}</p>
+        )}
+
+        {profile && presets && (
+          <>
+            <section className="mb-6" aria-label="Forudindstillinger">
+              <p className="text-gray-500 text-sm mb-2">
+                Vælg en forudindstilling, eller tilpas profilen nedenfor. Ændringer gør profilen til &quot;Tilpasset&quot;.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {(Object.keys(PRESET_LABELS) as Preset[]).map((preset) => (
+                  <button
+                    key={preset}
+                    type="button"
+                    onClick={() => save({ preset })}
+                    disabled={saving}
+                    className={`rounded-xl border p-3 text-left disabled:opacity-50 ${
+                      level === preset ? "border-blue-500 bg-blue-50" : "border-gray-200 bg-white hover:bg-gray-50"
+                    }`}
+                  >
+                    <span className="block font-medium text-gray-900">{PRESET_LABELS[preset].title}</span>
+                    <span className="block text-xs text-gray-500 mt-0.5">{PRESET_LABELS[preset].description}</span>
+                  </button>
+                ))}
+              </div>
+              {level === "custom" && (
+                <p className="mt-2 text-xs text-purple-700">Profilen er tilpasset.</p>
+              )}
+            </section>
+
+            <section className="space-y-5 rounded-xl border border-gray-200 bg-white p-4">
+              <fieldset>
+                <legend className="text-sm font-medium text-gray-900">Giv mig besked om</legend>
+                <div className="mt-2 grid grid-cols-2 gap-1">
+                  {categories.map((category) => (
+                    <label key={category} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={profile.alertCategories.includes(category)}
+                        onChange={() => toggleCategory(category)}
+                      />
+                      {CATEGORY_LABELS[category] ?? category}
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">Udsagn om selvskade sendes altid.</p>
+              </fieldset>
+
+              <label className="block text-sm font-medium text-gray-900">
+                Billeder der skal godkendes
+                <select
+                  value={profile.imageApproval}
+                  onChange={(e) => update({ imageApproval: e.target.value as ImageApproval })}
+                  className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm font-normal"
+                >
+                  {(Object.keys(IMAGE_APPROVAL_LABELS) as ImageApproval[]).map((value) => (
+                    <option key={value} value={value}>{IMAGE_APPROVAL_LABELS[value]}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex items-center gap-2 text-sm text-gray-900">
+                <input
+                  type="checkbox"
+                  checked={profile.holdRiskyMessages}
+                  onChange={(e) => update({ holdRiskyMessages: e.target.checked })}
+                />
+                Hold risikable beskeder tilbage, til jeg har set dem
+              </label>
+
+              <label className="flex items-center gap-2 text-sm text-gray-900">
+                <input
+                  type="checkbox"
+                  checked={profile.newContactApproval}
+                  onChange={(e) => update({ newContactApproval: e.target.checked })}
+                />
+                Nye kontakter skal godkendes af en forælder
+              </label>
+
+              <label className="block text-sm font-medium text-gray-900">
+                Adgang til chats
+                <select
+                  value={profile.readAccess}
+                  onChange={(e) => update({ readAccess: e.target.value as ReadAccess })}
+                  className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm font-normal"
+                >
+                  {(Object.keys(READ_ACCESS_LABELS) as ReadAccess[]).map((value) => (
+                    <option key={value} value={value}>{READ_ACCESS_LABELS[value]}</option>
+                  ))}
+                </select>
+              </label>
+
+              <fieldset>
+                <legend className="text-sm font-medium text-gray-900">Stille timer</legend>
+                <label className="mt-1 flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={profile.quietHours !== null}
+                    onChange={(e) => update({ quietHours: e.target.checked ? { start: "21:00", end: "07:00" } : null })}
+                  />
+                  Ingen e-mails om natten - beskeder venter i Sikker chat
+                </label>
+                {profile.quietHours && (
+                  <div className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="time"
+                      value={profile.quietHours.start}
+                      onChange={(e) => update({ quietHours: { ...profile.quietHours!, start: e.target.value } })}
+                      className="rounded-lg border border-gray-300 bg-white px-2 py-1"
+                      aria-label="Stille timer fra"
+                    />
+                    –
+                    <input
+                      type="time"
+                      value={profile.quietHours.end}
+                      onChange={(e) => update({ quietHours: { ...profile.quietHours!, end: e.target.value } })}
+                      className="rounded-lg border border-gray-300 bg-white px-2 py-1"
+                      aria-label="Stille timer til"
+                    />
+                  </div>
+                )}
+              </fieldset>
+
+              <div className="flex items-center justify-end gap-3">
+                {saved && <span className="text-sm text-green-700" role="status">Gemt</span>}
+                <button
+                  type="button"
+                  onClick={() => save({ profile })}
+                  disabled={saving}
+                  className="text-sm px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? "Gemmer…" : "Gem profil"}
+                </button>
+              </div>
+            </section>
+
+            <section className="mt-6 space-y-4 rounded-xl border border-gray-200 bg-white p-4" aria-label="Plan efter alder">
+              <h2 className="text-base font-semibold text-gray-900">Plan efter alder</h2>
+
+              {proposals.map((proposal) => (
+                <div key={proposal.id} className="rounded-lg border border-blue-200 bg-blue-50 p-3">
+                  <p className="text-sm text-gray-900">
+                    Barnet er {proposal.age} år. Planen foreslår at skifte fra{" "}
+                    {PRESET_LABELS[proposal.from_level as Preset]?.title ?? "Tilpasset"} til {PRESET_LABELS[proposal.to_level].title}.
+                  </p>
+                  <div className="mt-2 flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => postGraduation({ action: "accept", graduationId: proposal.id })}
+                      disabled={planSaving}
+                      className="text-sm px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Acceptér
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => postGraduation({ action: "dismiss", graduationId: proposal.id })}
+                      disabled={planSaving}
+                      className="text-sm px-3 py-1.5 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Afvis
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              <label className="block text-sm font-medium text-gray-900">
+                Fødselsdato
+                <input
+                  type="date"
+                  value={birthdate}
+                  onChange={(e) => setBirthdate(e.target.value)}
+                  className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm font-normal"
+                />
+                {age !== null && <span className="block mt-1 text-xs font-normal text-gray-500">{age} år</span>}
+              </label>
+
+              <label className="flex items-center gap-2 text-sm text-gray-900">
+                <input
+                  type="checkbox"
+                  checked={schedule !== null}
+                  onChange={(e) => setSchedule(e.target.checked ? defaultSchedule : null)}
+                />
+                Skift overvågningsniveau efterhånden som barnet bliver ældre
+              </label>
+
+              {schedule && (
+                <>
+                  <ol className="space-y-2">
+                    {schedule.map((step, index) => (
+                      <li key={index} className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                        <select
+                          value={step.preset}
+                          onChange={(e) => updateStep(index, { preset: e.target.value as Preset })}
+                          className="rounded-lg border border-gray-300 bg-white px-2 py-1"
+                          aria-label={`Niveau for trin ${index + 1}`}
+                        >
+                          {(Object.keys(PRESET_LABELS) as Preset[]).map((preset) => (
+                            <option key={preset} value={preset}>{PRESET_LABELS[preset].title}</option>
+                          ))}
+                        </select>
+                        {step.until_age !== null ? (
+                          <>
+                            indtil
+                            <input
+                              type="number"
+                              min={1}
+                              max={18}
+                              value={step.until_age}
+                              onChange={(e) => updateStep(index, { until_age: Number(e.target.value) })}
+                              className="w-16 rounded-lg border border-gray-300 bg-white px-2 py-1"
+                              aria-label={`Alder for trin ${index + 1}`}
+                            />
+                            år
+                          </>
+                        ) : (
+                          <span>derefter</span>
+                        )}
+                        {schedule.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => removeStep(index)}
+                            className="text-xs text-red-600 hover:underline"
+                          >
+                            Fjern
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                  <button type="button" onClick={addStep} className="text-xs font-medium text-blue-600 hover:underline">
+                    + Tilføj trin
+                  </button>
+
+                  <fieldset className="space-y-1">
+                    <legend className="text-sm font-medium text-gray-900">Når barnet når en ny alder</legend>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input type="radio" name="graduation-mode" checked={mode === "propose"} onChange={() => setMode("propose")} />
+                      Foreslå ændringen til mig
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input type="radio" name="graduation-mode" checked={mode === "apply"} onChange={() => setMode("apply")} />
+                      Skift automatisk (en tilpasset profil ændres aldrig uden dig)
+                    </label>
+                  </fieldset>
+                </>
+              )}
+
+              <p className="text-xs text-gray-500">Både du og dit barn får besked i Sikker chat, når niveauet skifter.</p>
+
+              <div className="flex items-center justify-end gap-3">
+                {planMessage && <span className="text-sm text-gray-700" role="status">{planMessage}</span>}
+                <button
+                  type="button"
+                  onClick={() => postGraduation({ action: "save", childId, birthdate: birthdate || null, schedule, mode })}
+                  disabled={planSaving || (schedule !== null && !birthdate)}
+                  className="text-sm px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                  title={schedule !== null && !birthdate ? "Angiv barnets fødselsdato først" : undefined}
+                >
+                  {planSaving ? "Gemmer…" : "Gem plan"}
+                </button>
+              </div>
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
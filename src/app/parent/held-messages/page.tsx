@@ -0,0 +1,173 @@
+"use client";
+
+/**
+ * Parent view: messages held before delivery (strict surveillance).
+ * Risky messages to or from the parent's children wait here until the parent releases or rejects them.
+ */
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+
+type HeldMessage = {
+  id: string;
+  chat_id: string;
+  sender_id: string;
+  content: string | null;
+  created_at: string;
+  hold_reason: string | null;
+  recipient_id: string | null;
+  sender_name: string;
+  recipient_name: string;
+};
+
+export default function HeldMessagesPage() {
+  const router = useRouter();
+  const [messages, setMessages] = useState<HeldMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionMessageId, setActionMessageId] = useState<string | null>(null);
+
+  const getToken = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      router.replace("/login");
+      return null;
+    }
+    return session.access_token;
+  }, [router]);
+
+  const loadHeldMessages = useCallback(async () => {
+    const token = await getToken();
+    if (!token) return;
+    const res = await fetch("/api/parent/held-messages", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(data.error || "Kunne ikke hente tilbageholdte beskeder");
+    } else {
+      setMessages((data.messages ?? []) as HeldMessage[]);
+      setError(null);
+    }
+    setLoading(false);
+  }, [getToken]);
+
+  useEffect(() => {
+    loadHeldMessages();
+  }, [loadHeldMessages]);
+
+  async function handleReview(messageId: string, action: "release" | "reject") {
+    if (actionMessageId) return;
+    const token = await getToken();
+    if (!token) return;
+    setActionMessageId(messageId);
+    setError(null);
+    try {
+      const res = await fetch("/api/parent/held-messages", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ messageId, action }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || "Kunne ikke gemme dit valg");
+        // The message may have been reviewed by the other parent - refresh the list
+        await loadHeldMessages();
+        return;
+      }
+      setMessages((prev) => prev.filter((m) => m.id !== messageId));
+    } finally {
+      setActionMessageId(null);
+    }
+  }
+
+  if (loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-6" role="status" aria-label="Loading">
+        <p className="text-gray-500">Indlæser…</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-4 sm:p-6 safe-area-inset">
+      <div className="max-w-2xl mx-auto">
+        <header className="flex items-center justify-between gap-4 mb-6">
+          <h1 className="text-xl sm:text-2xl font-semibold">Tilbageholdte beskeder</h1>
+          <Link
+            href="/parent"
+            className="text-sm text-blue-600 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+          >
+            ← Tilbage til forældrevisning
+          </Link>
+        </header>
+
+        <p className="text-gray-500 text-sm mb-4">
+          Når dit barn har streng overvågning, bliver beskeder med risikable ord holdt tilbage, indtil du har set dem.
+          Frigiv beskeden for at levere den, eller afvis den, så modtageren aldrig ser den.
+        </p>
+
+        {error && (
+          <p className="mb-4 text-sm text-red-600" role="alert">{error}</p>
+        )}
+
+        {messages.length === 0 ? (
+          <section className="rounded-xl border border-gray-200 bg-white p-8 text-center">
+            <p className="text-gray-500">Ingen beskeder venter på godkendelse.</p>
+          </section>
+        ) : (
+          <ul className="space-y-3" role="list">
+            {messages.map((msg) => (
+              <li key={msg.id} className="rounded-xl border border-amber-200 bg-white p-4" role="listitem">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="font-medium text-gray-900 truncate">
+                    {msg.sender_name} → {msg.recipient_name}
+                  </span>
+                  <span className="text-gray-500 flex-shrink-0">
+                    {new Date(msg.created_at).toLocaleString([], {
+                      dateStyle: "short",
+                      timeStyle: "short",
+                    })}
+                  </span>
+                </div>
+                <p className="mt-2 text-sm whitespace-pre-wrap break-words rounded-lg bg-gray-50 p-3">
+                  {msg.content}
+                </p>
+                {msg.hold_reason && (
+                  <p className="mt-2 text-xs text-amber-700">Årsag: {msg.hold_reason}</p>
+                )}
+                <div className="mt-3 flex items-center justify-between gap-2">
+                  <Link href={`/chats/${msg.chat_id}`} className="text-xs font-medium text-blue-600 hover:underline">
+                    Se chatten →
+                  </Link>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleReview(msg.id, "release")}
+                      disabled={actionMessageId === msg.id}
+                      className="text-sm px-3 py-1.5 rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Frigiv
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleReview(msg.id, "reject")}
+                      disabled={actionMessageId === msg.id}
+                      className="text-sm px-3 py-1.5 rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Afvis
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,369 @@
+"use client";
+
+/**
+ * Parent view: moderation inbox.
+ * Every flag for the parent's children in one list - keyword matches, grooming patterns, reported messages
+ * and unsafe images - with filters, the message in context, and review actions.
+ */
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+
+type InboxStatus = "open" | "reviewed" | "dismissed" | "escalated";
+type InboxAction = Exclude<InboxStatus, "open">;
+
+type InboxItem = {
+  id: string;
+  source: "user_report" | "keyword" | "image" | "conversation_analysis";
+  message_id: string;
+  chat_id: string;
+  group_id: string | null;
+  child_names: string[];
+  sender_name: string;
+  categories: string[];
+  keywords: string[];
+  reasons: string[];
+  risk_score: number;
+  content: string | null;
+  attachment_type: string | null;
+  flagged_at: string;
+  status: InboxStatus;
+  reviewer_name: string | null;
+};
+
+type InboxChild = { id: string; name: string };
+
+type ContextMessage = {
+  id: string;
+  sender_name: string;
+  content: string | null;
+  attachment_type: string | null;
+  created_at: string;
+  flagged: boolean;
+};
+
+const CATEGORY_LABELS: Record<string, string> = {
+  violence: "Vold",
+  pressure_secrets: "Pres og hemmeligheder",
+  sexual: "Seksuelt indhold",
+  bullying: "Mobning",
+  selfworth: "Selvværd",
+  grooming: "Mulig grooming",
+  image: "Usikkert billede",
+  reported: "Anmeldt besked",
+};
+
+const STATUS_LABELS: Record<InboxStatus, string> = {
+  open: "Ny",
+  reviewed: "Gennemgået",
+  dismissed: "Falsk alarm",
+  escalated: "Eskaleret",
+};
+
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleString([], { dateStyle: "short", timeStyle: "short" });
+}
+
+export default function ModerationInboxPage() {
+  const router = useRouter();
+  const [items, setItems] = useState<InboxItem[]>([]);
+  const [children, setChildren] = useState<InboxChild[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [childId, setChildId] = useState("");
+  const [category, setCategory] = useState("");
+  const [status, setStatus] = useState<InboxStatus | "">("open");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [actionItemId, setActionItemId] = useState<string | null>(null);
+  const [contextByItemId, setContextByItemId] = useState<Record<string, ContextMessage[]>>({});
+  const [contextLoadingId, setContextLoadingId] = useState<string | null>(null);
+
+  const getToken = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      router.replace("/login");
+      return null;
+    }
+    return session.access_token;
+  }, [router]);
+
+  const loadInbox = useCallback(async () => {
+    const token = await getToken();
+    if (!token) return;
+    const params = new URLSearchParams();
+    if (childId) params.set("childId", childId);
+    if (category) params.set("category", category);
+    if (status) params.set("status", status);
+    if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+    if (toDate) params.set("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+    const res = await fetch(`/api/parent/moderation-inbox?${params}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(data.error || "Kunne ikke hente indbakken");
+    } else {
+      setItems((data.items ?? []) as InboxItem[]);
+      setChildren((data.children ?? []) as InboxChild[]);
+      setError(null);
+    }
+    setLoading(false);
+  }, [getToken, childId, category, status, fromDate, toDate]);
+
+  useEffect(() => {
+    loadInbox();
+  }, [loadInbox]);
+
+  async function handleAction(item: InboxItem, action: InboxAction) {
+    if (actionItemId) return;
+    if (action === "escalated" && !confirm("Eskalér beskeden? Dit barns andre forældre får besked i Sikker chat.")) {
+      return;
+    }
+    const token = await getToken();
+    if (!token) return;
+    setActionItemId(item.id);
+    setError(null);
+    try {
+      const res = await fetch("/api/parent/moderation-inbox", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ itemId: item.id, action }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || "Kunne ikke gemme dit valg");
+        return;
+      }
+      // Items that no longer match the status filter leave the list
+      setItems((prev) =>
+        status && status !== action
+          ? prev.filter((i) => i.id !== item.id)
+          : prev.map((i) => (i.id === item.id ? { ...i, status: action } : i))
+      );
+    } finally {
+      setActionItemId(null);
+    }
+  }
+
+  async function toggleContext(item: InboxItem) {
+    if (contextByItemId[item.id]) {
+      setContextByItemId((prev) => {
+        const next = { ...prev };
+        delete next[item.id];
+        return next;
+      });
+      return;
+    }
+    const token = await getToken();
+    if (!token) return;
+    setContextLoadingId(item.id);
+    try {
+      const res = await fetch(`/api/parent/moderation-inbox?contextFor=${encodeURIComponent(item.id)}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(data.error || "Kunne ikke hente samtalen");
+        return;
+      }
+      setContextByItemId((prev) => ({ ...prev, [item.id]: (data.messages ?? []) as ContextMessage[] }));
+    } finally {
+      setContextLoadingId(null);
+    }
+  }
+
+  if (loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-6" role="status" aria-label="Loading">
+        <p className="text-gray-500">Indlæser…</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-4 sm:p-6 safe-area-inset">
+      <div className="max-w-2xl mx-auto">
+        <header className="flex items-center justify-between gap-4 mb-6">
+          <h1 className="text-xl sm:text-2xl font-semibold">Indbakke</h1>
+          <Link
+            href="/parent"
+            className="text-sm text-blue-600 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+          >
+            ← Tilbage til forældrevisning
+          </Link>
+        </header>
+
+        <p className="text-gray-500 text-sm mb-4">
+          Her er alle markerede beskeder i dine børns chats. Gennemgå dem, afvis dem som falsk alarm,
+          eller eskalér dem, så dit barns andre forældre også får besked. Dit valg ses også af de andre forældre.
+        </p>
+
+        <section className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-4" aria-label="Filtre">
+          <label className="text-xs text-gray-600">
+            Barn
+            <select
+              value={childId}
+              onChange={(e) => setChildId(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm"
+            >
+              <option value="">Alle børn</option>
+              {children.map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-600">
+            Kategori
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm"
+            >
+              <option value="">Alle kategorier</option>
+              {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-600">
+            Status
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as InboxStatus | "")}
+              className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm"
+            >
+              <option value="">Alle</option>
+              {(Object.keys(STATUS_LABELS) as InboxStatus[]).map((s) => (
+                <option key={s} value={s}>{STATUS_LABELS[s]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-600">
+            Fra
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm"
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Til
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm"
+            />
+          </label>
+        </section>
+
+        {error && (
+          <p className="mb-4 text-sm text-red-600" role="alert">{error}</p>
+        )}
+
+        {items.length === 0 ? (
+          <section className="rounded-xl border border-gray-200 bg-white p-8 text-center">
+            <p className="text-gray-500">Ingen markerede beskeder.</p>
+          </section>
+        ) : (
+          <ul className="space-y-3" role="list">
+            {items.map((item) => (
+              <li
+                key={item.id}
+                className={`rounded-xl border bg-white p-4 ${item.status === "open" ? "border-amber-200" : "border-gray-200"}`}
+                role="listitem"
+              >
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="font-medium text-gray-900 truncate">
+                    {item.categories.map((c) => CATEGORY_LABELS[c] ?? c).join(", ")}
+                  </span>
+                  <span className="text-gray-500 flex-shrink-0">{formatTime(item.flagged_at)}</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {item.child_names.join(", ")} · fra {item.sender_name}
+                  {item.group_id ? " · gruppechat" : ""} · {STATUS_LABELS[item.status]}
+                  {item.status !== "open" && item.reviewer_name ? ` af ${item.reviewer_name}` : ""}
+                </p>
+
+                {contextByItemId[item.id] ? (
+                  <div className="mt-2 space-y-1 rounded-lg bg-gray-50 p-3">
+                    {contextByItemId[item.id].map((m) => (
+                      <p
+                        key={m.id}
+                        className={`text-sm whitespace-pre-wrap break-words ${m.flagged ? "rounded bg-amber-100 px-1 font-medium" : "text-gray-700"}`}
+                      >
+                        <span className="text-xs text-gray-500">{m.sender_name}, {formatTime(m.created_at)}: </span>
+                        {m.content || (m.attachment_type ? "📷 Billede" : "")}
+                      </p>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="mt-2 text-sm whitespace-pre-wrap break-words rounded-lg bg-gray-50 p-3">
+                    {item.content || (item.attachment_type ? "📷 Billede" : "")}
+                  </p>
+                )}
+
+                {(item.keywords.length > 0 || item.reasons.length > 0) && (
+                  <p className="mt-2 text-xs text-amber-700">
+                    {item.keywords.length > 0 && `Ord: ${item.keywords.map((k) => `"${k}"`).join(", ")}`}
+                    {item.keywords.length > 0 && item.reasons.length > 0 && " · "}
+                    {item.reasons.length > 0 && `Årsag: ${item.reasons.join("; ")}`}
+                  </p>
+                )}
+
+                <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+                  <button
+                    type="button"
+                    onClick={() => toggleContext(item)}
+                    disabled={contextLoadingId === item.id}
+                    className="text-xs font-medium text-blue-600 hover:underline disabled:opacity-50"
+                  >
+                    {contextByItemId[item.id] ? "Skjul samtalen" : "Vis i sammenhæng"}
+                  </button>
+                  <div className="flex flex-wrap gap-2">
+                    {item.status !== "reviewed" && (
+                      <button
+                        type="button"
+                        onClick={() => handleAction(item, "reviewed")}
+                        disabled={actionItemId === item.id}
+                        className="text-sm px-3 py-1.5 rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Gennemgået
+                      </button>
+                    )}
+                    {item.status !== "dismissed" && (
+                      <button
+                        type="button"
+                        onClick={() => handleAction(item, "dismissed")}
+                        disabled={actionItemId === item.id}
+                        className="text-sm px-3 py-1.5 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Falsk alarm
+                      </button>
+                    )}
+                    {item.status !== "escalated" && (
+                      <button
+                        type="button"
+                        onClick={() => handleAction(item, "escalated")}
+                        disabled={actionItemId === item.id}
+                        className="text-sm px-3 py-1.5 rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Eskalér
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </main>
+  );
+}
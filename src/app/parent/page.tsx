@@ -16,6 +16,7 @@ type LinkRow = {
   parent_id: string;
   child_id: string;
   surveillance_level?: string | null;
+  read_access?: string | null;
 };
 
 type UserRow = {
@@ -59,6 +60,12 @@ export default function ParentPage() {
   const [accessDenied, setAccessDenied] = useState(false);
   const [deletingChildId, setDeletingChildId] = useState<string | null>(null);
   const [updatingSurveillanceLevel, setUpdatingSurveillanceLevel] = useState<string | null>(null);
+  const [lockedUntilByChild, setLockedUntilByChild] = useState<Record<string, string>>({});
+  const [pinResetChildId, setPinResetChildId] = useState<string | null>(null);
+  const [newPin, setNewPin] = useState("");
+  const [newPinMustChange, setNewPinMustChange] = useState(false);
+  const [childActionId, setChildActionId] = useState<string | null>(null);
+  const [childActionMessage, setChildActionMessage] = useState<{ childId: string; text: string } | null>(null);
   const [pendingRequests, setPendingRequests] = useState<Array<{
     id: string;
     child_id: string;
@@ -150,10 +157,10 @@ export default function ParentPage() {
         return;
       }
 
-      // Parent: load links and children (including surveillance_level)
+      // Parent: load links and children (including surveillance_level and read access)
       const { data: linksData, error: linksErr } = await supabase
         .from("parent_child_links")
-        .select("id, parent_id, child_id, surveillance_level")
+        .select("id, parent_id, child_id, surveillance_level, read_access")
         .eq("parent_id", uid)
         .order("id", { ascending: true });
 
@@ -227,6 +234,22 @@ export default function ParentPage() {
         setUsersById(map);
       }
 
+      // Children locked after too many wrong PINs (migration 043; nothing shows if it hasn't run)
+      if (childIds.length > 0) {
+        const { data: lockRows } = await supabase
+          .from("child_login_throttle")
+          .select("child_id, locked_until")
+          .in("child_id", childIds)
+          .gt("locked_until", new Date().toISOString());
+        if (!cancelled) {
+          const locks: Record<string, string> = {};
+          for (const row of (lockRows ?? []) as { child_id: string; locked_until: string }[]) {
+            locks[row.child_id] = row.locked_until;
+          }
+          setLockedUntilByChild(locks);
+        }
+      }
+
       // Load friends (approved contacts) for each child
       if (!cancelled && childIds.length > 0) {
         try {
@@ -609,6 +632,48 @@ export default function ParentPage() {
     setUsersById((prev) => ({ ...prev, [childUser.id]: childUser as UserRow }));
   }
 
+  /** Unlock a child's login, or give the child a new PIN (which also unlocks it and signs the child out everywhere) */
+  async function handleChildLogin(childId: string, action: "unlock" | "reset-pin") {
+    if (childActionId) return;
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) return;
+    setChildActionId(childId);
+    setChildActionMessage(null);
+    try {
+      const res = await fetch(action === "unlock" ? "/api/parent/unlock-child" : "/api/parent/reset-child-pin", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify(action === "unlock" ? { childId } : { childId, pin: newPin, mustChangePin: newPinMustChange }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setChildActionMessage({ childId, text: data.error || "Noget gik galt" });
+        return;
+      }
+      setLockedUntilByChild((prev) => {
+        const updated = { ...prev };
+        delete updated[childId];
+        return updated;
+      });
+      if (action === "reset-pin") {
+        setPinResetChildId(null);
+        setNewPin("");
+        setNewPinMustChange(false);
+      }
+      setChildActionMessage({
+        childId,
+        text: action === "unlock"
+          ? "Kontoen er låst op."
+          : "Den nye PIN er gemt, og barnet er logget ud på alle enheder.",
+      });
+    } finally {
+      setChildActionId(null);
+    }
+  }
+
   /** Delete/unlink a child */
   async function handleDeleteChild(childId: string, childName: string) {
     if (!user) return;
@@ -626,15 +691,21 @@ export default function ParentPage() {
       return;
     }
 
-    const { error: deleteErr } = await supabase
-      .from("parent_child_links")
-      .delete()
-      .eq("id", linkToDelete.id)
-      .eq("parent_id", user.id); // Extra safety check
+    // Removed through the API so the removal is recorded in the audit log
+    const { data: { session } } = await supabase.auth.getSession();
+    const res = await fetch("/api/parent/remove-child", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${session?.access_token ?? ""}`,
+      },
+      body: JSON.stringify({ childId }),
+    });
 
     setDeletingChildId(null);
-    if (deleteErr) {
-      setError(deleteErr.message);
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      setError(data.error || "Kunne ikke fjerne barnet");
       return;
     }
 
@@ -677,6 +748,24 @@ export default function ParentPage() {
         <header className="flex items-center justify-between gap-4 mb-6">
           <h1 className="text-xl sm:text-2xl font-semibold">Forældrevisning</h1>
           <nav className="flex items-center gap-4">
+            <Link
+              href="/parent/moderation"
+              className="text-sm font-medium text-gray-700 hover:text-gray-900 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-3 py-2"
+            >
+              Indbakke
+            </Link>
+            <Link
+              href="/parent/held-messages"
+              className="text-sm font-medium text-gray-700 hover:text-gray-900 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-3 py-2"
+            >
+              Tilbageholdte beskeder
+            </Link>
+            <Link
+              href="/parent/audit-log"
+              className="text-sm font-medium text-gray-700 hover:text-gray-900 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-3 py-2"
+            >
+              Aktivitetslog
+            </Link>
             <Link
               href="/chats"
               className="text-sm font-medium text-blue-600 hover:text-blue-700 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded px-3 py-2 bg-blue-50 hover:bg-blue-100 transition-colors"
@@ -994,6 +1083,7 @@ export default function ParentPage() {
               <p className="text-sm font-medium text-green-800 mb-2">Invitationslink til dit barn</p>
               <p className="text-xs text-green-700 mb-2">
                 Del dette link med dit barn. De åbner det, indtaster deres PIN, og kan begynde at bruge appen.
+                Linket virker én gang og i 7 dage. Under &quot;Login&quot; kan du lave et nyt eller annullere det.
               </p>
               <div className="flex gap-2">
                 <input
@@ -1084,8 +1174,9 @@ export default function ParentPage() {
               const friends = friendsByChildId[link.child_id] || [];
               const friendLabel = (f: UserRow) =>
                 f.first_name && f.surname ? `${f.first_name} ${f.surname}` : f.username ?? f.email ?? "Unknown";
-              const surveillanceLevel: "strict" | "medium" | "mild" = (link.surveillance_level as "strict" | "medium" | "mild") || "medium";
-              const canViewChats = surveillanceLevel === "strict";
+              const surveillanceLevel: "strict" | "medium" | "mild" | "custom" =
+                (link.surveillance_level as "strict" | "medium" | "mild" | "custom") || "medium";
+              const canViewChats = link.read_access === "full";
               
               return (
                 <li key={link.id} role="listitem" className="px-4 py-3">
@@ -1114,11 +1205,13 @@ export default function ParentPage() {
                               surveillanceLevel === "strict" ? "bg-red-100 text-red-700" :
                               surveillanceLevel === "medium" ? "bg-yellow-100 text-yellow-700" :
                               surveillanceLevel === "mild" ? "bg-green-100 text-green-700" :
+                              surveillanceLevel === "custom" ? "bg-purple-100 text-purple-700" :
                               "bg-gray-100 text-gray-700"
                             }`}>
                               {surveillanceLevel === "strict" ? "Streng" :
                                surveillanceLevel === "medium" ? "Medium" :
-                               surveillanceLevel === "mild" ? "Mild" : "Ukendt"}
+                               surveillanceLevel === "mild" ? "Mild" :
+                               surveillanceLevel === "custom" ? "Tilpasset" : "Ukendt"}
                             </span>
                           </div>
                         </div>
@@ -1144,11 +1237,13 @@ export default function ParentPage() {
                               (surveillanceLevel as string) === "strict" ? "bg-red-100 text-red-700" :
                               (surveillanceLevel as string) === "medium" ? "bg-yellow-100 text-yellow-700" :
                               (surveillanceLevel as string) === "mild" ? "bg-green-100 text-green-700" :
+                              (surveillanceLevel as string) === "custom" ? "bg-purple-100 text-purple-700" :
                               "bg-gray-100 text-gray-700"
                             }`}>
                               {(surveillanceLevel as string) === "strict" ? "Strict" :
                                (surveillanceLevel as string) === "medium" ? "Medium" :
-                               (surveillanceLevel as string) === "mild" ? "Mild" : "Unknown"}
+                               (surveillanceLevel as string) === "mild" ? "Mild" :
+                               (surveillanceLevel as string) === "custom" ? "Tilpasset" : "Unknown"}
                             </span>
                           </div>
                           <p className="text-xs text-gray-500 mt-0.5">
@@ -1158,6 +1253,10 @@ export default function ParentPage() {
                               ? "Adgang kun efter nøgleordsnotifikation"
                               : (surveillanceLevel as string) === "mild"
                               ? "Adgang kun når barnet flagger en besked"
+                              : (surveillanceLevel as string) === "custom"
+                              ? link.read_access === "flagged"
+                                ? "Tilpasset profil - adgang til chats med flagede beskeder"
+                                : "Tilpasset profil - ingen adgang til chats"
                               : "Ukendt overvågningsniveau"}
                           </p>
                         </div>
@@ -1177,7 +1276,34 @@ export default function ParentPage() {
                         <option value="strict">Streng</option>
                         <option value="medium">Medium</option>
                         <option value="mild">Mild</option>
+                        <option value="custom" disabled>Tilpasset</option>
                       </select>
+                      <Link
+                        href={`/parent/children/${link.child_id}/surveillance`}
+                        className="text-xs text-blue-600 hover:underline"
+                        aria-label={`Tilpas overvågningsprofil for ${label}`}
+                      >
+                        Tilpas
+                      </Link>
+                      <Link
+                        href={`/parent/children/${link.child_id}/login`}
+                        className="text-xs text-blue-600 hover:underline"
+                        aria-label={`Billedkode, QR-kode og invitationslinks for ${label}`}
+                      >
+                        Login
+                      </Link>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setPinResetChildId(pinResetChildId === link.child_id ? null : link.child_id);
+                          setNewPin("");
+                          setNewPinMustChange(false);
+                        }}
+                        className="text-xs text-blue-600 hover:underline"
+                        aria-label={`Giv ${label} en ny PIN`}
+                      >
+                        Ny PIN
+                      </button>
                       <button
                         type="button"
                         onClick={(e) => {
@@ -1194,6 +1320,68 @@ export default function ParentPage() {
                       </button>
                     </div>
                   </div>
+                  {lockedUntilByChild[link.child_id] && (
+                    <div className="mt-2 ml-[52px] flex flex-wrap items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2" role="alert">
+                      <p className="text-xs text-amber-800 flex-1">
+                        🔒 Kontoen er låst efter for mange forkerte PIN-forsøg (til kl.{" "}
+                        {new Date(lockedUntilByChild[link.child_id]).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}).
+                      </p>
+                      <button
+                        type="button"
+                        onClick={() => handleChildLogin(link.child_id, "unlock")}
+                        disabled={childActionId === link.child_id}
+                        className="text-xs font-medium px-2 py-1 rounded-lg border border-amber-300 bg-white text-amber-800 hover:bg-amber-100 disabled:opacity-50"
+                      >
+                        Lås op
+                      </button>
+                    </div>
+                  )}
+                  {pinResetChildId === link.child_id && (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleChildLogin(link.child_id, "reset-pin");
+                      }}
+                      className="mt-2 ml-[52px] flex flex-wrap items-center gap-2"
+                    >
+                      <label htmlFor={`new-pin-${link.child_id}`} className="text-xs text-gray-700">
+                        Ny PIN til {label}
+                      </label>
+                      <input
+                        id={`new-pin-${link.child_id}`}
+                        type="password"
+                        value={newPin}
+                        onChange={(e) => setNewPin(e.target.value)}
+                        minLength={4}
+                        maxLength={12}
+                        required
+                        autoComplete="new-password"
+                        inputMode="numeric"
+                        className="w-28 rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                      />
+                      <button
+                        type="submit"
+                        disabled={childActionId === link.child_id}
+                        className="text-xs font-medium px-3 py-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Gem PIN
+                      </button>
+                      <label className="flex w-full items-center gap-1.5 text-xs text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={newPinMustChange}
+                          onChange={(e) => setNewPinMustChange(e.target.checked)}
+                        />
+                        Barnet skal vælge sin egen PIN ved næste login
+                      </label>
+                      <p className="w-full text-xs text-gray-500">
+                        {label} bliver logget ud på alle enheder og skal logge ind igen med den nye PIN.
+                      </p>
+                    </form>
+                  )}
+                  {childActionMessage?.childId === link.child_id && (
+                    <p className="mt-1 ml-[52px] text-xs text-gray-600" role="status">{childActionMessage.text}</p>
+                  )}
                   {friends.length > 0 && (
                     <div className="mt-2 ml-[52px]">
                       <p className="text-xs text-gray-500 mb-1.5">Venner ({friends.length}):</p>
@@ -0,0 +1,200 @@
+"use client";
+
+/**
+ * Child view: settings, starting with what the child's parents can see.
+ * Explains each parent's surveillance level in child-friendly words (GET /api/child/surveillance).
+ */
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { supabase } from "@/lib/supabase";
+
+type ReadAccess = "full" | "flagged" | "none";
+
+type ParentSurveillance = {
+  parentName: string;
+  surveillanceLevel: "strict" | "medium" | "mild" | "custom";
+  profile: {
+    alertCategories: string[];
+    imageApproval: "all" | "unscanned" | "none";
+    holdRiskyMessages: boolean;
+    newContactApproval: boolean;
+    readAccess: ReadAccess;
+  };
+  changedAt: string | null;
+};
+
+const LEVEL_LABELS: Record<ParentSurveillance["surveillanceLevel"], string> = {
+  strict: "Streng",
+  medium: "Medium",
+  mild: "Mild",
+  custom: "Tilpasset",
+};
+
+const READ_ACCESS_TEXT: Record<ReadAccess, string> = {
+  full: "kan læse alle dine chats.",
+  flagged: "kan kun læse beskeder, der er markeret som bekymrende, og lidt af samtalen lige omkring dem. Resten er skjult.",
+  none: "kan ikke læse dine chats.",
+};
+
+/** What each alert category means, in words a child understands */
+const CATEGORY_TEXT: Record<string, string> = {
+  violence: "vold eller trusler",
+  pressure_secrets: "nogen der presser dig eller beder dig holde hemmeligheder",
+  sexual: "seksuelle ting",
+  bullying: "mobning",
+  selfworth: "at have det dårligt med sig selv",
+  grooming: "en voksen eller fremmed, der prøver at komme for tæt på dig",
+  image: "billeder, der kan være upassende",
+};
+
+function formatChangedAt(iso: string): string {
+  return new Date(iso).toLocaleDateString("da-DK", { day: "numeric", month: "long", year: "numeric" });
+}
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const [parents, setParents] = useState<ParentSurveillance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (cancelled) return;
+      if (!session?.access_token) {
+        router.replace("/login");
+        return;
+      }
+
+      const res = await fetch("/api/child/surveillance", {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (cancelled) return;
+
+      if (res.status === 403) {
+        // Not a child - parents manage this from the parent view
+        router.replace("/parent");
+        return;
+      }
+      if (!res.ok) {
+        setError(data.error || "Kunne ikke hente indstillingerne");
+      } else {
+        setParents(data.parents ?? []);
+      }
+      setLoading(false);
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [router]);
+
+  if (loading) {
+    return (
+      <main className="min-h-screen flex items-center justify-center p-4 sm:p-6">
+        <p className="text-gray-500">Indlæser…</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen p-4 sm:p-6 safe-area-inset">
+      <div className="max-w-2xl mx-auto">
+        <header className="flex items-center justify-between gap-4 mb-6">
+          <h1 className="text-xl sm:text-2xl font-semibold">Indstillinger</h1>
+          <Link
+            href="/chats"
+            className="text-sm font-medium text-gray-600 hover:text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 rounded-lg px-2 py-1 min-h-[44px] min-w-[44px] inline-flex items-center justify-center"
+          >
+            ← Tilbage til chats
+          </Link>
+        </header>
+
+        <section aria-labelledby="surveillance-heading">
+          <h2 id="surveillance-heading" className="text-lg font-semibold text-gray-900">
+            Hvad kan mine forældre se?
+          </h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Dine forældre har valgt, hvor meget de holder øje med, så de kan passe på dig. Her kan du se, hvad det betyder.
+          </p>
+
+          {error && (
+            <p className="mt-4 text-sm text-red-600" role="alert">{error}</p>
+          )}
+
+          {!error && parents.length === 0 && (
+            <div className="mt-4 rounded-xl border border-gray-200 bg-gray-50 p-6 text-center">
+              <p className="text-gray-600">Du er ikke koblet til en forælder endnu.</p>
+            </div>
+          )}
+
+          <div className="mt-4 space-y-4">
+            {parents.map((parent, index) => {
+              const { profile } = parent;
+              const categories = profile.alertCategories.filter((category) => CATEGORY_TEXT[category]);
+              return (
+                <article key={index} className="rounded-xl border border-gray-200 bg-white p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h3 className="text-base font-semibold text-gray-900">{parent.parentName}</h3>
+                    <span className="text-xs font-medium px-2 py-1 rounded-full bg-blue-50 text-blue-700">
+                      {LEVEL_LABELS[parent.surveillanceLevel] ?? parent.surveillanceLevel}
+                    </span>
+                  </div>
+
+                  <ul className="mt-3 space-y-2 text-sm text-gray-700 list-disc pl-5">
+                    <li>
+                      {parent.parentName} {READ_ACCESS_TEXT[profile.readAccess]}
+                    </li>
+                    {categories.length > 0 && (
+                      <li>
+                        {parent.parentName} får besked, hvis en besked handler om:
+                        <ul className="mt-1 list-[circle] pl-5">
+                          {categories.map((category) => (
+                            <li key={category}>{CATEGORY_TEXT[category]}</li>
+                          ))}
+                        </ul>
+                      </li>
+                    )}
+                    <li>
+                      {parent.parentName} får altid besked, hvis du skriver, at du vil gøre skade på dig selv, eller hvis
+                      nogen anmelder en besked. Så kan de hjælpe dig.
+                    </li>
+                    {profile.holdRiskyMessages && (
+                      <li>Beskeder, der kan være farlige, venter på, at {parent.parentName} har set dem, før de bliver sendt.</li>
+                    )}
+                    {profile.imageApproval === "all" && (
+                      <li>Billeder, du får, skal godkendes af {parent.parentName}, før du kan se dem.</li>
+                    )}
+                    {profile.imageApproval === "unscanned" && (
+                      <li>Billeder, som ikke kunne tjekkes automatisk, skal godkendes af {parent.parentName}, før du kan se dem.</li>
+                    )}
+                    <li>
+                      {profile.newContactApproval
+                        ? `Nye chat-venner skal godkendes af ${parent.parentName}.`
+                        : "Du kan selv tilføje nye chat-venner."}
+                    </li>
+                  </ul>
+
+                  <p className="mt-3 text-xs text-gray-500">
+                    {parent.changedAt
+                      ? `Sidst ændret ${formatChangedAt(parent.changedAt)}`
+                      : "Vi ved ikke, hvornår det sidst blev ændret."}
+                  </p>
+                </article>
+              );
+            })}
+          </div>
+
+          <p className="mt-6 text-sm text-gray-600">
+            Har du spørgsmål til det her? Så snak med dine forældre om det – det er helt okay at spørge.
+          </p>
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,266 @@
+/**
+ * Child invitation links (migration 046)
+ *
+ * A parent shares an invitation link (/invite/child/<token>) so the child can open the app and sign
+ * in with their PIN. Each link is a child_invites row and a token signed with its id as jti
+ * (invite-token.ts), so a link:
+ * - expires after 1-30 days (7 by default), chosen by the parent
+ * - can be revoked by any of the child's parents until it is used
+ * - is used up by the first successful sign-in, which records the device (IP address and user agent);
+ *   each attempt claims the link before signing in and gives it back if the sign-in fails
+ * Creating, revoking and redeeming a link is recorded in the surveillance audit log.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  INVITE_TOKEN_TTL_MS,
+  currentSigningKeyId,
+  signInviteToken,
+  verifyInviteToken,
+} from "@/lib/invite-token";
+import { recordAuditEvent } from "@/lib/surveillance-audit";
+
+export const MIN_INVITE_DAYS = 1;
+export const MAX_INVITE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_USER_AGENT_LENGTH = 300;
+
+export type ChildInviteStatus = "active" | "redeemed" | "revoked" | "expired";
+
+export interface ChildInvite {
+  id: string;
+  child_id: string;
+  created_by: string | null;
+  created_at: string;
+  expires_at: string;
+  key_id: string;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  redeemed_at: string | null;
+  redeemed_by_client: string | null;
+  redeemed_user_agent: string | null;
+}
+
+/** The device that redeemed a link */
+export interface InviteDevice {
+  client: string;
+  userAgent: string | null;
+}
+
+const INVITE_COLUMNS =
+  "id, child_id, created_by, created_at, expires_at, key_id, revoked_at, revoked_by, redeemed_at, redeemed_by_client, redeemed_user_agent";
+
+const MISSING_TABLE =
+  "The child_invites table is missing. Run supabase/migrations/046_child_invites.sql in Supabase SQL Editor.";
+
+function isMissingTable(message: string): boolean {
+  return /child_invites|does not exist|schema cache/i.test(message);
+}
+
+export function inviteStatus(invite: ChildInvite, now: Date = new Date()): ChildInviteStatus {
+  if (invite.redeemed_at) return "redeemed";
+  if (invite.revoked_at) return "revoked";
+  if (new Date(invite.expires_at).getTime() <= now.getTime()) return "expired";
+  return "active";
+}
+
+/**
+ * Create an invitation link token for a child
+ * expiresInDays is clamped to MIN_INVITE_DAYS..MAX_INVITE_DAYS (default 7 days).
+ */
+export async function createChildInvite(
+  admin: SupabaseClient,
+  childId: string,
+  createdBy: string,
+  options: { expiresInDays?: number } = {}
+): Promise<{ token: string; invite: ChildInvite } | { error: string; status: number }> {
+  const keyId = currentSigningKeyId();
+  if (!keyId) return { error: "Invitation links are not configured (INVITE_SECRETS)", status: 503 };
+
+  const ttlMs = options.expiresInDays != null
+    ? Math.min(Math.max(Math.round(options.expiresInDays), MIN_INVITE_DAYS), MAX_INVITE_DAYS) * DAY_MS
+    : INVITE_TOKEN_TTL_MS;
+  const expiresAt = new Date(Date.now() + ttlMs);
+
+  const { data: invite, error } = await admin
+    .from("child_invites")
+    .insert({ child_id: childId, created_by: createdBy, expires_at: expiresAt.toISOString(), key_id: keyId })
+    .select(INVITE_COLUMNS)
+    .single();
+  if (error || !invite) {
+    console.error("⚠️ [Invites] Failed to create invitation:", error);
+    return error && isMissingTable(error.message)
+      ? { error: MISSING_TABLE, status: 503 }
+      : { error: error?.message ?? "Could not create invitation", status: 500 };
+  }
+
+  await recordAuditEvent(admin, {
+    childId,
+    actorId: createdBy,
+    action: "invite_created",
+    details: { inviteId: invite.id, expiresAt: invite.expires_at },
+  });
+
+  return { token: signInviteToken(childId, invite.id as string, expiresAt.getTime()), invite: invite as ChildInvite };
+}
+
+/**
+ * Check an invitation token without using it up
+ * Returns the child and invite id while the link is active.
+ */
+export async function checkChildInvite(
+  admin: SupabaseClient,
+  token: string
+): Promise<{ childId: string; inviteId: string } | { error: string; status: number }> {
+  const payload = verifyInviteToken(token);
+  if (!payload) return { error: "Invalid or expired invitation link", status: 404 };
+
+  const { data: invite, error } = await admin
+    .from("child_invites")
+    .select(INVITE_COLUMNS)
+    .eq("id", payload.jti)
+    .maybeSingle();
+  if (error) {
+    return isMissingTable(error.message) ? { error: MISSING_TABLE, status: 503 } : { error: error.message, status: 500 };
+  }
+  if (!invite || invite.child_id !== payload.child_id) {
+    return { error: "Invalid or expired invitation link", status: 404 };
+  }
+
+  switch (inviteStatus(invite as ChildInvite)) {
+    case "redeemed":
+      return { error: "This invitation link has already been used", status: 410 };
+    case "revoked":
+      return { error: "This invitation link has been cancelled", status: 410 };
+    case "expired":
+      return { error: "Invalid or expired invitation link", status: 404 };
+    default:
+      return { childId: payload.child_id, inviteId: payload.jti };
+  }
+}
+
+/** An invitation link held by one sign-in attempt (claimChildInvite) */
+export interface InviteClaim {
+  inviteId: string;
+  childId: string;
+  claimedAt: string;
+  device: InviteDevice;
+}
+
+/**
+ * Claim an invitation link before signing in with it
+ * Atomic: only one attempt gets the link; 410 if it was used, revoked or expired in the meantime.
+ * The claim marks the link used by this device. Release it if the sign-in fails (releaseChildInvite),
+ * or finish it once the child is signed in (finishChildInvite).
+ */
+export async function claimChildInvite(
+  admin: SupabaseClient,
+  inviteId: string,
+  device: InviteDevice
+): Promise<InviteClaim | { error: string; status: number }> {
+  const now = new Date().toISOString();
+  const userAgent = device.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) ?? null;
+  const { data: claimed, error } = await admin
+    .from("child_invites")
+    .update({ redeemed_at: now, redeemed_by_client: device.client, redeemed_user_agent: userAgent })
+    .eq("id", inviteId)
+    .is("redeemed_at", null)
+    .is("revoked_at", null)
+    .gt("expires_at", now)
+    .select("child_id");
+  if (error) {
+    console.error("⚠️ [Invites] Failed to claim invitation:", error);
+    return { error: "Could not use the invitation link", status: 500 };
+  }
+  if (!claimed || claimed.length === 0) {
+    return { error: "This invitation link has already been used or cancelled", status: 410 };
+  }
+  return { inviteId, childId: claimed[0].child_id as string, claimedAt: now, device: { client: device.client, userAgent } };
+}
+
+/** Give a claimed link back after a failed sign-in, so it can still be used */
+export async function releaseChildInvite(admin: SupabaseClient, claim: InviteClaim): Promise<void> {
+  const { error } = await admin
+    .from("child_invites")
+    .update({ redeemed_at: null, redeemed_by_client: null, redeemed_user_agent: null })
+    .eq("id", claim.inviteId)
+    .eq("redeemed_at", claim.claimedAt);
+  if (error) {
+    console.error("⚠️ [Invites] Failed to release invitation:", error);
+  }
+}
+
+/** The child signed in with a claimed link: record it in the audit log */
+export async function finishChildInvite(admin: SupabaseClient, claim: InviteClaim): Promise<void> {
+  await recordAuditEvent(admin, {
+    childId: claim.childId,
+    actorId: null,
+    action: "invite_redeemed",
+    details: { inviteId: claim.inviteId, client: claim.device.client, userAgent: claim.device.userAgent },
+  });
+}
+
+/**
+ * Revoke an unused invitation link
+ * Any parent linked to the child may revoke it; links already used or revoked can't be.
+ */
+export async function revokeChildInvite(
+  admin: SupabaseClient,
+  parentId: string,
+  inviteId: string
+): Promise<{ ok: true } | { error: string; status: number }> {
+  const { data: invite, error: loadErr } = await admin
+    .from("child_invites")
+    .select("child_id")
+    .eq("id", inviteId)
+    .maybeSingle();
+  if (loadErr) return { error: loadErr.message, status: 500 };
+  if (!invite) return { error: "Invitation not found", status: 404 };
+
+  const { data: link } = await admin
+    .from("parent_child_links")
+    .select("id")
+    .eq("parent_id", parentId)
+    .eq("child_id", invite.child_id)
+    .maybeSingle();
+  if (!link) return { error: "Child link not found or access denied", status: 403 };
+
+  const { data: revoked, error } = await admin
+    .from("child_invites")
+    .update({ revoked_at: new Date().toISOString(), revoked_by: parentId })
+    .eq("id", inviteId)
+    .is("revoked_at", null)
+    .is("redeemed_at", null)
+    .select("id");
+  if (error) return { error: error.message, status: 500 };
+  if (!revoked || revoked.length === 0) {
+    return { error: "The invitation has already been used or cancelled", status: 409 };
+  }
+
+  await recordAuditEvent(admin, {
+    childId: invite.child_id as string,
+    actorId: parentId,
+    action: "invite_revoked",
+    details: { inviteId },
+  });
+  return { ok: true };
+}
+
+/** A child's invitation links, newest first */
+export async function listChildInvites(
+  admin: SupabaseClient,
+  childId: string,
+  limit = 20
+): Promise<{ invites: ChildInvite[] } | { error: string; status: number }> {
+  const { data, error } = await admin
+    .from("child_invites")
+    .select(INVITE_COLUMNS)
+    .eq("child_id", childId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) {
+    return isMissingTable(error.message) ? { error: MISSING_TABLE, status: 503 } : { error: error.message, status: 500 };
+  }
+  return { invites: (data ?? []) as ChildInvite[] };
+}
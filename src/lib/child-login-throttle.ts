@@ -0,0 +1,159 @@
+/**
+ * Brute-force protection for child PIN login (migration 043)
+ *
+ * Attempts are counted per username and per client (IP address). Each attempt is reserved, i.e.
+ * counted as failed, before the sign-in (migration 049), and a successful sign-in gives it back:
+ * - from DELAY_AFTER failures on, the next attempt must wait 1, 2, 4, ... seconds (at most MAX_DELAY_SECONDS)
+ * - at LOCK_AFTER failures for a username (CLIENT_LOCK_AFTER for a client) it is locked for LOCK_SECONDS
+ * - failures older than WINDOW_SECONDS are forgotten; a successful login clears the username's count
+ * Unknown usernames count as failures, and get the same answer as a wrong PIN, so usernames
+ * can't be probed. When a child account is locked, its parents are told in Sikker chat and can
+ * unlock it (POST /api/parent/unlock-child) or reset the PIN (POST /api/parent/reset-child-pin).
+ * This only protects PINs because the Supabase password is derived from the PIN on the server
+ * (childAccountPassword in child-login.ts): there is no way to try a PIN around it.
+ */
+
+import type { NextRequest } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sendNotificationToMany } from "@/lib/sikker-chat";
+import { getDisplayName } from "@/lib/message-moderation";
+import { renderChildLocked } from "@/lib/notification-templates";
+
+const DELAY_AFTER = 3;
+const MAX_DELAY_SECONDS = 30;
+const LOCK_AFTER = 10;
+const CLIENT_LOCK_AFTER = 30;
+const LOCK_SECONDS = 15 * 60;
+const WINDOW_SECONDS = 60 * 60;
+
+interface ThrottleRow {
+  key: string;
+  child_id: string | null;
+  failures: number;
+  last_failure_at: string;
+  locked_until: string | null;
+}
+
+export type ThrottleState =
+  | { allowed: true }
+  | { allowed: false; locked: boolean; retryAfterSeconds: number };
+
+function userKey(username: string): string {
+  return `user:${username}`;
+}
+
+function clientKey(client: string): string {
+  return `client:${client}`;
+}
+
+/**
+ * The client's IP address, or "unknown"
+ * The first X-Forwarded-For hops come from the client and can be anything; the last one is appended
+ * by the proxy in front of the app, so that is the address it connected from.
+ */
+export function getClientId(request: NextRequest): string {
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
+  return forwarded || request.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+/**
+ * Reserve a login attempt for this username from this client (migration 049)
+ * The attempt is counted as failed before the sign-in, under a row lock, so parallel attempts can't
+ * all pass the check; a successful sign-in gives it back (clearChildLoginFailures). childId is the
+ * account the username belongs to (null for unknown usernames). An error lets the attempt through
+ * (logged): Supabase Auth's own rate limits still apply.
+ */
+export async function reserveChildLoginAttempt(
+  admin: SupabaseClient,
+  username: string,
+  client: string,
+  childId: string | null
+): Promise<ThrottleState> {
+  const { data, error } = await admin.rpc("reserve_child_login_attempt", {
+    p_user_key: userKey(username),
+    p_child_id: childId,
+    p_client_key: clientKey(client),
+    p_window_seconds: WINDOW_SECONDS,
+    p_delay_after: DELAY_AFTER,
+    p_max_delay_seconds: MAX_DELAY_SECONDS,
+    p_user_lock_after: LOCK_AFTER,
+    p_client_lock_after: CLIENT_LOCK_AFTER,
+    p_lock_seconds: LOCK_SECONDS,
+  });
+  if (error) {
+    console.error("⚠️ [Child Login] Failed to reserve login attempt:", error);
+    return { allowed: true };
+  }
+  const [state] = (data ?? []) as { allowed: boolean; locked: boolean; retry_after_seconds: number }[];
+  if (!state || state.allowed) return { allowed: true };
+  return { allowed: false, locked: state.locked, retryAfterSeconds: state.retry_after_seconds };
+}
+
+/**
+ * The reserved attempt failed: tell whether it locked the username or the client
+ * When it locked the child's account, the child's parents are notified.
+ */
+export async function childLoginFailed(
+  admin: SupabaseClient,
+  username: string,
+  client: string,
+  childId: string | null
+): Promise<{ locked: boolean; retryAfterSeconds: number }> {
+  const { data, error } = await admin
+    .from("child_login_throttle")
+    .select("key, child_id, failures, last_failure_at, locked_until")
+    .in("key", [userKey(username), clientKey(client)]);
+  if (error) {
+    console.error("⚠️ [Child Login] Error loading login throttle:", error);
+    return { locked: false, retryAfterSeconds: 0 };
+  }
+
+  const rows = (data ?? []) as ThrottleRow[];
+  const nowMs = Date.now();
+  const lockedFor = (row: ThrottleRow | undefined) =>
+    row?.locked_until ? Math.max(Math.ceil((new Date(row.locked_until).getTime() - nowMs) / 1000), 0) : 0;
+  const userRow = rows.find((r) => r.key === userKey(username));
+  const clientRow = rows.find((r) => r.key === clientKey(client));
+
+  if (userRow && childId && userRow.failures === LOCK_AFTER && lockedFor(userRow) > 0) {
+    console.warn(`🔒 [Child Login] Child account ${childId} locked after ${LOCK_AFTER} failed logins`);
+    await notifyParentsOfLock(admin, childId, userRow.locked_until as string);
+  }
+  if (clientRow && clientRow.failures === CLIENT_LOCK_AFTER && lockedFor(clientRow) > 0) {
+    console.warn(`🔒 [Child Login] Client ${client} locked after ${CLIENT_LOCK_AFTER} failed logins`);
+  }
+  const retryAfterSeconds = Math.max(lockedFor(userRow), lockedFor(clientRow));
+  return { locked: retryAfterSeconds > 0, retryAfterSeconds };
+}
+
+/** A successful login clears the username's failures and gives the client its reserved attempt back */
+export async function clearChildLoginFailures(admin: SupabaseClient, username: string, client: string): Promise<void> {
+  const { error } = await admin.from("child_login_throttle").delete().eq("key", userKey(username));
+  if (error) console.error("⚠️ [Child Login] Failed to clear login failures:", error);
+  const { error: releaseErr } = await admin.rpc("release_child_login_attempt", { p_key: clientKey(client) });
+  if (releaseErr) console.error("⚠️ [Child Login] Failed to release login attempt:", releaseErr);
+}
+
+/** Unlock a child account (parent action) */
+export async function unlockChildLogin(admin: SupabaseClient, childId: string): Promise<{ ok: true } | { error: string }> {
+  const { error } = await admin.from("child_login_throttle").delete().eq("child_id", childId);
+  if (error) {
+    console.error("⚠️ [Child Login] Failed to unlock child:", error);
+    return { error: error.message };
+  }
+  return { ok: true };
+}
+
+async function notifyParentsOfLock(admin: SupabaseClient, childId: string, lockedUntil: string): Promise<void> {
+  const { data: links } = await admin.from("parent_child_links").select("parent_id").eq("child_id", childId);
+  const parentIds = (links ?? []).map((l) => l.parent_id as string);
+  if (parentIds.length === 0) return;
+
+  const childName = await getDisplayName(admin, childId, "Dit barn");
+  await sendNotificationToMany(
+    admin,
+    parentIds,
+    renderChildLocked({ childName, minutes: Math.round(LOCK_SECONDS / 60) }),
+    { dedupKey: `child-locked:${childId}:${lockedUntil}`, logPrefix: "[Child Login]" }
+  );
+}
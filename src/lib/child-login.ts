@@ -0,0 +1,499 @@
+/**
+ * Server-side child sign-in
+ *
+ * Children sign in with username + PIN (POST /api/auth/child-login) or with an invitation link and
+ * PIN (POST /api/invite/child/[token]). The password of the child's Supabase account is derived from
+ * the PIN with a server-side pepper (childAccountPassword), so a PIN can't be tried against Supabase
+ * directly: every attempt goes through here and the brute-force protection in child-login-throttle.ts.
+ * Accounts created before the pepper still have the PIN as password until their next sign-in here.
+ * The sign-in happens on the server and only the session tokens are returned, which the client hands
+ * to supabase.auth.setSession. The account's synthetic email (child-<uuid>@family.local) is read from
+ * Supabase Auth and never returned; public.users.email is blank for children (migration 048), so
+ * other users can't read it either.
+ *
+ * Young children can instead tap a picture password chosen by their parent (picture-password.ts,
+ * POST /api/auth/child-login/pictures), or scan a short-lived, single-use login code the parent shows
+ * as a QR code (POST /api/auth/child-login/code). Both are stored in migration 045; their sessions are
+ * created with a one-time magic link token that is verified here, never sent by email.
+ *
+ * A parent can give the child a new PIN (setChildPin), which signs the child out on every device,
+ * and can require the child to choose their own PIN at the next login (child_credentials, migration 044):
+ * the sign-in then only succeeds together with a new PIN. The picture password and login codes are
+ * refused until then, and as the PIN can't be used with Supabase directly, there is no way around it. Access tokens already issued stay valid until they expire
+ * (about an hour); their refresh tokens are revoked.
+ */
+
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { createClient, type Session, type SupabaseClient } from "@supabase/supabase-js";
+import {
+  childLoginFailed,
+  clearChildLoginFailures,
+  reserveChildLoginAttempt,
+  unlockChildLogin,
+} from "@/lib/child-login-throttle";
+import { LOGIN_TOKEN_TTL_MS, signLoginToken, verifyLoginToken } from "@/lib/invite-token";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/** The parts of a Supabase session the client needs (no user object, so no email) */
+export interface ChildSessionTokens {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  expires_at: number | null;
+  token_type: string;
+}
+
+/** Who signed in, so the device can offer the picture login next time */
+export interface SignedInChild {
+  username: string;
+  firstName: string | null;
+}
+
+export type ChildLoginResult =
+  | { session: ChildSessionTokens; childId: string; child: SignedInChild }
+  | { error: string; status: number; locked?: boolean; retryAfter?: number; mustChangePin?: boolean };
+
+const WRONG_CREDENTIALS = "Forkert navn eller PIN.";
+const WRONG_PICTURES = "Forkert navn eller forkerte billeder.";
+
+interface ChildAccount {
+  id: string;
+  email: string;
+  username: string;
+  firstName: string | null;
+}
+
+/** A PIN is 4-12 characters */
+export function isValidPin(pin: string): boolean {
+  return pin.length >= 4 && pin.length <= 12;
+}
+
+/**
+ * The Supabase password of a child account with this PIN: an HMAC of the PIN keyed with
+ * CHILD_PIN_PEPPER, which never leaves the server. Returns null when CHILD_PIN_PEPPER isn't set.
+ */
+export function childAccountPassword(pin: string): string | null {
+  const pepper = process.env.CHILD_PIN_PEPPER;
+  if (!pepper) return null;
+  return createHmac("sha256", pepper).update(pin).digest("base64url");
+}
+
+const PEPPER_MISSING = "Child PINs are not configured (CHILD_PIN_PEPPER)";
+
+/** Picture password and login code are refused until the child has chosen a new PIN */
+const MUST_CHANGE_PIN_FIRST: ChildLoginResult = {
+  error: "Du skal vælge din egen nye PIN. Log ind med din PIN først.",
+  status: 403,
+  mustChangePin: true,
+};
+
+function anonAuthClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? "";
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "";
+  return createClient(supabaseUrl, anonKey, { auth: { persistSession: false, autoRefreshToken: false } });
+}
+
+function sessionTokens(session: Session): ChildSessionTokens {
+  const { access_token, refresh_token, expires_in, expires_at, token_type } = session;
+  return { access_token, refresh_token, expires_in, expires_at: expires_at ?? null, token_type };
+}
+
+function signedIn(session: Session, account: ChildAccount): ChildLoginResult {
+  return {
+    session: sessionTokens(session),
+    childId: account.id,
+    child: { username: account.username, firstName: account.firstName },
+  };
+}
+
+/**
+ * Find a child account by username or id
+ * Returns null for unknown users and for users that are no child (not in parent_child_links).
+ */
+async function findChild(
+  admin: SupabaseClient,
+  by: { username: string } | { id: string }
+): Promise<{ account: ChildAccount | null } | { error: string; status: number }> {
+  const query = admin.from("users").select("id, username, first_name");
+  const { data: user, error } = await ("username" in by ? query.eq("username", by.username) : query.eq("id", by.id)).maybeSingle();
+  if (error) {
+    if (/username|schema cache|column/i.test(error.message)) {
+      return {
+        error: "The 'username' column is missing. Run supabase/migrations/004_child_username.sql in Supabase SQL Editor.",
+        status: 503,
+      };
+    }
+    return { error: error.message, status: 500 };
+  }
+  if (!user?.username) return { account: null };
+
+  const { data: link } = await admin
+    .from("parent_child_links")
+    .select("child_id")
+    .eq("child_id", user.id)
+    .limit(1)
+    .maybeSingle();
+  if (!link) return { account: null };
+
+  // public.users.email is blank for children (migration 048); the account's email is in Supabase Auth
+  const { data: authUser, error: authErr } = await admin.auth.admin.getUserById(user.id as string);
+  if (authErr) return { error: authErr.message, status: 500 };
+  if (!authUser.user?.email) return { account: null };
+
+  return {
+    account: {
+      id: user.id as string,
+      email: authUser.user.email,
+      username: user.username as string,
+      firstName: (user.first_name as string | null) ?? null,
+    },
+  };
+}
+
+/** Create a session for a child without their PIN (picture password, login code) */
+async function createChildSession(admin: SupabaseClient, email: string): Promise<Session | null> {
+  const { data: link, error: linkErr } = await admin.auth.admin.generateLink({ type: "magiclink", email });
+  const tokenHash = link?.properties?.hashed_token;
+  if (linkErr || !tokenHash) {
+    console.error("⚠️ [Child Login] Failed to create sign-in link:", linkErr);
+    return null;
+  }
+  const { data, error } = await anonAuthClient().auth.verifyOtp({ token_hash: tokenHash, type: "magiclink" });
+  if (error || !data.session) {
+    console.error("⚠️ [Child Login] Failed to verify sign-in link:", error);
+    return null;
+  }
+  return data.session;
+}
+
+/** Whether the child must choose a new PIN before signing in (false if the table is missing) */
+async function mustChangePin(admin: SupabaseClient, childId: string): Promise<boolean> {
+  const { data, error } = await admin
+    .from("child_credentials")
+    .select("must_change_pin")
+    .eq("child_id", childId)
+    .maybeSingle();
+  if (error) {
+    console.error("⚠️ [Child Login] Error loading child credentials:", error);
+    return false;
+  }
+  return data?.must_change_pin === true;
+}
+
+/**
+ * Set a child's PIN
+ * setBy is the parent who set it (null when the child chose it). With mustChange the child has to
+ * choose a new PIN at the next login; with revokeSessions the child is signed out on every device.
+ * The account is unlocked as well.
+ */
+export async function setChildPin(
+  admin: SupabaseClient,
+  childId: string,
+  pin: string,
+  options: { setBy: string | null; mustChange?: boolean; revokeSessions?: boolean }
+): Promise<{ ok: true } | { error: string }> {
+  const password = childAccountPassword(pin);
+  if (!password) return { error: PEPPER_MISSING };
+  const { data: updated, error: updateErr } = await admin.auth.admin.updateUserById(childId, { password });
+  if (updateErr) {
+    console.error("⚠️ [Child Login] Failed to set child PIN:", updateErr);
+    return { error: updateErr.message };
+  }
+
+  const { error: credentialsErr } = await admin.from("child_credentials").upsert(
+    {
+      child_id: childId,
+      must_change_pin: options.mustChange ?? false,
+      pin_set_at: new Date().toISOString(),
+      pin_set_by: options.setBy,
+    },
+    { onConflict: "child_id" }
+  );
+  if (credentialsErr) {
+    console.error("⚠️ [Child Login] Failed to save child credentials:", credentialsErr);
+    return {
+      error: /child_credentials|does not exist|schema cache/i.test(credentialsErr.message)
+        ? "The child_credentials table is missing. Run supabase/migrations/044_child_credentials.sql in Supabase SQL Editor."
+        : credentialsErr.message,
+    };
+  }
+
+  if (options.revokeSessions && updated.user?.email) {
+    // Sign in with the new PIN and sign out globally: revokes every refresh token of the child
+    const authClient = anonAuthClient();
+    const { error: signInErr } = await authClient.auth.signInWithPassword({ email: updated.user.email, password });
+    const { error: signOutErr } = signInErr ? { error: signInErr } : await authClient.auth.signOut({ scope: "global" });
+    if (signOutErr) {
+      console.error("⚠️ [Child Login] Failed to revoke child sessions:", signOutErr);
+      return { error: "PIN saved, but the child could not be signed out on other devices" };
+    }
+  }
+
+  await unlockChildLogin(admin, childId);
+  return { ok: true };
+}
+
+function throttled(locked: boolean, retryAfterSeconds: number): ChildLoginResult {
+  return {
+    error: locked
+      ? "Der er tastet forkert for mange gange, så kontoen er låst lige nu. Prøv igen senere, eller bed en forælder om at låse den op."
+      : `Vent ${retryAfterSeconds} sekunder, og prøv igen.`,
+    status: locked ? 423 : 429,
+    locked,
+    retryAfter: retryAfterSeconds,
+  };
+}
+
+/** The reserved attempt failed; unknown usernames and wrong secrets get the same answer */
+async function failedAttempt(
+  admin: SupabaseClient,
+  username: string,
+  client: string,
+  childId: string | null,
+  message: string
+): Promise<ChildLoginResult> {
+  const { locked, retryAfterSeconds } = await childLoginFailed(admin, username, client, childId);
+  if (locked) return throttled(true, retryAfterSeconds);
+  return { error: message, status: 401 };
+}
+
+/**
+ * Sign a child in with username + PIN
+ * Only children (in parent_child_links) can sign in here. Unknown usernames and wrong PINs get the
+ * same answer. Every attempt is reserved with the throttle before the PIN is tried, so parallel
+ * attempts can't get past the delay or the lock.
+ */
+export async function signInChild(
+  admin: SupabaseClient,
+  params: { username: string; pin: string; client: string; newPin?: string }
+): Promise<ChildLoginResult> {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL) return { error: "Server configuration error", status: 503 };
+
+  const { username, pin, client } = params;
+  const found = await findChild(admin, { username });
+  if ("error" in found) return found;
+  const account = found.account;
+
+  const allowed = await reserveChildLoginAttempt(admin, username, client, account?.id ?? null);
+  if (!allowed.allowed) return throttled(allowed.locked, allowed.retryAfterSeconds);
+
+  if (account) {
+    const password = childAccountPassword(pin);
+    if (!password) return { error: PEPPER_MISSING, status: 503 };
+    const authClient = anonAuthClient();
+    let { data, error: signInErr } = await authClient.auth.signInWithPassword({ email: account.email, password });
+    if (signInErr) {
+      // Accounts from before CHILD_PIN_PEPPER have the PIN itself as password: upgrade them on their next sign-in
+      ({ data, error: signInErr } = await authClient.auth.signInWithPassword({ email: account.email, password: pin }));
+      if (!signInErr && data.session) {
+        const { error: upgradeErr } = await admin.auth.admin.updateUserById(account.id, { password });
+        if (upgradeErr) console.error("⚠️ [Child Login] Failed to upgrade child password:", upgradeErr);
+      }
+    }
+    if (!signInErr && data.session) {
+      await clearChildLoginFailures(admin, username, client);
+      if (!(await mustChangePin(admin, account.id))) {
+        return signedIn(data.session, account);
+      }
+
+      // The parent set this PIN and wants the child to choose their own before signing in
+      await authClient.auth.signOut({ scope: "local" });
+      const newPin = params.newPin?.trim() ?? "";
+      if (!newPin) {
+        return { error: "Vælg din egen nye PIN for at logge ind.", status: 403, mustChangePin: true };
+      }
+      if (!isValidPin(newPin) || newPin === pin) {
+        return { error: "Den nye PIN skal være 4-12 tegn og anderledes end den gamle.", status: 400, mustChangePin: true };
+      }
+      const changed = await setChildPin(admin, account.id, newPin, { setBy: null });
+      if ("error" in changed) return { error: changed.error, status: 500 };
+
+      const { data: renewed, error: renewErr } = await anonAuthClient().auth.signInWithPassword({
+        email: account.email,
+        password: childAccountPassword(newPin) ?? "",
+      });
+      if (renewErr || !renewed.session) {
+        return { error: renewErr?.message ?? "Could not sign in", status: 500 };
+      }
+      console.log(`✅ [Child Login] Child ${account.id} chose a new PIN`);
+      return signedIn(renewed.session, account);
+    }
+  }
+
+  return failedAttempt(admin, username, client, account?.id ?? null, WRONG_CREDENTIALS);
+}
+
+async function hashPictureSequence(pictures: string[], salt: Buffer = randomBytes(16)): Promise<string> {
+  const hash = await scryptAsync(pictures.join(","), salt, 32);
+  return `${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+async function pictureSequenceMatches(pictures: string[], stored: string): Promise<boolean> {
+  const [saltHex, hashHex] = stored.split(":");
+  if (!saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = await scryptAsync(pictures.join(","), Buffer.from(saltHex, "hex"), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** When the child's picture password was set, or null if the child has none */
+export async function getChildPicturePassword(
+  admin: SupabaseClient,
+  childId: string
+): Promise<{ setAt: string } | null> {
+  const { data, error } = await admin
+    .from("child_picture_passwords")
+    .select("set_at")
+    .eq("child_id", childId)
+    .maybeSingle();
+  if (error) {
+    console.error("⚠️ [Child Login] Error loading picture password:", error);
+    return null;
+  }
+  return data ? { setAt: data.set_at as string } : null;
+}
+
+/**
+ * Set (or with null remove) a child's picture password
+ * pictures must be a valid sequence (isValidPictureSequence); setting one also unlocks the account.
+ */
+export async function setChildPicturePassword(
+  admin: SupabaseClient,
+  childId: string,
+  pictures: string[] | null,
+  setBy: string
+): Promise<{ ok: true } | { error: string }> {
+  const { error } = pictures
+    ? await admin.from("child_picture_passwords").upsert(
+        {
+          child_id: childId,
+          password_hash: await hashPictureSequence(pictures),
+          set_at: new Date().toISOString(),
+          set_by: setBy,
+        },
+        { onConflict: "child_id" }
+      )
+    : await admin.from("child_picture_passwords").delete().eq("child_id", childId);
+  if (error) {
+    console.error("⚠️ [Child Login] Failed to save picture password:", error);
+    return { error: error.message };
+  }
+  if (pictures) await unlockChildLogin(admin, childId);
+  return { ok: true };
+}
+
+/**
+ * Sign a child in with username + picture password
+ * Throttled together with PIN attempts for the same username; a child without a picture password
+ * gets the same answer as a wrong sequence. While the child has to choose a new PIN, the right
+ * sequence is refused with mustChangePin, so the child is sent to the PIN login.
+ */
+export async function signInChildWithPictures(
+  admin: SupabaseClient,
+  params: { username: string; pictures: string[]; client: string }
+): Promise<ChildLoginResult> {
+  const { username, pictures, client } = params;
+  const found = await findChild(admin, { username });
+  if ("error" in found) return found;
+  const account = found.account;
+
+  const allowed = await reserveChildLoginAttempt(admin, username, client, account?.id ?? null);
+  if (!allowed.allowed) return throttled(allowed.locked, allowed.retryAfterSeconds);
+
+  if (account) {
+    const { data: stored, error } = await admin
+      .from("child_picture_passwords")
+      .select("password_hash")
+      .eq("child_id", account.id)
+      .maybeSingle();
+    if (error) {
+      if (/child_picture_passwords|does not exist|schema cache/i.test(error.message)) {
+        return {
+          error: "The child_picture_passwords table is missing. Run supabase/migrations/045_child_login_methods.sql in Supabase SQL Editor.",
+          status: 503,
+        };
+      }
+      return { error: error.message, status: 500 };
+    }
+
+    if (stored && (await pictureSequenceMatches(pictures, stored.password_hash as string))) {
+      if (await mustChangePin(admin, account.id)) {
+        await clearChildLoginFailures(admin, username, client);
+        return MUST_CHANGE_PIN_FIRST;
+      }
+      const session = await createChildSession(admin, account.email);
+      if (!session) return { error: "Could not sign in", status: 500 };
+      await clearChildLoginFailures(admin, username, client);
+      return signedIn(session, account);
+    }
+  }
+
+  return failedAttempt(admin, username, client, account?.id ?? null, WRONG_PICTURES);
+}
+
+/**
+ * Create a login code for a child's new device (shown to the parent as a QR code)
+ * The code is a signed login token (invite-token.ts) whose jti is a child_login_codes row, so it
+ * works once and only until it expires.
+ */
+export async function createChildLoginCode(
+  admin: SupabaseClient,
+  childId: string,
+  createdBy: string
+): Promise<{ token: string; expiresAt: string } | { error: string }> {
+  const expiresAt = new Date(Date.now() + LOGIN_TOKEN_TTL_MS);
+  const { data: code, error } = await admin
+    .from("child_login_codes")
+    .insert({ child_id: childId, created_by: createdBy, expires_at: expiresAt.toISOString() })
+    .select("id")
+    .single();
+  if (error || !code) {
+    console.error("⚠️ [Child Login] Failed to create login code:", error);
+    return { error: error?.message ?? "Could not create login code" };
+  }
+  try {
+    return { token: signLoginToken(childId, code.id as string, expiresAt.getTime()), expiresAt: expiresAt.toISOString() };
+  } catch (err) {
+    // INVITE_SECRETS not set
+    return { error: err instanceof Error ? err.message : "Could not sign login code" };
+  }
+}
+
+/**
+ * Sign a child in with a login code; the code is used up even if the sign-in then fails
+ * Refused while the child has to choose a new PIN (MUST_CHANGE_PIN_FIRST).
+ */
+export async function redeemChildLoginCode(
+  admin: SupabaseClient,
+  params: { token: string; client: string }
+): Promise<ChildLoginResult> {
+  const payload = verifyLoginToken(params.token);
+  if (!payload) return { error: "Koden er ugyldig eller udløbet. Bed en forælder om en ny.", status: 401 };
+  // Checked before the code is used up, so it still works once the child has chosen a PIN
+  if (await mustChangePin(admin, payload.child_id)) return MUST_CHANGE_PIN_FIRST;
+
+  const now = new Date().toISOString();
+  const { data: used, error } = await admin
+    .from("child_login_codes")
+    .update({ used_at: now, used_by_client: params.client })
+    .eq("id", payload.jti)
+    .eq("child_id", payload.child_id)
+    .is("used_at", null)
+    .gt("expires_at", now)
+    .select("id");
+  if (error) return { error: error.message, status: 500 };
+  if (!used || used.length === 0) {
+    return { error: "Koden er allerede brugt eller udløbet. Bed en forælder om en ny.", status: 410 };
+  }
+
+  const found = await findChild(admin, { id: payload.child_id });
+  if ("error" in found) return found;
+  if (!found.account) return { error: "Child account not found", status: 404 };
+
+  const session = await createChildSession(admin, found.account.email);
+  if (!session) return { error: "Could not sign in", status: 500 };
+  console.log(`✅ [Child Login] Child ${found.account.id} signed in with a login code`);
+  return signedIn(session, found.account);
+}
@@ -0,0 +1,147 @@
+/**
+ * Context windows for flagged-only read access
+ *
+ * A parent with flagged-only read access (the medium preset, see surveillance-profile.ts) doesn't get the whole history of a flagged chat - only a window of messages
+ * around each flagged message (moderation events that weren't dismissed). Everything outside the
+ * windows is redacted to a count, so the parent sees that messages were left out but not what they said.
+ * Served by GET /api/parent/check-flagged-messages?transcript=1; RLS keeps these parents from
+ * reading the messages directly (migrations 038, 039).
+ *
+ * The window size is MEDIUM_CONTEXT_WINDOW (messages before and after each flag, default 20).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const DEFAULT_CONTEXT_WINDOW = 20;
+
+/** Messages are read in pages of this size (PostgREST returns at most 1000 rows per request) */
+const PAGE_SIZE = 1000;
+
+const MESSAGE_COLUMNS =
+  "id, chat_id, sender_id, content, created_at, attachment_url, attachment_type, attachment_review_status, delivery_status, message_type";
+
+export interface TranscriptMessage {
+  id: string;
+  chat_id: string;
+  sender_id: string;
+  content: string | null;
+  created_at: string;
+  attachment_url: string | null;
+  attachment_type: string | null;
+  attachment_review_status: string | null;
+  delivery_status: string | null;
+  message_type: string | null;
+  /** One of the flagged messages the window is built around */
+  flagged: boolean;
+}
+
+/** A run of messages left out of the transcript */
+export interface RedactedGap {
+  /** The message shown right after the gap (null if the gap is at the end of the chat) */
+  before_message_id: string | null;
+  count: number;
+}
+
+export interface RedactedTranscript {
+  windowSize: number;
+  messages: TranscriptMessage[];
+  gaps: RedactedGap[];
+  totalMessages: number;
+}
+
+/** Messages shown before and after each flagged message */
+export function getContextWindowSize(): number {
+  const configured = Number.parseInt(process.env.MEDIUM_CONTEXT_WINDOW ?? "", 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Pick the messages to show: every message within windowSize positions of a flagged message
+ * Returns the positions (indexes into orderedIds) in order.
+ */
+export function selectContextWindows(orderedIds: string[], flaggedIds: Set<string>, windowSize: number): number[] {
+  const visible = new Set<number>();
+  orderedIds.forEach((id, index) => {
+    if (!flaggedIds.has(id)) return;
+    const start = Math.max(0, index - windowSize);
+    const end = Math.min(orderedIds.length - 1, index + windowSize);
+    for (let i = start; i <= end; i++) visible.add(i);
+  });
+  return Array.from(visible).sort((a, b) => a - b);
+}
+
+/** Load the ids of all messages in a chat, oldest first */
+async function loadMessageOrder(admin: SupabaseClient, chatId: string): Promise<string[] | { error: string }> {
+  const ids: string[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await admin
+      .from("messages")
+      .select("id")
+      .eq("chat_id", chatId)
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) return { error: error.message };
+    ids.push(...(data ?? []).map((m) => m.id as string));
+    if (!data || data.length < PAGE_SIZE) return ids;
+  }
+}
+
+/** Build the redacted transcript of a chat for a parent with flagged-only read access */
+export async function loadRedactedTranscript(
+  admin: SupabaseClient,
+  chatId: string,
+  windowSize: number = getContextWindowSize()
+): Promise<RedactedTranscript | { error: string }> {
+  const [order, { data: events, error: eventsErr }] = await Promise.all([
+    loadMessageOrder(admin, chatId),
+    admin
+      .from("moderation_events")
+      .select("message_id")
+      .eq("chat_id", chatId)
+      .neq("status", "dismissed"),
+  ]);
+  if ("error" in order) {
+    console.error("⚠️ [Context Window] Error loading messages:", order.error);
+    return { error: order.error };
+  }
+  if (eventsErr) {
+    console.error("⚠️ [Context Window] Error loading moderation events:", eventsErr);
+    return { error: eventsErr.message };
+  }
+
+  const flaggedIds = new Set((events ?? []).map((e) => e.message_id as string));
+  const positions = selectContextWindows(order, flaggedIds, windowSize);
+  const visibleIds = positions.map((i) => order[i]);
+
+  const rows: Omit<TranscriptMessage, "flagged">[] = [];
+  for (let i = 0; i < visibleIds.length; i += PAGE_SIZE) {
+    const { data, error } = await admin
+      .from("messages")
+      .select(MESSAGE_COLUMNS)
+      .in("id", visibleIds.slice(i, i + PAGE_SIZE));
+    if (error) {
+      console.error("⚠️ [Context Window] Error loading message contents:", error);
+      return { error: error.message };
+    }
+    rows.push(...((data ?? []) as Omit<TranscriptMessage, "flagged">[]));
+  }
+  const rowsById = new Map(rows.map((m) => [m.id, m]));
+
+  const messages: TranscriptMessage[] = [];
+  const gaps: RedactedGap[] = [];
+  let previous = -1;
+  for (const position of positions) {
+    if (position > previous + 1) {
+      gaps.push({ before_message_id: order[position], count: position - previous - 1 });
+    }
+    const row = rowsById.get(order[position]);
+    if (row) messages.push({ ...row, flagged: flaggedIds.has(row.id) });
+    previous = position;
+  }
+  if (order.length > previous + 1 && positions.length > 0) {
+    gaps.push({ before_message_id: null, count: order.length - previous - 1 });
+  }
+
+  return { windowSize, messages, gaps, totalMessages: order.length };
+}
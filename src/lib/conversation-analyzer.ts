@@ -0,0 +1,221 @@
+/**
+ * Conversation-level grooming pattern detection
+ *
+ * Grooming rarely shows up in a single message. It escalates across a conversation:
+ * compliments and trust building, then secrecy ("det er vores hemmelighed"),
+ * then requests for photos, then requests to meet alone.
+ *
+ * The analyzer looks at a sliding window of recent messages in a chat and checks whether
+ * one sender's messages move through these stages in order.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { findPhrases, getKeywordsForCategory, type KeywordCategory } from "@/lib/keyword-scanner";
+
+export type GroomingStage = "compliments" | "secrecy" | "photo_request" | "meeting";
+
+interface GroomingStageDefinition {
+  stage: GroomingStage;
+  /** Keyword category the stage belongs to (null for stages that aren't risky on their own) */
+  category: KeywordCategory | null;
+  phrases: string[];
+}
+
+/** Stages in escalation order */
+const GROOMING_STAGES: GroomingStageDefinition[] = [
+  {
+    stage: "compliments",
+    category: null,
+    phrases: [
+      "du er så smuk",
+      "du er smuk",
+      "du er så lækker",
+      "du er moden for din alder",
+      "du er så moden",
+      "du er speciel",
+      "du er anderledes end de andre",
+      "jeg forstår dig bedre end dine forældre",
+      "du kan stole på mig",
+    ],
+  },
+  {
+    stage: "secrecy",
+    category: "pressure_secrets",
+    phrases: [
+      ...getKeywordsForCategory("pressure_secrets"),
+      "sig det ikke til dine forældre",
+      "slet vores beskeder",
+      "slet beskederne",
+    ],
+  },
+  {
+    stage: "photo_request",
+    category: "sexual",
+    phrases: [
+      "send et billede",
+      "send mig et billede",
+      "send en selfie",
+      "tag et billede af dig",
+      "vis mig",
+      "nøgen",
+      "nøgenhed",
+    ],
+  },
+  {
+    stage: "meeting",
+    category: "sexual",
+    phrases: [
+      "kom alene",
+      "mød mig alene",
+      "skal vi mødes",
+      "kom hjem til mig",
+      "hvor bor du",
+    ],
+  },
+];
+
+/** Number of stages (in order) that must be seen before a pattern is raised */
+const MIN_ESCALATION_STAGES = 3;
+
+/** Sliding window: most recent messages in the chat, no older than this */
+const WINDOW_MESSAGE_LIMIT = 50;
+const WINDOW_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000; // 14 days
+
+/** Severity and risk score used for grooming pattern flags */
+export const GROOMING_SEVERITY = 5;
+export const GROOMING_RISK_SCORE = 20;
+
+export interface ConversationMessage {
+  id: string;
+  sender_id: string;
+  content: string | null;
+  created_at: string;
+}
+
+export interface GroomingStageHit {
+  stage: GroomingStage;
+  category: KeywordCategory | null;
+  messageId: string;
+  phrases: string[];
+}
+
+export interface GroomingPattern {
+  /** The sender whose messages escalate */
+  senderId: string;
+  /** The stages seen, in order, with the message that hit each stage */
+  hits: GroomingStageHit[];
+  /** Ids of all messages contributing to the pattern */
+  messageIds: string[];
+  /** Short description for moderation_events.matched_keyword, e.g. "grooming: compliments → secrecy → meeting" */
+  summary: string;
+}
+
+/** Which stages a single message hits */
+function stagesForMessage(message: ConversationMessage): GroomingStageHit[] {
+  const hits: GroomingStageHit[] = [];
+  for (const definition of GROOMING_STAGES) {
+    const phrases = findPhrases(message.content ?? "", definition.phrases);
+    if (phrases.length > 0) {
+      hits.push({ stage: definition.stage, category: definition.category, messageId: message.id, phrases });
+    }
+  }
+  return hits;
+}
+
+function stageIndex(stage: GroomingStage): number {
+  return GROOMING_STAGES.findIndex((d) => d.stage === stage);
+}
+
+/**
+ * Analyze a window of messages for an escalating grooming pattern from one sender
+ * Messages must be in chronological order. Returns the longest escalating chain of stages
+ * if it is long enough and ends with `latestMessageId` (so each pattern is raised once, when it completes).
+ */
+export function analyzeConversation(
+  messages: ConversationMessage[],
+  senderId: string,
+  latestMessageId: string
+): GroomingPattern | null {
+  // chains[i] = longest escalating chain that ends in stage i
+  const chains: (GroomingStageHit[] | null)[] = GROOMING_STAGES.map(() => null);
+
+  for (const message of messages) {
+    if (message.sender_id !== senderId) continue;
+    const hits = stagesForMessage(message);
+    // Use chains from before this message, so one message can't count as several steps
+    const previous = chains.map((c) => c);
+    for (const hit of hits) {
+      const index = stageIndex(hit.stage);
+      let best: GroomingStageHit[] = [];
+      for (let earlier = 0; earlier < index; earlier++) {
+        const chain = previous[earlier];
+        if (chain && chain.length > best.length) best = chain;
+      }
+      const candidate = [...best, hit];
+      const current = chains[index];
+      if (!current || candidate.length > current.length || (candidate.length === current.length && hit.messageId === latestMessageId)) {
+        chains[index] = candidate;
+      }
+    }
+  }
+
+  let longest: GroomingStageHit[] | null = null;
+  for (const chain of chains) {
+    if (!chain || chain[chain.length - 1].messageId !== latestMessageId) continue;
+    if (!longest || chain.length > longest.length) longest = chain;
+  }
+
+  if (!longest || longest.length < MIN_ESCALATION_STAGES) return null;
+
+  return {
+    senderId,
+    hits: longest,
+    messageIds: Array.from(new Set(longest.map((h) => h.messageId))),
+    summary: `grooming: ${longest.map((h) => h.stage).join(" → ")}`,
+  };
+}
+
+/**
+ * Load the sliding window of recent messages for a chat (chronological order)
+ * Uses the service role client
+ */
+export async function loadConversationWindow(admin: SupabaseClient, chatId: string): Promise<ConversationMessage[]> {
+  const since = new Date(Date.now() - WINDOW_MAX_AGE_MS).toISOString();
+  const { data, error } = await admin
+    .from("messages")
+    .select("id, sender_id, content, created_at")
+    .eq("chat_id", chatId)
+    .gte("created_at", since)
+    .order("created_at", { ascending: false })
+    .limit(WINDOW_MESSAGE_LIMIT);
+
+  if (error) {
+    console.error("⚠️ [Conversation Analyzer] Error loading messages:", error);
+    return [];
+  }
+
+  return ((data ?? []) as ConversationMessage[]).reverse();
+}
+
+/**
+ * Detect a grooming pattern completed by the given message
+ * Loads the chat's recent messages and analyzes the sender's messages in them
+ */
+export async function detectGroomingPattern(
+  admin: SupabaseClient,
+  params: { chatId: string; senderId: string; messageId: string; messageText: string }
+): Promise<GroomingPattern | null> {
+  const window = await loadConversationWindow(admin, params.chatId);
+
+  // The message may not be visible yet (replication delay) - make sure it is part of the window
+  if (!window.some((m) => m.id === params.messageId)) {
+    window.push({
+      id: params.messageId,
+      sender_id: params.senderId,
+      content: params.messageText,
+      created_at: new Date().toISOString(),
+    });
+  }
+
+  return analyzeConversation(window, params.senderId, params.messageId);
+}
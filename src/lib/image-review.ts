@@ -0,0 +1,214 @@
+/**
+ * Parent review queue for images
+ *
+ * Which images a child receives only after a parent approves them follows the parents'
+ * surveillance profiles (image_approval, see surveillance-profile.ts):
+ * - "unscanned" (the strict preset): images the NSFW scan couldn't check (detectNSFW errored or timed out)
+ * - "all": every image
+ * - "none": images stay visible (unsafe images are still flagged and reported)
+ * A held image is hidden from the chat and queued until a parent approves it. In a group chat each
+ * recipient child's parents decide for their own child: the image is queued once per child whose
+ * parents must approve it, and stays hidden from the whole group until it is approved for all of them.
+ * See migrations 028_image_review_queue.sql and 051_group_image_reviews.sql.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ImageApproval } from "@/lib/surveillance-profile";
+
+export type ImageReviewAction = "approve" | "reject";
+
+export interface ImageReviewRow {
+  id: string;
+  message_id: string;
+  chat_id: string;
+  sender_id: string;
+  child_id: string;
+  attachment_url: string;
+  attachment_type: string | null;
+  reason: string | null;
+  status: "pending" | "approved" | "rejected";
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+/** Whether a parent's image_approval setting holds this image */
+export function imageNeedsApproval(approval: ImageApproval, scanFailed: boolean): boolean {
+  return approval === "all" || (approval === "unscanned" && scanFailed);
+}
+
+/**
+ * The parents who must approve an image before each of the given children sees it, by child
+ * Children missing from the map see the image right away; an empty map means it is shown to everyone.
+ */
+export async function getImageReviewers(
+  admin: SupabaseClient,
+  childIds: string[],
+  scanFailed: boolean
+): Promise<Map<string, string[]>> {
+  const reviewers = new Map<string, string[]>();
+  if (childIds.length === 0) return reviewers;
+
+  const { data: links, error } = await admin
+    .from("parent_child_links")
+    .select("parent_id, child_id, image_approval")
+    .in("child_id", childIds);
+
+  if (error) {
+    console.error("⚠️ [Image Review] Error loading parent links:", error);
+    return reviewers;
+  }
+
+  for (const link of links ?? []) {
+    if (!imageNeedsApproval(link.image_approval as ImageApproval, scanFailed)) continue;
+    const childId = link.child_id as string;
+    reviewers.set(childId, [...(reviewers.get(childId) ?? []), link.parent_id as string]);
+  }
+  return reviewers;
+}
+
+/**
+ * Hide an image message from the chat and put it in the parent review queue, once for each child
+ * whose parents must approve it (several in a group chat)
+ * The attachment is read from the message unless given (messages stored already hidden have no URL).
+ * Returns the queue rows (including those that already existed), or null on failure
+ */
+export async function holdImageForReview(
+  admin: SupabaseClient,
+  params: {
+    messageId: string;
+    chatId: string;
+    senderId: string;
+    childIds: string[];
+    reason: string;
+    attachmentUrl?: string;
+    attachmentType?: string | null;
+  }
+): Promise<ImageReviewRow[] | null> {
+  const { data: existingRows } = await admin
+    .from("image_review_queue")
+    .select("*")
+    .eq("message_id", params.messageId);
+  const existing = (existingRows ?? []) as ImageReviewRow[];
+  const missingChildIds = params.childIds.filter((id) => !existing.some((r) => r.child_id === id));
+  if (missingChildIds.length === 0) return existing;
+
+  let message: { attachment_url: string | null; attachment_type: string | null } | null = params.attachmentUrl
+    ? { attachment_url: params.attachmentUrl, attachment_type: params.attachmentType ?? null }
+    : existing[0]
+      ? { attachment_url: existing[0].attachment_url, attachment_type: existing[0].attachment_type }
+      : null;
+  if (!message) {
+    const { data, error: messageErr } = await admin
+      .from("messages")
+      .select("attachment_url, attachment_type")
+      .eq("id", params.messageId)
+      .maybeSingle();
+    if (messageErr) {
+      console.error("⚠️ [Image Review] Error loading message:", messageErr);
+    }
+    message = data;
+  }
+
+  if (!message?.attachment_url) {
+    console.error("⚠️ [Image Review] Message or attachment not found:", params.messageId);
+    return null;
+  }
+
+  const { data: inserted, error: insertErr } = await admin
+    .from("image_review_queue")
+    .insert(
+      missingChildIds.map((childId) => ({
+        message_id: params.messageId,
+        chat_id: params.chatId,
+        sender_id: params.senderId,
+        child_id: childId,
+        attachment_url: message.attachment_url,
+        attachment_type: message.attachment_type,
+        reason: params.reason,
+      }))
+    )
+    .select("*");
+
+  if (insertErr || !inserted) {
+    console.error("⚠️ [Image Review] Failed to queue image for review:", insertErr);
+    return null;
+  }
+
+  // Remove the URL from the message so the recipients can't load the image until it is approved
+  const { error: updateErr } = await admin
+    .from("messages")
+    .update({ attachment_url: null, attachment_review_status: "pending_review" })
+    .eq("id", params.messageId);
+
+  if (updateErr) {
+    console.error("⚠️ [Image Review] Failed to hide image message:", updateErr);
+    await admin.from("image_review_queue").delete().in("id", inserted.map((r) => r.id as string));
+    return null;
+  }
+
+  return [...existing, ...(inserted as ImageReviewRow[])];
+}
+
+/**
+ * Approve or reject a queued image for the given children (the reviewing parent's children)
+ * The message is one for the whole chat, so the image is shown again only once it is approved for
+ * every child it was held back from; one rejection keeps it hidden.
+ * Returns the updated queue rows and whether the image is visible now, or an error message
+ */
+export async function resolveImageReview(
+  admin: SupabaseClient,
+  messageId: string,
+  childIds: string[],
+  reviewerId: string,
+  action: ImageReviewAction
+): Promise<{ reviews: ImageReviewRow[]; visible: boolean } | { error: string }> {
+  // Only pending rows, so two parents can't both review the same child's image
+  const { data: updated, error: reviewErr } = await admin
+    .from("image_review_queue")
+    .update({
+      status: action === "approve" ? "approved" : "rejected",
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq("message_id", messageId)
+    .in("child_id", childIds)
+    .eq("status", "pending")
+    .select("*");
+
+  if (reviewErr) {
+    console.error("⚠️ [Image Review] Failed to update review:", reviewErr);
+    return { error: reviewErr.message };
+  }
+  if (!updated || updated.length === 0) {
+    return { error: "This image has already been reviewed" };
+  }
+  const reviews = updated as ImageReviewRow[];
+
+  let visible = false;
+  let messageUpdate: Record<string, string> | null = null;
+  if (action === "reject") {
+    messageUpdate = { attachment_review_status: "rejected" };
+  } else {
+    const { data: rows, error: rowsErr } = await admin
+      .from("image_review_queue")
+      .select("status")
+      .eq("message_id", messageId);
+    if (rowsErr) {
+      console.error("⚠️ [Image Review] Error loading reviews:", rowsErr);
+      return { error: rowsErr.message };
+    }
+    visible = (rows ?? []).every((r) => r.status === "approved");
+    if (visible) messageUpdate = { attachment_url: reviews[0].attachment_url, attachment_review_status: "approved" };
+  }
+
+  if (messageUpdate) {
+    const { error: messageErr } = await admin.from("messages").update(messageUpdate).eq("id", messageId);
+    if (messageErr) {
+      console.error("⚠️ [Image Review] Failed to update message:", messageErr);
+      return { error: messageErr.message };
+    }
+  }
+
+  return { reviews, visible };
+}
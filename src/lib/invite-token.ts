@@ -1,42 +1,125 @@
+/**
+ * Signed tokens for child invitation links and login codes
+ *
+ * A token is "<key id>.<payload>.<signature>" (HMAC-SHA256 over key id and payload, base64url).
+ * Signing keys come from INVITE_SECRETS ("id:secret,id:secret"): the first key signs, all of them
+ * verify, so a key can be rotated by putting a new one first and dropping the old one once its
+ * tokens have expired. INVITE_SECRET alone is a single key with id "default". There is no fallback
+ * to another secret: without keys no tokens are issued or accepted.
+ *
+ * Every token carries a jti naming its table row (child_invites, child_login_codes), which makes it
+ * single use and revocable; verifying here only checks signature and expiry.
+ */
+
 import { createHmac, timingSafeEqual } from "crypto";
 
-const SECRET = process.env.INVITE_SECRET ?? process.env.SUPABASE_SERVICE_ROLE_KEY ?? "";
-const EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+/** Default lifetime of an invitation link */
+export const INVITE_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+/** How long a login token (QR code for a new device) is valid */
+export const LOGIN_TOKEN_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+export type InvitePayload = { child_id: string; jti: string; exp: number };
+
+/** Login code for a new device (shown as a QR code); single use is enforced by child_login_codes */
+export type LoginTokenPayload = { child_id: string; jti: string; exp: number; purpose: "login" };
+
+type SigningKey = { id: string; secret: string };
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
 
-export type InvitePayload = { child_id: string; exp: number };
+/** INVITE_SECRETS value whose misconfigured entries were already logged (keys are read on every call) */
+let warnedConfig: string | null = null;
 
-function base64UrlEncode(buf: Buffer): string {
-  return buf.toString("base64url");
+/** The configured keys, signing key first; entries without "id:secret" are skipped with a warning */
+function signingKeys(): SigningKey[] {
+  const configured = process.env.INVITE_SECRETS;
+  if (configured) {
+    const keys: SigningKey[] = [];
+    const skipped: number[] = [];
+    configured.split(",").forEach((entry, index) => {
+      const separator = entry.indexOf(":");
+      const id = separator > 0 ? entry.slice(0, separator).trim() : "";
+      const secret = separator > 0 ? entry.slice(separator + 1).trim() : "";
+      if (KEY_ID_PATTERN.test(id) && secret.length > 0) {
+        keys.push({ id, secret });
+      } else if (entry.trim()) {
+        skipped.push(index + 1);
+      }
+    });
+    if (skipped.length > 0 && warnedConfig !== configured) {
+      warnedConfig = configured;
+      // Only positions are logged, never the entries themselves (they may hold a secret)
+      console.warn(
+        `⚠️ [Invite Token] Ignoring misconfigured INVITE_SECRETS entries (expected id:secret): #${skipped.join(", #")}`
+      );
+    }
+    return keys;
+  }
+  const single = process.env.INVITE_SECRET;
+  return single ? [{ id: "default", secret: single }] : [];
 }
 
-function base64UrlDecode(str: string): Buffer {
-  return Buffer.from(str, "base64url");
+function hmac(secret: string, data: string): Buffer {
+  return createHmac("sha256", secret).update(data).digest();
 }
 
-/** Sign an invite token for a child (child_id). Valid for 7 days. */
-export function signInviteToken(childId: string): string {
-  if (!SECRET) throw new Error("INVITE_SECRET or SUPABASE_SERVICE_ROLE_KEY required for invite tokens");
-  const payload: InvitePayload = { child_id: childId, exp: Date.now() + EXPIRY_MS };
-  const payloadB64 = base64UrlEncode(Buffer.from(JSON.stringify(payload)));
-  const sig = createHmac("sha256", SECRET).update(payloadB64).digest();
-  return `${payloadB64}.${base64UrlEncode(sig)}`;
+function sign(payload: object): string {
+  const [key] = signingKeys();
+  if (!key) throw new Error("INVITE_SECRETS or INVITE_SECRET required for invite tokens");
+  const signed = `${key.id}.${Buffer.from(JSON.stringify(payload)).toString("base64url")}`;
+  return `${signed}.${hmac(key.secret, signed).toString("base64url")}`;
 }
 
-/** Verify and decode an invite token. Returns payload or null if invalid/expired. */
-export function verifyInviteToken(token: string): InvitePayload | null {
-  if (!SECRET) return null;
+/** Check key, signature and expiry; returns the decoded payload or null */
+function verify(token: string): Record<string, unknown> | null {
   const parts = token.split(".");
-  if (parts.length !== 2) return null;
-  const [payloadB64, sigB64] = parts;
-  const expectedSig = createHmac("sha256", SECRET).update(payloadB64).digest();
-  const sig = base64UrlDecode(sigB64);
+  if (parts.length !== 3) return null;
+  const [keyId, payloadB64, sigB64] = parts;
+  const key = signingKeys().find((k) => k.id === keyId);
+  if (!key) return null;
+
+  const expectedSig = hmac(key.secret, `${keyId}.${payloadB64}`);
+  const sig = Buffer.from(sigB64, "base64url");
   if (sig.length !== expectedSig.length || !timingSafeEqual(sig, expectedSig)) return null;
-  let payload: InvitePayload;
+  let payload: Record<string, unknown>;
   try {
-    payload = JSON.parse(base64UrlDecode(payloadB64).toString("utf8"));
+    payload = JSON.parse(Buffer.from(payloadB64, "base64url").toString("utf8"));
   } catch {
     return null;
   }
-  if (!payload.child_id || typeof payload.exp !== "number" || payload.exp < Date.now()) return null;
+  if (typeof payload.child_id !== "string" || typeof payload.jti !== "string") return null;
+  if (typeof payload.exp !== "number" || payload.exp < Date.now()) return null;
   return payload;
 }
+
+/** Id of the key new tokens are signed with, or null when no key is configured */
+export function currentSigningKeyId(): string | null {
+  return signingKeys()[0]?.id ?? null;
+}
+
+/** Sign an invite token; jti is the child_invites row, expiresAt its expires_at (ms) */
+export function signInviteToken(childId: string, jti: string, expiresAt: number): string {
+  const payload: InvitePayload = { child_id: childId, jti, exp: expiresAt };
+  return sign(payload);
+}
+
+/** Verify and decode an invite token. Returns payload or null if invalid/expired (not whether it was used). */
+export function verifyInviteToken(token: string): InvitePayload | null {
+  const payload = verify(token);
+  // Login tokens are signed with the same keys but are no invitations
+  if (!payload || payload.purpose !== undefined) return null;
+  return { child_id: payload.child_id as string, jti: payload.jti as string, exp: payload.exp as number };
+}
+
+/** Sign a login token for a child; jti is the child_login_codes row, expiresAt its expires_at (ms) */
+export function signLoginToken(childId: string, jti: string, expiresAt: number): string {
+  const payload: LoginTokenPayload = { child_id: childId, jti, exp: expiresAt, purpose: "login" };
+  return sign(payload);
+}
+
+/** Verify and decode a login token. Returns payload or null if invalid/expired (not whether it was used). */
+export function verifyLoginToken(token: string): LoginTokenPayload | null {
+  const payload = verify(token);
+  if (!payload || payload.purpose !== "login") return null;
+  return { child_id: payload.child_id as string, jti: payload.jti as string, exp: payload.exp as number, purpose: "login" };
+}
@@ -0,0 +1,161 @@
+/**
+ * Keyword rules: database-backed keyword lists for the keyword scanner
+ *
+ * Rules live in the keyword_rules table (migration 026):
+ * - Global defaults: parent_id and child_id are null
+ * - Parent overrides: parent_id set, child_id null (applies to all the parent's children)
+ * - Child overrides: parent_id and child_id set (applies to one child)
+ *
+ * An override either adds a keyword ("add") or mutes an existing one ("mute").
+ * Child overrides are applied after parent overrides, so a child-level "add" can undo a parent-level "mute".
+ * A child's effective list combines the overrides of all their parents, so the rules are shared:
+ * a keyword one parent mutes is muted for the child's other parents too. Self-harm detection
+ * ignores mutes (self-harm.ts).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getAllKeywords,
+  KEYWORD_CATEGORIES,
+  type KeywordCategory,
+  type KeywordList,
+} from "@/lib/keyword-scanner";
+import { normalizeText } from "@/lib/text-normalizer";
+
+export type KeywordRuleAction = "add" | "mute";
+
+export interface KeywordRuleRow {
+  id: string;
+  keyword: string;
+  /** Null only for mutes, which then apply to the keyword in every category */
+  category: KeywordCategory | null;
+  parent_id: string | null;
+  child_id: string | null;
+  action: KeywordRuleAction;
+  created_at: string;
+}
+
+/** Empty keyword list with every category present */
+function emptyKeywordList(): KeywordList {
+  const list = {} as KeywordList;
+  for (const category of KEYWORD_CATEGORIES) list[category] = [];
+  return list;
+}
+
+/** Copy a keyword list so rules can be applied without touching the defaults */
+function cloneKeywordList(source: KeywordList): KeywordList {
+  const list = emptyKeywordList();
+  for (const category of KEYWORD_CATEGORIES) list[category] = [...(source[category] ?? [])];
+  return list;
+}
+
+/** Keywords are compared in normalized form, so "Slaa" and "slå" are the same rule */
+function sameKeyword(a: string, b: string): boolean {
+  return normalizeText(a) === normalizeText(b);
+}
+
+/** Apply one add/mute rule to a keyword list (in place) */
+function applyRule(list: KeywordList, rule: Pick<KeywordRuleRow, "keyword" | "category" | "action">) {
+  if (rule.action === "add") {
+    if (!rule.category || !list[rule.category]) return;
+    if (!list[rule.category].some((k) => sameKeyword(k, rule.keyword))) {
+      list[rule.category].push(rule.keyword);
+    }
+    return;
+  }
+  const categories = rule.category ? [rule.category] : KEYWORD_CATEGORIES;
+  for (const category of categories) {
+    list[category] = (list[category] ?? []).filter((k) => !sameKeyword(k, rule.keyword));
+  }
+}
+
+/**
+ * Build the effective keyword list for one child from global rules and their parents' overrides
+ * Falls back to the built-in keyword list when no global rules exist
+ */
+export function buildEffectiveKeywords(rules: KeywordRuleRow[], childId: string): KeywordList {
+  const globalRules = rules.filter((r) => r.parent_id === null && r.child_id === null && r.action === "add");
+  const list = globalRules.length > 0 ? emptyKeywordList() : cloneKeywordList(getAllKeywords());
+  for (const rule of globalRules) applyRule(list, rule);
+
+  const parentRules = rules.filter((r) => r.parent_id !== null && r.child_id === null);
+  for (const rule of parentRules) applyRule(list, rule);
+
+  const childRules = rules.filter((r) => r.parent_id !== null && r.child_id === childId);
+  for (const rule of childRules) applyRule(list, rule);
+
+  return list;
+}
+
+/** Merge keyword lists (e.g. sender's and recipient's) into one list without duplicates */
+export function mergeKeywordLists(...lists: KeywordList[]): KeywordList {
+  const merged = emptyKeywordList();
+  for (const list of lists) {
+    for (const category of KEYWORD_CATEGORIES) {
+      for (const keyword of list[category] ?? []) {
+        applyRule(merged, { keyword, category, action: "add" });
+      }
+    }
+  }
+  return merged;
+}
+
+/** Check whether a keyword list contains a keyword in the given category */
+export function keywordListIncludes(list: KeywordList, keyword: string, category: KeywordCategory): boolean {
+  return (list[category] ?? []).some((k) => sameKeyword(k, keyword));
+}
+
+/**
+ * Load the effective keyword list for a child (global defaults + all their parents' overrides)
+ * Uses the service role client. Falls back to the built-in list if the table is missing.
+ * With ignoreMutes, only "add" rules apply (used for self-harm detection, which parents can't silence).
+ */
+export async function getEffectiveKeywords(
+  admin: SupabaseClient,
+  childId: string,
+  options: { ignoreMutes?: boolean } = {}
+): Promise<KeywordList> {
+  const { data: links, error: linksError } = await admin
+    .from("parent_child_links")
+    .select("parent_id")
+    .eq("child_id", childId);
+
+  if (linksError) {
+    console.error("⚠️ [Keyword Rules] Error loading parent links:", linksError);
+  }
+
+  const parentIds = (links ?? []).map((l: { parent_id: string }) => l.parent_id);
+
+  const { data: globalRules, error: globalError } = await admin
+    .from("keyword_rules")
+    .select("id, keyword, category, parent_id, child_id, action, created_at")
+    .is("parent_id", null);
+
+  if (globalError) {
+    if (/keyword_rules|does not exist|schema cache/i.test(globalError.message)) {
+      console.warn("⚠️ [Keyword Rules] keyword_rules table missing - using built-in keywords. Run migration 026_keyword_rules.sql");
+    } else {
+      console.error("⚠️ [Keyword Rules] Error loading global rules:", globalError);
+    }
+    return cloneKeywordList(getAllKeywords());
+  }
+
+  let overrideRules: KeywordRuleRow[] = [];
+  if (parentIds.length > 0) {
+    const { data, error } = await admin
+      .from("keyword_rules")
+      .select("id, keyword, category, parent_id, child_id, action, created_at")
+      .in("parent_id", parentIds)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("⚠️ [Keyword Rules] Error loading parent rules:", error);
+    } else {
+      // Child-level rules for other children of the same parents don't apply here
+      overrideRules = ((data ?? []) as KeywordRuleRow[]).filter((r) => r.child_id === null || r.child_id === childId);
+    }
+  }
+
+  const rules = [...((globalRules ?? []) as KeywordRuleRow[]), ...overrideRules];
+  return buildEffectiveKeywords(options.ignoreMutes ? rules.filter((r) => r.action === "add") : rules, childId);
+}
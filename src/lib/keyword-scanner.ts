@@ -3,20 +3,48 @@
  * Scans message text for potentially concerning Danish phrases
  */
 
-export type KeywordCategory = 
+import { normalizeWords } from "@/lib/text-normalizer";
+
+export type KeywordCategory =
   | "violence"
   | "pressure_secrets"
   | "sexual"
   | "bullying"
   | "selfworth";
 
+/** All keyword categories (for validation and iteration) */
+export const KEYWORD_CATEGORIES: KeywordCategory[] = [
+  "violence",
+  "pressure_secrets",
+  "sexual",
+  "bullying",
+  "selfworth",
+];
+
+/** Keywords grouped by category */
+export type KeywordList = Record<KeywordCategory, string[]>;
+
 export interface KeywordMatch {
   keyword: string;
   category: KeywordCategory;
+  /** Severity of the match (1-5), taken from the category */
+  severity: number;
+  /** The normalized message words that matched the keyword (e.g. "dræbte" for "dræbe") */
+  matchedText: string;
+}
+
+export interface KeywordScanResult {
+  /** Every keyword that matched, ordered by severity (highest first) */
+  matches: KeywordMatch[];
+  /** Distinct categories that matched */
+  categories: KeywordCategory[];
+  /** Combined risk score: sum of the highest severity per matched category */
+  riskScore: number;
 }
 
 /**
- * Hardcoded keyword list with Danish phrases
+ * Built-in keyword list with Danish phrases
+ * Seeds the global rules in keyword_rules (migration 026) and is used when that table is empty or missing
  * Categories:
  * - violence: threats or violent language
  * - pressure_secrets: pressure to keep secrets
@@ -24,7 +52,7 @@ export interface KeywordMatch {
  * - bullying: hurtful or bullying language
  * - selfworth: negative self-worth statements
  */
-const KEYWORDS: Record<KeywordCategory, string[]> = {
+const KEYWORDS: KeywordList = {
   violence: [
     "slå",
     "dræbe",
@@ -78,47 +106,190 @@ const KEYWORDS: Record<KeywordCategory, string[]> = {
 };
 
 /**
- * Scans message text for flagged keywords
- * Returns the first match found (or null if no match)
- * Case-insensitive matching
+ * Severity per category (1 = low, 5 = high)
+ * Used both for individual matches and for the combined risk score
+ */
+const CATEGORY_SEVERITY: Record<KeywordCategory, number> = {
+  selfworth: 5,
+  sexual: 5,
+  pressure_secrets: 4,
+  violence: 3,
+  bullying: 2,
+};
+
+/**
+ * Danish inflection endings accepted after a noun/adjective keyword
+ * (e.g. "kniv" + "ene", "hemmelighed" + "en", "hemmelig" + "heden")
+ */
+const DANISH_SUFFIXES = [
+  "e", "r", "er", "en", "et", "ne", "ene", "erne", "t",
+  "s", "es", "ens", "ets", "hed", "heden", "heder",
+];
+
+/**
+ * Verb endings accepted after an infinitive stem (e.g. "dræb" + "er"/"te"/"ende").
+ * Kept separate so "banke" matches "banker"/"bankede" but not "banken".
+ */
+const DANISH_VERB_SUFFIXES = ["er", "ede", "te", "t", "et", "es", "ende"];
+
+/**
+ * Irregular forms for short or irregular keyword words.
+ * Words listed here are matched only against these forms (no suffix rules),
+ * so "slå" matches "slår"/"slog" but not "slåskamp" or "slået op".
+ */
+const IRREGULAR_FORMS: Record<string, string[]> = {
+  "slå": ["slår", "slog"],
+  "nøgen": ["nøgne", "nøgent"],
+  "seksuel": ["seksuelle", "seksuelt"],
+  "våben": ["våbnet", "våbnene"],
+};
+
+/** Words shorter than this are matched exactly (function words like "du", "mig", "vil") */
+const MIN_INFLECTED_LENGTH = 4;
+
+/** Split a keyword into its normalized words */
+function keywordWords(keyword: string): string[] {
+  return normalizeWords(keyword).map((variants) => variants[0]);
+}
+
+/** Check whether a word from the message is the keyword word or one of its inflections */
+function wordMatches(word: string, keywordWord: string): boolean {
+  if (word === keywordWord) return true;
+
+  const irregular = IRREGULAR_FORMS[keywordWord];
+  if (irregular) return irregular.includes(word);
+
+  if (keywordWord.length < MIN_INFLECTED_LENGTH) return false;
+
+  // Infinitives drop their final "e" before inflection (dræbe -> dræb-er, dræb-te)
+  if (keywordWord.endsWith("e")) {
+    const stem = keywordWord.slice(0, -1);
+    return word.startsWith(stem) && DANISH_VERB_SUFFIXES.includes(word.slice(stem.length));
+  }
+  return word.startsWith(keywordWord) && DANISH_SUFFIXES.includes(word.slice(keywordWord.length));
+}
+
+/**
+ * Find the first position where all keyword words match consecutive message words
+ * Each message word is a list of spellings (see normalizeWords); any of them may match
+ */
+function findPhrase(words: string[][], phrase: string[]): string | null {
+  if (phrase.length === 0 || phrase.length > words.length) return null;
+  for (let i = 0; i <= words.length - phrase.length; i++) {
+    const matchedWords: string[] = [];
+    for (let j = 0; j < phrase.length; j++) {
+      const spelling = words[i + j].find((variant) => wordMatches(variant, phrase[j]));
+      if (spelling === undefined) break;
+      matchedWords.push(spelling);
+    }
+    if (matchedWords.length === phrase.length) {
+      return matchedWords.join(" ");
+    }
+  }
+  return null;
+}
+
+/** Combined risk score: the highest severity in each matched category, summed */
+function computeRiskScore(matches: KeywordMatch[]): number {
+  const perCategory = new Map<KeywordCategory, number>();
+  for (const match of matches) {
+    perCategory.set(match.category, Math.max(perCategory.get(match.category) ?? 0, match.severity));
+  }
+  let score = 0;
+  perCategory.forEach((severity) => {
+    score += severity;
+  });
+  return score;
+}
+
+/**
+ * Scans message text for all flagged keywords
+ * Matching is case-insensitive, on whole words, and accepts common Danish inflections.
+ * The text is normalized first so obfuscated spellings ("s.e.x", "n0gen", "dr@ebe") are caught.
+ *
+ * @param keywords - Keyword list to scan with (defaults to the built-in list; see keyword-rules.ts)
  */
-export function scanMessageForRisk(messageText: string): KeywordMatch | null {
+export function scanMessage(messageText: string, keywords: KeywordList = KEYWORDS): KeywordScanResult {
+  const empty: KeywordScanResult = { matches: [], categories: [], riskScore: 0 };
   if (!messageText || typeof messageText !== "string") {
-    return null;
+    return empty;
   }
 
-  const normalizedText = messageText.toLowerCase().trim();
-  if (!normalizedText) {
-    return null;
+  const words = normalizeWords(messageText);
+  if (words.length === 0) {
+    return empty;
   }
 
-  // Check each category
-  for (const [category, keywords] of Object.entries(KEYWORDS)) {
-    for (const keyword of keywords) {
-      const normalizedKeyword = keyword.toLowerCase();
-      // Simple includes check (case-insensitive)
-      if (normalizedText.includes(normalizedKeyword)) {
-        return {
-          keyword: keyword,
-          category: category as KeywordCategory,
-        };
+  const matches: KeywordMatch[] = [];
+  for (const category of KEYWORD_CATEGORIES) {
+    for (const keyword of keywords[category] ?? []) {
+      const matchedText = findPhrase(words, keywordWords(keyword));
+      if (matchedText) {
+        matches.push({
+          keyword,
+          category,
+          severity: CATEGORY_SEVERITY[category],
+          matchedText,
+        });
       }
     }
   }
 
-  return null;
+  // Drop single words already covered by a longer phrase in the same category
+  // ("dræbe" inside "jeg vil dræbe dig") so each reason is listed once
+  const distinct = matches.filter(
+    (m) =>
+      !matches.some(
+        (other) =>
+          other !== m &&
+          other.category === m.category &&
+          other.matchedText.length > m.matchedText.length &&
+          ` ${other.matchedText} `.includes(` ${m.matchedText} `)
+      )
+  );
+
+  distinct.sort((a, b) => b.severity - a.severity);
+  const categories = Array.from(new Set(distinct.map((m) => m.category)));
+
+  return { matches: distinct, categories, riskScore: computeRiskScore(distinct) };
+}
+
+/**
+ * Find which of the given phrases occur in the message text
+ * Uses the same normalization and inflection rules as scanMessage
+ */
+export function findPhrases(messageText: string, phrases: string[]): string[] {
+  if (!messageText || typeof messageText !== "string") return [];
+  const words = normalizeWords(messageText);
+  if (words.length === 0) return [];
+  return phrases.filter((phrase) => findPhrase(words, keywordWords(phrase)) !== null);
+}
+
+/**
+ * Scans message text for flagged keywords
+ * Returns the most severe match (or null if no match)
+ */
+export function scanMessageForRisk(messageText: string, keywords: KeywordList = KEYWORDS): KeywordMatch | null {
+  return scanMessage(messageText, keywords).matches[0] ?? null;
+}
+
+/**
+ * Get the severity score for a category
+ */
+export function getCategorySeverity(category: KeywordCategory): number {
+  return CATEGORY_SEVERITY[category] ?? 1;
 }
 
 /**
- * Get all keywords for a specific category (for debugging/admin)
+ * Get the built-in keywords for a specific category
  */
 export function getKeywordsForCategory(category: KeywordCategory): string[] {
   return KEYWORDS[category] || [];
 }
 
 /**
- * Get all keywords (for debugging/admin)
+ * Get the built-in keyword list (defaults before parent overrides)
  */
-export function getAllKeywords(): Record<KeywordCategory, string[]> {
+export function getAllKeywords(): KeywordList {
   return KEYWORDS;
 }
@@ -0,0 +1,132 @@
+/**
+ * Pre-delivery hold for risky messages
+ *
+ * Messages between children are scanned before they are stored (POST /api/messages/send).
+ * If a parent of either child (in a group: of the sender or any other child member) holds risky messages
+ * (hold_risky_messages in the surveillance profile, on in the strict preset) and the message is risky,
+ * it is stored as 'held' and the recipients can't read it (RLS, migrations 029 and 050) until one of
+ * those parents releases it.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { scanMessageForRisk, type KeywordMatch } from "@/lib/keyword-scanner";
+import { getEffectiveKeywords, mergeKeywordLists } from "@/lib/keyword-rules";
+
+export type DeliveryStatus = "delivered" | "held" | "released" | "rejected";
+export type HeldMessageAction = "release" | "reject";
+
+export interface HoldDecision {
+  held: boolean;
+  /** The most severe match that caused the hold */
+  match: KeywordMatch | null;
+  /** Parents who hold risky messages and can release or reject the message */
+  reviewerParentIds: string[];
+}
+
+/** Parents of the given children whose profile holds risky messages */
+export async function getHoldingParentIds(admin: SupabaseClient, childIds: string[]): Promise<string[]> {
+  if (childIds.length === 0) return [];
+
+  const { data: links, error } = await admin
+    .from("parent_child_links")
+    .select("parent_id")
+    .in("child_id", childIds)
+    .eq("hold_risky_messages", true);
+
+  if (error) {
+    console.error("⚠️ [Message Hold] Error loading parent links:", error);
+    return [];
+  }
+
+  return Array.from(new Set((links ?? []).map((l) => l.parent_id as string)));
+}
+
+/**
+ * Decide whether a message must be held before delivery
+ * recipientIds are the other child in a 1:1 chat, or the other children of a group. Only messages where
+ * the sender or any recipient has a parent who holds risky messages are scanned here; the keyword lists
+ * of all of those children apply.
+ */
+export async function decideMessageHold(
+  admin: SupabaseClient,
+  params: { senderId: string; recipientIds: string[]; content: string }
+): Promise<HoldDecision> {
+  const childIds = Array.from(new Set([params.senderId, ...params.recipientIds]));
+  const reviewerParentIds = await getHoldingParentIds(admin, childIds);
+  if (reviewerParentIds.length === 0 || !params.content.trim()) {
+    return { held: false, match: null, reviewerParentIds };
+  }
+
+  const keywordLists = await Promise.all(childIds.map((id) => getEffectiveKeywords(admin, id)));
+  const match = scanMessageForRisk(params.content, mergeKeywordLists(...keywordLists));
+
+  return { held: !!match, match, reviewerParentIds };
+}
+
+/** Human-readable reason stored in messages.hold_reason */
+export function formatHoldReason(match: KeywordMatch): string {
+  return `Keyword "${match.keyword}" (category: ${match.category}, severity: ${match.severity}/5)`;
+}
+
+/**
+ * Check that the parent may review a held message (a parent of a child in the chat who holds risky messages;
+ * in a group chat, of any member)
+ */
+export async function canReviewHeldMessage(
+  admin: SupabaseClient,
+  parentId: string,
+  message: { chat_id: string; sender_id: string }
+): Promise<boolean> {
+  const { data: chat } = await admin
+    .from("chats")
+    .select("user1_id, user2_id, group_id")
+    .eq("id", message.chat_id)
+    .maybeSingle();
+
+  let memberIds: string[] = [];
+  if (chat?.group_id) {
+    const { data: members } = await admin.from("group_members").select("user_id").eq("group_id", chat.group_id);
+    memberIds = (members ?? []).map((m) => m.user_id as string);
+  }
+  const childIds = [message.sender_id, chat?.user1_id, chat?.user2_id, ...memberIds].filter((id): id is string => !!id);
+  const { data: links } = await admin
+    .from("parent_child_links")
+    .select("id")
+    .eq("parent_id", parentId)
+    .in("child_id", childIds)
+    .eq("hold_risky_messages", true)
+    .limit(1);
+
+  return !!links && links.length > 0;
+}
+
+/**
+ * Release (deliver to the recipient) or reject a held message
+ * Only updates messages that are still held, so two parents can't both review the same message.
+ */
+export async function reviewHeldMessage(
+  admin: SupabaseClient,
+  messageId: string,
+  parentId: string,
+  action: HeldMessageAction
+): Promise<{ ok: true } | { error: string }> {
+  const { data: updated, error } = await admin
+    .from("messages")
+    .update({
+      delivery_status: action === "release" ? "released" : "rejected",
+      held_reviewed_by: parentId,
+      held_reviewed_at: new Date().toISOString(),
+    })
+    .eq("id", messageId)
+    .eq("delivery_status", "held")
+    .select("id");
+
+  if (error) {
+    console.error("⚠️ [Message Hold] Failed to update held message:", error);
+    return { error: error.message };
+  }
+  if (!updated || updated.length === 0) {
+    return { error: "Message is not held (already reviewed?)" };
+  }
+  return { ok: true };
+}
@@ -0,0 +1,578 @@
+/**
+ * Text and image moderation for sent messages
+ *
+ * Runs the keyword scanner, the grooming pattern analyzer and the NSFW image detector for a
+ * message that has been stored, records moderation events (moderation-events.ts) and notifies parents
+ * through Sikker chat (sikker-chat.ts).
+ * Used by POST /api/messages/send (inline, before the send returns) and by the re-scan endpoints
+ * /api/messages/scan-and-flag and /api/moderation/scan-image.
+ *
+ * Callers must pass data read from the database (sender, text, attachment), never values supplied by a client.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { scanMessage, type KeywordList, type KeywordMatch } from "@/lib/keyword-scanner";
+import { getEffectiveKeywords, keywordListIncludes, mergeKeywordLists } from "@/lib/keyword-rules";
+import {
+  detectGroomingPattern,
+  GROOMING_RISK_SCORE,
+  GROOMING_SEVERITY,
+  type GroomingPattern,
+} from "@/lib/conversation-analyzer";
+import { detectNSFW, type NSFWDetectionResult } from "@/lib/nsfw-detector";
+import { getImageReviewers, holdImageForReview } from "@/lib/image-review";
+import {
+  sendNotification,
+  sendNotificationToMany,
+  type SikkerAlert,
+} from "@/lib/sikker-chat";
+import {
+  GROOMING_CATEGORY,
+  IMAGE_CATEGORY,
+  IMAGE_SEVERITY,
+  recordModerationEvents,
+} from "@/lib/moderation-events";
+import {
+  renderImageFlagged,
+  renderImageReview,
+  renderKeywordAlert,
+  type ChatContext,
+  type RenderedNotification,
+} from "@/lib/notification-templates";
+
+/** A stored message, as read from the messages table */
+export interface StoredMessage {
+  id: string;
+  chat_id: string;
+  sender_id: string;
+  content: string | null;
+  attachment_url: string | null;
+  attachment_type: string | null;
+  delivery_status?: string | null;
+}
+
+export interface TextModerationResult {
+  ok: boolean;
+  flagged: boolean;
+  error?: string;
+  warning?: string;
+  category?: string;
+  keyword?: string;
+  categories?: string[];
+  riskScore?: number;
+  matches?: KeywordMatch[];
+  grooming?: GroomingPattern | null;
+}
+
+export interface ImageModerationResult {
+  ok: boolean;
+  flagged: boolean;
+  error?: string;
+  warning?: string;
+  pendingReview?: boolean;
+  reviewId?: string;
+  category?: string;
+  confidence?: number;
+  reason?: string;
+}
+
+/** Load a message with the columns moderation needs */
+export async function loadStoredMessage(admin: SupabaseClient, messageId: string): Promise<StoredMessage | null> {
+  const { data, error } = await admin
+    .from("messages")
+    .select("id, chat_id, sender_id, content, attachment_url, attachment_type, delivery_status")
+    .eq("id", messageId)
+    .maybeSingle();
+  if (error) {
+    console.error("⚠️ [Moderation] Error loading message:", error);
+    return null;
+  }
+  return data as StoredMessage | null;
+}
+
+/** Children and parents are told apart by username (children have one, see ParentGuard) or is_child */
+export async function isChildUser(admin: SupabaseClient, userId: string): Promise<boolean> {
+  const { data } = await admin
+    .from("users")
+    .select("username, is_child")
+    .eq("id", userId)
+    .maybeSingle();
+  if (!data) return false;
+  return data.is_child === true || (data.username != null && String(data.username).trim() !== "");
+}
+
+/** Check that the user takes part in the chat (1:1 participant or group member) */
+export async function isChatMember(admin: SupabaseClient, chatId: string, userId: string): Promise<boolean> {
+  const { data: chat } = await admin
+    .from("chats")
+    .select("user1_id, user2_id, group_id")
+    .eq("id", chatId)
+    .maybeSingle();
+  if (!chat) return false;
+
+  if (chat.group_id) {
+    const { data: membership } = await admin
+      .from("group_members")
+      .select("id")
+      .eq("group_id", chat.group_id)
+      .eq("user_id", userId)
+      .maybeSingle();
+    return !!membership;
+  }
+
+  return chat.user1_id === userId || chat.user2_id === userId;
+}
+
+/**
+ * The child who receives a message in a 1:1 chat (null for group chats)
+ */
+export async function getRecipientId(admin: SupabaseClient, chatId: string, senderId: string): Promise<string | null> {
+  const { data: chatData } = await admin
+    .from("chats")
+    .select("user1_id, user2_id, group_id")
+    .eq("id", chatId)
+    .maybeSingle();
+  if (!chatData || chatData.group_id || !chatData.user1_id || !chatData.user2_id) return null;
+  return chatData.user1_id === senderId ? chatData.user2_id : chatData.user1_id;
+}
+
+/** Who receives a message: the other child in a 1:1 chat, or every other child member of a group */
+export interface MessageAudience {
+  groupId: string | null;
+  groupName: string | null;
+  recipientChildIds: string[];
+}
+
+export async function getMessageAudience(admin: SupabaseClient, chatId: string, senderId: string): Promise<MessageAudience> {
+  const { data: chatData } = await admin
+    .from("chats")
+    .select("user1_id, user2_id, group_id")
+    .eq("id", chatId)
+    .maybeSingle();
+  if (!chatData) return { groupId: null, groupName: null, recipientChildIds: [] };
+
+  if (!chatData.group_id) {
+    const recipientId = await getRecipientId(admin, chatId, senderId);
+    return { groupId: null, groupName: null, recipientChildIds: recipientId ? [recipientId] : [] };
+  }
+
+  const [{ data: group }, { data: members }] = await Promise.all([
+    admin.from("groups").select("name").eq("id", chatData.group_id).maybeSingle(),
+    admin.from("group_members").select("user_id").eq("group_id", chatData.group_id).neq("user_id", senderId),
+  ]);
+
+  const memberIds = (members ?? []).map((m) => m.user_id as string);
+  const recipientChildIds: string[] = [];
+  for (const memberId of memberIds) {
+    if (await isChildUser(admin, memberId)) recipientChildIds.push(memberId);
+  }
+
+  return { groupId: chatData.group_id, groupName: group?.name ?? null, recipientChildIds };
+}
+
+/** Parent links of the given children, optionally only those whose profile alerts on a category */
+async function getParentLinks(
+  admin: SupabaseClient,
+  childIds: string[],
+  alertCategory?: string
+): Promise<{ parent_id: string; child_id: string; alert_categories: string[] | null }[]> {
+  if (childIds.length === 0) return [];
+  let query = admin
+    .from("parent_child_links")
+    .select("parent_id, child_id, alert_categories")
+    .in("child_id", childIds);
+  if (alertCategory) query = query.contains("alert_categories", [alertCategory]);
+  const { data, error } = await query;
+  if (error) {
+    console.error("⚠️ [Moderation] Error loading parent links:", error);
+    return [];
+  }
+  return data ?? [];
+}
+
+/** Group parent links by parent, so a parent with several children in a group gets one notification */
+function childIdsByParent(links: { parent_id: string; child_id: string }[]): Map<string, string[]> {
+  const byParent = new Map<string, string[]>();
+  for (const link of links) {
+    const childIds = byParent.get(link.parent_id) ?? [];
+    if (!childIds.includes(link.child_id)) childIds.push(link.child_id);
+    byParent.set(link.parent_id, childIds);
+  }
+  return byParent;
+}
+
+/** Display name for notifications */
+export async function getDisplayName(admin: SupabaseClient, userId: string, fallback: string): Promise<string> {
+  const { data } = await admin
+    .from("users")
+    .select("first_name, surname, username")
+    .eq("id", userId)
+    .maybeSingle();
+  if (!data) return fallback;
+  return data.first_name && data.surname ? `${data.first_name} ${data.surname}` : data.username || fallback;
+}
+
+/**
+ * Scan a text message for safety keywords and grooming patterns, flag it and notify the recipients' parents
+ * Uses the effective keyword rules (global defaults + parent overrides) of the sender and every recipient child
+ * (the other child in a 1:1 chat, all other child members in a group chat),
+ * and checks the recent conversation for escalating grooming patterns (see conversation-analyzer.ts)
+ */
+export async function moderateTextMessage(admin: SupabaseClient, message: StoredMessage): Promise<TextModerationResult> {
+  const messageId = message.id;
+  const childId = message.sender_id;
+  const chatId = message.chat_id;
+  const messageText = message.content ?? "";
+
+  // Find the recipient children (the other child in a 1:1 chat, or the other child members of a group)
+  const audience = await getMessageAudience(admin, chatId, childId);
+
+  // Load the keyword rules that apply to the sender and to each recipient
+  const senderKeywords = await getEffectiveKeywords(admin, childId);
+  const recipientKeywords = new Map<string, KeywordList>();
+  for (const recipientId of audience.recipientChildIds) {
+    recipientKeywords.set(recipientId, await getEffectiveKeywords(admin, recipientId));
+  }
+
+  // Scan the message (all matches, not only the first)
+  const scan = scanMessage(messageText, mergeKeywordLists(senderKeywords, ...recipientKeywords.values()));
+
+  // Check the conversation for an escalating grooming pattern completed by this message
+  let grooming: GroomingPattern | null = null;
+  try {
+    grooming = await detectGroomingPattern(admin, { chatId, senderId: childId, messageId, messageText });
+    if (grooming) {
+      // Raise each pattern once: skip if the same pattern was already flagged for this sender
+      const { data: existing } = await admin
+        .from("moderation_events")
+        .select("id")
+        .eq("source", "conversation_analysis")
+        .eq("sender_id", childId)
+        .eq("matched_keyword", grooming.summary)
+        .overlaps("related_message_ids", grooming.messageIds)
+        .limit(1);
+      if (existing && existing.length > 0) {
+        grooming = null;
+      }
+    }
+  } catch (groomingError) {
+    // Don't block keyword flagging if the conversation analysis fails
+    console.error("⚠️ [Conversation Analyzer] Error analyzing conversation:", groomingError);
+    grooming = null;
+  }
+
+  if (scan.matches.length === 0 && !grooming) {
+    // No keywords or patterns found - message is clean
+    return { ok: true, flagged: false };
+  }
+
+  // The most severe match is used for the summary fields in the result
+  const match = scan.matches[0] ?? { category: "grooming", keyword: grooming?.summary };
+  const result: TextModerationResult = {
+    ok: true,
+    flagged: true,
+    category: match.category,
+    keyword: match.keyword,
+    categories: scan.categories,
+    riskScore: scan.riskScore,
+    matches: scan.matches,
+    grooming,
+  };
+
+  if (scan.matches.length > 0) {
+    // Keywords found - log every match to database
+    console.log(`⚠️ [Keyword Scanner] Safety alert for child ${childId}: ${scan.matches.length} match(es) in categories ${scan.categories.join(", ")} (risk score: ${scan.riskScore})`);
+
+    const recorded = await recordModerationEvents(
+      admin,
+      scan.matches.map((m) => ({
+        message_id: messageId,
+        chat_id: chatId,
+        group_id: audience.groupId,
+        source: "keyword",
+        sender_id: childId,
+        category: m.category,
+        matched_keyword: m.keyword,
+        dedup_key: m.keyword,
+        severity: m.severity,
+        risk_score: scan.riskScore,
+      }))
+    );
+
+    if ("error" in recorded) {
+      console.error("⚠️ [Keyword Scanner] Failed to record keyword events:", recorded.error);
+      return { ok: false, flagged: false, error: recorded.error };
+    }
+  }
+
+  if (grooming) {
+    console.log(`⚠️ [Conversation Analyzer] Grooming pattern from ${childId} in chat ${chatId}: ${grooming.summary} (messages: ${grooming.messageIds.join(", ")})`);
+
+    const recorded = await recordModerationEvents(admin, [
+      {
+        message_id: messageId,
+        chat_id: chatId,
+        group_id: audience.groupId,
+        source: "conversation_analysis",
+        sender_id: childId,
+        category: GROOMING_CATEGORY,
+        matched_keyword: grooming.summary,
+        severity: GROOMING_SEVERITY,
+        risk_score: GROOMING_RISK_SCORE,
+        related_message_ids: grooming.messageIds,
+      },
+    ]);
+
+    if ("error" in recorded) {
+      console.error("⚠️ [Conversation Analyzer] Failed to record grooming event:", recorded.error);
+      return { ok: false, flagged: false, error: recorded.error };
+    }
+  }
+
+  // Only keywords a recipient's parents haven't muted are included in their notification
+  const matchesFor = (recipientId: string) => {
+    const keywords = recipientKeywords.get(recipientId);
+    return keywords ? scan.matches.filter((m) => keywordListIncludes(keywords, m.keyword, m.category)) : [];
+  };
+
+  // Held messages (see message-hold.ts) haven't reached the recipient yet -
+  // the parents who hold risky messages were already asked to review them by /api/messages/send
+  const isHeld = message.delivery_status === "held";
+
+  // Notify the parents of the recipient children (the children who received the message)
+  try {
+    if (!isHeld && audience.recipientChildIds.length > 0) {
+      // Each parent is only alerted about the categories in their surveillance profile
+      const parentLinks = await getParentLinks(admin, audience.recipientChildIds);
+      const alertCategories = new Map<string, Set<string>>();
+      for (const link of parentLinks) {
+        const categories = alertCategories.get(link.parent_id) ?? new Set<string>();
+        (link.alert_categories ?? []).forEach((category) => categories.add(category));
+        alertCategories.set(link.parent_id, categories);
+      }
+      const notifications: { parentId: string; notification: RenderedNotification; alert: SikkerAlert }[] = [];
+
+      if (parentLinks.length > 0) {
+        const senderName = await getDisplayName(admin, childId, "Et barn");
+        const context: ChatContext = { chatId, groupName: audience.groupId ? audience.groupName ?? "Gruppe" : null };
+
+        for (const [parentId, childIds] of childIdsByParent(parentLinks)) {
+          const categories = alertCategories.get(parentId) ?? new Set<string>();
+          const parentMatches = scan.matches.filter((m) =>
+            categories.has(m.category) &&
+            childIds.some((id) => matchesFor(id).some((c) => c.keyword === m.keyword && c.category === m.category))
+          );
+          const parentGrooming = grooming && categories.has(GROOMING_CATEGORY) ? grooming : null;
+          if (parentMatches.length === 0 && !parentGrooming) continue;
+
+          const childNames: string[] = [];
+          for (const id of childIds) {
+            childNames.push(await getDisplayName(admin, id, "Dit barn"));
+          }
+
+          notifications.push({
+            parentId,
+            notification: renderKeywordAlert({
+              context,
+              recipientName: childNames.join(" og "),
+              senderName,
+              matches: parentMatches,
+              riskScore: scan.riskScore,
+              grooming: parentGrooming
+                ? { stages: parentGrooming.hits.map((h) => h.stage), messageCount: parentGrooming.messageIds.length }
+                : null,
+            }),
+            alert: {
+              childId: childIds[0],
+              counterpartId: childId,
+              category: parentGrooming ? GROOMING_CATEGORY : parentMatches[0].category,
+              messageId,
+              chatId,
+            },
+          });
+        }
+      }
+
+      // Notify each parent (once per message, even if it is re-scanned)
+      for (const { parentId, notification, alert } of notifications) {
+        const sent = await sendNotification(admin, parentId, notification, {
+          dedupKey: `keyword:${messageId}`,
+          alert,
+          logPrefix: "[Keyword Scanner]",
+        });
+        if (sent.skipped === "no_system_user") {
+          return { ...result, warning: "Sikker chat user not available - notification not sent" };
+        }
+        if (sent.delivered.length > 0) {
+          console.log(`✅ [Keyword Scanner] Notified parent ${parentId} about flagged message`);
+        }
+      }
+    }
+  } catch (notifyError) {
+    // Don't fail moderation if notification fails
+    console.error("⚠️ [Keyword Scanner] Error notifying parent:", notifyError);
+  }
+
+  return result;
+}
+
+/**
+ * Hold an image for parent review if a recipient's parent requires approval for it
+ * (image_approval in the surveillance profile, see image-review.ts). In a group chat every other child
+ * member counts, and the image is hidden from the whole group until it is approved for each of them.
+ * Returns the result if the image was held, or null if it stays visible
+ */
+async function holdImageIfRequired(
+  admin: SupabaseClient,
+  message: StoredMessage,
+  attachment: { url: string; type: string | null },
+  detection: NSFWDetectionResult
+): Promise<ImageModerationResult | null> {
+  const audience = await getMessageAudience(admin, message.chat_id, message.sender_id);
+  const scanFailed = !!detection.scanFailed;
+  const reviewers = await getImageReviewers(admin, audience.recipientChildIds, scanFailed);
+  if (reviewers.size === 0) {
+    if (scanFailed) {
+      console.log(`⚠️ [Image Scanner] Scan failed for message ${message.id} - recipients' parents allow the image (fail open)`);
+    }
+    return null;
+  }
+
+  const reason = scanFailed ? detection.reason || "Detection failed" : "Parent approval required for all images";
+  const reviews = await holdImageForReview(admin, {
+    messageId: message.id,
+    chatId: message.chat_id,
+    senderId: message.sender_id,
+    childIds: Array.from(reviewers.keys()),
+    reason,
+    attachmentUrl: attachment.url,
+    attachmentType: attachment.type,
+  });
+  if (!reviews || reviews.length === 0) {
+    return { ok: false, flagged: false, error: "Failed to hold image for review" };
+  }
+
+  console.log(`⚠️ [Image Scanner] Image in message ${message.id} held for parent review (${reviews.map((r) => r.id).join(", ")}): ${reason}`);
+
+  for (const [childId, parentIds] of reviewers) {
+    await sendNotificationToMany(admin, parentIds, renderImageReview({ chatId: message.chat_id }), {
+      dedupKey: `image-review:${message.id}`,
+      alert: { childId, counterpartId: message.sender_id, category: "image", messageId: message.id, chatId: message.chat_id },
+      logPrefix: "[Image Scanner]",
+    });
+  }
+
+  return { ok: true, flagged: false, pendingReview: true, reviewId: reviews[0].id, reason };
+}
+
+/**
+ * Scan an image message for NSFW content, flag it and notify the recipients' parents
+ * Pass `detection` if the image was already scanned (e.g. before the message was stored),
+ * and `attachment` if the stored message no longer carries the URL (held for review).
+ */
+export async function moderateImageMessage(
+  admin: SupabaseClient,
+  message: StoredMessage,
+  options: { detection?: NSFWDetectionResult; attachment?: { url: string; type: string | null } } = {}
+): Promise<ImageModerationResult> {
+  const attachment = options.attachment ?? (message.attachment_url
+    ? { url: message.attachment_url, type: message.attachment_type }
+    : null);
+  if (!attachment) {
+    return { ok: false, flagged: false, error: "Message has no attachment" };
+  }
+
+  // Scan the image for NSFW content
+  let detectionResult: NSFWDetectionResult;
+  try {
+    detectionResult = options.detection ?? (await detectNSFW(attachment.url));
+  } catch (detectErr) {
+    console.error("⚠️ [Image Scanner] Error during NSFW detection:", detectErr);
+    detectionResult = {
+      isUnsafe: false,
+      confidence: 0,
+      category: "error",
+      reason: "Detection failed - manual review recommended",
+      scanFailed: true,
+    };
+  }
+
+  // Images the recipient's parents must approve first (unsafe images are also flagged below)
+  const held = await holdImageIfRequired(admin, message, attachment, detectionResult);
+  if (held && !detectionResult.isUnsafe) return held;
+
+  if (!detectionResult.isUnsafe) {
+    // Image is safe - no action needed
+    return { ok: true, flagged: false, confidence: detectionResult.confidence };
+  }
+
+  // Unsafe content detected - flag the message
+  console.log(`⚠️ [Image Scanner] Unsafe image detected for message ${message.id}: ${detectionResult.reason || detectionResult.category}`);
+
+  const audience = await getMessageAudience(admin, message.chat_id, message.sender_id);
+
+  const recorded = await recordModerationEvents(admin, [
+    {
+      message_id: message.id,
+      chat_id: message.chat_id,
+      group_id: audience.groupId,
+      source: "image",
+      sender_id: message.sender_id,
+      category: IMAGE_CATEGORY,
+      reason: `Unsafe image detected: ${detectionResult.reason || detectionResult.category || "NSFW content"} (confidence: ${detectionResult.confidence.toFixed(2)})`,
+      severity: IMAGE_SEVERITY,
+    },
+  ]);
+
+  if ("error" in recorded) {
+    console.error("⚠️ [Image Scanner] Failed to flag message:", recorded.error);
+    return { ok: false, flagged: false, error: "Failed to flag message" };
+  }
+
+  const flagged: ImageModerationResult = {
+    ok: true,
+    flagged: true,
+    pendingReview: held?.pendingReview,
+    reviewId: held?.reviewId,
+    category: detectionResult.category,
+    confidence: detectionResult.confidence,
+    reason: detectionResult.reason,
+  };
+
+  // Find the parents of the recipient children (the other participant, or the other child members of a group)
+  if (audience.recipientChildIds.length === 0) {
+    return { ...flagged, warning: "No recipient child - flag created but notification not sent" };
+  }
+
+  // Unsafe images are reported to parents whose profile alerts on images (every preset does)
+  const parentChildren = childIdsByParent(await getParentLinks(admin, audience.recipientChildIds, IMAGE_CATEGORY));
+  if (parentChildren.size === 0) {
+    console.log("⚠️ [Image Scanner] No parent found for recipient children:", audience.recipientChildIds);
+    return { ...flagged, warning: "No parent found for recipient - flag created but notification not sent" };
+  }
+
+  // Send notification message to parents
+  const context: ChatContext = { chatId: message.chat_id, groupName: audience.groupId ? audience.groupName ?? "Gruppe" : null };
+  let notified = 0;
+  for (const [parentId, childIds] of parentChildren) {
+    const sent = await sendNotification(admin, parentId, renderImageFlagged(context), {
+      dedupKey: `image:${message.id}`,
+      alert: {
+        childId: childIds[0],
+        counterpartId: message.sender_id,
+        category: detectionResult.category ?? "image",
+        messageId: message.id,
+        chatId: message.chat_id,
+      },
+      logPrefix: "[Image Scanner]",
+    });
+    if (sent.delivered.length > 0) notified++;
+  }
+  if (notified === 0) {
+    return { ...flagged, warning: "Flag created but notification failed" };
+  }
+
+  console.log(`✅ [Image Scanner] Image flagged and ${notified} parent(s) notified: message ${message.id}`);
+
+  return flagged;
+}
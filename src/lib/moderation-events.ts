@@ -0,0 +1,108 @@
+/**
+ * Moderation events (migration 036)
+ *
+ * Every reason a message was flagged is one row in moderation_events, whichever path raised it:
+ * - user_report: a user pressed Flag on the message (POST /api/moderation/flag)
+ * - keyword: one row per matched keyword (keyword scanner)
+ * - image: the NSFW detector found an unsafe image
+ * - conversation_analysis: the message completed a grooming pattern (conversation-analyzer.ts)
+ * Parents review events in the moderation inbox (moderation-inbox.ts).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type ModerationSource = "user_report" | "keyword" | "image" | "conversation_analysis";
+export type ModerationStatus = "open" | "reviewed" | "dismissed" | "escalated";
+
+export const MODERATION_SOURCES: ModerationSource[] = ["user_report", "keyword", "image", "conversation_analysis"];
+
+/** Category of user_report and image events (keyword events use the keyword category, grooming uses "grooming") */
+export const REPORTED_CATEGORY = "reported";
+export const IMAGE_CATEGORY = "image";
+export const GROOMING_CATEGORY = "grooming";
+
+/** Severity of events without a keyword match */
+export const REPORT_SEVERITY = 3;
+export const IMAGE_SEVERITY = 5;
+
+export interface ModerationEvent {
+  id: string;
+  message_id: string;
+  chat_id: string;
+  group_id: string | null;
+  source: ModerationSource;
+  sender_id: string | null;
+  reported_by: string | null;
+  category: string;
+  matched_keyword: string | null;
+  reason: string | null;
+  dedup_key: string;
+  severity: number;
+  risk_score: number;
+  related_message_ids: string[];
+  status: ModerationStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export type NewModerationEvent = Pick<ModerationEvent, "message_id" | "chat_id" | "source" | "category"> &
+  Partial<
+    Pick<
+      ModerationEvent,
+      | "group_id"
+      | "sender_id"
+      | "reported_by"
+      | "matched_keyword"
+      | "reason"
+      | "dedup_key"
+      | "severity"
+      | "risk_score"
+      | "related_message_ids"
+    >
+  >;
+
+/**
+ * Record moderation events
+ * Events already recorded for the same message, source and dedup_key are skipped, so re-scans are safe.
+ */
+export async function recordModerationEvents(
+  admin: SupabaseClient,
+  events: NewModerationEvent[]
+): Promise<{ ok: true } | { error: string }> {
+  if (events.length === 0) return { ok: true };
+  const { error } = await admin
+    .from("moderation_events")
+    .upsert(
+      events.map((e) => ({ dedup_key: "", ...e })),
+      { onConflict: "message_id,source,dedup_key", ignoreDuplicates: true }
+    );
+  if (error) {
+    console.error("⚠️ [Moderation] Failed to record moderation events:", error);
+    return { error: error.message };
+  }
+  return { ok: true };
+}
+
+/** Set the review status of events (all events of an inbox item at once) */
+export async function setModerationEventStatus(
+  admin: SupabaseClient,
+  eventIds: string[],
+  status: ModerationStatus,
+  reviewerId: string
+): Promise<{ ok: true } | { error: string }> {
+  if (eventIds.length === 0) return { ok: true };
+  const { error } = await admin
+    .from("moderation_events")
+    .update({
+      status,
+      reviewed_by: status === "open" ? null : reviewerId,
+      reviewed_at: status === "open" ? null : new Date().toISOString(),
+    })
+    .in("id", eventIds);
+  if (error) {
+    console.error("⚠️ [Moderation] Failed to update moderation events:", error);
+    return { error: error.message };
+  }
+  return { ok: true };
+}
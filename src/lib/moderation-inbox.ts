@@ -0,0 +1,502 @@
+/**
+ * Parent moderation inbox
+ *
+ * Collects the moderation events (moderation-events.ts) in a parent's children's chats:
+ * keyword matches, grooming patterns, user reports and unsafe images.
+ * One inbox item per flagged message and source (a message with three keyword matches is one item).
+ * The review status is stored on the events, so every parent of the children sees the same status.
+ *
+ * What a parent sees follows the read access in their surveillance profile: with full or flagged
+ * access every event, without read access only reports and image flags (as in the chat access rules).
+ * The same goes for the messages shown around a flag (loadMessageContext).
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sendNotificationToMany } from "@/lib/sikker-chat";
+import { getDisplayName } from "@/lib/message-moderation";
+import { renderModerationEscalated } from "@/lib/notification-templates";
+import { getContextWindowSize } from "@/lib/context-window";
+import { recordAuditEvents } from "@/lib/surveillance-audit";
+import {
+  MODERATION_SOURCES,
+  setModerationEventStatus,
+  type ModerationEvent,
+  type ModerationSource,
+  type ModerationStatus,
+} from "@/lib/moderation-events";
+
+export type InboxStatus = ModerationStatus;
+export type InboxAction = Exclude<InboxStatus, "open">;
+
+export const INBOX_ACTIONS: InboxAction[] = ["reviewed", "dismissed", "escalated"];
+
+export interface InboxFilters {
+  childId?: string | null;
+  category?: string | null;
+  status?: InboxStatus | null;
+  /** ISO timestamps (inclusive) */
+  from?: string | null;
+  to?: string | null;
+}
+
+export interface InboxItem {
+  /** `${source}:${message_id}` */
+  id: string;
+  source: ModerationSource;
+  message_id: string;
+  chat_id: string;
+  group_id: string | null;
+  /** The parent's children in the chat */
+  child_ids: string[];
+  child_names: string[];
+  sender_id: string | null;
+  sender_name: string;
+  categories: string[];
+  keywords: string[];
+  /** Report reasons and image detection results */
+  reasons: string[];
+  severity: number;
+  risk_score: number;
+  content: string | null;
+  attachment_type: string | null;
+  message_created_at: string | null;
+  flagged_at: string;
+  status: InboxStatus;
+  reviewed_at: string | null;
+  reviewer_name: string | null;
+  event_ids: string[];
+}
+
+export interface InboxChild {
+  id: string;
+  name: string;
+}
+
+export interface ContextMessage {
+  id: string;
+  sender_id: string;
+  sender_name: string;
+  content: string | null;
+  attachment_type: string | null;
+  created_at: string;
+  flagged: boolean;
+}
+
+/** Items loaded per request (newest flags first) */
+const INBOX_LIMIT = 500;
+/** Messages shown before and after the flagged message */
+const CONTEXT_SIZE = 5;
+
+type ChildScope = {
+  /** chat id → the parent's children in that chat */
+  chatChildren: Map<string, string[]>;
+  /** child id → read access (surveillance-profile.ts) */
+  readAccess: Map<string, string>;
+  groupChatIds: Set<string>;
+};
+
+/** The chats of the parent's children (1:1 and group chats) */
+async function getChildScope(admin: SupabaseClient, parentId: string, childId?: string | null): Promise<ChildScope> {
+  const scope: ChildScope = { chatChildren: new Map(), readAccess: new Map(), groupChatIds: new Set() };
+
+  let linksQuery = admin
+    .from("parent_child_links")
+    .select("child_id, read_access")
+    .eq("parent_id", parentId);
+  if (childId) linksQuery = linksQuery.eq("child_id", childId);
+  const { data: links, error: linksErr } = await linksQuery;
+  if (linksErr) {
+    console.error("⚠️ [Inbox] Error loading parent links:", linksErr);
+    return scope;
+  }
+
+  for (const link of links ?? []) {
+    scope.readAccess.set(link.child_id, link.read_access || "flagged");
+  }
+  const childIds = Array.from(scope.readAccess.keys());
+  if (childIds.length === 0) return scope;
+
+  const addChild = (chatId: string, id: string) => {
+    const ids = scope.chatChildren.get(chatId) ?? [];
+    if (!ids.includes(id)) ids.push(id);
+    scope.chatChildren.set(chatId, ids);
+  };
+
+  const childList = childIds.join(",");
+  const [{ data: directChats }, { data: memberships }] = await Promise.all([
+    admin
+      .from("chats")
+      .select("id, user1_id, user2_id")
+      .is("group_id", null)
+      .or(`user1_id.in.(${childList}),user2_id.in.(${childList})`),
+    admin.from("group_members").select("group_id, user_id").in("user_id", childIds),
+  ]);
+
+  for (const chat of directChats ?? []) {
+    if (scope.readAccess.has(chat.user1_id)) addChild(chat.id, chat.user1_id);
+    if (scope.readAccess.has(chat.user2_id)) addChild(chat.id, chat.user2_id);
+  }
+
+  const groupIds = Array.from(new Set((memberships ?? []).map((m) => m.group_id as string)));
+  if (groupIds.length > 0) {
+    const { data: groupChats } = await admin.from("chats").select("id, group_id").in("group_id", groupIds);
+    for (const chat of groupChats ?? []) {
+      scope.groupChatIds.add(chat.id);
+      for (const m of memberships ?? []) {
+        if (m.group_id === chat.group_id) addChild(chat.id, m.user_id);
+      }
+    }
+  }
+
+  return scope;
+}
+
+/** Whether the parent's read access for any of the children lets them see events from this source */
+function visibleForReadAccess(source: ModerationSource, readAccess: string[]): boolean {
+  if (source === "user_report" || source === "image") return true;
+  return readAccess.some((access) => access !== "none");
+}
+
+function parseItemId(itemId: string): { source: ModerationSource; messageId: string } | null {
+  const [source, messageId] = itemId.split(":");
+  if (!messageId || !MODERATION_SOURCES.includes(source as ModerationSource)) return null;
+  return { source: source as ModerationSource, messageId };
+}
+
+async function getNames(admin: SupabaseClient, userIds: string[]): Promise<Map<string, string>> {
+  if (userIds.length === 0) return new Map();
+  const { data: users } = await admin
+    .from("users")
+    .select("id, first_name, surname, username")
+    .in("id", userIds);
+  return new Map(
+    (users ?? []).map((u) => [
+      u.id,
+      u.first_name && u.surname ? `${u.first_name} ${u.surname}` : u.username || "Ukendt",
+    ])
+  );
+}
+
+/** The parent's linked children, for the child filter */
+export async function getInboxChildren(admin: SupabaseClient, parentId: string): Promise<InboxChild[]> {
+  const { data: links } = await admin
+    .from("parent_child_links")
+    .select("child_id")
+    .eq("parent_id", parentId);
+  const childIds = (links ?? []).map((l) => l.child_id as string);
+  const names = await getNames(admin, childIds);
+  return childIds.map((id) => ({ id, name: names.get(id) ?? "Ukendt" }));
+}
+
+/**
+ * Group moderation events into inbox items, with message contents and names
+ * Items the parent's read access doesn't cover are left out.
+ */
+async function buildInboxItems(admin: SupabaseClient, scope: ChildScope, events: ModerationEvent[]): Promise<InboxItem[]> {
+  const itemsById = new Map<string, InboxItem>();
+  const addUnique = (list: string[], value: string | null) => {
+    if (value && !list.includes(value)) list.push(value);
+  };
+
+  for (const event of events) {
+    const id = `${event.source}:${event.message_id}`;
+    let item = itemsById.get(id);
+    if (!item) {
+      item = {
+        id,
+        source: event.source,
+        message_id: event.message_id,
+        chat_id: event.chat_id,
+        group_id: event.group_id,
+        child_ids: scope.chatChildren.get(event.chat_id) ?? [],
+        child_names: [],
+        sender_id: event.sender_id,
+        sender_name: "Ukendt",
+        categories: [],
+        keywords: [],
+        reasons: [],
+        severity: 0,
+        risk_score: 0,
+        content: null,
+        attachment_type: null,
+        message_created_at: null,
+        flagged_at: event.created_at,
+        status: event.status,
+        reviewed_at: event.reviewed_at,
+        reviewer_name: event.reviewed_by,
+        event_ids: [],
+      };
+      itemsById.set(id, item);
+    }
+    item.event_ids.push(event.id);
+    // Events are newest first: keep the first flag time
+    if (event.created_at < item.flagged_at) item.flagged_at = event.created_at;
+    // An item is open while any of its events is (e.g. a new keyword found on a re-scan)
+    if (event.status === "open") item.status = "open";
+    addUnique(item.categories, event.category);
+    addUnique(item.keywords, event.source === "conversation_analysis" ? null : event.matched_keyword);
+    addUnique(item.reasons, event.source === "conversation_analysis" ? event.matched_keyword : event.reason);
+    item.severity = Math.max(item.severity, event.severity);
+    item.risk_score = Math.max(item.risk_score, event.risk_score);
+  }
+
+  const items = Array.from(itemsById.values()).filter((item) =>
+    visibleForReadAccess(item.source, item.child_ids.map((id) => scope.readAccess.get(id) ?? "flagged"))
+  );
+  if (items.length === 0) return [];
+
+  const messageIds = Array.from(new Set(items.map((item) => item.message_id)));
+  const { data: messages } = await admin
+    .from("messages")
+    .select("id, content, attachment_type, created_at")
+    .in("id", messageIds);
+
+  const messagesById = new Map((messages ?? []).map((m) => [m.id, m]));
+  const userIds = new Set<string>();
+  for (const item of items) {
+    const message = messagesById.get(item.message_id);
+    if (message) {
+      item.content = message.content;
+      item.attachment_type = message.attachment_type;
+      item.message_created_at = message.created_at;
+    }
+    if (item.sender_id) userIds.add(item.sender_id);
+    // reviewer_name holds the reviewer's id until names are loaded
+    if (item.reviewer_name) userIds.add(item.reviewer_name);
+    for (const id of item.child_ids) userIds.add(id);
+  }
+
+  const names = await getNames(admin, Array.from(userIds));
+  for (const item of items) {
+    item.child_names = item.child_ids.map((id) => names.get(id) ?? "Ukendt");
+    if (item.sender_id) item.sender_name = names.get(item.sender_id) ?? "Ukendt";
+    if (item.reviewer_name) item.reviewer_name = names.get(item.reviewer_name) ?? "Ukendt";
+  }
+  return items;
+}
+
+/** Load the parent's inbox, newest flags first */
+export async function loadInboxItems(
+  admin: SupabaseClient,
+  parentId: string,
+  filters: InboxFilters = {}
+): Promise<{ items: InboxItem[] } | { error: string }> {
+  const scope = await getChildScope(admin, parentId, filters.childId);
+  const chatIds = Array.from(scope.chatChildren.keys());
+  if (chatIds.length === 0) return { items: [] };
+
+  let query = admin
+    .from("moderation_events")
+    .select("*")
+    .in("chat_id", chatIds)
+    .order("created_at", { ascending: false })
+    .limit(INBOX_LIMIT);
+  if (filters.from) query = query.gte("created_at", filters.from);
+  if (filters.to) query = query.lte("created_at", filters.to);
+
+  const { data: events, error } = await query;
+  if (error) {
+    console.error("⚠️ [Inbox] Error loading moderation events:", error);
+    return { error: error.message };
+  }
+
+  let items = await buildInboxItems(admin, scope, (events ?? []) as ModerationEvent[]);
+  if (filters.category) {
+    items = items.filter((item) => item.categories.includes(filters.category!));
+  }
+  if (filters.status) {
+    items = items.filter((item) => item.status === filters.status);
+  }
+
+  items.sort((a, b) => b.flagged_at.localeCompare(a.flagged_at));
+  return { items };
+}
+
+/** Find one of the parent's inbox items, however old (null if it isn't in their inbox) */
+async function findInboxItem(
+  admin: SupabaseClient,
+  parentId: string,
+  itemId: string
+): Promise<{ item: InboxItem; scope: ChildScope } | null> {
+  const parsed = parseItemId(itemId);
+  if (!parsed) return null;
+
+  const { data: events, error } = await admin
+    .from("moderation_events")
+    .select("*")
+    .eq("message_id", parsed.messageId)
+    .eq("source", parsed.source)
+    .order("created_at", { ascending: false });
+  if (error) {
+    console.error("⚠️ [Inbox] Error loading moderation events:", error);
+    return null;
+  }
+  if (!events || events.length === 0) return null;
+
+  const scope = await getChildScope(admin, parentId);
+  if (!scope.chatChildren.has(events[0].chat_id)) return null;
+
+  const [item] = await buildInboxItems(admin, scope, events as ModerationEvent[]);
+  return item ? { item, scope } : null;
+}
+
+/**
+ * Mark an inbox item reviewed, dismissed (false positive) or escalated
+ * Escalating also alerts the children's other parents through Sikker chat.
+ */
+export async function reviewInboxItem(
+  admin: SupabaseClient,
+  parentId: string,
+  itemId: string,
+  action: InboxAction
+): Promise<{ ok: true; status: InboxStatus; parentsNotified: number } | { error: string; status: number }> {
+  const found = await findInboxItem(admin, parentId, itemId);
+  if (!found) {
+    return { error: "Flag not found or access denied", status: 404 };
+  }
+  const { item } = found;
+
+  const updated = await setModerationEventStatus(admin, item.event_ids, action, parentId);
+  if ("error" in updated) {
+    return { error: updated.error, status: 500 };
+  }
+
+  let parentsNotified = 0;
+  if (action === "escalated") {
+    const { data: links } = await admin
+      .from("parent_child_links")
+      .select("parent_id, child_id")
+      .in("child_id", item.child_ids)
+      .neq("parent_id", parentId);
+
+    const parentName = await getDisplayName(admin, parentId, "En forælder");
+    for (const childId of item.child_ids) {
+      const coParentIds = Array.from(
+        new Set((links ?? []).filter((l) => l.child_id === childId).map((l) => l.parent_id as string))
+      );
+      if (coParentIds.length === 0) continue;
+      parentsNotified += await sendNotificationToMany(
+        admin,
+        coParentIds,
+        renderModerationEscalated({
+          parentName,
+          childName: item.child_names[item.child_ids.indexOf(childId)] ?? "dit barn",
+          summary: item.categories.join(", "),
+        }),
+        {
+          dedupKey: `escalate:${item.id}`,
+          alert: {
+            childId,
+            counterpartId: item.sender_id && item.sender_id !== childId ? item.sender_id : undefined,
+            category: item.categories[0],
+            messageId: item.message_id,
+            chatId: item.chat_id,
+          },
+          logPrefix: "[Inbox]",
+        }
+      );
+    }
+  }
+
+  return { ok: true, status: action, parentsNotified };
+}
+
+/** The broadest read access the parent has for any of the children ("full" > "flagged" > "none") */
+function broadestReadAccess(scope: ChildScope, childIds: string[]): string {
+  const access = childIds.map((id) => scope.readAccess.get(id) ?? "flagged");
+  if (access.includes("full")) return "full";
+  return access.includes("flagged") ? "flagged" : "none";
+}
+
+/**
+ * The messages around a flagged message, as far as the parent's read access allows
+ * - full: CONTEXT_SIZE messages before and after
+ * - flagged: only messages inside the context window of the flagged message (context-window.ts,
+ *   migration 038), so not for a dismissed flag
+ * - none, and group chats (parents can't open them): only the flagged message itself
+ * Every context served is recorded as a chat_read in the surveillance audit log.
+ */
+export async function loadMessageContext(
+  admin: SupabaseClient,
+  parentId: string,
+  itemId: string
+): Promise<{ messages: ContextMessage[] } | { error: string; status: number }> {
+  const found = await findInboxItem(admin, parentId, itemId);
+  if (!found || !found.item.message_created_at) {
+    return { error: "Flag not found or access denied", status: 404 };
+  }
+  const { item, scope } = found;
+
+  let contextSize = 0;
+  if (!item.group_id) {
+    const readAccess = broadestReadAccess(scope, item.child_ids);
+    if (readAccess === "full") {
+      contextSize = CONTEXT_SIZE;
+    } else if (readAccess === "flagged") {
+      const { data: activeFlags } = await admin
+        .from("moderation_events")
+        .select("id")
+        .eq("message_id", item.message_id)
+        .neq("status", "dismissed")
+        .limit(1);
+      if (activeFlags && activeFlags.length > 0) {
+        contextSize = Math.min(CONTEXT_SIZE, getContextWindowSize());
+      }
+    }
+  }
+
+  const columns = "id, sender_id, content, attachment_type, created_at";
+  let rows: { id: string; sender_id: string; content: string | null; attachment_type: string | null; created_at: string }[];
+  if (contextSize === 0) {
+    const { data } = await admin.from("messages").select(columns).eq("id", item.message_id);
+    rows = data ?? [];
+  } else {
+    const [{ data: before }, { data: after }] = await Promise.all([
+      admin
+        .from("messages")
+        .select(columns)
+        .eq("chat_id", item.chat_id)
+        .lte("created_at", item.message_created_at)
+        .order("created_at", { ascending: false })
+        .limit(contextSize + 1),
+      admin
+        .from("messages")
+        .select(columns)
+        .eq("chat_id", item.chat_id)
+        .gt("created_at", item.message_created_at)
+        .order("created_at", { ascending: true })
+        .limit(contextSize),
+    ]);
+    rows = [...(before ?? []).reverse(), ...(after ?? [])];
+  }
+
+  // Serving messages of a child's chat is a chat read, whatever the read access (surveillance-audit.ts)
+  let otherUserIds: string[] = [];
+  if (!item.group_id) {
+    const { data: chat } = await admin.from("chats").select("user1_id, user2_id").eq("id", item.chat_id).maybeSingle();
+    otherUserIds = chat ? [chat.user1_id, chat.user2_id] : [];
+  }
+  await recordAuditEvents(
+    admin,
+    item.child_ids.map((childId) => ({
+      childId,
+      actorId: parentId,
+      action: "chat_read" as const,
+      details: {
+        chatId: item.chat_id,
+        messageId: item.message_id,
+        via: "inbox",
+        ...(item.group_id ? { groupId: item.group_id } : { otherUserId: otherUserIds.find((id) => id !== childId) }),
+      },
+    }))
+  );
+
+  const names = await getNames(admin, Array.from(new Set(rows.map((m) => m.sender_id))));
+  return {
+    messages: rows.map((m) => ({
+      ...m,
+      sender_name: names.get(m.sender_id) ?? "Ukendt",
+      flagged: m.id === item.message_id,
+    })),
+  };
+}
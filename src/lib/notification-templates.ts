@@ -0,0 +1,231 @@
+/**
+ * Message templates for Sikker chat notifications (see sikker-chat.ts)
+ *
+ * Every notification sent by the moderation paths is rendered here, so parents get the same wording
+ * whichever path raised it. Paths like /chats/{id} in the body are made clickable in the chat UI
+ * (renderMessageWithLinks) and turned into absolute links in emails.
+ */
+
+import type { KeywordMatch } from "@/lib/keyword-scanner";
+
+export type NotificationTemplate =
+  | "keyword_alert"
+  | "grooming_alert"
+  | "image_flagged"
+  | "image_review"
+  | "message_held"
+  | "self_harm_parent"
+  | "self_harm_helpline"
+  | "moderation_escalated"
+  | "surveillance_proposed"
+  | "surveillance_changed"
+  | "surveillance_changed_child"
+  | "child_locked";
+
+export interface RenderedNotification {
+  template: NotificationTemplate;
+  /** Email subject */
+  subject: string;
+  /** Message text (Sikker chat message, email body) */
+  body: string;
+}
+
+/** Where a message was sent: a 1:1 chat, or a group chat (parents can't open group chats) */
+export interface ChatContext {
+  chatId: string;
+  groupName?: string | null;
+}
+
+function where(context: ChatContext): string {
+  return context.groupName != null ? ` i gruppen "${context.groupName}"` : "";
+}
+
+function chatLink(context: ChatContext): string {
+  return context.groupName != null ? "" : `\n\nVil du se chatten? Klik her: /chats/${context.chatId}`;
+}
+
+/**
+ * Keyword and grooming alerts for the recipient's parents
+ * Both can be raised by one message; they are sent as one notification.
+ */
+export function renderKeywordAlert(params: {
+  context: ChatContext;
+  recipientName: string;
+  senderName: string;
+  matches: KeywordMatch[];
+  riskScore: number;
+  grooming?: { stages: string[]; messageCount: number } | null;
+}): RenderedNotification {
+  const { context, recipientName, senderName, grooming } = params;
+  const parts: string[] = [];
+  if (grooming) {
+    const pattern = `følger et mønster, der kan tyde på grooming (${grooming.stages.join(" → ")}).\n\nMønsteret bygger på ${grooming.messageCount} beskeder fra ${senderName}.`;
+    parts.push(
+      context.groupName != null
+        ? `⚠️ Alvorlig advarsel: ${senderName}s beskeder${where(context)}, hvor ${recipientName} er med, ${pattern}`
+        : `⚠️ Alvorlig advarsel: Samtalen mellem ${recipientName} og ${senderName} ${pattern}`
+    );
+  }
+  if (params.matches.length > 0) {
+    const matchLines = params.matches
+      .map((m) => `- "${m.keyword}" (kategori: ${m.category}, alvor: ${m.severity}/5)`)
+      .join("\n");
+    parts.push(
+      `Dit barn ${recipientName} har modtaget en besked${where(context)} indeholdende dårligt sprog fra ${senderName}.\n\nBeskeden indeholdt:\n${matchLines}\n\nSamlet risikoscore: ${params.riskScore}.`
+    );
+  }
+  return {
+    template: grooming ? "grooming_alert" : "keyword_alert",
+    subject: grooming ? "Alvorlig advarsel fra Sikker chat" : "Advarsel fra Sikker chat",
+    body: `${parts.join("\n\n")}${chatLink(context)}`,
+  };
+}
+
+/** An unsafe image was sent to the parent's child */
+export function renderImageFlagged(context: ChatContext): RenderedNotification {
+  return {
+    template: "image_flagged",
+    subject: "Sikkerhedsadvarsel: usikkert billede",
+    body:
+      context.groupName != null
+        ? `⚠️ Sikkerhedsadvarsel: Et billede med usikker indhold er blevet sendt${where(context)}, som dit barn er med i. Billedet er blevet markeret.`
+        : `⚠️ Sikkerhedsadvarsel: Et billede med usikker indhold er blevet sendt i chatten med dit barn. Billedet er blevet markeret. Klik her for at se chatten: /chats/${context.chatId}`,
+  };
+}
+
+/** An image couldn't be scanned and waits for the parent's approval (image-review.ts) */
+export function renderImageReview(context: ChatContext): RenderedNotification {
+  return {
+    template: "image_review",
+    subject: "Et billede venter på din godkendelse",
+    body: `⚠️ Et billede til dit barn kunne ikke kontrolleres automatisk og er skjult, indtil du har godkendt det. Klik her for at se chatten og godkende eller afvise billedet: /chats/${context.chatId}`,
+  };
+}
+
+/** A risky message was held before delivery (message-hold.ts) */
+export function renderMessageHeld(params: {
+  senderName: string;
+  recipientName: string;
+  match: Pick<KeywordMatch, "keyword" | "category">;
+}): RenderedNotification {
+  return {
+    template: "message_held",
+    subject: "En besked venter på din godkendelse",
+    body: `⚠️ En besked fra ${params.senderName} til ${params.recipientName} er tilbageholdt, fordi den indeholdt "${params.match.keyword}" (kategori: ${params.match.category}). Beskeden vises ikke for modtageren, før en forælder har frigivet den.\n\nGennemgå beskeden her: /parent/held-messages`,
+  };
+}
+
+/** The parent's own child wrote a self-harm statement (self-harm.ts) */
+export function renderSelfHarmParentAlert(params: {
+  context: ChatContext;
+  childName: string;
+  keywords: string[];
+}): RenderedNotification {
+  const { childName } = params;
+  return {
+    template: "self_harm_parent",
+    subject: `Vigtigt: ${childName} har det måske meget svært`,
+    body:
+      `🚨 Vigtigt: ${childName} har skrevet en besked, der tyder på, at ${childName} har det meget svært og måske tænker på at skade sig selv.\n\n` +
+      `Beskeden indeholdt: ${params.keywords.map((k) => `"${k}"`).join(", ")}\n\n` +
+      "Tal med dit barn hurtigst muligt, og lyt uden at dømme. Du kan få råd hos Børnetelefonen (116 111) og Forældretelefonen (35 55 55 57). " +
+      "Er der akut fare, så ring 112." +
+      (params.context.groupName != null ? "" : `\n\nSe chatten her: /chats/${params.context.chatId}`),
+  };
+}
+
+/** A parent escalated an inbox item to the child's other parents (moderation-inbox.ts) */
+export function renderModerationEscalated(params: {
+  parentName: string;
+  childName: string;
+  summary: string;
+}): RenderedNotification {
+  return {
+    template: "moderation_escalated",
+    subject: `${params.parentName} har brug for, at du ser på en besked`,
+    body: `⚠️ ${params.parentName} har markeret en besked i ${params.childName}s chat som alvorlig (${params.summary}) og vil gerne have, at du også ser på den.\n\nSe den i indbakken: /parent/moderation`,
+  };
+}
+
+const SURVEILLANCE_LEVEL_NAMES: Record<string, string> = {
+  strict: "Streng",
+  medium: "Medium",
+  mild: "Mild",
+  custom: "Tilpasset",
+};
+
+function levelName(level: string): string {
+  return SURVEILLANCE_LEVEL_NAMES[level] ?? level;
+}
+
+/** The graduation schedule proposes a lighter surveillance level (the parent accepts or dismisses it) */
+export function renderSurveillanceProposed(params: {
+  childId: string;
+  childName: string;
+  age: number;
+  fromLevel: string;
+  toLevel: string;
+}): RenderedNotification {
+  return {
+    template: "surveillance_proposed",
+    subject: `Forslag: ${levelName(params.toLevel)} overvågning for ${params.childName}`,
+    body: `🎂 ${params.childName} er nu ${params.age} år. Jeres plan foreslår at skifte overvågningsniveau fra ${levelName(params.fromLevel)} til ${levelName(params.toLevel)}.
+
+Acceptér eller afvis forslaget her: /parent/children/${params.childId}/surveillance`,
+  };
+}
+
+/** The graduation schedule changed a child's surveillance level (sent to the parent) */
+export function renderSurveillanceChanged(params: {
+  childId: string;
+  childName: string;
+  age: number;
+  fromLevel: string;
+  toLevel: string;
+}): RenderedNotification {
+  return {
+    template: "surveillance_changed",
+    subject: `${params.childName} har nu ${levelName(params.toLevel)} overvågning`,
+    body: `🎂 ${params.childName} er nu ${params.age} år, så overvågningsniveauet er skiftet fra ${levelName(params.fromLevel)} til ${levelName(params.toLevel)}, som I har planlagt.
+
+Se eller ændr profilen her: /parent/children/${params.childId}/surveillance`,
+  };
+}
+
+/** Tell a child their parent's surveillance level changed (Sikker chat only) */
+export function renderSurveillanceChangedChild(params: { toLevel: string }): RenderedNotification {
+  const what: Record<string, string> = {
+    strict: "Dine forældre kan læse dine chats.",
+    medium: "Dine forældre kan kun se chats, hvor en besked er blevet markeret.",
+    mild: "Dine forældre kan ikke læse dine chats, men får besked, hvis du anmelder en besked.",
+  };
+  return {
+    template: "surveillance_changed_child",
+    subject: "Dine forældre har ændret din overvågning",
+    body: `🌱 Du er blevet ældre, så din overvågning er nu ${levelName(params.toLevel)}. ${what[params.toLevel] ?? ""}`.trim(),
+  };
+}
+
+/** A child's account was locked after too many wrong PINs (child-login-throttle.ts) */
+export function renderChildLocked(params: { childName: string; minutes: number }): RenderedNotification {
+  return {
+    template: "child_locked",
+    subject: `${params.childName}s konto er låst`,
+    body: `🔒 Der er tastet forkert PIN for mange gange på ${params.childName}s konto, så den er låst i ${params.minutes} minutter. Var det ikke ${params.childName}, kan nogen prøve at gætte PIN-koden.
+
+Lås kontoen op eller giv en ny PIN her: /parent`,
+  };
+}
+
+/** Supportive message to a child who wrote a self-harm statement */
+export function renderSelfHarmHelpline(): RenderedNotification {
+  return {
+    template: "self_harm_helpline",
+    subject: "Du er ikke alene",
+    body:
+      "💛 Det lyder som om, du har det rigtig svært lige nu. Du er ikke alene, og det er godt at sige det højt.\n\n" +
+      "Du kan altid ringe til Børnetelefonen på 116 111 - det er gratis og anonymt, og der sidder en voksen klar døgnet rundt. " +
+      "Du kan også chatte med dem på bornetelefonen.dk.\n\n" +
+      "Hvis du er i fare lige nu, så ring 112.",
+  };
+}
@@ -1,71 +1,259 @@
 /**
  * Local NSFW Image Detection
- * Uses a lightweight open-source model for detecting unsafe content in images
- * 
- * This implementation uses a simple approach that can be enhanced with:
- * - TensorFlow.js models
- * - Hugging Face transformers
- * - Or other local ML models
+ * Detects unsafe content in images with a pluggable classifier provider
+ *
+ * Providers (selected with NSFW_PROVIDER):
+ * - "local": CPU-only ONNX model loaded from disk (see nsfw-local-provider.ts)
+ * - "stub": deterministic results for tests (see nsfw-stub-provider.ts)
+ * If no provider is configured, detection falls back to a placeholder that always returns safe.
+ *
+ * Thresholds per category can be overridden with NSFW_THRESHOLDS (JSON), e.g. {"porn":0.6,"sexy":0.9}
  */
 
+import { createLocalNSFWProvider, localProviderOptionsFromEnv } from "@/lib/nsfw-local-provider";
+import { createStubNSFWProvider } from "@/lib/nsfw-stub-provider";
+
 export interface NSFWDetectionResult {
   isUnsafe: boolean;
   confidence: number;
   category?: string;
   reason?: string;
+  /** True if the image could not be scanned (error or timeout) - see image-review.ts for the fail-closed policy */
+  scanFailed?: boolean;
+}
+
+/** Output classes of the classifier (NSFWJS class set) */
+export type NSFWCategory = "porn" | "hentai" | "sexy" | "drawing" | "neutral";
+
+export interface NSFWPrediction {
+  category: NSFWCategory;
+  probability: number;
+}
+
+/** Image passed to a provider: the original URL and the downloaded/decoded bytes */
+export interface NSFWImage {
+  url: string;
+  data: Buffer;
+}
+
+export interface NSFWProvider {
+  name: string;
+  classify(image: NSFWImage): Promise<NSFWPrediction[]>;
+}
+
+/** Probability at or above which a category is unsafe (categories not listed are never unsafe) */
+export type NSFWThresholds = Partial<Record<NSFWCategory, number>>;
+
+export const DEFAULT_NSFW_THRESHOLDS: NSFWThresholds = {
+  porn: 0.5,
+  hentai: 0.5,
+  sexy: 0.8,
+};
+
+/** Images larger than this are not downloaded for scanning */
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024; // 10 MB
+
+/** Scans taking longer than this count as failed (override with NSFW_SCAN_TIMEOUT_MS) */
+const DEFAULT_SCAN_TIMEOUT_MS = 20_000;
+
+const CATEGORY_REASONS: Record<NSFWCategory, string> = {
+  porn: "pornographic",
+  hentai: "hentai",
+  sexy: "sexually suggestive",
+  drawing: "drawing",
+  neutral: "neutral",
+};
+
+let provider: NSFWProvider | null | undefined;
+
+/** Build the provider selected by env (null = placeholder) */
+function providerFromEnv(): NSFWProvider | null {
+  const name = process.env.NSFW_PROVIDER ?? (process.env.NSFW_MODEL_PATH ? "local" : "");
+
+  if (name === "stub") {
+    return createStubNSFWProvider();
+  }
+  if (name === "local") {
+    const options = localProviderOptionsFromEnv();
+    if (!options) {
+      console.error("[NSFW Detector] NSFW_PROVIDER=local but NSFW_MODEL_PATH is not set");
+      return null;
+    }
+    return createLocalNSFWProvider(options);
+  }
+  if (name) {
+    console.error(`[NSFW Detector] Unknown NSFW_PROVIDER "${name}"`);
+  }
+  return null;
+}
+
+/** Get the active provider (created from env on first use) */
+export function getNSFWProvider(): NSFWProvider | null {
+  if (provider === undefined) {
+    provider = providerFromEnv();
+  }
+  return provider;
+}
+
+/**
+ * Replace the active provider (e.g. a stub provider in tests)
+ * Pass null for the placeholder, or undefined to go back to the env configuration
+ */
+export function setNSFWProvider(next: NSFWProvider | null | undefined): void {
+  provider = next;
+}
+
+/** Default thresholds merged with NSFW_THRESHOLDS from env */
+export function getNSFWThresholds(): NSFWThresholds {
+  const raw = process.env.NSFW_THRESHOLDS;
+  if (!raw) return DEFAULT_NSFW_THRESHOLDS;
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const thresholds: NSFWThresholds = { ...DEFAULT_NSFW_THRESHOLDS };
+    for (const [category, value] of Object.entries(parsed)) {
+      if (typeof value === "number" && value >= 0 && value <= 1) {
+        thresholds[category as NSFWCategory] = value;
+      } else if (value === null) {
+        delete thresholds[category as NSFWCategory];
+      }
+    }
+    return thresholds;
+  } catch (error) {
+    console.error("[NSFW Detector] Invalid NSFW_THRESHOLDS, using defaults:", error);
+    return DEFAULT_NSFW_THRESHOLDS;
+  }
+}
+
+/**
+ * Turn classifier predictions into a detection result
+ * The result is unsafe if any category reaches its threshold; the category furthest above
+ * its threshold is reported.
+ */
+export function evaluatePredictions(
+  predictions: NSFWPrediction[],
+  thresholds: NSFWThresholds = getNSFWThresholds()
+): NSFWDetectionResult {
+  let worst: { prediction: NSFWPrediction; margin: number } | null = null;
+
+  for (const prediction of predictions) {
+    const threshold = thresholds[prediction.category];
+    if (threshold === undefined) continue;
+    const margin = prediction.probability - threshold;
+    if (!worst || margin > worst.margin) {
+      worst = { prediction, margin };
+    }
+  }
+
+  if (!worst) {
+    return { isUnsafe: false, confidence: 0 };
+  }
+
+  const { prediction, margin } = worst;
+  const isUnsafe = margin >= 0;
+  return {
+    isUnsafe,
+    confidence: prediction.probability,
+    category: isUnsafe ? prediction.category : undefined,
+    reason: isUnsafe
+      ? `Detected ${CATEGORY_REASONS[prediction.category]} content (confidence: ${prediction.probability.toFixed(2)})`
+      : undefined,
+  };
+}
+
+/** Download or decode the image bytes */
+async function loadImage(imageUrl: string): Promise<Buffer> {
+  if (imageUrl.startsWith("data:image/")) {
+    const base64 = imageUrl.slice(imageUrl.indexOf(",") + 1);
+    const data = Buffer.from(base64, "base64");
+    if (data.length > MAX_IMAGE_BYTES) {
+      throw new Error(`Image is too large to scan (${data.length} bytes)`);
+    }
+    return data;
+  }
+
+  const res = await fetch(imageUrl);
+  if (!res.ok) {
+    throw new Error(`Failed to download image (HTTP ${res.status})`);
+  }
+  const contentLength = Number(res.headers.get("content-length"));
+  if (contentLength > MAX_IMAGE_BYTES) {
+    throw new Error(`Image is too large to scan (${contentLength} bytes)`);
+  }
+  const data = Buffer.from(await res.arrayBuffer());
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw new Error(`Image is too large to scan (${data.length} bytes)`);
+  }
+  return data;
+}
+
+class ScanTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Scan timed out after ${ms} ms`);
+    this.name = "ScanTimeoutError";
+  }
+}
+
+/** Reject if the promise doesn't settle within the scan timeout */
+function withScanTimeout<T>(promise: Promise<T>): Promise<T> {
+  const ms = Number(process.env.NSFW_SCAN_TIMEOUT_MS) || DEFAULT_SCAN_TIMEOUT_MS;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ScanTimeoutError(ms)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/** Run the provider on the image (download + classify) */
+async function classifyImage(active: NSFWProvider, imageUrl: string): Promise<NSFWPrediction[]> {
+  // The stub provider only looks at the URL, so skip downloading for it
+  const data = active.name === "stub" ? Buffer.alloc(0) : await loadImage(imageUrl);
+  return active.classify({ url: imageUrl, data });
 }
 
 /**
  * Detects NSFW content in an image
- * 
+ *
  * @param imageUrl - URL or base64 data URL of the image to scan
- * @returns Detection result with isUnsafe flag and confidence score
- * 
- * NOTE: This is a placeholder implementation. For production, integrate:
- * - TensorFlow.js NSFW model: https://github.com/infinitered/nsfwjs
- * - Or Hugging Face NSFW detection model
- * - Or Yahoo Open NSFW model
+ * @returns Detection result with isUnsafe flag and confidence score.
+ *   If the scan errors or times out, isUnsafe is false and scanFailed is true.
  */
 export async function detectNSFW(imageUrl: string): Promise<NSFWDetectionResult> {
   try {
-    // For now, we'll use a simple approach that can be replaced with actual ML model
-    // This checks image dimensions and basic heuristics as a fallback
-    
-    // TODO: Replace with actual NSFW detection model
-    // Example with nsfwjs:
-    // import * as nsfwjs from 'nsfwjs';
-    // const model = await nsfwjs.load();
-    // const img = await nsfwjs.loadImage(imageUrl);
-    // const predictions = await model.classify(img);
-    // const pornScore = predictions.find(p => p.className === 'Porn')?.probability || 0;
-    // const hentaiScore = predictions.find(p => p.className === 'Hentai')?.probability || 0;
-    // return {
-    //   isUnsafe: pornScore > 0.5 || hentaiScore > 0.5,
-    //   confidence: Math.max(pornScore, hentaiScore),
-    //   category: pornScore > hentaiScore ? 'porn' : 'hentai',
-    //   reason: `Detected ${pornScore > hentaiScore ? 'pornographic' : 'hentai'} content (confidence: ${Math.max(pornScore, hentaiScore).toFixed(2)})`
-    // };
-    
-    // Placeholder: Return safe by default until model is integrated
-    // In production, this should call the actual detection model
-    console.warn("[NSFW Detector] Using placeholder detection - always returns safe. Integrate actual model for production.");
-    
-    return {
-      isUnsafe: false,
-      confidence: 0,
-      category: undefined,
-      reason: undefined,
-    };
+    const active = getNSFWProvider();
+
+    if (!active) {
+      // Placeholder: Return safe by default until a model is configured
+      console.warn("[NSFW Detector] No classifier configured - always returns safe. Set NSFW_MODEL_PATH to enable the local model.");
+      return {
+        isUnsafe: false,
+        confidence: 0,
+        category: undefined,
+        reason: undefined,
+      };
+    }
+
+    const predictions = await withScanTimeout(classifyImage(active, imageUrl));
+    const result = evaluatePredictions(predictions);
+
+    console.log(
+      `[NSFW Detector] ${active.name}: ${predictions.map((p) => `${p.category}=${p.probability.toFixed(2)}`).join(", ")} -> ${result.isUnsafe ? "unsafe" : "safe"}`
+    );
+
+    return result;
   } catch (error) {
-    // If detection fails, err on the side of caution but log the error
     console.error("[NSFW Detector] Error during detection:", error);
-    
-    // Return safe but log error for monitoring
+
+    // Not flagged as unsafe - the caller decides (per surveillance level) whether to hold the image for review
+    const timedOut = error instanceof ScanTimeoutError;
     return {
       isUnsafe: false,
       confidence: 0,
-      category: "error",
-      reason: "Detection failed - manual review recommended",
+      category: timedOut ? "timeout" : "error",
+      reason: timedOut
+        ? "Detection timed out - manual review recommended"
+        : "Detection failed - manual review recommended",
+      scanFailed: true,
     };
   }
 }
@@ -79,15 +267,15 @@ export async function validateImageUrl(imageUrl: string): Promise<boolean> {
     if (!imageUrl || typeof imageUrl !== "string") {
       return false;
     }
-    
+
     // Check if it's a valid URL or data URL
     const isDataUrl = imageUrl.startsWith("data:image/");
     const isHttpUrl = imageUrl.startsWith("http://") || imageUrl.startsWith("https://");
-    
+
     if (!isDataUrl && !isHttpUrl) {
       return false;
     }
-    
+
     // For HTTP URLs, we could fetch and validate, but for now just check format
     return true;
   } catch {
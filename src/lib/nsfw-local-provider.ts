@@ -0,0 +1,129 @@
+/**
+ * Local CPU-only NSFW image classifier
+ * Runs an ONNX image classification model from disk with onnxruntime-node (no external service)
+ *
+ * The default settings match the NSFWJS MobileNetV2 model exported to ONNX:
+ * 224x224 RGB input in NHWC layout, values scaled to 0-1, five output classes
+ * (drawing, hentai, neutral, porn, sexy).
+ *
+ * Env:
+ * - NSFW_MODEL_PATH: path to the .onnx model file (required)
+ * - NSFW_MODEL_INPUT_SIZE: input width/height in pixels (default 224)
+ * - NSFW_MODEL_LAYOUT: "nhwc" or "nchw" (default nhwc)
+ * - NSFW_MODEL_LABELS: comma-separated output labels in model order (default drawing,hentai,neutral,porn,sexy)
+ */
+
+import type { InferenceSession } from "onnxruntime-node";
+import type { NSFWCategory, NSFWImage, NSFWPrediction, NSFWProvider } from "@/lib/nsfw-detector";
+
+const DEFAULT_INPUT_SIZE = 224;
+const DEFAULT_LABELS: NSFWCategory[] = ["drawing", "hentai", "neutral", "porn", "sexy"];
+const KNOWN_CATEGORIES: NSFWCategory[] = ["drawing", "hentai", "neutral", "porn", "sexy"];
+
+export interface LocalNSFWProviderOptions {
+  modelPath: string;
+  inputSize?: number;
+  layout?: "nhwc" | "nchw";
+  labels?: NSFWCategory[];
+}
+
+/** Read local provider options from env (null if no model is configured) */
+export function localProviderOptionsFromEnv(): LocalNSFWProviderOptions | null {
+  const modelPath = process.env.NSFW_MODEL_PATH;
+  if (!modelPath) return null;
+
+  const inputSize = Number(process.env.NSFW_MODEL_INPUT_SIZE) || DEFAULT_INPUT_SIZE;
+  const layout = process.env.NSFW_MODEL_LAYOUT === "nchw" ? "nchw" : "nhwc";
+  const labels = process.env.NSFW_MODEL_LABELS
+    ? process.env.NSFW_MODEL_LABELS.split(",").map((l) => l.trim().toLowerCase() as NSFWCategory)
+    : DEFAULT_LABELS;
+
+  return { modelPath, inputSize, layout, labels };
+}
+
+/** Convert raw model outputs to probabilities (applies softmax if the model outputs logits) */
+function toProbabilities(values: number[]): number[] {
+  const sum = values.reduce((a, b) => a + b, 0);
+  const looksLikeProbabilities = values.every((v) => v >= 0 && v <= 1) && Math.abs(sum - 1) < 0.01;
+  if (looksLikeProbabilities) return values;
+
+  const max = Math.max(...values);
+  const exps = values.map((v) => Math.exp(v - max));
+  const expSum = exps.reduce((a, b) => a + b, 0);
+  return exps.map((v) => v / expSum);
+}
+
+/**
+ * Create the local ONNX provider
+ * The model is loaded from disk on first use and reused for later calls
+ */
+export function createLocalNSFWProvider(options: LocalNSFWProviderOptions): NSFWProvider {
+  const inputSize = options.inputSize ?? DEFAULT_INPUT_SIZE;
+  const layout = options.layout ?? "nhwc";
+  const labels = options.labels ?? DEFAULT_LABELS;
+
+  const unknownLabels = labels.filter((l) => !KNOWN_CATEGORIES.includes(l));
+  if (unknownLabels.length > 0) {
+    throw new Error(`[NSFW Detector] Unknown model labels: ${unknownLabels.join(", ")}`);
+  }
+
+  let sessionPromise: Promise<InferenceSession> | null = null;
+
+  async function getSession(): Promise<InferenceSession> {
+    if (!sessionPromise) {
+      sessionPromise = import("onnxruntime-node")
+        .then((ort) => ort.InferenceSession.create(options.modelPath, { executionProviders: ["cpu"] }))
+        .catch((err) => {
+          // Allow a retry on the next call (e.g. model file added after start-up)
+          sessionPromise = null;
+          throw err;
+        });
+    }
+    return sessionPromise;
+  }
+
+  /** Decode, resize and normalize the image into the model's input tensor data */
+  async function preprocess(data: Buffer): Promise<Float32Array> {
+    const sharp = (await import("sharp")).default;
+    const { data: pixels } = await sharp(data)
+      .removeAlpha()
+      .resize(inputSize, inputSize, { fit: "fill" })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const pixelCount = inputSize * inputSize;
+    const tensor = new Float32Array(pixelCount * 3);
+    for (let i = 0; i < pixelCount; i++) {
+      for (let c = 0; c < 3; c++) {
+        const value = pixels[i * 3 + c] / 255;
+        if (layout === "nhwc") {
+          tensor[i * 3 + c] = value;
+        } else {
+          tensor[c * pixelCount + i] = value;
+        }
+      }
+    }
+    return tensor;
+  }
+
+  return {
+    name: "local-onnx",
+    async classify(image: NSFWImage): Promise<NSFWPrediction[]> {
+      const [session, ort] = await Promise.all([getSession(), import("onnxruntime-node")]);
+      const input = await preprocess(image.data);
+      const dims = layout === "nhwc" ? [1, inputSize, inputSize, 3] : [1, 3, inputSize, inputSize];
+
+      const results = await session.run({ [session.inputNames[0]]: new ort.Tensor("float32", input, dims) });
+      const output = results[session.outputNames[0]];
+      const probabilities = toProbabilities(Array.from(output.data as Float32Array));
+
+      if (probabilities.length !== labels.length) {
+        throw new Error(
+          `[NSFW Detector] Model returned ${probabilities.length} outputs but ${labels.length} labels are configured`
+        );
+      }
+
+      return labels.map((category, i) => ({ category, probability: probabilities[i] }));
+    },
+  };
+}
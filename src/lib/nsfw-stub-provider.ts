@@ -0,0 +1,41 @@
+/**
+ * Deterministic NSFW provider for tests and local development
+ * Never looks at the pixels: the result depends only on the image URL.
+ *
+ * - Fixed results can be registered per URL
+ * - Otherwise a marker in the URL selects the result, e.g. ".../photo.jpg?nsfw-stub=porn"
+ *   returns porn with probability 0.99, and "nsfw-stub=error" makes classification throw
+ * - Any other URL is classified as neutral
+ *
+ * Select it with NSFW_PROVIDER=stub (or setNSFWProvider in tests).
+ */
+
+import type { NSFWCategory, NSFWImage, NSFWPrediction, NSFWProvider } from "@/lib/nsfw-detector";
+
+const STUB_MARKER = /[?&#]nsfw-stub=([a-z]+)/i;
+const STUB_CATEGORIES: NSFWCategory[] = ["drawing", "hentai", "neutral", "porn", "sexy"];
+const STUB_PROBABILITY = 0.99;
+
+/** Predictions where one category has STUB_PROBABILITY and the rest share the remainder */
+function predictionsFor(category: NSFWCategory): NSFWPrediction[] {
+  const rest = (1 - STUB_PROBABILITY) / (STUB_CATEGORIES.length - 1);
+  return STUB_CATEGORIES.map((c) => ({ category: c, probability: c === category ? STUB_PROBABILITY : rest }));
+}
+
+export function createStubNSFWProvider(fixed: Record<string, NSFWPrediction[]> = {}): NSFWProvider {
+  return {
+    name: "stub",
+    async classify(image: NSFWImage): Promise<NSFWPrediction[]> {
+      if (fixed[image.url]) return fixed[image.url];
+
+      const marker = STUB_MARKER.exec(image.url)?.[1]?.toLowerCase();
+      if (marker === "error") {
+        throw new Error("[NSFW Detector] Stub provider: simulated classification error");
+      }
+      if (marker && STUB_CATEGORIES.includes(marker as NSFWCategory)) {
+        return predictionsFor(marker as NSFWCategory);
+      }
+      return predictionsFor("neutral");
+    },
+  };
+}
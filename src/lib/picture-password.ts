@@ -0,0 +1,73 @@
+/**
+ * Picture passwords for young children
+ *
+ * Instead of typing a PIN, a child can tap a short sequence of pictures chosen by their parent.
+ * The pictures are shared by the parent page (choosing) and the child login page (tapping); the
+ * sequence is sent as picture ids and checked on the server (child-login.ts). The device remembers
+ * the last child that signed in, so next time the child only has to tap the pictures.
+ */
+
+export type Picture = { id: string; emoji: string; label: string };
+
+/** The pictures a sequence is made of (ids are stored in the hash, so never rename them) */
+export const PICTURES: Picture[] = [
+  { id: "dog", emoji: "🐶", label: "Hund" },
+  { id: "cat", emoji: "🐱", label: "Kat" },
+  { id: "fox", emoji: "🦊", label: "Ræv" },
+  { id: "frog", emoji: "🐸", label: "Frø" },
+  { id: "lion", emoji: "🦁", label: "Løve" },
+  { id: "monkey", emoji: "🐵", label: "Abe" },
+  { id: "panda", emoji: "🐼", label: "Panda" },
+  { id: "octopus", emoji: "🐙", label: "Blæksprutte" },
+  { id: "unicorn", emoji: "🦄", label: "Enhjørning" },
+  { id: "turtle", emoji: "🐢", label: "Skildpadde" },
+  { id: "bee", emoji: "🐝", label: "Bi" },
+  { id: "penguin", emoji: "🐧", label: "Pingvin" },
+];
+
+/** Number of pictures in a sequence (12^4 combinations; wrong attempts are throttled like PINs) */
+export const PICTURE_PASSWORD_LENGTH = 4;
+
+const PICTURE_IDS = new Set(PICTURES.map((p) => p.id));
+
+/** Whether the value is a complete sequence of known picture ids */
+export function isValidPictureSequence(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length === PICTURE_PASSWORD_LENGTH &&
+    value.every((id) => typeof id === "string" && PICTURE_IDS.has(id))
+  );
+}
+
+/** The child last signed in on this device, so the picture login can skip typing the name */
+export type RememberedChild = { username: string; firstName: string | null };
+
+const REMEMBERED_CHILD_KEY = "sniksnak:child";
+
+export function rememberChild(child: RememberedChild | null | undefined): void {
+  if (!child?.username || typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(REMEMBERED_CHILD_KEY, JSON.stringify(child));
+  } catch {
+    // Storage unavailable (private mode); the child types their name instead
+  }
+}
+
+export function getRememberedChild(): RememberedChild | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(REMEMBERED_CHILD_KEY) ?? "null");
+    return typeof stored?.username === "string" ? { username: stored.username, firstName: stored.firstName ?? null } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function forgetChild(): void {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.removeItem(REMEMBERED_CHILD_KEY);
+  } catch {
+    // Nothing to forget
+  }
+}
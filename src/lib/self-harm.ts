@@ -0,0 +1,136 @@
+/**
+ * Self-harm escalation for the selfworth keyword category
+ *
+ * A child's own message matching the selfworth keywords ("jeg vil dø", "jeg vil begå selvmord", ...)
+ * is escalated separately from normal keyword flags:
+ * - the child's own parents are alerted through Sikker chat, whatever their surveillance profile, even in quiet hours
+ * - the child gets a supportive Sikker chat message with helpline information
+ * - the event is recorded in self_harm_events (migration 032)
+ *
+ * Parent keyword mutes don't apply: only keyword "add" rules extend the built-in selfworth list.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getKeywordsForCategory, scanMessage, type KeywordList, type KeywordMatch } from "@/lib/keyword-scanner";
+import { getEffectiveKeywords, mergeKeywordLists } from "@/lib/keyword-rules";
+import { getDisplayName, getMessageAudience, type StoredMessage } from "@/lib/message-moderation";
+import { sendNotification, sendNotificationToMany } from "@/lib/sikker-chat";
+import { renderSelfHarmHelpline, renderSelfHarmParentAlert } from "@/lib/notification-templates";
+
+export interface SelfHarmEscalation {
+  escalated: boolean;
+  matches: KeywordMatch[];
+  parentsNotified: number;
+  helplineSent: boolean;
+  /** Shown to the child in the chat */
+  helplineMessage?: string;
+}
+
+/**
+ * Selfworth keywords for a child: the built-in list plus global/parent "add" rules
+ * Mutes are ignored, so a parent can't switch off self-harm detection.
+ */
+async function getSelfHarmKeywords(admin: SupabaseClient, childId: string): Promise<KeywordList> {
+  const effective = await getEffectiveKeywords(admin, childId, { ignoreMutes: true });
+  const builtIn = { selfworth: getKeywordsForCategory("selfworth") } as KeywordList;
+  const merged = mergeKeywordLists(effective, builtIn);
+  return { selfworth: merged.selfworth } as KeywordList;
+}
+
+/** Find selfworth matches in a child's message */
+export async function detectSelfHarm(admin: SupabaseClient, childId: string, messageText: string): Promise<KeywordMatch[]> {
+  if (!messageText.trim()) return [];
+  return scanMessage(messageText, await getSelfHarmKeywords(admin, childId)).matches;
+}
+
+/**
+ * Escalate a child's message if it matches the selfworth keywords
+ * Each message is escalated once (self_harm_events.message_id is unique), so re-scans don't alert parents twice.
+ */
+export async function escalateSelfHarm(admin: SupabaseClient, message: StoredMessage): Promise<SelfHarmEscalation> {
+  const childId = message.sender_id;
+  const matches = await detectSelfHarm(admin, childId, message.content ?? "");
+  const none: SelfHarmEscalation = { escalated: false, matches, parentsNotified: 0, helplineSent: false };
+  if (matches.length === 0) return none;
+
+  const { data: event, error: insertErr } = await admin
+    .from("self_harm_events")
+    .upsert(
+      {
+        child_id: childId,
+        message_id: message.id,
+        chat_id: message.chat_id,
+        matched_keywords: matches.map((m) => m.keyword),
+      },
+      { onConflict: "message_id", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (insertErr) {
+    // Still alert - the parents must hear about this even if the event can't be recorded
+    console.error("⚠️ [Self-harm] Failed to record self-harm event:", insertErr);
+  } else if (!event || event.length === 0) {
+    console.log(`⚠️ [Self-harm] Message ${message.id} was already escalated - skipping`);
+    return none;
+  }
+
+  console.log(`🚨 [Self-harm] Child ${childId} wrote a self-harm statement in chat ${message.chat_id}: ${matches.map((m) => `"${m.keyword}"`).join(", ")}`);
+
+  // The child's own parents, whatever their surveillance profile
+  const { data: parentLinks, error: linksErr } = await admin
+    .from("parent_child_links")
+    .select("parent_id")
+    .eq("child_id", childId);
+  if (linksErr) {
+    console.error("⚠️ [Self-harm] Error loading parent links:", linksErr);
+  }
+
+  const parentIds = Array.from(new Set((parentLinks ?? []).map((l) => l.parent_id as string)));
+  const childName = await getDisplayName(admin, childId, "Dit barn");
+  const { groupId, groupName } = await getMessageAudience(admin, message.chat_id, childId);
+  const parentAlert = renderSelfHarmParentAlert({
+    context: { chatId: message.chat_id, groupName: groupId ? groupName ?? "Gruppe" : null },
+    childName,
+    keywords: matches.map((m) => m.keyword),
+  });
+
+  const parentsNotified = await sendNotificationToMany(admin, parentIds, parentAlert, {
+    dedupKey: `self-harm:${message.id}`,
+    alert: { childId, category: "selfworth", messageId: message.id, chatId: message.chat_id },
+    logPrefix: "[Self-harm]",
+    urgent: true,
+  });
+  if (parentIds.length === 0) {
+    console.log("⚠️ [Self-harm] No parent found for child:", childId);
+  }
+
+  // The helpline message goes to the child's Sikker chat only (never by email)
+  const helpline = renderSelfHarmHelpline();
+  const helplineSent = (
+    await sendNotification(admin, childId, helpline, {
+      dedupKey: `self-harm:${message.id}`,
+      channels: ["sikker_chat"],
+      logPrefix: "[Self-harm]",
+    })
+  ).delivered.length > 0;
+
+  if (!insertErr) {
+    const { error: updateErr } = await admin
+      .from("self_harm_events")
+      .update({ parents_notified: parentsNotified, helpline_sent: helplineSent })
+      .eq("message_id", message.id);
+    if (updateErr) {
+      console.error("⚠️ [Self-harm] Failed to update self-harm event:", updateErr);
+    }
+  }
+
+  console.log(`✅ [Self-harm] Escalated message ${message.id}: ${parentsNotified} parent(s) notified, helpline ${helplineSent ? "sent" : "not sent"}`);
+
+  return {
+    escalated: true,
+    matches,
+    parentsNotified,
+    helplineSent,
+    helplineMessage: helpline.body,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Structured Sikker chat alerts (migration 034)
+ *
+ * Parent alerts are stored in sikker_alerts next to the Sikker chat message that carries them
+ * (see sendNotification in sikker-chat.ts). Parents act on them from the alert card in the chat:
+ * view the conversation, mark the alert reviewed, or block the contact for their child.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NotificationTemplate } from "@/lib/notification-templates";
+
+export type SikkerAlertStatus = "open" | "reviewed";
+export type SikkerAlertAction = "review" | "block_contact";
+
+export interface SikkerAlertRow {
+  id: string;
+  message_id: string;
+  recipient_id: string;
+  kind: NotificationTemplate;
+  child_id: string | null;
+  counterpart_id: string | null;
+  category: string | null;
+  flagged_message_id: string | null;
+  flagged_chat_id: string | null;
+  status: SikkerAlertStatus;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+/** Check whether either user has blocked the other (blocked_contacts) */
+export async function isContactBlocked(admin: SupabaseClient, userA: string, userB: string): Promise<boolean> {
+  const { data, error } = await admin
+    .from("blocked_contacts")
+    .select("id")
+    .or(`and(child_id.eq.${userA},blocked_user_id.eq.${userB}),and(child_id.eq.${userB},blocked_user_id.eq.${userA})`)
+    .limit(1);
+  if (error) {
+    console.error("⚠️ [Alerts] Error checking blocked contacts:", error);
+    return false;
+  }
+  return !!data && data.length > 0;
+}
+
+/** Mark an alert as reviewed (no-op if it already is) */
+export async function markAlertReviewed(admin: SupabaseClient, alert: SikkerAlertRow): Promise<{ ok: true } | { error: string }> {
+  if (alert.status === "reviewed") return { ok: true };
+  const { error } = await admin
+    .from("sikker_alerts")
+    .update({ status: "reviewed", reviewed_at: new Date().toISOString() })
+    .eq("id", alert.id);
+  if (error) {
+    console.error("⚠️ [Alerts] Failed to mark alert reviewed:", error);
+    return { error: error.message };
+  }
+  return { ok: true };
+}
+
+/**
+ * Block the other user in an alert for the parent's child
+ * The parent's child can be either the alert's child or its counterpart (e.g. the sender of a held
+ * message), so the user on the other side is blocked. Marks the alert reviewed.
+ */
+export async function blockContactFromAlert(
+  admin: SupabaseClient,
+  parentId: string,
+  alert: SikkerAlertRow
+): Promise<{ ok: true; childId: string; blockedUserId: string } | { error: string }> {
+  const userIds = [alert.child_id, alert.counterpart_id].filter((id): id is string => !!id);
+  if (userIds.length < 2) {
+    return { error: "This alert has no contact to block" };
+  }
+
+  const { data: links } = await admin
+    .from("parent_child_links")
+    .select("child_id")
+    .eq("parent_id", parentId)
+    .in("child_id", userIds);
+  const linkedChildIds = (links ?? []).map((l) => l.child_id as string);
+
+  const childId = linkedChildIds.includes(userIds[0]) ? userIds[0] : linkedChildIds.includes(userIds[1]) ? userIds[1] : null;
+  if (!childId) {
+    return { error: "Child link not found or access denied" };
+  }
+  const blockedUserId = childId === userIds[0] ? userIds[1] : userIds[0];
+
+  const { error } = await admin
+    .from("blocked_contacts")
+    .upsert(
+      { child_id: childId, blocked_user_id: blockedUserId, blocked_by: parentId, alert_id: alert.id },
+      { onConflict: "child_id,blocked_user_id", ignoreDuplicates: true }
+    );
+  if (error) {
+    console.error("⚠️ [Alerts] Failed to block contact:", error);
+    return { error: error.message };
+  }
+
+  const reviewed = await markAlertReviewed(admin, alert);
+  if ("error" in reviewed) return reviewed;
+
+  return { ok: true, childId, blockedUserId };
+}
@@ -0,0 +1,368 @@
+/**
+ * Sikker chat notification service
+ *
+ * "Sikker chat" is the system user that sends safety notifications to parents (and helpline
+ * messages to children). This module owns it, so every moderation path notifies the same way:
+ * - the system user: id from SIKKER_CHAT_USER_ID (defaults to the id from migration 013),
+ *   created on first use if it doesn't exist yet (auth user + public.users row)
+ * - delivery: as a Sikker chat message (the user↔Sikker chat is created if needed) and,
+ *   if enabled, by email through Resend
+ * - deduplication: a notification with a dedupKey is delivered once per recipient
+ *   (sikker_chat_notifications, migration 033)
+ * - structured alerts: a notification with an alert is stored as an alert message (sikker_alerts,
+ *   migration 034) and rendered as an action card in the chat
+ * - quiet hours: during the parent's quiet hours for the child an alert is about, it is delivered
+ *   in Sikker chat only (surveillance-profile.ts), unless it is urgent
+ *
+ * Message texts live in notification-templates.ts.
+ */
+
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { Resend } from "resend";
+import type { RenderedNotification } from "@/lib/notification-templates";
+import { isParentInQuietHours } from "@/lib/surveillance-profile";
+
+/** The id used before the system user became configurable (migration 013_create_sikker_chat_user.sql) */
+const DEFAULT_SIKKER_CHAT_USER_ID = "13afd8bf-90a6-49b9-b38e-49c8274ac157";
+const DEFAULT_SIKKER_CHAT_EMAIL = "sikker-chat@system.local";
+
+export type NotificationChannel = "sikker_chat" | "email";
+
+const NOTIFICATION_CHANNELS: NotificationChannel[] = ["sikker_chat", "email"];
+
+/** What a parent alert is about (stored in sikker_alerts; the kind is the notification template) */
+export interface SikkerAlert {
+  /** The child the alert is about */
+  childId: string | null;
+  /** The other user involved (e.g. the sender of a flagged message), if any */
+  counterpartId?: string | null;
+  category?: string | null;
+  /** The message and chat that raised the alert */
+  messageId?: string | null;
+  chatId?: string | null;
+}
+
+export interface SendNotificationOptions {
+  /** Deliver at most once per recipient for this key (e.g. "keyword:<messageId>") */
+  dedupKey?: string;
+  /** Channels to deliver on (defaults to SIKKER_NOTIFICATION_CHANNELS, or Sikker chat only) */
+  channels?: NotificationChannel[];
+  /** Store the Sikker chat message as a structured alert (parents only) */
+  alert?: SikkerAlert;
+  /** Log prefix of the calling path, e.g. "[Keyword Scanner]" */
+  logPrefix?: string;
+  /** Deliver on every channel even during the parent's quiet hours (e.g. self-harm) */
+  urgent?: boolean;
+}
+
+export interface NotificationResult {
+  delivered: NotificationChannel[];
+  /** Why nothing was delivered */
+  skipped?: "duplicate" | "no_system_user";
+}
+
+/** Id of the Sikker chat system user */
+export function getSikkerChatUserId(): string {
+  return process.env.SIKKER_CHAT_USER_ID?.trim() || DEFAULT_SIKKER_CHAT_USER_ID;
+}
+
+/** Channels used when the caller doesn't choose (SIKKER_NOTIFICATION_CHANNELS, comma-separated) */
+export function getDefaultChannels(): NotificationChannel[] {
+  const configured = (process.env.SIKKER_NOTIFICATION_CHANNELS ?? "")
+    .split(",")
+    .map((c) => c.trim().toLowerCase())
+    .filter((c): c is NotificationChannel => NOTIFICATION_CHANNELS.includes(c as NotificationChannel));
+  return configured.length > 0 ? configured : ["sikker_chat"];
+}
+
+let systemUserReady: Promise<boolean> | null = null;
+
+/**
+ * Make sure the Sikker chat system user exists, creating it if needed
+ * The result is cached per server process; a failed attempt is retried on the next call.
+ */
+export function ensureSikkerChatUser(admin: SupabaseClient): Promise<boolean> {
+  if (!systemUserReady) {
+    systemUserReady = provisionSikkerChatUser(admin).then((ok) => {
+      if (!ok) systemUserReady = null;
+      return ok;
+    });
+  }
+  return systemUserReady;
+}
+
+async function provisionSikkerChatUser(admin: SupabaseClient): Promise<boolean> {
+  const userId = getSikkerChatUserId();
+
+  const { data: existing, error: lookupErr } = await admin
+    .from("users")
+    .select("id")
+    .eq("id", userId)
+    .maybeSingle();
+  if (lookupErr) {
+    console.error("⚠️ [Sikker Chat] Error checking system user:", lookupErr);
+    return false;
+  }
+  if (existing) return true;
+
+  console.log(`🔧 [Sikker Chat] System user ${userId} not found - creating it`);
+
+  const email = process.env.SIKKER_CHAT_EMAIL?.trim() || DEFAULT_SIKKER_CHAT_EMAIL;
+  const { data: authUser } = await admin.auth.admin.getUserById(userId);
+  if (!authUser?.user) {
+    const { error: createErr } = await admin.auth.admin.createUser({
+      id: userId,
+      email,
+      email_confirm: true,
+      // Nobody logs in as Sikker chat
+      password: `${randomUUID()}${randomUUID()}`,
+      app_metadata: { system_user: "sikker_chat" },
+    });
+    if (createErr) {
+      console.error("⚠️ [Sikker Chat] Failed to create system auth user:", createErr);
+      return false;
+    }
+  }
+
+  const { error: upsertErr } = await admin.from("users").upsert(
+    {
+      id: userId,
+      email,
+      first_name: "Sikker",
+      surname: "Chat",
+      username: "Sikker Chat",
+    },
+    { onConflict: "id" }
+  );
+  if (upsertErr) {
+    console.error("⚠️ [Sikker Chat] Failed to create system user record:", upsertErr);
+    return false;
+  }
+
+  console.log(`✅ [Sikker Chat] System user ${userId} created`);
+  return true;
+}
+
+/** Find or create the chat between a user and Sikker chat */
+async function getSikkerChatId(admin: SupabaseClient, userId: string, logPrefix: string): Promise<string | null> {
+  const [u1, u2] = [userId, getSikkerChatUserId()].sort();
+  const { data: chat } = await admin
+    .from("chats")
+    .select("id")
+    .eq("user1_id", u1)
+    .eq("user2_id", u2)
+    .maybeSingle();
+  if (chat) return chat.id;
+
+  const { data: newChat, error: chatErr } = await admin
+    .from("chats")
+    .insert({ user1_id: u1, user2_id: u2 })
+    .select("id")
+    .single();
+  if (chatErr || !newChat) {
+    console.error(`⚠️ ${logPrefix} Failed to create Sikker chat:`, chatErr);
+    return null;
+  }
+  return newChat.id;
+}
+
+async function deliverViaSikkerChat(
+  admin: SupabaseClient,
+  userId: string,
+  notification: RenderedNotification,
+  alert: SikkerAlert | undefined,
+  logPrefix: string
+): Promise<boolean> {
+  const chatId = await getSikkerChatId(admin, userId, logPrefix);
+  if (!chatId) return false;
+
+  // The text stays in content, so alerts still read well where cards aren't rendered
+  const { data: message, error: msgErr } = await admin
+    .from("messages")
+    .insert({
+      chat_id: chatId,
+      sender_id: getSikkerChatUserId(),
+      content: notification.body,
+      message_type: alert ? "alert" : "text",
+    })
+    .select("id")
+    .single();
+  if (msgErr || !message) {
+    console.error(`⚠️ ${logPrefix} Failed to send Sikker chat message:`, msgErr);
+    return false;
+  }
+
+  if (alert) {
+    const { error: alertErr } = await admin.from("sikker_alerts").insert({
+      message_id: message.id,
+      recipient_id: userId,
+      kind: notification.template,
+      child_id: alert.childId,
+      counterpart_id: alert.counterpartId ?? null,
+      category: alert.category ?? null,
+      flagged_message_id: alert.messageId ?? null,
+      flagged_chat_id: alert.chatId ?? null,
+    });
+    if (alertErr) {
+      // The message was delivered; it is shown as plain text without the card
+      console.error(`⚠️ ${logPrefix} Failed to store alert:`, alertErr);
+    }
+  }
+  return true;
+}
+
+function escapeHtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+async function deliverViaEmail(
+  admin: SupabaseClient,
+  userId: string,
+  notification: RenderedNotification,
+  logPrefix: string
+): Promise<boolean> {
+  const resendApiKey = process.env.RESEND_API_KEY;
+  if (!resendApiKey) {
+    console.warn(`⚠️ ${logPrefix} Email channel enabled but RESEND_API_KEY is not set`);
+    return false;
+  }
+
+  const { data: user } = await admin
+    .from("users")
+    .select("email")
+    .eq("id", userId)
+    .maybeSingle();
+  if (!user?.email) return false;
+
+  // App paths in the text (/chats/..., /parent/...) become absolute links
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? "http://localhost:3000";
+  const html = escapeHtml(notification.body)
+    .replace(/(^|\s)(\/(?:chats|parent)\/[a-z0-9-]+)/gi, (_m, space: string, path: string) => `${space}<a href="${appUrl}${path}">${appUrl}${path}</a>`)
+    .replace(/\n/g, "<br>");
+
+  const resend = new Resend(resendApiKey);
+  const { error } = await resend.emails.send({
+    from: process.env.RESEND_FROM_EMAIL ?? "Chat App <onboarding@resend.dev>",
+    to: user.email,
+    subject: notification.subject,
+    html: `<p>${html}</p>`,
+  });
+  if (error) {
+    console.error(`⚠️ ${logPrefix} Failed to send notification email:`, error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Claim a dedup key for a recipient
+ * Returns the claim row id, "duplicate" if it was already claimed, or null if dedup is unavailable.
+ */
+async function claimDedupKey(
+  admin: SupabaseClient,
+  recipientId: string,
+  dedupKey: string,
+  notification: RenderedNotification,
+  logPrefix: string
+): Promise<string | "duplicate" | null> {
+  const { data, error } = await admin
+    .from("sikker_chat_notifications")
+    .upsert(
+      { recipient_id: recipientId, dedup_key: dedupKey, template: notification.template },
+      { onConflict: "recipient_id,dedup_key", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (error) {
+    // Deliver without dedup rather than not at all
+    console.error(`⚠️ ${logPrefix} Notification dedup unavailable (run migration 033_sikker_chat_notifications.sql):`, error);
+    return null;
+  }
+  if (!data || data.length === 0) return "duplicate";
+  return data[0].id as string;
+}
+
+/**
+ * Send a notification from Sikker chat to a user (parent or child)
+ * Delivery failures are logged, never thrown, so a notification can't fail the moderation path.
+ */
+export async function sendNotification(
+  admin: SupabaseClient,
+  recipientId: string,
+  notification: RenderedNotification,
+  options: SendNotificationOptions = {}
+): Promise<NotificationResult> {
+  const logPrefix = options.logPrefix ?? "[Sikker Chat]";
+
+  if (!(await ensureSikkerChatUser(admin))) {
+    console.error(`⚠️ ${logPrefix} Sikker chat user unavailable - notification not sent`);
+    return { delivered: [], skipped: "no_system_user" };
+  }
+
+  let claimId: string | null = null;
+  if (options.dedupKey) {
+    const claim = await claimDedupKey(admin, recipientId, options.dedupKey, notification, logPrefix);
+    if (claim === "duplicate") {
+      console.log(`${logPrefix} Notification ${options.dedupKey} already sent to ${recipientId} - skipping`);
+      return { delivered: [], skipped: "duplicate" };
+    }
+    claimId = claim;
+  }
+
+  let channels = options.channels ?? getDefaultChannels();
+  if (
+    options.alert?.childId &&
+    !options.urgent &&
+    channels.includes("email") &&
+    (await isParentInQuietHours(admin, recipientId, options.alert.childId))
+  ) {
+    console.log(`${logPrefix} Quiet hours for ${recipientId} - delivering in Sikker chat only`);
+    channels = ["sikker_chat"];
+  }
+
+  const delivered: NotificationChannel[] = [];
+  for (const channel of channels) {
+    try {
+      const ok =
+        channel === "email"
+          ? await deliverViaEmail(admin, recipientId, notification, logPrefix)
+          : await deliverViaSikkerChat(admin, recipientId, notification, options.alert, logPrefix);
+      if (ok) delivered.push(channel);
+    } catch (deliveryError) {
+      console.error(`⚠️ ${logPrefix} Error delivering notification via ${channel}:`, deliveryError);
+    }
+  }
+
+  if (claimId) {
+    // Release the key if nothing was delivered, so a later attempt can retry
+    const { error: claimErr } =
+      delivered.length > 0
+        ? await admin.from("sikker_chat_notifications").update({ channels: delivered }).eq("id", claimId)
+        : await admin.from("sikker_chat_notifications").delete().eq("id", claimId);
+    if (claimErr) {
+      console.error(`⚠️ ${logPrefix} Failed to update notification record:`, claimErr);
+    }
+  }
+
+  return { delivered };
+}
+
+/** Send the same notification to several users; returns how many received it */
+export async function sendNotificationToMany(
+  admin: SupabaseClient,
+  recipientIds: string[],
+  notification: RenderedNotification,
+  options: SendNotificationOptions = {}
+): Promise<number> {
+  let notified = 0;
+  for (const recipientId of Array.from(new Set(recipientIds))) {
+    const result = await sendNotification(admin, recipientId, notification, options);
+    if (result.delivered.length > 0) notified++;
+  }
+  return notified;
+}
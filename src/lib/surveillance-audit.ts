@@ -0,0 +1,166 @@
+/**
+ * Surveillance audit log (migration 042)
+ *
+ * Append-only record of parents' use of their access to a child, shown to every parent of the child:
+ * - chat_read: a parent was served messages of one of the child's chats: the chat itself (full read
+ *   access, GET /api/parent/child-chats) or the messages around a flag in the moderation inbox
+ * - transcript_read: a parent was served the redacted transcript around a flagged message
+ * - surveillance_changed: the level or profile changed (dashboard, profile page or graduation schedule)
+ * - child_removed: a parent removed the child from their account
+ * - contact_approved: a contact was approved for the child (by a parent, or automatically)
+ * - invite_created / invite_revoked / invite_redeemed: an invitation link for the child was created,
+ *   cancelled by a parent, or used to sign in (with the device; see child-invites.ts)
+ *
+ * Recording never blocks the action it describes: failures are logged and the action goes ahead.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type AuditAction =
+  | "chat_read"
+  | "transcript_read"
+  | "surveillance_changed"
+  | "child_removed"
+  | "contact_approved"
+  | "invite_created"
+  | "invite_revoked"
+  | "invite_redeemed";
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  "chat_read",
+  "transcript_read",
+  "surveillance_changed",
+  "child_removed",
+  "contact_approved",
+  "invite_created",
+  "invite_revoked",
+  "invite_redeemed",
+];
+
+export interface AuditEntry {
+  id: number;
+  child_id: string;
+  /** null when the system acted */
+  actor_id: string | null;
+  action: AuditAction;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface NewAuditEntry {
+  childId: string;
+  actorId: string | null;
+  action: AuditAction;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Record audit entries
+ * Each entry is visible to the parents linked to its child right now (call before removing a link).
+ */
+export async function recordAuditEvents(admin: SupabaseClient, entries: NewAuditEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  const childIds = Array.from(new Set(entries.map((e) => e.childId)));
+  const { data: links, error: linksErr } = await admin
+    .from("parent_child_links")
+    .select("parent_id, child_id")
+    .in("child_id", childIds);
+  if (linksErr) {
+    console.error("⚠️ [Audit] Failed to load parents for audit entries:", linksErr);
+  }
+
+  const parentsByChild = new Map<string, string[]>();
+  for (const link of links ?? []) {
+    const parents = parentsByChild.get(link.child_id) ?? [];
+    parents.push(link.parent_id);
+    parentsByChild.set(link.child_id, parents);
+  }
+
+  const rows = entries.map((e) => {
+    const visibleTo = new Set(parentsByChild.get(e.childId) ?? []);
+    if (e.actorId) visibleTo.add(e.actorId);
+    return {
+      child_id: e.childId,
+      actor_id: e.actorId,
+      action: e.action,
+      details: e.details ?? {},
+      visible_to: Array.from(visibleTo),
+    };
+  });
+
+  const { error } = await admin.from("surveillance_audit_log").insert(rows);
+  if (error) {
+    console.error("⚠️ [Audit] Failed to record audit entries:", error, rows.map((r) => r.action));
+  }
+}
+
+/** Record one audit entry */
+export async function recordAuditEvent(admin: SupabaseClient, entry: NewAuditEntry): Promise<void> {
+  await recordAuditEvents(admin, [entry]);
+}
+
+/** A parent reading the same chat again within this time is recorded once (an open chat polls for messages) */
+const CHAT_READ_INTERVAL_MS = 30 * 60 * 1000; // 30 minutes
+
+/** Record that a parent read one of the child's chats, at most once per CHAT_READ_INTERVAL_MS */
+export async function recordChatRead(
+  admin: SupabaseClient,
+  entry: { childId: string; actorId: string; chatId: string; otherUserId: string }
+): Promise<void> {
+  const since = new Date(Date.now() - CHAT_READ_INTERVAL_MS).toISOString();
+  const { data: recent, error } = await admin
+    .from("surveillance_audit_log")
+    .select("id")
+    .eq("child_id", entry.childId)
+    .eq("actor_id", entry.actorId)
+    .eq("action", "chat_read")
+    .eq("details->>chatId", entry.chatId)
+    .gte("created_at", since)
+    .limit(1);
+  if (error) {
+    console.error("⚠️ [Audit] Failed to check recent chat reads:", error);
+  } else if (recent && recent.length > 0) {
+    return;
+  }
+
+  await recordAuditEvent(admin, {
+    childId: entry.childId,
+    actorId: entry.actorId,
+    action: "chat_read",
+    details: { chatId: entry.chatId, otherUserId: entry.otherUserId },
+  });
+}
+
+/**
+ * Audit entries a parent may see, newest first: entries for children linked to them now,
+ * and entries from when they were linked
+ */
+export async function listAuditEvents(
+  admin: SupabaseClient,
+  parentId: string,
+  options: { childId?: string; limit?: number; before?: string } = {}
+): Promise<{ entries: AuditEntry[] } | { error: string }> {
+  const { data: links, error: linksErr } = await admin
+    .from("parent_child_links")
+    .select("child_id")
+    .eq("parent_id", parentId);
+  if (linksErr) return { error: linksErr.message };
+
+  const linkedChildIds = (links ?? []).map((l) => l.child_id as string);
+  const visible = [`visible_to.cs.{${parentId}}`];
+  if (linkedChildIds.length > 0) visible.push(`child_id.in.(${linkedChildIds.join(",")})`);
+
+  let query = admin
+    .from("surveillance_audit_log")
+    .select("id, child_id, actor_id, action, details, created_at")
+    .or(visible.join(","))
+    .order("created_at", { ascending: false })
+    .limit(Math.min(options.limit ?? 100, 200));
+  if (options.childId) query = query.eq("child_id", options.childId);
+  if (options.before) query = query.lt("created_at", options.before);
+
+  const { data, error } = await query;
+  if (error) return { error: error.message };
+  return { entries: (data ?? []) as AuditEntry[] };
+}
@@ -0,0 +1,336 @@
+/**
+ * Age-based surveillance graduation
+ *
+ * A parent can opt into a schedule that moves a child to another surveillance preset as they grow,
+ * e.g. strict until 10, medium until 13 and mild after that (migration 040). Schedules are only
+ * readable by the parent who set them (surveillance_graduation_schedules, migration 053); the child's
+ * age comes from child_birthdates. runGraduations checks every schedule (daily, GET /api/cron/surveillance-graduation):
+ * - mode "apply": the preset is applied (surveillance-profile.ts) and parent and child are told in Sikker chat
+ * - mode "propose": the parent gets a proposal in Sikker chat and accepts or dismisses it
+ * Custom profiles are never overwritten without the parent: they only get proposals.
+ *
+ * Each transition is recorded once per link, target preset and age (surveillance_graduations),
+ * so re-runs don't repeat it; a dismissed proposal comes back on the child's next birthday.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { sendNotification } from "@/lib/sikker-chat";
+import { getDisplayName } from "@/lib/message-moderation";
+import {
+  renderSurveillanceChanged,
+  renderSurveillanceChangedChild,
+  renderSurveillanceProposed,
+} from "@/lib/notification-templates";
+import {
+  SURVEILLANCE_PRESETS,
+  isSurveillancePreset,
+  profileToRow,
+  type SurveillancePreset,
+} from "@/lib/surveillance-profile";
+import { recordAuditEvent } from "@/lib/surveillance-audit";
+
+export type GraduationMode = "propose" | "apply";
+export type GraduationStatus = "proposed" | "applied" | "dismissed";
+export type GraduationAction = "accept" | "dismiss";
+
+export interface GraduationStep {
+  preset: SurveillancePreset;
+  /** The step applies until the child turns this age (null for the last step) */
+  until_age: number | null;
+}
+
+export interface Graduation {
+  id: string;
+  link_id: number;
+  parent_id: string;
+  child_id: string;
+  age: number;
+  from_level: string;
+  to_level: SurveillancePreset;
+  status: GraduationStatus;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export const GRADUATION_MODES: GraduationMode[] = ["propose", "apply"];
+
+export const DEFAULT_GRADUATION_SCHEDULE: GraduationStep[] = [
+  { preset: "strict", until_age: 10 },
+  { preset: "medium", until_age: 13 },
+  { preset: "mild", until_age: null },
+];
+
+const MAX_STEPS = 5;
+const MAX_AGE = 18;
+
+/** A link with its schedule (surveillance_graduation_schedules, migration 053) */
+type LinkRow = {
+  id: number;
+  parent_id: string;
+  child_id: string;
+  surveillance_level: string | null;
+  schedule: GraduationStep[] | null;
+  mode: GraduationMode | null;
+};
+
+/** Validate a schedule sent by the parent UI: ages ascending, only the last step open-ended */
+export function parseGraduationSchedule(input: unknown): GraduationStep[] | { error: string } {
+  if (!Array.isArray(input) || input.length === 0 || input.length > MAX_STEPS) {
+    return { error: `schedule must have 1 to ${MAX_STEPS} steps` };
+  }
+  const steps: GraduationStep[] = [];
+  let previousAge = 0;
+  for (const [index, raw] of input.entries()) {
+    const step = raw as Record<string, unknown>;
+    if (!isSurveillancePreset(step?.preset)) {
+      return { error: "Each step needs a preset: 'strict', 'medium', or 'mild'" };
+    }
+    const isLast = index === input.length - 1;
+    if (isLast) {
+      if (step.until_age != null) return { error: "The last step must not have until_age" };
+      steps.push({ preset: step.preset, until_age: null });
+      continue;
+    }
+    const age = step.until_age;
+    if (typeof age !== "number" || !Number.isInteger(age) || age <= previousAge || age > MAX_AGE) {
+      return { error: `until_age must be whole ages in ascending order, up to ${MAX_AGE}` };
+    }
+    steps.push({ preset: step.preset, until_age: age });
+    previousAge = age;
+  }
+  return steps;
+}
+
+/** Age in whole years on a date ("YYYY-MM-DD" birthdate, compared in UTC) */
+export function ageOn(birthdate: string, date: Date): number {
+  const [year, month, day] = birthdate.split("-").map(Number);
+  let age = date.getUTCFullYear() - year;
+  const beforeBirthday =
+    date.getUTCMonth() + 1 < month || (date.getUTCMonth() + 1 === month && date.getUTCDate() < day);
+  if (beforeBirthday) age--;
+  return age;
+}
+
+/** The preset the schedule gives a child of this age */
+export function scheduledPreset(schedule: GraduationStep[], age: number): SurveillancePreset {
+  const step = schedule.find((s) => s.until_age === null || age < s.until_age);
+  return (step ?? schedule[schedule.length - 1]).preset;
+}
+
+/** Apply a graduation's preset to the link, record it in the audit log and tell parent and child */
+async function applyGraduation(
+  admin: SupabaseClient,
+  graduation: Graduation,
+  actorId: string | null
+): Promise<{ ok: true } | { error: string }> {
+  const { error } = await admin
+    .from("parent_child_links")
+    .update(profileToRow(SURVEILLANCE_PRESETS[graduation.to_level]))
+    .eq("id", graduation.link_id);
+  if (error) {
+    console.error("⚠️ [Graduation] Failed to apply preset:", error);
+    return { error: error.message };
+  }
+
+  await recordAuditEvent(admin, {
+    childId: graduation.child_id,
+    actorId,
+    action: "surveillance_changed",
+    details: { from: graduation.from_level, to: graduation.to_level, via: "graduation", age: graduation.age },
+  });
+
+  const childName = await getDisplayName(admin, graduation.child_id, "Dit barn");
+  const params = {
+    childId: graduation.child_id,
+    childName,
+    age: graduation.age,
+    fromLevel: graduation.from_level,
+    toLevel: graduation.to_level,
+  };
+  await sendNotification(admin, graduation.parent_id, renderSurveillanceChanged(params), {
+    dedupKey: `graduation:${graduation.id}`,
+    logPrefix: "[Graduation]",
+  });
+  await sendNotification(admin, graduation.child_id, renderSurveillanceChangedChild(params), {
+    dedupKey: `graduation:${graduation.id}`,
+    channels: ["sikker_chat"],
+    logPrefix: "[Graduation]",
+  });
+  return { ok: true };
+}
+
+/** Check one link's schedule; returns what happened */
+async function graduateLink(
+  admin: SupabaseClient,
+  link: LinkRow,
+  birthdate: string,
+  now: Date
+): Promise<"applied" | "proposed" | null> {
+  const schedule = link.schedule;
+  if (!schedule || schedule.length === 0) return null;
+
+  const age = ageOn(birthdate, now);
+  const target = scheduledPreset(schedule, age);
+  const fromLevel = link.surveillance_level ?? "medium";
+  if (target === fromLevel) return null;
+
+  const apply = link.mode === "apply" && fromLevel !== "custom";
+
+  // Claim the transition, so it is raised once (the unique key is link, target and age)
+  const { data: claimed, error: claimErr } = await admin
+    .from("surveillance_graduations")
+    .upsert(
+      {
+        link_id: link.id,
+        parent_id: link.parent_id,
+        child_id: link.child_id,
+        age,
+        from_level: fromLevel,
+        to_level: target,
+        status: apply ? "applied" : "proposed",
+        resolved_at: apply ? now.toISOString() : null,
+      },
+      { onConflict: "link_id,to_level,age", ignoreDuplicates: true }
+    )
+    .select("*");
+  if (claimErr) {
+    console.error("⚠️ [Graduation] Failed to record graduation:", claimErr);
+    return null;
+  }
+  const graduation = claimed?.[0] as Graduation | undefined;
+  if (!graduation) return null;
+
+  if (apply) {
+    const applied = await applyGraduation(admin, graduation, null);
+    if ("error" in applied) {
+      // Release the claim so the next run retries
+      await admin.from("surveillance_graduations").delete().eq("id", graduation.id);
+      return null;
+    }
+    console.log(`✅ [Graduation] Link ${link.id}: ${fromLevel} → ${target} at age ${age}`);
+    return "applied";
+  }
+
+  // A newer proposal replaces older ones the parent hasn't answered
+  await admin
+    .from("surveillance_graduations")
+    .update({ status: "dismissed", resolved_at: now.toISOString() })
+    .eq("link_id", link.id)
+    .eq("status", "proposed")
+    .neq("id", graduation.id);
+
+  const childName = await getDisplayName(admin, link.child_id, "Dit barn");
+  await sendNotification(
+    admin,
+    link.parent_id,
+    renderSurveillanceProposed({ childId: link.child_id, childName, age, fromLevel, toLevel: target }),
+    { dedupKey: `graduation:${graduation.id}`, logPrefix: "[Graduation]" }
+  );
+  console.log(`✅ [Graduation] Link ${link.id}: proposed ${fromLevel} → ${target} at age ${age}`);
+  return "proposed";
+}
+
+/**
+ * Run the graduation schedules (all of them, or only the given links)
+ * Links without a schedule or a birthdate are skipped.
+ */
+export async function runGraduations(
+  admin: SupabaseClient,
+  options: { linkIds?: number[]; now?: Date } = {}
+): Promise<{ checked: number; applied: number; proposed: number } | { error: string }> {
+  const now = options.now ?? new Date();
+
+  let query = admin
+    .from("surveillance_graduation_schedules")
+    .select("link_id, schedule, mode")
+    .not("schedule", "is", null);
+  if (options.linkIds) query = query.in("link_id", options.linkIds);
+  const { data: schedules, error: schedulesErr } = await query;
+  if (schedulesErr) {
+    console.error("⚠️ [Graduation] Error loading schedules:", schedulesErr);
+    return { error: schedulesErr.message };
+  }
+
+  const links: LinkRow[] = [];
+  if (schedules && schedules.length > 0) {
+    const { data: linkRows, error: linksErr } = await admin
+      .from("parent_child_links")
+      .select("id, parent_id, child_id, surveillance_level")
+      .in("id", schedules.map((s) => s.link_id as number));
+    if (linksErr) {
+      console.error("⚠️ [Graduation] Error loading links:", linksErr);
+      return { error: linksErr.message };
+    }
+    for (const link of linkRows ?? []) {
+      const schedule = schedules.find((s) => s.link_id === link.id);
+      links.push({
+        id: link.id as number,
+        parent_id: link.parent_id as string,
+        child_id: link.child_id as string,
+        surveillance_level: (link.surveillance_level as string | null) ?? null,
+        schedule: (schedule?.schedule as GraduationStep[] | null) ?? null,
+        mode: (schedule?.mode as GraduationMode | null) ?? null,
+      });
+    }
+  }
+
+  const childIds = Array.from(new Set(links.map((l) => l.child_id)));
+  const birthdates = new Map<string, string>();
+  if (childIds.length > 0) {
+    const { data: rows, error: birthdateErr } = await admin
+      .from("child_birthdates")
+      .select("child_id, birthdate")
+      .in("child_id", childIds);
+    if (birthdateErr) {
+      console.error("⚠️ [Graduation] Error loading birthdates:", birthdateErr);
+      return { error: birthdateErr.message };
+    }
+    for (const row of rows ?? []) birthdates.set(row.child_id as string, row.birthdate as string);
+  }
+
+  const result = { checked: 0, applied: 0, proposed: 0 };
+  for (const link of links) {
+    const birthdate = birthdates.get(link.child_id);
+    if (!birthdate) continue;
+    result.checked++;
+    const outcome = await graduateLink(admin, link, birthdate, now);
+    if (outcome) result[outcome]++;
+  }
+  return result;
+}
+
+/**
+ * Accept (apply the preset) or dismiss a proposal
+ * Only the parent the proposal was made to can answer it, and only once.
+ */
+export async function resolveGraduationProposal(
+  admin: SupabaseClient,
+  parentId: string,
+  graduationId: string,
+  action: GraduationAction
+): Promise<{ graduation: Graduation } | { error: string; status: number }> {
+  const { data: updated, error } = await admin
+    .from("surveillance_graduations")
+    .update({ status: action === "accept" ? "applied" : "dismissed", resolved_at: new Date().toISOString() })
+    .eq("id", graduationId)
+    .eq("parent_id", parentId)
+    .eq("status", "proposed")
+    .select("*");
+  if (error) {
+    console.error("⚠️ [Graduation] Failed to update proposal:", error);
+    return { error: error.message, status: 500 };
+  }
+  const graduation = updated?.[0] as Graduation | undefined;
+  if (!graduation) {
+    return { error: "Proposal not found or already answered", status: 404 };
+  }
+
+  if (action === "accept") {
+    const applied = await applyGraduation(admin, graduation, parentId);
+    if ("error" in applied) {
+      await admin.from("surveillance_graduations").update({ status: "proposed", resolved_at: null }).eq("id", graduation.id);
+      return { error: applied.error, status: 500 };
+    }
+  }
+  return { graduation };
+}
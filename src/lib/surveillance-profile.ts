@@ -0,0 +1,256 @@
+/**
+ * Surveillance profiles
+ *
+ * What a parent monitors for one child is a profile stored on the parent_child_links row
+ * (migration 039). The three surveillance levels are presets of it; a parent can start from a
+ * preset and change any part, which makes the level 'custom':
+ * - alertCategories: categories of flagged messages that notify the parent (self-harm always does)
+ * - imageApproval: which images wait for the parent's approval ("all", "unscanned" or "none")
+ * - holdRiskyMessages: risky messages are held before delivery (message-hold.ts)
+ * - newContactApproval: new contacts must be accepted by a parent
+ * - readAccess: "full" (all chats), "flagged" (redacted transcript of flagged chats) or "none"
+ * - quietHours: alerts in this window are delivered in Sikker chat only, not by email
+ *
+ * Where a child has several parents, the most protective profile wins for holds, image and
+ * contact approval; alerts and read access follow each parent's own profile.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { KEYWORD_CATEGORIES } from "@/lib/keyword-scanner";
+import { GROOMING_CATEGORY, IMAGE_CATEGORY } from "@/lib/moderation-events";
+
+export type SurveillancePreset = "strict" | "medium" | "mild";
+export type SurveillanceLevel = SurveillancePreset | "custom";
+export type ImageApproval = "all" | "unscanned" | "none";
+export type ReadAccess = "full" | "flagged" | "none";
+
+export const SURVEILLANCE_PRESET_NAMES: SurveillancePreset[] = ["strict", "medium", "mild"];
+export const IMAGE_APPROVALS: ImageApproval[] = ["all", "unscanned", "none"];
+export const READ_ACCESS_SCOPES: ReadAccess[] = ["full", "flagged", "none"];
+
+/** Categories a parent can be alerted about */
+export const ALERT_CATEGORIES: string[] = [...KEYWORD_CATEGORIES, GROOMING_CATEGORY, IMAGE_CATEGORY];
+
+/** Quiet hours are wall-clock times in this time zone */
+export const QUIET_HOURS_TIME_ZONE = "Europe/Copenhagen";
+
+export interface QuietHours {
+  /** "HH:MM" */
+  start: string;
+  end: string;
+}
+
+export interface SurveillanceProfile {
+  alertCategories: string[];
+  imageApproval: ImageApproval;
+  holdRiskyMessages: boolean;
+  newContactApproval: boolean;
+  readAccess: ReadAccess;
+  quietHours: QuietHours | null;
+}
+
+/** Keep in sync with public.apply_surveillance_preset() (migration 039) */
+export const SURVEILLANCE_PRESETS: Record<SurveillancePreset, SurveillanceProfile> = {
+  strict: {
+    alertCategories: ALERT_CATEGORIES,
+    imageApproval: "unscanned",
+    holdRiskyMessages: true,
+    newContactApproval: true,
+    readAccess: "full",
+    quietHours: null,
+  },
+  medium: {
+    alertCategories: ALERT_CATEGORIES,
+    imageApproval: "none",
+    holdRiskyMessages: false,
+    newContactApproval: true,
+    readAccess: "flagged",
+    quietHours: null,
+  },
+  mild: {
+    alertCategories: [IMAGE_CATEGORY],
+    imageApproval: "none",
+    holdRiskyMessages: false,
+    newContactApproval: true,
+    readAccess: "none",
+    quietHours: null,
+  },
+};
+
+/** parent_child_links columns holding the profile */
+export const PROFILE_COLUMNS =
+  "surveillance_level, alert_categories, image_approval, hold_risky_messages, new_contact_approval, read_access, quiet_hours_start, quiet_hours_end";
+
+export interface ProfileRow {
+  surveillance_level: string | null;
+  alert_categories: string[] | null;
+  image_approval: string | null;
+  hold_risky_messages: boolean | null;
+  new_contact_approval: boolean | null;
+  read_access: string | null;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+}
+
+export function isSurveillancePreset(value: unknown): value is SurveillancePreset {
+  return typeof value === "string" && SURVEILLANCE_PRESET_NAMES.includes(value as SurveillancePreset);
+}
+
+/** "HH:MM" from a Postgres time ("22:00:00") */
+function toClockTime(value: string): string {
+  return value.slice(0, 5);
+}
+
+/** The profile stored on a parent_child_links row (missing columns fall back to the medium preset) */
+export function profileFromRow(row: ProfileRow): SurveillanceProfile {
+  const fallback = SURVEILLANCE_PRESETS.medium;
+  return {
+    alertCategories: row.alert_categories ?? fallback.alertCategories,
+    imageApproval: IMAGE_APPROVALS.includes(row.image_approval as ImageApproval)
+      ? (row.image_approval as ImageApproval)
+      : fallback.imageApproval,
+    holdRiskyMessages: row.hold_risky_messages ?? fallback.holdRiskyMessages,
+    newContactApproval: row.new_contact_approval ?? fallback.newContactApproval,
+    readAccess: READ_ACCESS_SCOPES.includes(row.read_access as ReadAccess)
+      ? (row.read_access as ReadAccess)
+      : fallback.readAccess,
+    quietHours:
+      row.quiet_hours_start && row.quiet_hours_end
+        ? { start: toClockTime(row.quiet_hours_start), end: toClockTime(row.quiet_hours_end) }
+        : null,
+  };
+}
+
+/** The parent_child_links columns for a profile (the level is the matching preset, or 'custom') */
+export function profileToRow(profile: SurveillanceProfile): ProfileRow {
+  return {
+    surveillance_level: matchingPreset(profile) ?? "custom",
+    alert_categories: profile.alertCategories,
+    image_approval: profile.imageApproval,
+    hold_risky_messages: profile.holdRiskyMessages,
+    new_contact_approval: profile.newContactApproval,
+    read_access: profile.readAccess,
+    quiet_hours_start: profile.quietHours?.start ?? null,
+    quiet_hours_end: profile.quietHours?.end ?? null,
+  };
+}
+
+/** Whether two profiles are the same (alert categories in any order) */
+export function sameProfile(a: SurveillanceProfile, b: SurveillanceProfile): boolean {
+  return (
+    a.alertCategories.length === b.alertCategories.length &&
+    a.alertCategories.every((category) => b.alertCategories.includes(category)) &&
+    a.imageApproval === b.imageApproval &&
+    a.holdRiskyMessages === b.holdRiskyMessages &&
+    a.newContactApproval === b.newContactApproval &&
+    a.readAccess === b.readAccess &&
+    a.quietHours?.start === b.quietHours?.start &&
+    a.quietHours?.end === b.quietHours?.end
+  );
+}
+
+/** The preset a profile is identical to, if any */
+export function matchingPreset(profile: SurveillanceProfile): SurveillancePreset | null {
+  return SURVEILLANCE_PRESET_NAMES.find((name) => sameProfile(SURVEILLANCE_PRESETS[name], profile)) ?? null;
+}
+
+const CLOCK_TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Validate a profile sent by the parent UI */
+export function parseSurveillanceProfile(input: unknown): SurveillanceProfile | { error: string } {
+  if (!input || typeof input !== "object") return { error: "profile must be an object" };
+  const p = input as Record<string, unknown>;
+
+  if (!Array.isArray(p.alertCategories) || p.alertCategories.some((c) => !ALERT_CATEGORIES.includes(c as string))) {
+    return { error: `alertCategories must be a list of: ${ALERT_CATEGORIES.join(", ")}` };
+  }
+  if (!IMAGE_APPROVALS.includes(p.imageApproval as ImageApproval)) {
+    return { error: `imageApproval must be one of: ${IMAGE_APPROVALS.join(", ")}` };
+  }
+  if (typeof p.holdRiskyMessages !== "boolean" || typeof p.newContactApproval !== "boolean") {
+    return { error: "holdRiskyMessages and newContactApproval must be booleans" };
+  }
+  if (!READ_ACCESS_SCOPES.includes(p.readAccess as ReadAccess)) {
+    return { error: `readAccess must be one of: ${READ_ACCESS_SCOPES.join(", ")}` };
+  }
+
+  let quietHours: QuietHours | null = null;
+  if (p.quietHours != null) {
+    const q = p.quietHours as Record<string, unknown>;
+    if (typeof q.start !== "string" || typeof q.end !== "string" || !CLOCK_TIME.test(q.start) || !CLOCK_TIME.test(q.end)) {
+      return { error: "quietHours must have start and end as HH:MM" };
+    }
+    if (q.start === q.end) return { error: "quietHours start and end must differ" };
+    quietHours = { start: q.start, end: q.end };
+  }
+
+  return {
+    alertCategories: Array.from(new Set(p.alertCategories as string[])),
+    imageApproval: p.imageApproval as ImageApproval,
+    holdRiskyMessages: p.holdRiskyMessages,
+    newContactApproval: p.newContactApproval,
+    readAccess: p.readAccess as ReadAccess,
+    quietHours,
+  };
+}
+
+/** Whether a time falls inside quiet hours (windows may wrap past midnight, e.g. 21:00-07:00) */
+export function isWithinQuietHours(quietHours: QuietHours | null, now: Date = new Date()): boolean {
+  if (!quietHours) return false;
+  const clock = new Intl.DateTimeFormat("en-GB", {
+    timeZone: QUIET_HOURS_TIME_ZONE,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(now);
+  const { start, end } = quietHours;
+  return start < end ? clock >= start && clock < end : clock >= start || clock < end;
+}
+
+/** Whether the parent's quiet hours for this child are in effect now */
+export async function isParentInQuietHours(
+  admin: SupabaseClient,
+  parentId: string,
+  childId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const { data, error } = await admin
+    .from("parent_child_links")
+    .select("quiet_hours_start, quiet_hours_end")
+    .eq("parent_id", parentId)
+    .eq("child_id", childId)
+    .maybeSingle();
+  if (error) {
+    console.error("⚠️ [Surveillance Profile] Error loading quiet hours:", error);
+    return false;
+  }
+  if (!data?.quiet_hours_start || !data.quiet_hours_end) return false;
+  return isWithinQuietHours(
+    { start: toClockTime(data.quiet_hours_start), end: toClockTime(data.quiet_hours_end) },
+    now
+  );
+}
+
+/**
+ * Whether a contact between these children needs a parent's approval, and their linked parents
+ * Approval is required if any parent of any of the children requires it, or if the links can't be read.
+ */
+export async function getContactApproval(
+  admin: SupabaseClient,
+  childIds: string[]
+): Promise<{ required: boolean; parentsByChild: Map<string, string[]> }> {
+  const parentsByChild = new Map<string, string[]>();
+  if (childIds.length === 0) return { required: false, parentsByChild };
+  const { data, error } = await admin
+    .from("parent_child_links")
+    .select("parent_id, child_id, new_contact_approval")
+    .in("child_id", childIds);
+  if (error) {
+    console.error("⚠️ [Surveillance Profile] Error loading contact approval settings:", error);
+    return { required: true, parentsByChild };
+  }
+  for (const link of data ?? []) {
+    parentsByChild.set(link.child_id, [...(parentsByChild.get(link.child_id) ?? []), link.parent_id]);
+  }
+  return { required: (data ?? []).some((link) => link.new_contact_approval === true), parentsByChild };
+}
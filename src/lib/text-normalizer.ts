@@ -0,0 +1,195 @@
+/**
+ * Text normalization for the keyword scanner
+ * Folds common obfuscation tricks so "s.e.x", "n0gen", "dr@ebe", "jeg haaader dig"
+ * and zero-width characters are matched like the plain Danish words
+ */
+
+/** Invisible characters used to split words without visible spacing */
+const ZERO_WIDTH_PATTERN = /[\u00AD\u200B-\u200F\u2060-\u2064\uFEFF]/g;
+
+/** Cyrillic and Greek letters that look like Latin letters */
+const HOMOGLYPHS: Record<string, string> = {
+  "\u0430": "a", "\u0432": "b", "\u0435": "e", "\u0451": "e", "\u043A": "k", "\u043C": "m", "\u043D": "h",
+  "\u043E": "o", "\u0440": "p", "\u0441": "c", "\u0442": "t", "\u0443": "y", "\u0445": "x", "\u0455": "s",
+  "\u0456": "i", "\u0458": "j", "\u0501": "d", "\u0261": "g", "\u0578": "n",
+  "\u03B1": "a", "\u03B2": "b", "\u03B5": "e", "\u03B9": "i", "\u03BA": "k", "\u03BD": "v", "\u03BF": "o",
+  "\u03C1": "p", "\u03C4": "t", "\u03C5": "u", "\u03C7": "x",
+};
+
+/** Foreign letters that are spelling variants of the Danish letters */
+const DANISH_LETTER_VARIANTS: Record<string, string> = {
+  "ä": "æ",
+  "ö": "ø",
+};
+
+/** Leetspeak symbols, converted only when directly followed by a letter or digit */
+const LEET_SYMBOLS: Record<string, string> = {
+  "@": "a",
+  "4": "a",
+  "$": "s",
+  "5": "s",
+  "3": "e",
+  "€": "e",
+  "1": "i",
+  "!": "i",
+  "|": "l",
+  "7": "t",
+};
+
+/** Two-letter spellings of æ, ø and å (e.g. "aa" for "å") */
+const DIGRAPHS: [RegExp, string][] = [
+  [/ae/g, "æ"],
+  [/oe/g, "ø"],
+  [/aa/g, "å"],
+];
+
+/** Runs of at least this many single letters are joined into one word ("s e x" -> "sex") */
+const MIN_SPELLED_OUT_RUN = 3;
+
+/** Lowercase, drop invisible characters, fold homoglyphs and accents (keeping æ, ø, å) */
+function foldCharacters(text: string): string {
+  const lowered = text.normalize("NFKC").replace(ZERO_WIDTH_PATTERN, "").toLowerCase();
+  let folded = "";
+  for (const ch of lowered) {
+    folded += HOMOGLYPHS[ch] ?? DANISH_LETTER_VARIANTS[ch] ?? ch;
+  }
+  // Strip accents (é -> e) but recompose å, which NFD splits into a + ring
+  return folded
+    .normalize("NFD")
+    .replace(/a\u030A/g, "å")
+    .replace(/[\u0300-\u036f]/g, "")
+    .normalize("NFC");
+}
+
+/** Whether a character is a letter or a digit */
+function isAlphanumeric(ch: string | undefined): boolean {
+  return ch !== undefined && /[\p{L}\p{N}]/u.test(ch);
+}
+
+/** Number of letters and digits in chars from index on, up to the next other character */
+function alphanumericRunLength(chars: string[], from: number): number {
+  let length = 0;
+  while (isAlphanumeric(chars[from + length])) length++;
+  return length;
+}
+
+/**
+ * Split a whitespace-free chunk into words
+ * Leet symbols are converted, other punctuation breaks words ("dum,ingen" -> "dum", "ingen"),
+ * except between single letters, which are joined ("s.e.x" -> "sex").
+ */
+function cleanChunk(chunk: string): string[] {
+  const chars = Array.from(chunk);
+  // Digits are only leetspeak when mixed with letters ("n0gen"); plain numbers stay as they are
+  if (!chars.some((ch) => /\p{L}/u.test(ch))) {
+    const digits = chars.filter((ch) => /\p{N}/u.test(ch)).join("");
+    return digits ? [digits] : [];
+  }
+
+  const parts: string[] = [];
+  let part = "";
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    const leet = LEET_SYMBOLS[ch];
+    // "!" ends a sentence between two words ("dig!du") and is only an i inside one ("h!n")
+    const endsSentence = ch === "!" && part.length > 1 && alphanumericRunLength(chars, i + 1) > 1;
+    if (leet && isAlphanumeric(chars[i + 1]) && !endsSentence) {
+      part += leet;
+    } else if (isAlphanumeric(ch)) {
+      part += ch;
+    } else if (part) {
+      parts.push(part);
+      part = "";
+    }
+  }
+  if (part) parts.push(part);
+
+  // Join neighbouring single letters split by punctuation ("s.e.x"); longer parts are words of their own
+  const words: string[] = [];
+  let letters = "";
+  for (const current of parts) {
+    if (Array.from(current).length === 1 && /\p{L}/u.test(current)) {
+      letters += current;
+      continue;
+    }
+    if (letters) words.push(letters);
+    letters = "";
+    words.push(current);
+  }
+  if (letters) words.push(letters);
+  return words;
+}
+
+/** Collapse runs of 3+ identical letters to one and to two letters ("haaader" -> "hader"/"haader") */
+function collapseRepeats(word: string): string[] {
+  if (!/(\p{L})\1\1/u.test(word)) return [word];
+  return [word.replace(/(\p{L})\1{2,}/gu, "$1"), word.replace(/(\p{L})\1{2,}/gu, "$1$1")];
+}
+
+/** All spellings a single word could stand for, the most literal first */
+function wordVariants(word: string): string[] {
+  // "0" is either o or ø ("n0gen" -> "nøgen", "d0rmen" -> "dormen")
+  const zeroVariants = word.includes("0")
+    ? [word.replace(/0/g, "o"), word.replace(/0/g, "ø")]
+    : [word];
+
+  const variants: string[] = [];
+  for (const zeroVariant of zeroVariants) {
+    for (const collapsed of collapseRepeats(zeroVariant)) {
+      variants.push(collapsed);
+      let folded = collapsed;
+      for (const [pattern, letter] of DIGRAPHS) {
+        folded = folded.replace(pattern, letter);
+      }
+      variants.push(folded);
+    }
+  }
+  return Array.from(new Set(variants));
+}
+
+/** Join runs of single letters ("s e x") into one word */
+function joinSpelledOutWords(words: string[]): string[] {
+  const joined: string[] = [];
+  let run: string[] = [];
+  const flush = () => {
+    if (run.length >= MIN_SPELLED_OUT_RUN) {
+      joined.push(run.join(""));
+    } else {
+      joined.push(...run);
+    }
+    run = [];
+  };
+  for (const word of words) {
+    if (Array.from(word).length === 1 && /\p{L}/u.test(word)) {
+      run.push(word);
+    } else {
+      flush();
+      joined.push(word);
+    }
+  }
+  flush();
+  return joined;
+}
+
+/**
+ * Normalize text into words for keyword matching
+ * Returns one entry per word, each holding the possible spellings of that word
+ * (the first spelling is the plain, de-obfuscated form)
+ */
+export function normalizeWords(text: string): string[][] {
+  if (!text || typeof text !== "string") return [];
+  const words = foldCharacters(text)
+    .split(/\s+/)
+    .flatMap(cleanChunk);
+  return joinSpelledOutWords(words).map(wordVariants);
+}
+
+/**
+ * Normalize text into its plain form (first spelling of each word, space separated)
+ * Useful for logging and for normalizing keywords the same way as messages
+ */
+export function normalizeText(text: string): string {
+  return normalizeWords(text)
+    .map((variants) => variants[0])
+    .join(" ");
+}
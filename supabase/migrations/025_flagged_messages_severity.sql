@@ -0,0 +1,26 @@
+-- Migration 025: Store every keyword match with severity and a combined risk score
+-- The keyword scanner now returns all matches for a message (not only the first),
+-- so flagged_messages holds one row per matched keyword for the same message.
+
+ALTER TABLE public.flagged_messages
+  ADD COLUMN IF NOT EXISTS severity integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS risk_score integer NOT NULL DEFAULT 0;
+
+-- The same keyword is only recorded once per message (scan-and-flag may be retried)
+-- Remove existing duplicates first, keeping the oldest row
+DELETE FROM public.flagged_messages a
+  USING public.flagged_messages b
+  WHERE a.message_id = b.message_id
+    AND a.matched_keyword = b.matched_keyword
+    AND a.ctid > b.ctid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS flagged_messages_message_keyword
+  ON public.flagged_messages(message_id, matched_keyword);
+
+CREATE INDEX IF NOT EXISTS flagged_messages_risk_score
+  ON public.flagged_messages(risk_score);
+
+COMMENT ON COLUMN public.flagged_messages.severity IS
+  'Severity of this keyword match (1-5), based on its category';
+COMMENT ON COLUMN public.flagged_messages.risk_score IS
+  'Combined risk score of the whole message (sum of the highest severity per matched category)';
@@ -0,0 +1,106 @@
+-- Migration 026: Database-backed keyword rules for the keyword scanner
+-- Global default keywords plus per-parent and per-child overrides, so families can
+-- add their own watch words (a nickname, a meeting spot) and mute noisy ones.
+--
+-- Rule scopes:
+-- - Global default: parent_id IS NULL and child_id IS NULL
+-- - Parent override: parent_id set, child_id IS NULL (all the parent's children)
+-- - Child override: parent_id and child_id set (one child)
+--
+-- action = 'add' adds the keyword, action = 'mute' removes it from the effective list.
+
+CREATE TABLE IF NOT EXISTS public.keyword_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  keyword text NOT NULL CHECK (length(trim(keyword)) > 0),
+  category text CHECK (category IN ('violence', 'pressure_secrets', 'sexual', 'bullying', 'selfworth')),
+  parent_id uuid REFERENCES public.users(id) ON DELETE CASCADE,
+  child_id uuid REFERENCES public.users(id) ON DELETE CASCADE,
+  action text NOT NULL DEFAULT 'add' CHECK (action IN ('add', 'mute')),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  -- Added keywords need a category; mutes without a category apply to every category
+  CONSTRAINT keyword_rules_add_has_category CHECK (action = 'mute' OR category IS NOT NULL),
+  -- Child overrides always belong to a parent; global rules are never mutes
+  CONSTRAINT keyword_rules_child_has_parent CHECK (child_id IS NULL OR parent_id IS NOT NULL),
+  CONSTRAINT keyword_rules_global_is_add CHECK (parent_id IS NOT NULL OR action = 'add'),
+  UNIQUE NULLS NOT DISTINCT (parent_id, child_id, keyword, category, action)
+);
+
+CREATE INDEX IF NOT EXISTS keyword_rules_parent_id ON public.keyword_rules(parent_id);
+CREATE INDEX IF NOT EXISTS keyword_rules_child_id ON public.keyword_rules(child_id);
+
+ALTER TABLE public.keyword_rules ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in can read the global defaults
+DROP POLICY IF EXISTS "Authenticated users can view global keyword rules" ON public.keyword_rules;
+CREATE POLICY "Authenticated users can view global keyword rules"
+  ON public.keyword_rules FOR SELECT
+  TO authenticated
+  USING (parent_id IS NULL);
+
+-- Parents can manage their own overrides (child overrides only for linked children)
+DROP POLICY IF EXISTS "Parents can manage own keyword rules" ON public.keyword_rules;
+CREATE POLICY "Parents can manage own keyword rules"
+  ON public.keyword_rules FOR ALL
+  TO authenticated
+  USING (parent_id = auth.uid())
+  WITH CHECK (
+    parent_id = auth.uid()
+    AND (
+      child_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.parent_child_links pcl
+        WHERE pcl.parent_id = auth.uid()
+          AND pcl.child_id = keyword_rules.child_id
+      )
+    )
+  );
+
+-- Global defaults are only inserted/changed by the service role (no policy needed)
+
+-- Seed global defaults with the built-in keyword list (src/lib/keyword-scanner.ts)
+INSERT INTO public.keyword_rules (keyword, category, action)
+VALUES
+  ('slå', 'violence', 'add'),
+  ('dræbe', 'violence', 'add'),
+  ('skade', 'violence', 'add'),
+  ('tæve', 'violence', 'add'),
+  ('banke', 'violence', 'add'),
+  ('slag', 'violence', 'add'),
+  ('kniv', 'violence', 'add'),
+  ('våben', 'violence', 'add'),
+  ('jeg vil slå dig', 'violence', 'add'),
+  ('jeg vil dræbe dig', 'violence', 'add'),
+  ('du må ikke sige det til nogen', 'pressure_secrets', 'add'),
+  ('fortæl det ikke til nogen', 'pressure_secrets', 'add'),
+  ('det er vores hemmelighed', 'pressure_secrets', 'add'),
+  ('hvis du fortæller', 'pressure_secrets', 'add'),
+  ('du må ikke fortælle', 'pressure_secrets', 'add'),
+  ('hold det hemmeligt', 'pressure_secrets', 'add'),
+  ('nøgen', 'sexual', 'add'),
+  ('nøgenhed', 'sexual', 'add'),
+  ('send et billede', 'sexual', 'add'),
+  ('send mig et billede', 'sexual', 'add'),
+  ('vis mig', 'sexual', 'add'),
+  ('kom alene', 'sexual', 'add'),
+  ('mød mig alene', 'sexual', 'add'),
+  ('seksuel', 'sexual', 'add'),
+  ('sex', 'sexual', 'add'),
+  ('jeg hader dig', 'bullying', 'add'),
+  ('du er dum', 'bullying', 'add'),
+  ('du er grim', 'bullying', 'add'),
+  ('ingen kan lide dig', 'bullying', 'add'),
+  ('du er værdiløs', 'bullying', 'add'),
+  ('du er en taber', 'bullying', 'add'),
+  ('gå væk', 'bullying', 'add'),
+  ('hold op med at eksistere', 'bullying', 'add'),
+  ('ingen ville savne mig', 'selfworth', 'add'),
+  ('jeg vil dø', 'selfworth', 'add'),
+  ('jeg vil ikke leve', 'selfworth', 'add'),
+  ('jeg er værdiløs', 'selfworth', 'add'),
+  ('jeg er ingenting', 'selfworth', 'add'),
+  ('jeg vil forsvinde', 'selfworth', 'add'),
+  ('jeg vil begå selvmord', 'selfworth', 'add')
+ON CONFLICT DO NOTHING;
+
+COMMENT ON TABLE public.keyword_rules IS
+  'Keyword scanner rules: global defaults (no parent) plus parent/child add and mute overrides';
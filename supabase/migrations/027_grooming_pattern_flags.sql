@@ -0,0 +1,25 @@
+-- Migration 027: Conversation-level grooming pattern flags
+-- The conversation analyzer (src/lib/conversation-analyzer.ts) raises a distinct flag type
+-- when one sender's messages escalate through grooming stages across a chat
+-- (compliments → secrecy → photo requests → meeting alone).
+--
+-- Keyword flags keep flag_type = 'keyword'. Grooming flags use flag_type = 'grooming_pattern',
+-- point message_id at the message that completed the pattern, and list every
+-- contributing message in related_message_ids.
+
+ALTER TABLE public.flagged_messages
+  ADD COLUMN IF NOT EXISTS flag_type text NOT NULL DEFAULT 'keyword'
+    CHECK (flag_type IN ('keyword', 'grooming_pattern')),
+  ADD COLUMN IF NOT EXISTS related_message_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS flagged_messages_flag_type
+  ON public.flagged_messages(flag_type);
+
+-- Find grooming flags by any contributing message
+CREATE INDEX IF NOT EXISTS flagged_messages_related_message_ids
+  ON public.flagged_messages USING gin (related_message_ids);
+
+COMMENT ON COLUMN public.flagged_messages.flag_type IS
+  'keyword (single message matched a keyword) or grooming_pattern (escalation across a conversation)';
+COMMENT ON COLUMN public.flagged_messages.related_message_ids IS
+  'For grooming_pattern flags: all messages that contributed to the detected pattern';
@@ -0,0 +1,53 @@
+-- Migration 028: Parent review queue for images that could not be scanned
+-- When the NSFW scan of an image errors or times out, children whose parents use a
+-- fail-closed surveillance level (strict by default, see src/lib/image-review.ts) must not
+-- see the image until a parent has approved it.
+--
+-- The held image's URL is moved from messages.attachment_url into the queue row, and the
+-- message gets attachment_review_status = 'pending_review' so the chat shows a placeholder.
+-- Approving restores the URL; rejecting keeps it hidden.
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS attachment_review_status text
+    CHECK (attachment_review_status IN ('pending_review', 'approved', 'rejected'));
+
+COMMENT ON COLUMN public.messages.attachment_review_status IS
+  'NULL for normal attachments; pending_review/approved/rejected for images held for parent review';
+
+CREATE TABLE IF NOT EXISTS public.image_review_queue (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL UNIQUE REFERENCES public.messages(id) ON DELETE CASCADE,
+  chat_id uuid NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- The child the image is held back from (the recipient)
+  child_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  attachment_url text NOT NULL,
+  attachment_type text,
+  reason text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS image_review_queue_child_id_status
+  ON public.image_review_queue(child_id, status);
+CREATE INDEX IF NOT EXISTS image_review_queue_chat_id
+  ON public.image_review_queue(chat_id);
+
+ALTER TABLE public.image_review_queue ENABLE ROW LEVEL SECURITY;
+
+-- Parents can see the review queue for their children
+DROP POLICY IF EXISTS "Parents can view image reviews for their children" ON public.image_review_queue;
+CREATE POLICY "Parents can view image reviews for their children"
+  ON public.image_review_queue FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.parent_child_links pcl
+      WHERE pcl.parent_id = auth.uid()
+        AND pcl.child_id = image_review_queue.child_id
+    )
+  );
+
+-- Rows are created and reviewed by the service role (API routes), no insert/update policies needed
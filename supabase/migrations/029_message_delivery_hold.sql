@@ -0,0 +1,61 @@
+-- Migration 029: Pre-delivery hold for risky messages (strict surveillance)
+-- Messages sent through POST /api/messages/send are scanned before they are stored.
+-- If the sender or the recipient is a child on 'strict' surveillance and the message is risky
+-- (see scanMessageForRisk in src/lib/keyword-scanner.ts), it is stored with
+-- delivery_status = 'held' and only becomes visible to the recipient when a parent releases it.
+--
+-- delivery_status:
+-- - delivered: normal message (default, all existing rows)
+-- - held: waiting for a parent; only the sender and the children's parents can read it
+-- - released: a parent approved it; visible to everyone in the chat
+-- - rejected: a parent rejected it; still hidden from the recipient
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS delivery_status text NOT NULL DEFAULT 'delivered'
+    CHECK (delivery_status IN ('delivered', 'held', 'released', 'rejected')),
+  ADD COLUMN IF NOT EXISTS hold_reason text,
+  ADD COLUMN IF NOT EXISTS held_reviewed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS held_reviewed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS messages_delivery_status_held
+  ON public.messages(delivery_status)
+  WHERE delivery_status = 'held';
+
+COMMENT ON COLUMN public.messages.delivery_status IS
+  'delivered/released are visible to the chat; held/rejected are only visible to the sender and linked parents';
+
+-- Restrictive policy: combined with AND on top of every other SELECT policy on messages,
+-- so held and rejected messages can't leak through any permissive policy (participants, groups, parents).
+-- The sender keeps seeing their own message; parents of either child in the chat can read it to review it.
+DROP POLICY IF EXISTS "Held messages are hidden from recipients" ON public.messages;
+CREATE POLICY "Held messages are hidden from recipients"
+  ON public.messages
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (
+    delivery_status IN ('delivered', 'released')
+    OR sender_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.chats c
+      JOIN public.parent_child_links pcl ON (pcl.child_id = c.user1_id OR pcl.child_id = c.user2_id)
+      WHERE c.id = messages.chat_id
+        AND pcl.parent_id = auth.uid()
+    )
+  );
+
+-- Clients must not insert messages that skip the hold, or mark their own messages as released.
+-- Held/released/rejected rows are only written by the service role (API routes).
+DROP POLICY IF EXISTS "Chat participants can send messages" ON public.messages;
+CREATE POLICY "Chat participants can send messages"
+  ON public.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND delivery_status = 'delivered'
+    AND EXISTS (
+      SELECT 1 FROM public.chats c
+      WHERE c.id = messages.chat_id
+        AND (c.user1_id = auth.uid() OR c.user2_id = auth.uid())
+    )
+  );
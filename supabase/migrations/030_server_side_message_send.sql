@@ -0,0 +1,10 @@
+-- Migration 030: Messages are only sent through POST /api/messages/send
+-- The API checks chat membership, stores the message with the service role and runs
+-- text and image moderation before returning. Clients inserting into messages directly
+-- could skip moderation, so the INSERT policy for authenticated users is removed.
+--
+-- The service role bypasses RLS, so server routes (send, invitation and Sikker chat
+-- notifications) keep working. If your project has other INSERT policies on messages
+-- (e.g. created in the dashboard for group chats), drop them as well.
+
+DROP POLICY IF EXISTS "Chat participants can send messages" ON public.messages;
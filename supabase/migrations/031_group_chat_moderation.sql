@@ -0,0 +1,61 @@
+-- Migration 031: Moderation for group chats
+-- Messages in group chats are scanned like 1:1 messages (src/lib/message-moderation.ts).
+-- A group message has no single recipient, so its flags point at the group instead:
+-- flagged_messages.group_id / flags.group_id are set for messages sent in a group chat
+-- and NULL for 1:1 chats.
+--
+-- Parents of any child in the group can read the group's flags.
+
+ALTER TABLE public.flagged_messages
+  ADD COLUMN IF NOT EXISTS group_id uuid REFERENCES public.groups(id) ON DELETE CASCADE;
+
+ALTER TABLE public.flags
+  ADD COLUMN IF NOT EXISTS group_id uuid REFERENCES public.groups(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS flagged_messages_group_id
+  ON public.flagged_messages(group_id) WHERE group_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS flags_group_id
+  ON public.flags(group_id) WHERE group_id IS NOT NULL;
+
+COMMENT ON COLUMN public.flagged_messages.group_id IS
+  'Group the flagged message was sent in (NULL for 1:1 chats)';
+COMMENT ON COLUMN public.flags.group_id IS
+  'Group the flagged message was sent in (NULL for 1:1 chats)';
+
+DROP POLICY IF EXISTS "Parents can view flagged messages in their children's groups" ON public.flagged_messages;
+CREATE POLICY "Parents can view flagged messages in their children's groups"
+  ON public.flagged_messages FOR SELECT
+  TO authenticated
+  USING (
+    group_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1
+      FROM public.group_members gm
+      JOIN public.parent_child_links pcl ON pcl.child_id = gm.user_id
+      WHERE gm.group_id = flagged_messages.group_id
+        AND pcl.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Group members and their parents can read group flags" ON public.flags;
+CREATE POLICY "Group members and their parents can read group flags"
+  ON public.flags FOR SELECT
+  TO authenticated
+  USING (
+    group_id IS NOT NULL
+    AND (
+      EXISTS (
+        SELECT 1 FROM public.group_members gm
+        WHERE gm.group_id = flags.group_id
+          AND gm.user_id = auth.uid()
+      )
+      OR EXISTS (
+        SELECT 1
+        FROM public.group_members gm
+        JOIN public.parent_child_links pcl ON pcl.child_id = gm.user_id
+        WHERE gm.group_id = flags.group_id
+          AND pcl.parent_id = auth.uid()
+      )
+    )
+  );
@@ -0,0 +1,41 @@
+-- Migration 032: Self-harm escalation events
+-- When a child writes a message matching the 'selfworth' keywords ("jeg vil dø", "jeg vil begå selvmord", ...),
+-- src/lib/self-harm.ts escalates it on a separate path from normal keyword flags:
+-- - the child's own parents are alerted through Sikker chat, whatever their surveillance level
+-- - the child gets a supportive Sikker chat message with helpline information (Børnetelefonen)
+-- - the event is recorded here
+--
+-- Parent keyword mutes (keyword_rules, migration 026) don't apply to this detection,
+-- and these events are kept apart from flagged_messages so they can't be silenced or lost among other flags.
+
+CREATE TABLE IF NOT EXISTS public.self_harm_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  child_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  chat_id uuid NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  matched_keywords text[] NOT NULL DEFAULT '{}',
+  parents_notified integer NOT NULL DEFAULT 0,
+  helpline_sent boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(message_id)
+);
+
+CREATE INDEX IF NOT EXISTS self_harm_events_child_id ON public.self_harm_events(child_id);
+CREATE INDEX IF NOT EXISTS self_harm_events_created_at ON public.self_harm_events(created_at);
+
+ALTER TABLE public.self_harm_events ENABLE ROW LEVEL SECURITY;
+
+-- Parents can view events for their linked children (any surveillance level)
+DROP POLICY IF EXISTS "Parents can view self-harm events for linked children" ON public.self_harm_events;
+CREATE POLICY "Parents can view self-harm events for linked children"
+  ON public.self_harm_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.parent_child_links pcl
+      WHERE pcl.child_id = self_harm_events.child_id
+        AND pcl.parent_id = auth.uid()
+    )
+  );
+
+-- Only the service role writes events (no insert/update policies)
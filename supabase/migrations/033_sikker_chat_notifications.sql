@@ -0,0 +1,25 @@
+-- Migration 033: Sikker chat notification log (deduplication)
+-- src/lib/sikker-chat.ts records notifications sent with a dedup key here, so the same
+-- notification (e.g. "keyword:<message id>") reaches each recipient only once, even when
+-- a message is re-scanned. channels lists where it was delivered (sikker_chat, email).
+--
+-- The Sikker chat system user itself is now created on first use by the app
+-- (see docs/SIKKER_CHAT_SETUP.md); migration 013 is no longer required.
+
+CREATE TABLE IF NOT EXISTS public.sikker_chat_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  dedup_key text NOT NULL,
+  template text NOT NULL,
+  channels text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(recipient_id, dedup_key)
+);
+
+CREATE INDEX IF NOT EXISTS sikker_chat_notifications_recipient_id
+  ON public.sikker_chat_notifications(recipient_id);
+CREATE INDEX IF NOT EXISTS sikker_chat_notifications_created_at
+  ON public.sikker_chat_notifications(created_at);
+
+-- Only the service role reads and writes this table
+ALTER TABLE public.sikker_chat_notifications ENABLE ROW LEVEL SECURITY;
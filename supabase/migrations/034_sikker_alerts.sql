@@ -0,0 +1,77 @@
+-- Migration 034: Structured Sikker chat alerts and blocked contacts
+-- Parent alerts from Sikker chat (src/lib/sikker-chat.ts) are stored as structured data next to
+-- the chat message that carries them, so the chat can render them as action cards
+-- (see src/app/chats/[id]/page.tsx) and they can be queried later.
+--
+-- messages.message_type: 'text' (normal message) or 'alert' (Sikker chat alert, see sikker_alerts)
+-- sikker_alerts: one row per alert message
+-- - kind: the notification template (keyword_alert, grooming_alert, image_flagged, image_review, message_held, self_harm_parent)
+-- - child_id / counterpart_id: the child the alert is about and the other user involved (if any)
+-- - flagged_message_id / flagged_chat_id: the message and chat that raised the alert
+-- - status: open until the parent marks it reviewed
+-- blocked_contacts: contacts a parent has blocked for their child ("Bloker kontakt" on an alert card);
+-- POST /api/messages/send refuses messages between blocked users.
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS message_type text NOT NULL DEFAULT 'text'
+    CHECK (message_type IN ('text', 'alert'));
+
+CREATE TABLE IF NOT EXISTS public.sikker_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL UNIQUE REFERENCES public.messages(id) ON DELETE CASCADE,
+  recipient_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  kind text NOT NULL,
+  child_id uuid REFERENCES public.users(id) ON DELETE CASCADE,
+  counterpart_id uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  category text,
+  flagged_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL,
+  flagged_chat_id uuid REFERENCES public.chats(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewed')),
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS sikker_alerts_recipient_status ON public.sikker_alerts(recipient_id, status);
+CREATE INDEX IF NOT EXISTS sikker_alerts_child_id ON public.sikker_alerts(child_id);
+CREATE INDEX IF NOT EXISTS sikker_alerts_created_at ON public.sikker_alerts(created_at);
+
+ALTER TABLE public.sikker_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Parents read their own alerts; updates go through /api/parent/alerts (service role)
+DROP POLICY IF EXISTS "Recipients can view their alerts" ON public.sikker_alerts;
+CREATE POLICY "Recipients can view their alerts"
+  ON public.sikker_alerts FOR SELECT
+  TO authenticated
+  USING (recipient_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS public.blocked_contacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  child_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  blocked_user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  blocked_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  alert_id uuid REFERENCES public.sikker_alerts(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(child_id, blocked_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS blocked_contacts_blocked_user_id ON public.blocked_contacts(blocked_user_id);
+
+ALTER TABLE public.blocked_contacts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parents can view blocked contacts for linked children" ON public.blocked_contacts;
+CREATE POLICY "Parents can view blocked contacts for linked children"
+  ON public.blocked_contacts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.parent_child_links pcl
+      WHERE pcl.child_id = blocked_contacts.child_id
+        AND pcl.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Children can view their blocked contacts" ON public.blocked_contacts;
+CREATE POLICY "Children can view their blocked contacts"
+  ON public.blocked_contacts FOR SELECT
+  TO authenticated
+  USING (child_id = auth.uid());
@@ -0,0 +1,78 @@
+-- Migration 035: Parent moderation inbox
+-- Parents review every flag for their children on /parent/moderation (src/lib/moderation-inbox.ts).
+-- The inbox reads both flag tables: flagged_messages (keyword scanner, grooming analyzer) and
+-- flags (reported by users, or raised by the system for unsafe images).
+--
+-- flagged_messages.chat_id / flags.chat_id: the chat of the flagged message, filled in by a trigger,
+-- so the inbox can find all flags in a child's chats without loading their messages first.
+-- moderation_reviews: one row per parent and inbox item, so each parent keeps their own review status
+-- - source: 'keyword' / 'grooming' (flagged_messages rows for the message) or 'flag' (flags rows)
+-- - status: 'reviewed', 'dismissed' (false positive) or 'escalated' (co-parents are alerted);
+--   items without a review row are open
+
+ALTER TABLE public.flagged_messages
+  ADD COLUMN IF NOT EXISTS chat_id uuid REFERENCES public.chats(id) ON DELETE CASCADE;
+
+ALTER TABLE public.flags
+  ADD COLUMN IF NOT EXISTS chat_id uuid REFERENCES public.chats(id) ON DELETE CASCADE;
+
+UPDATE public.flagged_messages f
+  SET chat_id = m.chat_id
+  FROM public.messages m
+  WHERE m.id = f.message_id AND f.chat_id IS NULL;
+
+UPDATE public.flags f
+  SET chat_id = m.chat_id
+  FROM public.messages m
+  WHERE m.id = f.message_id AND f.chat_id IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_flag_chat_id()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.chat_id IS NULL THEN
+    SELECT chat_id INTO NEW.chat_id FROM public.messages WHERE id = NEW.message_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS flagged_messages_set_chat_id ON public.flagged_messages;
+CREATE TRIGGER flagged_messages_set_chat_id
+  BEFORE INSERT ON public.flagged_messages
+  FOR EACH ROW EXECUTE FUNCTION public.set_flag_chat_id();
+
+DROP TRIGGER IF EXISTS flags_set_chat_id ON public.flags;
+CREATE TRIGGER flags_set_chat_id
+  BEFORE INSERT ON public.flags
+  FOR EACH ROW EXECUTE FUNCTION public.set_flag_chat_id();
+
+CREATE INDEX IF NOT EXISTS flagged_messages_chat_id_created_at
+  ON public.flagged_messages(chat_id, created_at);
+
+CREATE INDEX IF NOT EXISTS flags_chat_id_created_at
+  ON public.flags(chat_id, created_at);
+
+CREATE TABLE IF NOT EXISTS public.moderation_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('keyword', 'grooming', 'flag')),
+  status text NOT NULL CHECK (status IN ('reviewed', 'dismissed', 'escalated')),
+  reviewed_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(parent_id, message_id, source)
+);
+
+CREATE INDEX IF NOT EXISTS moderation_reviews_message_id ON public.moderation_reviews(message_id);
+
+ALTER TABLE public.moderation_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Parents read their own reviews; writes go through /api/parent/moderation-inbox (service role)
+DROP POLICY IF EXISTS "Parents can view their moderation reviews" ON public.moderation_reviews;
+CREATE POLICY "Parents can view their moderation reviews"
+  ON public.moderation_reviews FOR SELECT
+  TO authenticated
+  USING (parent_id = auth.uid());
@@ -0,0 +1,163 @@
+-- Migration 036: One moderation events model
+-- Replaces flags (user reports and system image flags) and flagged_messages (keyword scanner and
+-- grooming analyzer), which overlapped and had separate RLS fixes (migrations 003, 010, 020, 031).
+-- All moderation paths now write moderation_events (src/lib/moderation-events.ts).
+--
+-- moderation_events: one row per reason a message was flagged
+-- - source: 'user_report' (the Flag button), 'keyword' (keyword scanner), 'image' (NSFW detector)
+--   or 'conversation_analysis' (grooming pattern, see src/lib/conversation-analyzer.ts)
+-- - sender_id: who sent the flagged message
+-- - reported_by: the user who reported it (user_report only)
+-- - matched_keyword / category: the keyword match, or the pattern summary and 'grooming'
+-- - dedup_key: keeps re-scans from duplicating events - the keyword for keyword events,
+--   the reporter for user reports, '' for image and conversation_analysis events
+-- - severity (1-5) / risk_score: as on flagged_messages (migration 025)
+-- - related_message_ids: the messages that formed a grooming pattern (migration 027)
+-- - status / reviewed_by / reviewed_at: review by a parent in the moderation inbox
+--   ('open', 'reviewed', 'dismissed' as a false positive, or 'escalated' to the other parents)
+--
+-- Existing flags, flagged_messages and moderation_reviews (migration 035) rows are copied over,
+-- then the old tables are dropped.
+
+CREATE TABLE IF NOT EXISTS public.moderation_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  chat_id uuid NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  group_id uuid REFERENCES public.groups(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('user_report', 'keyword', 'image', 'conversation_analysis')),
+  sender_id uuid REFERENCES public.users(id) ON DELETE CASCADE,
+  reported_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  category text NOT NULL,
+  matched_keyword text,
+  reason text,
+  dedup_key text NOT NULL DEFAULT '',
+  severity integer NOT NULL DEFAULT 1,
+  risk_score integer NOT NULL DEFAULT 0,
+  related_message_ids uuid[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewed', 'dismissed', 'escalated')),
+  reviewed_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(message_id, source, dedup_key)
+);
+
+CREATE INDEX IF NOT EXISTS moderation_events_chat_id_created_at ON public.moderation_events(chat_id, created_at);
+CREATE INDEX IF NOT EXISTS moderation_events_sender_id ON public.moderation_events(sender_id);
+CREATE INDEX IF NOT EXISTS moderation_events_group_id
+  ON public.moderation_events(group_id) WHERE group_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS moderation_events_open
+  ON public.moderation_events(chat_id) WHERE status = 'open';
+
+-- ------------------------------------------------------------
+-- Backfill
+-- ------------------------------------------------------------
+
+INSERT INTO public.moderation_events (
+  message_id, chat_id, group_id, source, sender_id, category, matched_keyword, dedup_key,
+  severity, risk_score, related_message_ids, created_at
+)
+SELECT
+  f.message_id,
+  m.chat_id,
+  f.group_id,
+  CASE WHEN f.flag_type = 'grooming_pattern' THEN 'conversation_analysis' ELSE 'keyword' END,
+  m.sender_id,
+  f.category,
+  f.matched_keyword,
+  CASE WHEN f.flag_type = 'grooming_pattern' THEN '' ELSE f.matched_keyword END,
+  f.severity,
+  f.risk_score,
+  f.related_message_ids,
+  COALESCE(f.created_at, now())
+FROM public.flagged_messages f
+JOIN public.messages m ON m.id = f.message_id
+ON CONFLICT (message_id, source, dedup_key) DO NOTHING;
+
+-- System image flags were recorded as flagged by the Sikker chat user with an "Unsafe image detected" reason
+INSERT INTO public.moderation_events (
+  message_id, chat_id, group_id, source, sender_id, reported_by, category, reason, dedup_key, severity, created_at
+)
+SELECT
+  f.message_id,
+  m.chat_id,
+  f.group_id,
+  CASE WHEN f.reason LIKE 'Unsafe image detected%' THEN 'image' ELSE 'user_report' END,
+  m.sender_id,
+  CASE WHEN f.reason LIKE 'Unsafe image detected%' THEN NULL ELSE f.flagged_by END,
+  CASE WHEN f.reason LIKE 'Unsafe image detected%' THEN 'image' ELSE 'reported' END,
+  f.reason,
+  CASE WHEN f.reason LIKE 'Unsafe image detected%' THEN '' ELSE f.flagged_by::text END,
+  CASE WHEN f.reason LIKE 'Unsafe image detected%' THEN 5 ELSE 3 END,
+  COALESCE(f.created_at, now())
+FROM public.flags f
+JOIN public.messages m ON m.id = f.message_id
+ON CONFLICT (message_id, source, dedup_key) DO NOTHING;
+
+-- Inbox reviews (migration 035) become the event status; the latest review of an item wins
+UPDATE public.moderation_events e
+  SET status = r.status, reviewed_by = r.parent_id, reviewed_at = r.reviewed_at
+  FROM (
+    SELECT DISTINCT ON (message_id, source) message_id, source, status, parent_id, reviewed_at
+    FROM public.moderation_reviews
+    ORDER BY message_id, source, reviewed_at DESC
+  ) r
+  WHERE e.message_id = r.message_id
+    AND (
+      (r.source = 'keyword' AND e.source = 'keyword')
+      OR (r.source = 'grooming' AND e.source = 'conversation_analysis')
+      OR (r.source = 'flag' AND e.source IN ('user_report', 'image'))
+    );
+
+DROP TABLE IF EXISTS public.moderation_reviews;
+DROP TABLE IF EXISTS public.flagged_messages;
+DROP TABLE IF EXISTS public.flags;
+DROP FUNCTION IF EXISTS public.set_flag_chat_id();
+
+-- ------------------------------------------------------------
+-- RLS
+-- ------------------------------------------------------------
+-- Writes go through the API (service role): POST /api/moderation/flag for reports,
+-- src/lib/message-moderation.ts for scanner events, /api/parent/moderation-inbox for reviews.
+
+ALTER TABLE public.moderation_events ENABLE ROW LEVEL SECURITY;
+
+-- Chat participants see reports and image flags in their chats (as with flags), not scanner results
+DROP POLICY IF EXISTS "Participants can view reports in their chats" ON public.moderation_events;
+CREATE POLICY "Participants can view reports in their chats"
+  ON public.moderation_events FOR SELECT
+  TO authenticated
+  USING (
+    source IN ('user_report', 'image')
+    AND (
+      EXISTS (
+        SELECT 1 FROM public.chats c
+        WHERE c.id = moderation_events.chat_id
+          AND (c.user1_id = auth.uid() OR c.user2_id = auth.uid())
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.group_members gm
+        WHERE gm.group_id = moderation_events.group_id
+          AND gm.user_id = auth.uid()
+      )
+    )
+  );
+
+-- Parents see every event in chats and groups their children are in
+DROP POLICY IF EXISTS "Parents can view events in their children's chats" ON public.moderation_events;
+CREATE POLICY "Parents can view events in their children's chats"
+  ON public.moderation_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.chats c
+      JOIN public.parent_child_links pcl ON (pcl.child_id = c.user1_id OR pcl.child_id = c.user2_id)
+      WHERE c.id = moderation_events.chat_id
+        AND pcl.parent_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.group_members gm
+      JOIN public.parent_child_links pcl ON pcl.child_id = gm.user_id
+      WHERE gm.group_id = moderation_events.group_id
+        AND pcl.parent_id = auth.uid()
+    )
+  );
@@ -0,0 +1,80 @@
+-- Migration 037: Enforce surveillance levels in RLS
+-- Until now medium-level parents could read every message of their child through the Supabase client
+-- (migration 015 allowed 'medium' on messages, and migration 016 left the restriction to a frontend check
+-- in src/app/chats/[id]/page.tsx). The database now enforces each level:
+-- - strict: read all of the child's 1:1 chats and messages
+-- - medium: read only 1:1 chats that contain a flagged message (a moderation event that wasn't
+--   dismissed as a false positive, migration 036)
+-- - mild: no chats or messages - only alerts (Sikker chat) and reports/image flags in the inbox
+--
+-- Tests: supabase/tests/surveillance_levels_rls.sql
+
+-- Whether the current user is a parent allowed to read a 1:1 chat of their child
+-- SECURITY DEFINER so the check can read parent_child_links and moderation_events whatever their RLS.
+CREATE OR REPLACE FUNCTION public.parent_can_read_chat(p_chat_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.chats c
+    JOIN public.parent_child_links pcl ON (pcl.child_id = c.user1_id OR pcl.child_id = c.user2_id)
+    WHERE c.id = p_chat_id
+      AND pcl.parent_id = auth.uid()
+      AND (
+        pcl.surveillance_level = 'strict'
+        OR (
+          pcl.surveillance_level = 'medium'
+          AND EXISTS (
+            SELECT 1 FROM public.moderation_events e
+            WHERE e.chat_id = c.id
+              AND e.status <> 'dismissed'
+          )
+        )
+      )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION public.parent_can_read_chat(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.parent_can_read_chat(uuid) TO authenticated;
+
+-- Chats
+DROP POLICY IF EXISTS "Strict level parents can view chats of linked children" ON public.chats;
+DROP POLICY IF EXISTS "Parents can view chats per surveillance level" ON public.chats;
+CREATE POLICY "Parents can view chats per surveillance level"
+  ON public.chats FOR SELECT
+  TO authenticated
+  USING (public.parent_can_read_chat(id));
+
+-- Messages
+DROP POLICY IF EXISTS "Strict and medium level parents can view messages (frontend enforces medium restriction)" ON public.messages;
+DROP POLICY IF EXISTS "Parents can view messages per surveillance level" ON public.messages;
+CREATE POLICY "Parents can view messages per surveillance level"
+  ON public.messages FOR SELECT
+  TO authenticated
+  USING (public.parent_can_read_chat(chat_id));
+
+-- Moderation events: mild parents only see reports and image flags, not scanner results
+DROP POLICY IF EXISTS "Parents can view events in their children's chats" ON public.moderation_events;
+CREATE POLICY "Parents can view events in their children's chats"
+  ON public.moderation_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.chats c
+      JOIN public.parent_child_links pcl ON (pcl.child_id = c.user1_id OR pcl.child_id = c.user2_id)
+      WHERE c.id = moderation_events.chat_id
+        AND pcl.parent_id = auth.uid()
+        AND (pcl.surveillance_level <> 'mild' OR moderation_events.source IN ('user_report', 'image'))
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.group_members gm
+      JOIN public.parent_child_links pcl ON pcl.child_id = gm.user_id
+      WHERE gm.group_id = moderation_events.group_id
+        AND pcl.parent_id = auth.uid()
+        AND (pcl.surveillance_level <> 'mild' OR moderation_events.source IN ('user_report', 'image'))
+    )
+  );
@@ -0,0 +1,24 @@
+-- Migration 038: Context windows for medium surveillance
+-- Medium-level parents no longer read the messages of a flagged chat directly. They get a redacted
+-- transcript from GET /api/parent/check-flagged-messages?transcript=1 instead: only the messages
+-- within MEDIUM_CONTEXT_WINDOW messages (default 20) of each flagged message (src/lib/context-window.ts).
+--
+-- Chats: unchanged (migration 037) - medium parents still see flagged chats, so they can open them.
+-- Messages: only strict parents read their children's messages through RLS.
+--
+-- Tests: supabase/tests/surveillance_levels_rls.sql
+
+DROP POLICY IF EXISTS "Parents can view messages per surveillance level" ON public.messages;
+DROP POLICY IF EXISTS "Strict level parents can view messages of linked children" ON public.messages;
+CREATE POLICY "Strict level parents can view messages of linked children"
+  ON public.messages FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.chats c
+      JOIN public.parent_child_links pcl ON (pcl.child_id = c.user1_id OR pcl.child_id = c.user2_id)
+      WHERE c.id = messages.chat_id
+        AND pcl.parent_id = auth.uid()
+        AND pcl.surveillance_level = 'strict'
+    )
+  );
@@ -0,0 +1,157 @@
+-- Migration 039: Surveillance profiles
+-- The three surveillance levels become presets of a profile that parents can compose per child
+-- (src/lib/surveillance-profile.ts, POST /api/parent/surveillance-profile):
+-- - alert_categories: categories of flagged messages that notify the parent (keyword categories,
+--   'grooming' and 'image'). Self-harm alerts are always sent.
+-- - image_approval: images held until the parent approves them - 'all', 'unscanned' (only images the
+--   NSFW scan couldn't check, the old strict behaviour, replaces IMAGE_SCAN_FAIL_CLOSED_LEVELS) or 'none'
+-- - hold_risky_messages: risky messages are held before delivery (message-hold.ts)
+-- - new_contact_approval: the parent accepts new contacts before the child can chat with them
+-- - read_access: 'full' (all chats and messages), 'flagged' (chats with a flagged message, redacted
+--   transcript through the API) or 'none' (only reports and image flags in the inbox)
+-- - quiet_hours_start/end: alerts are delivered in Sikker chat only (no email) in this window
+--
+-- surveillance_level is now the preset name, or 'custom'. Setting it to a preset fills in the profile.
+--
+-- Tests: supabase/tests/surveillance_levels_rls.sql
+
+-- Level: a preset or 'custom'
+ALTER TABLE public.parent_child_links DROP CONSTRAINT IF EXISTS parent_child_links_surveillance_level_check;
+ALTER TABLE public.parent_child_links
+  ADD CONSTRAINT parent_child_links_surveillance_level_check
+  CHECK (surveillance_level IN ('strict', 'medium', 'mild', 'custom'));
+
+-- Profile (defaults are the medium preset)
+ALTER TABLE public.parent_child_links
+  ADD COLUMN IF NOT EXISTS alert_categories text[] NOT NULL
+    DEFAULT ARRAY['violence', 'pressure_secrets', 'sexual', 'bullying', 'selfworth', 'grooming', 'image'],
+  ADD COLUMN IF NOT EXISTS image_approval text NOT NULL DEFAULT 'none'
+    CHECK (image_approval IN ('all', 'unscanned', 'none')),
+  ADD COLUMN IF NOT EXISTS hold_risky_messages boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS new_contact_approval boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS read_access text NOT NULL DEFAULT 'flagged'
+    CHECK (read_access IN ('full', 'flagged', 'none')),
+  ADD COLUMN IF NOT EXISTS quiet_hours_start time,
+  ADD COLUMN IF NOT EXISTS quiet_hours_end time;
+
+ALTER TABLE public.parent_child_links DROP CONSTRAINT IF EXISTS parent_child_links_quiet_hours_check;
+ALTER TABLE public.parent_child_links
+  ADD CONSTRAINT parent_child_links_quiet_hours_check
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+-- Backfill the strict and mild links (medium links already have the defaults)
+UPDATE public.parent_child_links
+SET image_approval = 'unscanned', hold_risky_messages = true, read_access = 'full'
+WHERE surveillance_level = 'strict';
+
+UPDATE public.parent_child_links
+SET alert_categories = ARRAY['image'], read_access = 'none'
+WHERE surveillance_level = 'mild';
+
+-- Choosing a preset (on insert, or by changing surveillance_level) fills in its profile.
+-- Keep in sync with SURVEILLANCE_PRESETS in src/lib/surveillance-profile.ts.
+CREATE OR REPLACE FUNCTION public.apply_surveillance_preset()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.surveillance_level IS NOT DISTINCT FROM OLD.surveillance_level THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.surveillance_level IN ('strict', 'medium') THEN
+    NEW.alert_categories := ARRAY['violence', 'pressure_secrets', 'sexual', 'bullying', 'selfworth', 'grooming', 'image'];
+  ELSIF NEW.surveillance_level = 'mild' THEN
+    NEW.alert_categories := ARRAY['image'];
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  NEW.image_approval := CASE WHEN NEW.surveillance_level = 'strict' THEN 'unscanned' ELSE 'none' END;
+  NEW.hold_risky_messages := NEW.surveillance_level = 'strict';
+  NEW.new_contact_approval := true;
+  NEW.read_access := CASE NEW.surveillance_level
+    WHEN 'strict' THEN 'full'
+    WHEN 'medium' THEN 'flagged'
+    ELSE 'none'
+  END;
+  NEW.quiet_hours_start := NULL;
+  NEW.quiet_hours_end := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS parent_child_links_apply_surveillance_preset ON public.parent_child_links;
+CREATE TRIGGER parent_child_links_apply_surveillance_preset
+  BEFORE INSERT OR UPDATE OF surveillance_level ON public.parent_child_links
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_surveillance_preset();
+
+COMMENT ON COLUMN public.parent_child_links.surveillance_level IS
+  'Surveillance preset (strict, medium, mild) the profile columns were filled from, or custom';
+
+-- Chat access follows read_access instead of the level (replaces migration 037's function)
+CREATE OR REPLACE FUNCTION public.parent_can_read_chat(p_chat_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.chats c
+    JOIN public.parent_child_links pcl ON (pcl.child_id = c.user1_id OR pcl.child_id = c.user2_id)
+    WHERE c.id = p_chat_id
+      AND pcl.parent_id = auth.uid()
+      AND (
+        pcl.read_access = 'full'
+        OR (
+          pcl.read_access = 'flagged'
+          AND EXISTS (
+            SELECT 1 FROM public.moderation_events e
+            WHERE e.chat_id = c.id
+              AND e.status <> 'dismissed'
+          )
+        )
+      )
+  );
+$$;
+
+-- Messages: only parents with full read access (migration 038)
+DROP POLICY IF EXISTS "Strict level parents can view messages of linked children" ON public.messages;
+DROP POLICY IF EXISTS "Parents with full read access can view messages of linked children" ON public.messages;
+CREATE POLICY "Parents with full read access can view messages of linked children"
+  ON public.messages FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.chats c
+      JOIN public.parent_child_links pcl ON (pcl.child_id = c.user1_id OR pcl.child_id = c.user2_id)
+      WHERE c.id = messages.chat_id
+        AND pcl.parent_id = auth.uid()
+        AND pcl.read_access = 'full'
+    )
+  );
+
+-- Moderation events: parents without read access only see reports and image flags
+DROP POLICY IF EXISTS "Parents can view events in their children's chats" ON public.moderation_events;
+CREATE POLICY "Parents can view events in their children's chats"
+  ON public.moderation_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.chats c
+      JOIN public.parent_child_links pcl ON (pcl.child_id = c.user1_id OR pcl.child_id = c.user2_id)
+      WHERE c.id = moderation_events.chat_id
+        AND pcl.parent_id = auth.uid()
+        AND (pcl.read_access <> 'none' OR moderation_events.source IN ('user_report', 'image'))
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.group_members gm
+      JOIN public.parent_child_links pcl ON pcl.child_id = gm.user_id
+      WHERE gm.group_id = moderation_events.group_id
+        AND pcl.parent_id = auth.uid()
+        AND (pcl.read_access <> 'none' OR moderation_events.source IN ('user_report', 'image'))
+    )
+  );
@@ -0,0 +1,70 @@
+-- Migration 040: Age-based surveillance graduation
+-- Children carry a birthdate, and each parent can opt into a schedule that moves the child to a
+-- lighter surveillance preset as they grow (e.g. strict until 10, medium until 13, mild after).
+-- GET /api/cron/surveillance-graduation runs the schedules daily (src/lib/surveillance-graduation.ts):
+-- - mode 'apply': the preset is applied, and parent and child are told in Sikker chat
+-- - mode 'propose': the parent gets a proposal to accept or dismiss on the surveillance profile page
+-- Custom profiles are never overwritten automatically - they only get proposals.
+
+-- Birthdates live in their own table: children can read other children's users rows (migration 011)
+CREATE TABLE IF NOT EXISTS public.child_birthdates (
+  child_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  birthdate date NOT NULL,
+  set_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.child_birthdates ENABLE ROW LEVEL SECURITY;
+
+-- Written through the API (service role); linked parents and the child can read it
+DROP POLICY IF EXISTS "Parents can view birthdates of linked children" ON public.child_birthdates;
+CREATE POLICY "Parents can view birthdates of linked children"
+  ON public.child_birthdates FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.parent_child_links pcl
+      WHERE pcl.child_id = child_birthdates.child_id
+        AND pcl.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Children can view own birthdate" ON public.child_birthdates;
+CREATE POLICY "Children can view own birthdate"
+  ON public.child_birthdates FOR SELECT
+  TO authenticated
+  USING (child_id = auth.uid());
+
+-- Schedule per parent and child: [{"preset": "strict", "until_age": 10}, ..., {"preset": "mild", "until_age": null}]
+-- NULL = the parent hasn't opted in
+ALTER TABLE public.parent_child_links
+  ADD COLUMN IF NOT EXISTS graduation_schedule jsonb,
+  ADD COLUMN IF NOT EXISTS graduation_mode text NOT NULL DEFAULT 'propose'
+    CHECK (graduation_mode IN ('propose', 'apply'));
+
+-- Every transition the schedule raised: applied, or proposed to the parent
+-- One row per link, target preset and age, so the daily run raises each transition once
+-- (a dismissed proposal comes back on the child's next birthday).
+CREATE TABLE IF NOT EXISTS public.surveillance_graduations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  link_id integer NOT NULL REFERENCES public.parent_child_links(id) ON DELETE CASCADE,
+  parent_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  child_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  age integer NOT NULL,
+  from_level text NOT NULL,
+  to_level text NOT NULL CHECK (to_level IN ('strict', 'medium', 'mild')),
+  status text NOT NULL DEFAULT 'proposed' CHECK (status IN ('proposed', 'applied', 'dismissed')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  resolved_at timestamptz,
+  UNIQUE (link_id, to_level, age)
+);
+
+CREATE INDEX IF NOT EXISTS surveillance_graduations_parent_id ON public.surveillance_graduations(parent_id, status);
+
+ALTER TABLE public.surveillance_graduations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parents can view own graduations" ON public.surveillance_graduations;
+CREATE POLICY "Parents can view own graduations"
+  ON public.surveillance_graduations FOR SELECT
+  TO authenticated
+  USING (parent_id = auth.uid());
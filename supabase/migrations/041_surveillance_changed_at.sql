@@ -0,0 +1,36 @@
+-- Migration 041: When a child's surveillance last changed
+-- The child's transparency page (/settings, GET /api/child/surveillance) shows each parent's level
+-- and when it last changed. surveillance_changed_at is stamped whenever the level or a part of the
+-- profile that decides what the parent sees changes (quiet hours only change how alerts are delivered).
+
+-- Existing links keep NULL (unknown); new links start at their creation time
+ALTER TABLE public.parent_child_links
+  ADD COLUMN IF NOT EXISTS surveillance_changed_at timestamptz;
+
+ALTER TABLE public.parent_child_links
+  ALTER COLUMN surveillance_changed_at SET DEFAULT now();
+
+CREATE OR REPLACE FUNCTION public.stamp_surveillance_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.surveillance_level IS DISTINCT FROM OLD.surveillance_level
+    OR NEW.alert_categories IS DISTINCT FROM OLD.alert_categories
+    OR NEW.image_approval IS DISTINCT FROM OLD.image_approval
+    OR NEW.hold_risky_messages IS DISTINCT FROM OLD.hold_risky_messages
+    OR NEW.new_contact_approval IS DISTINCT FROM OLD.new_contact_approval
+    OR NEW.read_access IS DISTINCT FROM OLD.read_access
+  THEN
+    NEW.surveillance_changed_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- BEFORE triggers run in name order, so this sees the profile after apply_surveillance_preset (migration 039)
+DROP TRIGGER IF EXISTS parent_child_links_stamp_surveillance_change ON public.parent_child_links;
+CREATE TRIGGER parent_child_links_stamp_surveillance_change
+  BEFORE UPDATE ON public.parent_child_links
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_surveillance_change();
@@ -0,0 +1,70 @@
+-- Migration 042: Surveillance audit log
+-- An append-only record of what parents do with their access to a child, so co-parents can see it
+-- (src/lib/surveillance-audit.ts, GET /api/parent/audit-log, /parent/audit-log):
+-- - chat_read: a parent opened one of the child's chats (full read access)
+-- - transcript_read: a parent was served the redacted transcript around a flagged message
+-- - surveillance_changed: the child's surveillance level or profile changed
+-- - child_removed: a parent removed the child from their account
+-- - contact_approved: a new contact was approved for the child
+--
+-- Entries are written by the API (service role) and can't be changed or deleted by anyone.
+-- child_id and actor_id have no foreign keys, so entries outlive links and accounts.
+-- visible_to holds the parents linked to the child when it happened, so a parent who removed the
+-- child (or was removed) still sees the entries from their time; parents linked now see all of them.
+
+CREATE TABLE IF NOT EXISTS public.surveillance_audit_log (
+  id bigserial PRIMARY KEY,
+  child_id uuid NOT NULL,
+  actor_id uuid,
+  action text NOT NULL
+    CHECK (action IN ('chat_read', 'transcript_read', 'surveillance_changed', 'child_removed', 'contact_approved')),
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  visible_to uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.surveillance_audit_log.actor_id IS
+  'The parent who acted; NULL when the system did (e.g. an automatic graduation or contact approval)';
+
+CREATE INDEX IF NOT EXISTS surveillance_audit_log_child_id
+  ON public.surveillance_audit_log(child_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS surveillance_audit_log_visible_to
+  ON public.surveillance_audit_log USING gin (visible_to);
+
+ALTER TABLE public.surveillance_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- No insert, update or delete policies: only the service role writes
+DROP POLICY IF EXISTS "Parents can view audit log of their children" ON public.surveillance_audit_log;
+CREATE POLICY "Parents can view audit log of their children"
+  ON public.surveillance_audit_log FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = ANY (visible_to)
+    OR EXISTS (
+      SELECT 1 FROM public.parent_child_links pcl
+      WHERE pcl.child_id = surveillance_audit_log.child_id
+        AND pcl.parent_id = auth.uid()
+    )
+  );
+
+-- Append-only, also for the service role
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_change()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'surveillance_audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS surveillance_audit_log_append_only ON public.surveillance_audit_log;
+CREATE TRIGGER surveillance_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.surveillance_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_audit_log_change();
+
+DROP TRIGGER IF EXISTS surveillance_audit_log_no_truncate ON public.surveillance_audit_log;
+CREATE TRIGGER surveillance_audit_log_no_truncate
+  BEFORE TRUNCATE ON public.surveillance_audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.prevent_audit_log_change();
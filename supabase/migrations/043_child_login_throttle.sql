@@ -0,0 +1,80 @@
+-- Migration 043: Brute-force protection for child PIN login
+-- Failed child logins are counted per username ('user:<username>') and per client ('client:<ip>')
+-- by POST /api/auth/child-email (src/lib/child-login-throttle.ts):
+-- - after a few failures each new attempt must wait a little longer (progressive delay)
+-- - after more failures the username or client is locked for a while; a locked child's parents
+--   are notified and can unlock it, or reset the PIN, from the parent dashboard
+-- Counters start over when the failures are older than the window or a lock has run out.
+
+CREATE TABLE IF NOT EXISTS public.child_login_throttle (
+  key text PRIMARY KEY,
+  -- The child account, for 'user:' keys of existing children (lets their parents see the lock)
+  child_id uuid REFERENCES public.users(id) ON DELETE CASCADE,
+  failures integer NOT NULL DEFAULT 0,
+  last_failure_at timestamptz NOT NULL DEFAULT now(),
+  locked_until timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS child_login_throttle_child_id ON public.child_login_throttle(child_id);
+
+ALTER TABLE public.child_login_throttle ENABLE ROW LEVEL SECURITY;
+
+-- Written by the API (service role); parents can see whether their children are locked
+DROP POLICY IF EXISTS "Parents can view login locks of linked children" ON public.child_login_throttle;
+CREATE POLICY "Parents can view login locks of linked children"
+  ON public.child_login_throttle FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.parent_child_links pcl
+      WHERE pcl.child_id = child_login_throttle.child_id
+        AND pcl.parent_id = auth.uid()
+    )
+  );
+
+-- Count one failed attempt atomically (parallel attempts must not slip past the lock)
+CREATE OR REPLACE FUNCTION public.record_child_login_failure(
+  p_key text,
+  p_child_id uuid,
+  p_window_seconds integer,
+  p_lock_after integer,
+  p_lock_seconds integer
+)
+RETURNS public.child_login_throttle
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  entry public.child_login_throttle;
+BEGIN
+  INSERT INTO public.child_login_throttle (key, child_id, failures, last_failure_at)
+  VALUES (p_key, p_child_id, 0, now())
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT * INTO entry FROM public.child_login_throttle WHERE key = p_key FOR UPDATE;
+
+  IF entry.last_failure_at < now() - make_interval(secs => p_window_seconds)
+    OR (entry.locked_until IS NOT NULL AND entry.locked_until <= now())
+  THEN
+    entry.failures := 0;
+    entry.locked_until := NULL;
+  END IF;
+
+  entry.failures := entry.failures + 1;
+  IF entry.failures >= p_lock_after AND entry.locked_until IS NULL THEN
+    entry.locked_until := now() + make_interval(secs => p_lock_seconds);
+  END IF;
+
+  UPDATE public.child_login_throttle
+  SET child_id = COALESCE(p_child_id, child_id),
+      failures = entry.failures,
+      last_failure_at = now(),
+      locked_until = entry.locked_until
+  WHERE key = p_key
+  RETURNING * INTO entry;
+
+  RETURN entry;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_child_login_failure(text, uuid, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_child_login_failure(text, uuid, integer, integer, integer) TO service_role;
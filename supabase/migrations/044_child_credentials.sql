@@ -0,0 +1,33 @@
+-- Migration 044: Child credentials
+-- When a parent gives a child a new PIN (POST /api/parent/reset-child-pin) they can require the
+-- child to choose their own PIN at the next login; POST /api/auth/child-login then only signs the
+-- child in together with a new PIN (src/lib/child-login.ts). A reset also signs the child out everywhere.
+
+CREATE TABLE IF NOT EXISTS public.child_credentials (
+  child_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  must_change_pin boolean NOT NULL DEFAULT false,
+  pin_set_at timestamptz NOT NULL DEFAULT now(),
+  -- The parent who set the current PIN; NULL when the child chose it
+  pin_set_by uuid REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.child_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Written by the API (service role)
+DROP POLICY IF EXISTS "Parents can view credentials of linked children" ON public.child_credentials;
+CREATE POLICY "Parents can view credentials of linked children"
+  ON public.child_credentials FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.parent_child_links pcl
+      WHERE pcl.child_id = child_credentials.child_id
+        AND pcl.parent_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Children can view own credentials" ON public.child_credentials;
+CREATE POLICY "Children can view own credentials"
+  ON public.child_credentials FOR SELECT
+  TO authenticated
+  USING (child_id = auth.uid());
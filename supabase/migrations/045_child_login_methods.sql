@@ -0,0 +1,31 @@
+-- Migration 045: Picture passwords and login codes for young children
+-- Besides username + PIN a child can sign in (src/lib/child-login.ts):
+-- - with a picture password: a sequence of pictures chosen by the parent, tapped after the child's name
+-- - with a login code: a short-lived, single-use QR code the parent shows; the child scans it on a new device
+-- Both tables are only read and written by the API (service role): the picture password hash is
+-- short enough to guess offline, so no client may read it.
+
+CREATE TABLE IF NOT EXISTS public.child_picture_passwords (
+  child_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  -- scrypt hash of the picture sequence, as '<salt>:<hash>' (hex)
+  password_hash text NOT NULL,
+  set_at timestamptz NOT NULL DEFAULT now(),
+  set_by uuid REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.child_picture_passwords ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.child_login_codes (
+  -- The jti of the signed login token (src/lib/invite-token.ts)
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  child_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  used_by_client text
+);
+
+CREATE INDEX IF NOT EXISTS child_login_codes_child_id ON public.child_login_codes(child_id, created_at DESC);
+
+ALTER TABLE public.child_login_codes ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,47 @@
+-- Migration 046: Single-use, revocable child invitation links
+-- An invitation link carries a signed token (src/lib/invite-token.ts) whose jti is a row here
+-- (src/lib/child-invites.ts). The link works until it expires, is revoked by a parent, or is redeemed:
+-- the first successful PIN sign-in through /api/invite/child/[token] uses it up and records the device.
+-- Links signed before this migration have no row and no longer work; parents create new ones.
+-- Creating, revoking and redeeming a link is recorded in the surveillance audit log (migration 042).
+
+CREATE TABLE IF NOT EXISTS public.child_invites (
+  -- The token's jti
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  child_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  -- Id of the signing key (INVITE_SECRETS), to see which links a key rotation affects
+  key_id text NOT NULL,
+  revoked_at timestamptz,
+  revoked_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  redeemed_at timestamptz,
+  redeemed_by_client text,
+  redeemed_user_agent text
+);
+
+CREATE INDEX IF NOT EXISTS child_invites_child_id ON public.child_invites(child_id, created_at DESC);
+
+ALTER TABLE public.child_invites ENABLE ROW LEVEL SECURITY;
+
+-- Written by the API (service role); the rows hold no secrets, so parents can see their children's links
+DROP POLICY IF EXISTS "Parents can view invites of linked children" ON public.child_invites;
+CREATE POLICY "Parents can view invites of linked children"
+  ON public.child_invites FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.parent_child_links pcl
+      WHERE pcl.child_id = child_invites.child_id
+        AND pcl.parent_id = auth.uid()
+    )
+  );
+
+-- Invitation links in the audit log
+ALTER TABLE public.surveillance_audit_log DROP CONSTRAINT IF EXISTS surveillance_audit_log_action_check;
+ALTER TABLE public.surveillance_audit_log ADD CONSTRAINT surveillance_audit_log_action_check
+  CHECK (action IN (
+    'chat_read', 'transcript_read', 'surveillance_changed', 'child_removed', 'contact_approved',
+    'invite_created', 'invite_revoked', 'invite_redeemed'
+  ));
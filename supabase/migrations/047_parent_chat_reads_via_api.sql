@@ -0,0 +1,13 @@
+-- Migration 047: Parents read their children's messages only through the API
+-- Parents with full read access could read messages directly through RLS (migration 039), so reading a
+-- chat was only recorded in the surveillance audit log when the parent chat page chose to report it.
+-- Now they read messages through GET /api/parent/child-chats, which records every chat_read itself
+-- (src/lib/surveillance-audit.ts), just like the redacted transcripts of flagged-only parents
+-- (migration 038). Chats stay readable per read access (migration 039), so parents can list them.
+--
+-- Parents keep reading the messages of chats they take part in themselves (e.g. parent-to-parent chats).
+-- Realtime follows RLS, so parent views poll the API instead of subscribing to their children's messages.
+--
+-- Tests: supabase/tests/surveillance_levels_rls.sql
+
+DROP POLICY IF EXISTS "Parents with full read access can view messages of linked children" ON public.messages;
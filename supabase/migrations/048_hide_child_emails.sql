@@ -0,0 +1,28 @@
+-- Migration 048: Hide the synthetic emails of child accounts
+-- Any signed-in user can read children's rows in public.users ("Children can discover other children",
+-- migration 011), and with them the synthetic email (child-<uuid>@family.local) of the child's
+-- Supabase account. Children sign in on the server (POST /api/auth/child-login, src/lib/child-login.ts),
+-- which reads the email from Supabase Auth, so public.users.email is left blank for children.
+--
+-- The login throttle from migration 043 now sits in POST /api/auth/child-login; the old
+-- POST /api/auth/child-email endpoint that returned the email is gone.
+
+-- Existing children
+UPDATE public.users
+SET email = ''
+WHERE email LIKE 'child-%@family.local'
+   OR is_child = true
+   OR id IN (SELECT child_id FROM public.parent_child_links);
+
+-- New children: the auth trigger copies every other user's email as before (supabase/schema.sql)
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.users (id, email)
+  VALUES (NEW.id, CASE WHEN NEW.email LIKE 'child-%@family.local' THEN '' ELSE NEW.email END);
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,79 @@
+-- Migration 049: Reserve child login attempts before signing in
+-- The login throttle (migration 043) was checked first and a failure only counted once the sign-in had
+-- failed, so attempts sent in parallel all passed the check before any of them was counted. Now each
+-- attempt is counted up front, under a row lock on the username's and the client's rows, and only goes
+-- ahead when neither is locked or has to wait; a successful sign-in gives the attempt back
+-- (src/lib/child-login-throttle.ts).
+
+-- Check both keys and count the attempt as failed, atomically; returns whether it may go ahead
+CREATE OR REPLACE FUNCTION public.reserve_child_login_attempt(
+  p_user_key text,
+  p_child_id uuid,
+  p_client_key text,
+  p_window_seconds integer,
+  p_delay_after integer,
+  p_max_delay_seconds integer,
+  p_user_lock_after integer,
+  p_client_lock_after integer,
+  p_lock_seconds integer
+)
+RETURNS TABLE (allowed boolean, locked boolean, retry_after_seconds integer)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  k text;
+  entry public.child_login_throttle;
+  delay_seconds integer;
+  wait_seconds integer;
+  blocked_for integer := 0;
+  is_locked boolean := false;
+BEGIN
+  INSERT INTO public.child_login_throttle (key, child_id, failures, last_failure_at)
+  VALUES (p_user_key, p_child_id, 0, now()), (p_client_key, NULL, 0, now())
+  ON CONFLICT (key) DO NOTHING;
+
+  -- Parallel attempts for the same username or client queue up here (fixed order: no deadlocks)
+  PERFORM 1 FROM public.child_login_throttle
+  WHERE key IN (p_user_key, p_client_key)
+  ORDER BY key
+  FOR UPDATE;
+
+  FOREACH k IN ARRAY ARRAY[p_user_key, p_client_key] LOOP
+    SELECT * INTO entry FROM public.child_login_throttle WHERE key = k;
+    CONTINUE WHEN entry.last_failure_at < now() - make_interval(secs => p_window_seconds);
+
+    IF entry.locked_until IS NOT NULL AND entry.locked_until > now() THEN
+      is_locked := true;
+      blocked_for := GREATEST(blocked_for, CEIL(EXTRACT(EPOCH FROM entry.locked_until - now()))::integer);
+    ELSIF entry.locked_until IS NULL AND entry.failures >= p_delay_after THEN
+      delay_seconds := LEAST(2 ^ (entry.failures - p_delay_after), p_max_delay_seconds);
+      wait_seconds := CEIL(EXTRACT(EPOCH FROM entry.last_failure_at + make_interval(secs => delay_seconds) - now()))::integer;
+      blocked_for := GREATEST(blocked_for, wait_seconds);
+    END IF;
+  END LOOP;
+
+  IF blocked_for > 0 THEN
+    RETURN QUERY SELECT false, is_locked, blocked_for;
+    RETURN;
+  END IF;
+
+  PERFORM public.record_child_login_failure(p_user_key, p_child_id, p_window_seconds, p_user_lock_after, p_lock_seconds);
+  PERFORM public.record_child_login_failure(p_client_key, NULL, p_window_seconds, p_client_lock_after, p_lock_seconds);
+  RETURN QUERY SELECT true, false, 0;
+END;
+$$;
+
+-- Give a reserved attempt back to the client after a successful sign-in
+CREATE OR REPLACE FUNCTION public.release_child_login_attempt(p_key text)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE public.child_login_throttle
+  SET failures = GREATEST(failures - 1, 0)
+  WHERE key = p_key AND locked_until IS NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_child_login_attempt(text, uuid, text, integer, integer, integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_child_login_attempt(text, uuid, text, integer, integer, integer, integer, integer, integer) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.release_child_login_attempt(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_child_login_attempt(text) TO service_role;
@@ -0,0 +1,30 @@
+-- Migration 050: Hold risky group messages for the parents of every group member
+-- Risky messages were only held when the sender or the other child of a 1:1 chat had a parent who holds
+-- risky messages (migration 029). In a group chat the other children are the group's members, so now a
+-- message is held when any of their parents holds risky messages (decideMessageHold in
+-- src/lib/message-hold.ts), and those parents can read the held message to review it, like the parents
+-- of the two children of a 1:1 chat.
+
+DROP POLICY IF EXISTS "Held messages are hidden from recipients" ON public.messages;
+CREATE POLICY "Held messages are hidden from recipients"
+  ON public.messages
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (
+    delivery_status IN ('delivered', 'released')
+    OR sender_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.chats c
+      JOIN public.parent_child_links pcl ON (pcl.child_id = c.user1_id OR pcl.child_id = c.user2_id)
+      WHERE c.id = messages.chat_id
+        AND pcl.parent_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.chats c
+      JOIN public.group_members gm ON gm.group_id = c.group_id
+      JOIN public.parent_child_links pcl ON pcl.child_id = gm.user_id
+      WHERE c.id = messages.chat_id
+        AND pcl.parent_id = auth.uid()
+    )
+  );
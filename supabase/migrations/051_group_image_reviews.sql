@@ -0,0 +1,13 @@
+-- Migration 051: Image approval for every child in a group chat
+-- Images were only held for parent approval (image_approval, migration 039) in 1:1 chats, so a child whose
+-- parents approve images saw every group image unchecked. Now an image sent to a group is queued once for
+-- each other child member whose parents must approve it (src/lib/image-review.ts); it stays hidden from
+-- the whole group until it is approved for all of them, and one rejection keeps it hidden.
+
+ALTER TABLE public.image_review_queue
+  DROP CONSTRAINT IF EXISTS image_review_queue_message_id_key;
+
+ALTER TABLE public.image_review_queue
+  DROP CONSTRAINT IF EXISTS image_review_queue_message_id_child_id_key;
+ALTER TABLE public.image_review_queue
+  ADD CONSTRAINT image_review_queue_message_id_child_id_key UNIQUE (message_id, child_id);
@@ -0,0 +1,22 @@
+-- Migration 052: Parents change their links to children only through the API
+-- "Parents can manage own parent_child_links" (migration 003) let a parent update or delete their own
+-- links with the anon key, so the surveillance level and profile (read_access, alert_categories, ...)
+-- could be changed, or the child removed, without an entry in the surveillance audit log (migration 042).
+-- Those changes now only go through the API, which records them (src/lib/surveillance-audit.ts):
+-- POST /api/parent/update-surveillance-level, /api/parent/surveillance-profile,
+-- /api/parent/surveillance-graduation and /api/parent/remove-child.
+-- Parents still read their links and link a child from the dashboard.
+
+DROP POLICY IF EXISTS "Parents can manage own parent_child_links" ON public.parent_child_links;
+
+DROP POLICY IF EXISTS "Parents can view own parent_child_links" ON public.parent_child_links;
+CREATE POLICY "Parents can view own parent_child_links"
+  ON public.parent_child_links FOR SELECT
+  TO authenticated
+  USING (auth.uid() = parent_id);
+
+DROP POLICY IF EXISTS "Parents can link children" ON public.parent_child_links;
+CREATE POLICY "Parents can link children"
+  ON public.parent_child_links FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = parent_id);
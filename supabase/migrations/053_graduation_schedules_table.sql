@@ -0,0 +1,42 @@
+-- Migration 053: Graduation schedules in their own table
+-- The schedules (migration 040) were columns of parent_child_links, which every signed-in user can read
+-- ("Children can discover other children via links", migration 012), so the age brackets of each child
+-- were visible to everyone, although the birthdates themselves live in child_birthdates for privacy.
+-- They move to surveillance_graduation_schedules, which only the parent who set the schedule can read.
+-- Written through the API (service role, POST /api/parent/surveillance-graduation).
+
+CREATE TABLE IF NOT EXISTS public.surveillance_graduation_schedules (
+  link_id integer PRIMARY KEY REFERENCES public.parent_child_links(id) ON DELETE CASCADE,
+  parent_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  child_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- [{"preset": "strict", "until_age": 10}, ..., {"preset": "mild", "until_age": null}]; NULL = opted out
+  schedule jsonb,
+  mode text NOT NULL DEFAULT 'propose' CHECK (mode IN ('propose', 'apply')),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.surveillance_graduation_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parents can view own graduation schedules" ON public.surveillance_graduation_schedules;
+CREATE POLICY "Parents can view own graduation schedules"
+  ON public.surveillance_graduation_schedules FOR SELECT
+  TO authenticated
+  USING (parent_id = auth.uid());
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'parent_child_links' AND column_name = 'graduation_schedule'
+  ) THEN
+    INSERT INTO public.surveillance_graduation_schedules (link_id, parent_id, child_id, schedule, mode)
+    SELECT id, parent_id, child_id, graduation_schedule, graduation_mode
+    FROM public.parent_child_links
+    WHERE graduation_schedule IS NOT NULL OR graduation_mode <> 'propose'
+    ON CONFLICT (link_id) DO NOTHING;
+  END IF;
+END $$;
+
+ALTER TABLE public.parent_child_links
+  DROP COLUMN IF EXISTS graduation_schedule,
+  DROP COLUMN IF EXISTS graduation_mode;
@@ -0,0 +1,288 @@
+-- ============================================================
+-- RLS tests: surveillance levels, profiles and audit log (migrations 037, 038, 039, 042, 047, 052)
+-- Run in: Supabase Dashboard → SQL Editor (or psql against a database with all migrations applied)
+-- ============================================================
+-- Creates test users, chats and messages inside a transaction, checks what each parent can read
+-- as the 'authenticated' role, and rolls everything back. Any failed check raises an exception.
+--
+-- Child A has three parents: strict, medium and mild.
+-- Child A chats with child B (a flagged message) and with child C (nothing flagged).
+-- The levels are presets (migration 039); the last checks use a custom profile.
+-- The audit log (migration 042) is shared by co-parents and append-only; changes to the links only go
+-- through the API, which records them (migration 052).
+-- ============================================================
+
+BEGIN;
+
+-- ------------------------------------------------------------
+-- Fixtures
+-- ------------------------------------------------------------
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'rls-test-child-a@example.com'),
+  ('00000000-0000-0000-0000-0000000000b1', 'rls-test-child-b@example.com'),
+  ('00000000-0000-0000-0000-0000000000c1', 'rls-test-child-c@example.com'),
+  ('00000000-0000-0000-0000-0000000000f1', 'rls-test-parent-strict@example.com'),
+  ('00000000-0000-0000-0000-0000000000f2', 'rls-test-parent-medium@example.com'),
+  ('00000000-0000-0000-0000-0000000000f3', 'rls-test-parent-mild@example.com');
+
+-- public.users rows are normally created by the auth trigger
+INSERT INTO public.users (id, email) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'rls-test-child-a@example.com'),
+  ('00000000-0000-0000-0000-0000000000b1', 'rls-test-child-b@example.com'),
+  ('00000000-0000-0000-0000-0000000000c1', 'rls-test-child-c@example.com'),
+  ('00000000-0000-0000-0000-0000000000f1', 'rls-test-parent-strict@example.com'),
+  ('00000000-0000-0000-0000-0000000000f2', 'rls-test-parent-medium@example.com'),
+  ('00000000-0000-0000-0000-0000000000f3', 'rls-test-parent-mild@example.com')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.parent_child_links (parent_id, child_id, surveillance_level) VALUES
+  ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-0000000000a1', 'strict'),
+  ('00000000-0000-0000-0000-0000000000f2', '00000000-0000-0000-0000-0000000000a1', 'medium'),
+  ('00000000-0000-0000-0000-0000000000f3', '00000000-0000-0000-0000-0000000000a1', 'mild');
+
+INSERT INTO public.chats (id, user1_id, user2_id) VALUES
+  ('00000000-0000-0000-0000-00000000ab01', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000ac01', '00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000c1');
+
+INSERT INTO public.messages (id, chat_id, sender_id, content) VALUES
+  ('00000000-0000-0000-0000-0000000ab001', '00000000-0000-0000-0000-00000000ab01', '00000000-0000-0000-0000-0000000000b1', 'du er dum'),
+  ('00000000-0000-0000-0000-0000000ab002', '00000000-0000-0000-0000-00000000ab01', '00000000-0000-0000-0000-0000000000a1', 'hej'),
+  ('00000000-0000-0000-0000-0000000ac001', '00000000-0000-0000-0000-00000000ac01', '00000000-0000-0000-0000-0000000000c1', 'skal vi lege?');
+
+INSERT INTO public.moderation_events (message_id, chat_id, source, sender_id, category, matched_keyword, dedup_key, severity) VALUES
+  ('00000000-0000-0000-0000-0000000ab001', '00000000-0000-0000-0000-00000000ab01', 'keyword',
+   '00000000-0000-0000-0000-0000000000b1', 'bullying', 'dum', 'dum', 2);
+
+-- ------------------------------------------------------------
+-- Strict parent: every chat, but no messages
+-- (parents read messages through the API, which records the read in the audit log, migration 047)
+-- ------------------------------------------------------------
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000f1", "role": "authenticated"}', true);
+
+DO $$
+BEGIN
+  IF (SELECT count(*) FROM public.chats WHERE id IN ('00000000-0000-0000-0000-00000000ab01', '00000000-0000-0000-0000-00000000ac01')) <> 2 THEN
+    RAISE EXCEPTION 'strict parent should see both chats';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.messages WHERE chat_id IN ('00000000-0000-0000-0000-00000000ab01', '00000000-0000-0000-0000-00000000ac01')) THEN
+    RAISE EXCEPTION 'strict parent must not read messages directly';
+  END IF;
+  IF (SELECT count(*) FROM public.moderation_events WHERE chat_id = '00000000-0000-0000-0000-00000000ab01') <> 1 THEN
+    RAISE EXCEPTION 'strict parent should see the keyword event';
+  END IF;
+END $$;
+
+RESET ROLE;
+
+-- ------------------------------------------------------------
+-- Medium parent: only the chat with a flagged message, and no messages
+-- (medium parents read a redacted transcript through the API instead, migration 038)
+-- ------------------------------------------------------------
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000f2", "role": "authenticated"}', true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.chats WHERE id = '00000000-0000-0000-0000-00000000ab01') THEN
+    RAISE EXCEPTION 'medium parent should see the flagged chat';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.chats WHERE id = '00000000-0000-0000-0000-00000000ac01') THEN
+    RAISE EXCEPTION 'medium parent must not see the chat without flags';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.messages WHERE chat_id IN ('00000000-0000-0000-0000-00000000ab01', '00000000-0000-0000-0000-00000000ac01')) THEN
+    RAISE EXCEPTION 'medium parent must not read messages directly';
+  END IF;
+  IF (SELECT count(*) FROM public.moderation_events WHERE chat_id = '00000000-0000-0000-0000-00000000ab01') <> 1 THEN
+    RAISE EXCEPTION 'medium parent should see the keyword event';
+  END IF;
+END $$;
+
+RESET ROLE;
+
+-- A flag dismissed as a false positive no longer opens the chat
+UPDATE public.moderation_events SET status = 'dismissed'
+  WHERE chat_id = '00000000-0000-0000-0000-00000000ab01';
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000f2", "role": "authenticated"}', true);
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.chats WHERE id = '00000000-0000-0000-0000-00000000ab01') THEN
+    RAISE EXCEPTION 'medium parent must not see the chat once the only flag is dismissed';
+  END IF;
+END $$;
+
+RESET ROLE;
+
+UPDATE public.moderation_events SET status = 'open'
+  WHERE chat_id = '00000000-0000-0000-0000-00000000ab01';
+
+-- ------------------------------------------------------------
+-- Mild parent: no chats or messages, only reports and image flags
+-- ------------------------------------------------------------
+
+INSERT INTO public.moderation_events (message_id, chat_id, source, sender_id, reported_by, category, reason, dedup_key, severity) VALUES
+  ('00000000-0000-0000-0000-0000000ab001', '00000000-0000-0000-0000-00000000ab01', 'user_report',
+   '00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 'reported', 'ond',
+   '00000000-0000-0000-0000-0000000000a1', 3);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000f3", "role": "authenticated"}', true);
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.chats WHERE id IN ('00000000-0000-0000-0000-00000000ab01', '00000000-0000-0000-0000-00000000ac01')) THEN
+    RAISE EXCEPTION 'mild parent must not see any chat';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.messages WHERE chat_id IN ('00000000-0000-0000-0000-00000000ab01', '00000000-0000-0000-0000-00000000ac01')) THEN
+    RAISE EXCEPTION 'mild parent must not see any message';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.moderation_events WHERE chat_id = '00000000-0000-0000-0000-00000000ab01' AND source = 'keyword') THEN
+    RAISE EXCEPTION 'mild parent must not see keyword events';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.moderation_events WHERE chat_id = '00000000-0000-0000-0000-00000000ab01' AND source = 'user_report') THEN
+    RAISE EXCEPTION 'mild parent should see the child''s report';
+  END IF;
+END $$;
+
+RESET ROLE;
+
+-- ------------------------------------------------------------
+-- Presets fill in the profile; a custom profile's read access applies
+-- ------------------------------------------------------------
+
+DO $$
+BEGIN
+  IF (SELECT read_access FROM public.parent_child_links
+      WHERE parent_id = '00000000-0000-0000-0000-0000000000f1' AND child_id = '00000000-0000-0000-0000-0000000000a1') <> 'full'
+     OR NOT (SELECT hold_risky_messages FROM public.parent_child_links
+      WHERE parent_id = '00000000-0000-0000-0000-0000000000f1' AND child_id = '00000000-0000-0000-0000-0000000000a1') THEN
+    RAISE EXCEPTION 'strict preset should give full read access and hold risky messages';
+  END IF;
+END $$;
+
+-- The mild parent keeps mild alerts but reads flagged chats
+UPDATE public.parent_child_links SET surveillance_level = 'custom', read_access = 'flagged'
+  WHERE parent_id = '00000000-0000-0000-0000-0000000000f3' AND child_id = '00000000-0000-0000-0000-0000000000a1';
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000f3", "role": "authenticated"}', true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.chats WHERE id = '00000000-0000-0000-0000-00000000ab01') THEN
+    RAISE EXCEPTION 'custom profile with flagged read access should see the flagged chat';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.chats WHERE id = '00000000-0000-0000-0000-00000000ac01') THEN
+    RAISE EXCEPTION 'custom profile with flagged read access must not see the chat without flags';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.moderation_events WHERE chat_id = '00000000-0000-0000-0000-00000000ab01' AND source = 'keyword') THEN
+    RAISE EXCEPTION 'custom profile with flagged read access should see keyword events';
+  END IF;
+END $$;
+
+RESET ROLE;
+
+-- Going back to a preset resets the profile
+UPDATE public.parent_child_links SET surveillance_level = 'mild'
+  WHERE parent_id = '00000000-0000-0000-0000-0000000000f3' AND child_id = '00000000-0000-0000-0000-0000000000a1';
+
+DO $$
+BEGIN
+  IF (SELECT read_access FROM public.parent_child_links
+      WHERE parent_id = '00000000-0000-0000-0000-0000000000f3' AND child_id = '00000000-0000-0000-0000-0000000000a1') <> 'none' THEN
+    RAISE EXCEPTION 'mild preset should reset read access to none';
+  END IF;
+END $$;
+
+-- ------------------------------------------------------------
+-- The child still reads their own chats
+-- ------------------------------------------------------------
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+
+DO $$
+BEGIN
+  IF (SELECT count(*) FROM public.messages WHERE chat_id IN ('00000000-0000-0000-0000-00000000ab01', '00000000-0000-0000-0000-00000000ac01')) <> 3 THEN
+    RAISE EXCEPTION 'child should see all messages in their own chats';
+  END IF;
+END $$;
+
+RESET ROLE;
+
+-- ------------------------------------------------------------
+-- Audit log: every co-parent sees it, nobody can change it
+-- ------------------------------------------------------------
+
+INSERT INTO public.surveillance_audit_log (child_id, actor_id, action, details, visible_to) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000f1', 'chat_read',
+   '{"chatId": "00000000-0000-0000-0000-00000000ab01"}', ARRAY['00000000-0000-0000-0000-0000000000f1']::uuid[]);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000f3", "role": "authenticated"}', true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.surveillance_audit_log WHERE child_id = '00000000-0000-0000-0000-0000000000a1') THEN
+    RAISE EXCEPTION 'co-parent should see the audit log of the child';
+  END IF;
+END $$;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000b1", "role": "authenticated"}', true);
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.surveillance_audit_log WHERE child_id = '00000000-0000-0000-0000-0000000000a1') THEN
+    RAISE EXCEPTION 'other users must not see the audit log of the child';
+  END IF;
+END $$;
+
+RESET ROLE;
+
+DO $$
+BEGIN
+  BEGIN
+    DELETE FROM public.surveillance_audit_log WHERE child_id = '00000000-0000-0000-0000-0000000000a1';
+    RAISE EXCEPTION 'audit log entries must not be deletable';
+  EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM <> 'surveillance_audit_log is append-only' THEN
+      RAISE;
+    END IF;
+  END;
+END $$;
+
+-- ------------------------------------------------------------
+-- Links: levels and profiles can't be changed around the audit log (migration 052)
+-- ------------------------------------------------------------
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000f3", "role": "authenticated"}', true);
+
+DO $$
+DECLARE
+  changed integer;
+BEGIN
+  UPDATE public.parent_child_links SET read_access = 'full'
+  WHERE parent_id = '00000000-0000-0000-0000-0000000000f3';
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  IF changed <> 0 THEN
+    RAISE EXCEPTION 'parent must not update their links directly';
+  END IF;
+  DELETE FROM public.parent_child_links WHERE parent_id = '00000000-0000-0000-0000-0000000000f3';
+  GET DIAGNOSTICS changed = ROW_COUNT;
+  IF changed <> 0 THEN
+    RAISE EXCEPTION 'parent must not delete their links directly';
+  END IF;
+END $$;
+
+RESET ROLE;
+
+SELECT 'surveillance_levels_rls: all checks passed' AS result;
+
+ROLLBACK;